@@ -17,6 +17,10 @@ const AdminInvitesPage = lazy(() => import("./pages_legacy/AdminInvites"))
 const LoginPage = lazy(() => import("./pages_legacy/Login"))
 const InviteGatePage = lazy(() => import("./pages_legacy/InviteGate"))
 const InventoryPage = lazy(() => import("./features/inventory/pages/InventoryPage"))
+const DeliveriesPage = lazy(() => import("./features/deliveries/pages/DeliveriesPage"))
+const StocktakesPage = lazy(() => import("./features/stocktakes/pages/StocktakesPage"))
+const MaterialsPage = lazy(() => import("./features/materials/pages/MaterialsPage"))
+const ProductionPage = lazy(() => import("./features/production/pages/ProductionPage"))
 
 import { supabase, getOrCreateMyProfile } from "./lib/supabaseClient"
 
@@ -158,6 +162,10 @@ export default function App() {
           <Route path="/" element={<Navigate to="/dashboard" replace />} />
           <Route path="/dashboard" element={<DashboardPage />} />
           <Route path="/inventory" element={<InventoryPage />} />
+          <Route path="/deliveries" element={<DeliveriesPage />} />
+          <Route path="/stocktakes" element={<StocktakesPage />} />
+          <Route path="/materials" element={<MaterialsPage />} />
+          <Route path="/production" element={<ProductionPage />} />
           <Route path="/products" element={<ProductsPage />} />
           <Route path="/stores" element={<StoresPage />} />
           <Route path="/settings" element={<SettingsPage />} />
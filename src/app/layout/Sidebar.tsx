@@ -17,6 +17,10 @@ const navSections: Array<{
       { to: "/dashboard", label: "대시보드" },
       { to: "/settlements", label: "정산" },
       { to: "/inventory", label: "재고" },
+      { to: "/production", label: "제작 지시" },
+      { to: "/deliveries", label: "납품" },
+      { to: "/stocktakes", label: "재고 실사" },
+      { to: "/materials", label: "재료 재고" },
     ],
   },
   {
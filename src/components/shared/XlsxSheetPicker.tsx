@@ -0,0 +1,42 @@
+import { AppSelect } from "@/components/app/AppSelect"
+import { headerRowChoices, type XlsxWorkbook } from "@/lib/xlsx"
+
+/**
+ * 엑셀 시트 / 헤더 행 선택 (정산·제품 업로드 공용)
+ * - headerRow: 헤더 앞 건너뛸 줄 수 (0 = 자동 감지)
+ */
+export function XlsxSheetPicker(props: {
+  book: XlsxWorkbook
+  sheetIndex: number
+  onSheetChange: (index: number) => void
+  headerRow: number
+  onHeaderRowChange: (headerRow: number) => void
+  disabled?: boolean
+}) {
+  const { book, sheetIndex, headerRow, disabled } = props
+  const rows = book.sheets[sheetIndex]?.rows ?? []
+
+  return (
+    <>
+      <label className="grid gap-1">
+        <span className="text-xs text-muted-foreground">시트</span>
+        <AppSelect
+          value={String(sheetIndex)}
+          onValueChange={(v) => props.onSheetChange(Number(v))}
+          options={book.sheets.map((sh, i) => ({ value: String(i), label: sh.name }))}
+          disabled={disabled}
+        />
+      </label>
+
+      <label className="grid gap-1">
+        <span className="text-xs text-muted-foreground">헤더 행</span>
+        <AppSelect
+          value={String(headerRow)}
+          onValueChange={(v) => props.onHeaderRowChange(Math.max(0, Number(v) || 0))}
+          options={headerRowChoices(rows)}
+          disabled={disabled}
+        />
+      </label>
+    </>
+  )
+}
@@ -13,6 +13,19 @@ export type Product = {
   price?: number | null;
   sku?: string | null;
   barcode?: string | null;
+
+  // ✅ 옵션 상품(색상/사이즈 등)
+  // - 대표 제품: optionAxes에 옵션 축 정의, 재고/정산은 옵션 상품 단위
+  // - 옵션 상품: parentId + optionValues, price는 대표 가격 상속 후 priceOverride로 덮어씀
+  parentId?: Id | null;
+  optionAxes?: ProductOptionAxis[] | null;
+  optionValues?: Record<string, string> | null;
+  priceOverride?: number | null; // 옵션 상품 자체 가격 (null = 대표 가격)
+};
+
+export type ProductOptionAxis = {
+  name: string; // 예: 색상
+  values: string[]; // 예: 네이비, 베이지
 };
 
 export type Store = {
@@ -35,6 +48,20 @@ export type Store = {
   settlementCycle?: "monthly" | "weekly" | "biweekly" | "ad-hoc" | null
   settlementDay?: number | null
   settlementNote?: string | null
+  nameAliases?: string[] | null // 정산 파일에 적히는 다른 이름 (통합 정산서 입점처 매칭)
+  depositorNames?: string[] | null // 통장에 찍히는 입금자명 (은행 입금 대사)
+};
+
+// ✅ 입점처 계약 조건 이력: effectiveFrom부터 적용 (정산은 기간 시작일에 적용되는 조건으로 계산)
+export type StoreTerms = {
+  id: Id;
+  storeId: Id;
+  effectiveFrom: string; // YYYY-MM-DD
+  commissionRate: number | null; // % (Store.commissionRate와 같음)
+  storeFee: number | null;
+  settlementCycle: "monthly" | "weekly" | "biweekly" | "ad-hoc" | null;
+  settlementDay: number | null;
+  memo: string | null;
 };
 
 export type InventoryItem = {
@@ -44,6 +71,107 @@ export type InventoryItem = {
   updatedAt: number;
 };
 
+// ✅ 보관 장소(작업실/창고): 제작 완료 후 아직 납품하지 않은 재고 위치
+export type Warehouse = {
+  id: Id;
+  name: string;
+  memo: string | null;
+  isDefault: boolean;
+  createdAt: number;
+};
+
+export type WarehouseStockItem = {
+  warehouseId: Id;
+  productId: Id;
+  onHandQty: number;
+  updatedAt: number;
+};
+
+// ✅ 원부자재 라이브러리 (마진 계산기와 공유, 단가의 단일 출처)
+export type MaterialLibraryItem = {
+  id: Id;
+  name: string;
+  unitPrice: number; // unit 1개당 단가
+  updatedAt: number;
+
+  // ✅ 재료 재고 (unit 기준 수량)
+  stockQty?: number;
+  unit?: string | null; // 예: "m", "개"
+  purchaseUnit?: string | null; // 예: "롤"
+  purchaseUnitQty?: number | null; // 구매 단위 1개 = unit 몇 개 (예: 1롤 = 50m)
+};
+
+// ✅ 제품 재료 구성(BOM): 제품 1개를 만드는 데 드는 재료 수량
+export type ProductMaterial = {
+  productId: Id;
+  materialId: Id;
+  quantity: number;
+};
+
+// ✅ 재고 변동 원장 (append-only). InventoryItem.onHandQty = 원장 qtyDelta 합계
+export type InventoryMovementReason =
+  | "delivery"
+  | "sale"
+  | "adjustment"
+  | "return"
+  | "loss"
+  | "count_variance" // 재고 실사 확정 시 차이 조정
+  | "production"; // 제작 지시 완료 시 작업실 입고
+
+export type InventoryMovement = {
+  id: string;
+  storeId: Id | null; // 입점처 재고
+  warehouseId: Id | null; // 작업실/창고 재고 (둘 중 하나만 존재)
+  productId: Id;
+  qtyDelta: number; // +입고 / -출고
+  reason: InventoryMovementReason;
+  sourceType: string | null; // 예: "settlement", "inventory_page"
+  sourceId: string | null;
+  memo: string | null;
+  createdBy: string | null;
+  createdAt: string;
+};
+
+// ✅ 납품서: 작업실/창고 → 입점처 재고 이동 (라인은 확정 시점 제품 정보 스냅샷)
+export type DeliveryNoteLine = {
+  productId: Id;
+  productName: string;
+  barcode: string | null;
+  unitPrice: number | null;
+  qty: number;
+};
+
+export type DeliveryNote = {
+  id: string;
+  storeId: Id;
+  warehouseId: Id;
+  memo: string | null;
+  totalQty: number;
+  totalAmount: number;
+  createdAt: string;
+  lines: DeliveryNoteLine[];
+};
+
+// ✅ 재고 실사: 시작 시점 재고(expected)를 고정하고 실제 수량(counted)을 입력
+export type StocktakeStatus = "open" | "posted" | "cancelled";
+
+export type StocktakeLine = {
+  productId: Id;
+  expectedQty: number;
+  countedQty: number | null; // null = 아직 세지 않음
+  unitPrice: number | null; // 시작 시점 Product.price
+};
+
+export type Stocktake = {
+  id: string;
+  storeId: Id;
+  status: StocktakeStatus;
+  memo: string | null;
+  createdAt: string;
+  postedAt: string | null;
+  lines: StocktakeLine[];
+};
+
 export type Settlement = {
   id: Id;
   storeId: Id;
@@ -56,19 +184,93 @@ export type Settlement = {
 export type SettlementV2 = {
   id: string
   marketplace_id: string
-  period_month: string
+  period_month: string // 시작일이 속한 월
+  period_start: string // YYYY-MM-DD
+  period_end: string // YYYY-MM-DD (포함)
   gross_amount: number
   net_amount: number
+  payout_due_date: string | null // 입금 예정일 직접 지정 (null = 입점처 정산 주기로 계산)
+  paid_amount: number // 입금 기록 합계
+  last_paid_on: string | null
   created_at: string
 }
 
-export type Plan = {
+// ✅ 정산 CSV 가져오기 프로필 (입점처별)
+// - mapping: 앱 필드 → CSV 헤더명
+// - amountBasis: 금액이 수수료 전(gross)인지 후(net)인지
+// - amountKind: 금액이 행 합계(line_total)인지 개당 단가(unit_price)인지
+export type SettlementColumnMapping = {
+  barcode: string;
+  sold_qty: string;
+  amount: string;
+  sku?: string; // 선택: 바코드가 없을 때 매칭용
+  product_name?: string; // 선택: 별칭/이름 유사도 매칭용
+  store?: string; // 선택: 통합 정산서의 입점처 컬럼 (비면 선택한 입점처)
+  period?: string; // 선택: 정산월/판매일 컬럼 (비면 선택한 월)
+  line_kind?: string; // 선택: 구분 컬럼 (판매/반품/할인/배송비/광고비, 비면 수량·금액 부호로 판단)
+};
+
+// ✅ 정산 라인 유형: 판매 + 조정(반품/할인/배송비/광고비)
+export type SettlementLineKind = "sale" | "return" | "discount" | "shipping" | "ad_fee";
+
+export type SettlementAmountBasis = "gross" | "net";
+export type SettlementAmountKind = "line_total" | "unit_price";
+
+export type SettlementImportProfile = {
+  id: Id;
+  storeId: Id;
+  name: string;
+  mapping: SettlementColumnMapping;
+  delimiter: string | null; // null = 자동 감지
+  headerRow: number; // 헤더 앞에 건너뛸 줄 수
+  footerRows: number; // 끝에서 버릴 줄 수
+  skipKeywords: string[];
+  amountBasis: SettlementAmountBasis;
+  amountKind: SettlementAmountKind;
+  isDefault: boolean;
+  updatedAt: number;
+};
+
+// ✅ 입점처 수수료 규칙 (요율은 % 단위, Store.commissionRate와 같음)
+// - 라인 요율: 상품 > 카테고리 > 구간(기간 매출 기준) > 기본 요율
+// - 개당 고정 수수료, 월 입점료(Store.storeFee) 차감은 선택
+export type CommissionRuleSet = {
+  categoryRates: Array<{ category: string; rate: number }>;
+  productRates: Array<{ productId: Id; rate: number }>;
+  tiers: Array<{ minGross: number; rate: number }>; // 기간 매출이 minGross 이상이면 기본 요율 대신
+  itemFee: number; // 판매 1개당 (원)
+  applyStoreFee: boolean;
+};
+
+// ✅ 정산 제품 별칭: 업로드에서 수동으로 고른 매칭을 입점처별로 기억
+export type ProductAliasKind = "barcode" | "sku" | "name";
+
+export type ProductAlias = {
   id: Id;
   storeId: Id;
+  kind: ProductAliasKind;
+  aliasKey: string; // 정규화 값
+  aliasRaw: string; // 파일 원래 값
+  productId: Id;
+  hitCount: number;
+  updatedAt: number;
+};
+
+// ✅ 제작 지시: 제작 리스트에서 고른 제품/수량. 완료하면 warehouseId에 입고
+export type PlanStatus = "planned" | "in_progress" | "done" | "cancelled";
+
+export type Plan = {
+  id: Id;
+  storeId: Id | null; // 지시를 만든 입점처 (전체 기준이면 null)
+  warehouseId: Id;
   month: string; // YYYY-MM
+  dueDate: string | null; // YYYY-MM-DD
+  status: PlanStatus;
+  memo: string | null;
   items: Array<{ productId: Id; makeQty: number }>;
   createdAt: number;
   updatedAt: number;
+  completedAt: number | null;
 };
 
 export type AppData = {
@@ -76,9 +278,14 @@ export type AppData = {
   products: Product[];
   stores: Store[];
   inventory: InventoryItem[];
+  warehouses: Warehouse[];
+  warehouseStock: WarehouseStockItem[];
+  materials: MaterialLibraryItem[];
+  productMaterials: ProductMaterial[];
   storeProductStates: StoreProductState[];
   settlements: Settlement[];
   settlementsV2: SettlementV2[];
+  storeTerms: StoreTerms[];
   plans: Plan[];
   updatedAt: number;
 };
@@ -87,4 +294,26 @@ export interface StoreProductState {
   storeId: Id;
   productId: Id;
   enabled: boolean;
+  targetQtyOverride?: number | null; // 입점처×제품 목표 재고 직접 지정 (null = 규칙 따름)
 }
+
+// ✅ 목표 재고 규칙 (profiles)
+// - fixed: 기본 목표(또는 입점처 override) 고정
+// - velocity: 최근 velocityMonths개월 월평균 판매량 × coverMonths, min/max로 clamp
+export type TargetMode = "fixed" | "velocity";
+
+export type TargetSettings = {
+  mode: TargetMode;
+  velocityMonths: number;
+  coverMonths: number;
+  minQty: number | null;
+  maxQty: number | null;
+};
+
+// 정산(settlement_lines_v2) 기준 입점처×제품 월 판매량
+export type StoreProductMonthlySales = {
+  storeId: Id;
+  productId: Id;
+  month: string; // YYYY-MM
+  qtySold: number;
+};
@@ -1,6 +1,28 @@
 // src/data/store.supabase.ts
+import { isIsoDate, monthPeriod, periodOf, splitPeriodByMonth } from "../lib/settlementPeriod"
 import { supabase } from "../lib/supabaseClient"
-import type { AppData, Product, Store } from "./models"
+import type {
+  AppData,
+  DeliveryNote,
+  DeliveryNoteLine,
+  InventoryMovement,
+  InventoryMovementReason,
+  MaterialLibraryItem,
+  Plan,
+  PlanStatus,
+  Product,
+  ProductAlias,
+  ProductOptionAxis,
+  CommissionRuleSet,
+  SettlementImportProfile,
+  SettlementLineKind,
+  Stocktake,
+  StocktakeStatus,
+  Store,
+  StoreProductMonthlySales,
+  StoreTerms,
+  Warehouse,
+} from "./models"
 import { createEmptyData } from "./store"
 
 /* =========================
@@ -17,6 +39,9 @@ type DBProduct = {
   price: number | null
   sku: string | null
   barcode: string | null
+  parent_id?: string | null
+  option_axes?: ProductOptionAxis[] | null
+  option_values?: Record<string, string> | null
 }
 
 type DBStore = {
@@ -38,8 +63,23 @@ type DBStore = {
   settlement_cycle: string | null
   settlement_day: number | null
   settlement_note: string | null
+  name_aliases: string[] | null
+  depositor_names: string[] | null
 }
 
+type DBStoreTerms = {
+  id: string
+  store_id: string
+  effective_from: string
+  commission_rate: number | null
+  store_fee: number | null
+  settlement_cycle: string | null
+  settlement_day: number | null
+  memo: string | null
+}
+
+const STORE_TERMS_SELECT = "id,store_id,effective_from,commission_rate,store_fee,settlement_cycle,settlement_day,memo"
+
 type DBInventory = {
   store_id: string
   product_id: string
@@ -47,6 +87,103 @@ type DBInventory = {
   updated_at: string
 }
 
+type DBWarehouse = {
+  id: string
+  name: string
+  memo: string | null
+  is_default: boolean | null
+  created_at: string
+}
+
+type DBWarehouseStock = {
+  warehouse_id: string
+  product_id: string
+  on_hand_qty: number | null
+  updated_at: string
+}
+
+type DBMaterialLibrary = {
+  id: string
+  name: string
+  unit_price: number | null
+  updated_at: string | null
+  stock_qty: number | string | null
+  unit: string | null
+  purchase_unit: string | null
+  purchase_unit_qty: number | string | null
+}
+
+type DBProductMaterial = {
+  product_id: string
+  material_id: string
+  quantity: number | string | null
+}
+
+type DBProductionPlan = {
+  id: string
+  store_id: string | null
+  warehouse_id: string
+  month: string
+  due_date: string | null
+  status: PlanStatus
+  memo: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+  production_plan_items: Array<{ product_id: string; make_qty: number }> | null
+}
+
+type DBDeliveryNoteLine = {
+  product_id: string
+  product_name: string
+  barcode: string | null
+  unit_price: number | null
+  qty: number
+}
+
+type DBDeliveryNote = {
+  id: string
+  store_id: string
+  warehouse_id: string
+  memo: string | null
+  total_qty: number | null
+  total_amount: number | null
+  created_at: string
+  delivery_note_lines: DBDeliveryNoteLine[] | null
+}
+
+type DBStocktakeLine = {
+  product_id: string
+  expected_qty: number
+  counted_qty: number | null
+  unit_price: number | null
+}
+
+type DBStocktake = {
+  id: string
+  store_id: string
+  status: StocktakeStatus
+  memo: string | null
+  created_at: string
+  posted_at: string | null
+  stocktake_lines: DBStocktakeLine[] | null
+}
+
+type DBInventoryMovement = {
+  id: string
+  user_id: string
+  store_id: string | null
+  warehouse_id: string | null
+  product_id: string
+  qty_delta: number
+  reason: InventoryMovementReason
+  source_type: string | null
+  source_id: string | null
+  memo: string | null
+  created_by: string | null
+  created_at: string
+}
+
 /**
  * ⚠️ Legacy(기존 구현): settlements / settlement_items 기반
  * - store_id, month 구조
@@ -71,7 +208,7 @@ type DBLegacySettlementItem = {
 
 /**
  * ✅ New(정산 자동 계산 엔진): marketplace_settings / settlements / settlement_lines 기반
- * - user_id + marketplace_id(=store.id) + period_month(YYYY-MM)
+ * - user_id + marketplace_id(=store.id) + period_start~period_end (같은 입점처 기간은 겹칠 수 없음)
  * - 아래 CRUD 함수로 사용
  */
 
@@ -80,10 +217,13 @@ type DBSettlement = {
   user_id: string
   marketplace_id: string
   period_month: string
+  period_start: string
+  period_end: string
   currency: string
   gross_amount: number
   commission_rate: number
   commission_amount: number
+  deduction_amount: number // 배송비/광고비 차감 합계 (net = gross - commission - deduction)
   net_amount: number
   rows_count: number
   status: "draft" | "confirmed"
@@ -91,6 +231,58 @@ type DBSettlement = {
   created_at: string
   updated_at: string
   apply_to_inventory: boolean
+  payout_due_date: string | null // 입금 예정일 직접 지정 (null = 정산 주기로 계산)
+  paid_amount: number // 입금 기록 합계 (트리거로 갱신)
+  last_paid_on: string | null
+  commission_breakdown?: DBCommissionBreakdown | null // 상세 조회(select *)에서만
+}
+
+// evaluate_settlement_commission 이 저장하는 수수료 내역
+export type DBCommissionBreakdown = {
+  base_rate: number
+  terms_from?: string | null // 적용한 입점처 조건 이력의 시작일 (이력 없으면 null)
+  tier: { min_gross: number; rate: number } | null
+  rate_commission: number
+  item_fee: number
+  item_fees: number
+  store_fee: number
+  deductions?: { shipping: number; ad_fee: number }
+  by_rule: Array<{ rule: string; gross: number; qty: number; amount: number }>
+}
+
+// commission_rule_sets.rules (요율은 %)
+type DBCommissionRules = {
+  category_rates?: Array<{ category: string; rate: number }>
+  product_rates?: Array<{ product_id: string; rate: number }>
+  tiers?: Array<{ min_gross: number; rate: number }>
+  item_fee?: number
+  apply_store_fee?: boolean
+}
+
+type DBSettlementImportProfile = {
+  id: string
+  store_id: string
+  name: string
+  column_mapping: Partial<SettlementImportProfile["mapping"]> | null
+  delimiter: string | null
+  header_row: number
+  footer_rows: number
+  skip_keywords: string[] | null
+  amount_basis: SettlementImportProfile["amountBasis"]
+  amount_kind: SettlementImportProfile["amountKind"]
+  is_default: boolean
+  updated_at: string
+}
+
+type DBProductAlias = {
+  id: string
+  store_id: string
+  kind: ProductAlias["kind"]
+  alias_key: string
+  alias_raw: string
+  product_id: string
+  hit_count: number
+  updated_at: string
 }
 
 type DBSettlementLine = {
@@ -106,6 +298,51 @@ type DBSettlementLine = {
   unit_price: number | null
   gross_amount: number
   match_status: "matched" | "unmatched" | "manual"
+  line_kind: SettlementLineKind
+  batch_id: string | null
+  commission_amount: number
+  commission_rule: string | null // base / tier / product / category:<카테고리>
+  created_at: string
+}
+
+// 정산 업로드 배치: 같은 정산 기간에 올린 파일 1개 = 배치 1개
+type DBSettlementBatch = {
+  id: string
+  user_id: string
+  settlement_id: string
+  marketplace_id: string
+  source_filename: string | null
+  rows_count: number
+  qty_total: number
+  gross_amount: number
+  apply_to_inventory: boolean
+  created_at: string
+}
+
+// 정산 입금 기록: 부분 입금이면 여러 건
+type DBSettlementPayment = {
+  id: string
+  user_id: string
+  settlement_id: string
+  marketplace_id: string
+  amount: number
+  paid_on: string // YYYY-MM-DD
+  memo: string | null
+  bank_deposit_id: string | null // 은행 입금 대사로 연결된 기록
+  created_at: string
+}
+
+// 통장 거래내역에서 가져온 입금 1건
+type DBBankDeposit = {
+  id: string
+  user_id: string
+  deposited_on: string // YYYY-MM-DD
+  depositor: string
+  amount: number
+  memo: string | null
+  source_filename: string | null
+  dedupe_key: string
+  ignored: boolean
   created_at: string
 }
 
@@ -220,18 +457,25 @@ export async function loadDataFromDB(): Promise<AppData> {
     settlementsRes,
     settlementsV2Res,
     settlementItemsRes,
+    warehousesRes,
+    warehouseStockRes,
+    materialsRes,
+    productMaterialsRes,
+    plansRes,
+    storeTermsRes,
   ] = await Promise.all([
     supabase
       .from("products")
-      .select("id,name,category,active,make_enabled,created_at,price,sku,barcode")
+      .select("id,name,category,active,make_enabled,created_at,price,sku,barcode,parent_id,option_axes,option_values")
       .eq("user_id", userId)
-      .order("created_at"),
+      .order("created_at")
+      .returns<DBProduct[]>(),
 
     supabase
       .from("stores")
       .select(
         "id,name,created_at,commission_rate,memo,target_qty_override,contact_name,phone,address," +
-          "store_status,channel,tags,store_fee,settlement_cycle,settlement_day,settlement_note"
+          "store_status,channel,tags,store_fee,settlement_cycle,settlement_day,settlement_note,name_aliases,depositor_names"
       )
       .eq("user_id", userId)
       .order("created_at")
@@ -252,7 +496,9 @@ export async function loadDataFromDB(): Promise<AppData> {
     // settlements v2 (new engine header list)
     supabase
       .from("settlements_v2")
-      .select("id, marketplace_id, period_month, gross_amount, net_amount, created_at")
+      .select(
+        "id, marketplace_id, period_month, period_start, period_end, gross_amount, net_amount, payout_due_date, paid_amount, last_paid_on, created_at"
+      )
       .eq("user_id", userId)
       .order("created_at", { ascending: false }),
 
@@ -261,6 +507,48 @@ export async function loadDataFromDB(): Promise<AppData> {
       .from("settlement_items")
       .select("settlement_id,product_id,sold_qty,unit_price,currency,created_at")
       .eq("user_id", userId),
+
+    // 보관 장소(작업실/창고) + 재고
+    supabase
+      .from("warehouses")
+      .select("id,name,memo,is_default,created_at")
+      .eq("user_id", userId)
+      .order("created_at"),
+
+    supabase
+      .from("warehouse_stock")
+      .select("warehouse_id,product_id,on_hand_qty,updated_at")
+      .eq("user_id", userId),
+
+    // 원부자재 라이브러리 + 제품 재료 구성(BOM)
+    supabase
+      .from("material_library")
+      .select("id,name,unit_price,updated_at,stock_qty,unit,purchase_unit,purchase_unit_qty")
+      .eq("user_id", userId)
+      .returns<DBMaterialLibrary[]>(),
+
+    supabase
+      .from("product_materials")
+      .select("product_id,material_id,quantity")
+      .eq("user_id", userId)
+      .returns<DBProductMaterial[]>(),
+
+    // 제작 지시 (최근 것만)
+    supabase
+      .from("production_plans")
+      .select(PRODUCTION_PLAN_SELECT)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(200)
+      .returns<DBProductionPlan[]>(),
+
+    // 입점처 계약 조건 이력
+    supabase
+      .from("store_terms")
+      .select(STORE_TERMS_SELECT)
+      .eq("user_id", userId)
+      .order("effective_from")
+      .returns<DBStoreTerms[]>(),
   ])
 
   const err =
@@ -269,7 +557,13 @@ export async function loadDataFromDB(): Promise<AppData> {
     invRes.error ||
     settlementsRes.error ||
     settlementsV2Res.error ||
-    settlementItemsRes.error
+    settlementItemsRes.error ||
+    warehousesRes.error ||
+    warehouseStockRes.error ||
+    materialsRes.error ||
+    productMaterialsRes.error ||
+    plansRes.error ||
+    storeTermsRes.error
 
   if (err) throw err
 
@@ -279,6 +573,13 @@ export async function loadDataFromDB(): Promise<AppData> {
   const settlements = (settlementsRes.data ?? []) as DBLegacySettlement[]
   const settlementsV2 = (settlementsV2Res.data ?? []) as any[]
   const settlementItems = (settlementItemsRes.data ?? []) as DBLegacySettlementItem[]
+  const warehouseStock = (warehouseStockRes.data ?? []) as DBWarehouseStock[]
+
+  // ✅ 보관 장소가 하나도 없으면 기본 "작업실" 생성
+  let warehouses = (warehousesRes.data ?? []) as DBWarehouse[]
+  if (warehouses.length === 0) {
+    warehouses = [await ensureDefaultWarehouseDB()]
+  }
 
   // legacy: settlement_id -> items
   const itemsBySettlementId = new Map<string, DBLegacySettlementItem[]>()
@@ -289,6 +590,8 @@ export async function loadDataFromDB(): Promise<AppData> {
     itemsBySettlementId.set(sid, arr)
   }
 
+  const productPriceById = new Map(products.map((p) => [p.id, p.price]))
+
   // seed 보장 (store/product 조합이 실제로 비어있을 수 있으므로)
   await ensureStoreProductStatesSeedDB({
     storeIds: stores.map((s) => s.id),
@@ -298,7 +601,7 @@ export async function loadDataFromDB(): Promise<AppData> {
   // store_product_states는 최종 1회만 읽음
   const { data: sps, error: spsErr } = await supabase
     .from("store_product_states")
-    .select("store_id,product_id,enabled")
+    .select("store_id,product_id,enabled,target_qty_override")
     .eq("user_id", userId)
 
   if (spsErr) throw spsErr
@@ -311,22 +614,37 @@ export async function loadDataFromDB(): Promise<AppData> {
       id: s.id,
       marketplace_id: s.marketplace_id,
       period_month: s.period_month,
+      period_start: s.period_start,
+      period_end: s.period_end,
       gross_amount: s.gross_amount ?? 0,
       net_amount: s.net_amount ?? 0,
+      payout_due_date: s.payout_due_date ?? null,
+      paid_amount: Number(s.paid_amount ?? 0),
+      last_paid_on: s.last_paid_on ?? null,
       created_at: s.created_at,
     })),
 
-    products: products.map((p) => ({
-      id: p.id,
-      name: p.name,
-      category: p.category,
-      active: p.active ?? true,
-      makeEnabled: p.make_enabled ?? true,
-      createdAt: new Date(p.created_at).getTime(),
-      price: p.price ?? 0,
-      sku: p.sku ?? null,
-      barcode: p.barcode ?? null,
-    })),
+    storeTerms: (storeTermsRes.data ?? []).map(toStoreTerms),
+
+    products: products.map((p) => {
+      // 옵션 상품: 가격이 비어있으면 대표 제품 가격 상속
+      const parentPrice = p.parent_id ? productPriceById.get(p.parent_id) : undefined
+      return {
+        id: p.id,
+        name: p.name,
+        category: p.category,
+        active: p.active ?? true,
+        makeEnabled: p.make_enabled ?? true,
+        createdAt: new Date(p.created_at).getTime(),
+        price: p.price ?? parentPrice ?? 0,
+        sku: p.sku ?? null,
+        barcode: p.barcode ?? null,
+        parentId: p.parent_id ?? null,
+        optionAxes: p.option_axes ?? null,
+        optionValues: p.option_values ?? null,
+        priceOverride: p.parent_id ? p.price ?? null : null,
+      }
+    }),
 
     stores: stores.map((s) => ({
       id: s.id,
@@ -350,6 +668,8 @@ export async function loadDataFromDB(): Promise<AppData> {
       settlementCycle: (s.settlement_cycle as any) ?? null,
       settlementDay: s.settlement_day ?? null,
       settlementNote: s.settlement_note ?? null,
+      nameAliases: s.name_aliases ?? [],
+      depositorNames: s.depositor_names ?? [],
     })),
 
     inventory: inventory.map((i) => ({
@@ -359,10 +679,30 @@ export async function loadDataFromDB(): Promise<AppData> {
       updatedAt: new Date(i.updated_at).getTime(),
     })),
 
+    warehouses: warehouses.map(toWarehouse),
+
+    warehouseStock: warehouseStock.map((w) => ({
+      warehouseId: w.warehouse_id,
+      productId: w.product_id,
+      onHandQty: w.on_hand_qty ?? 0,
+      updatedAt: new Date(w.updated_at).getTime(),
+    })),
+
+    materials: (materialsRes.data ?? []).map(toMaterialLibraryItem),
+
+    productMaterials: (productMaterialsRes.data ?? []).map((m) => ({
+      productId: m.product_id,
+      materialId: m.material_id,
+      quantity: Number(m.quantity ?? 0),
+    })),
+
+    plans: (plansRes.data ?? []).map(toPlan),
+
     storeProductStates: (sps ?? []).map((x: any) => ({
       storeId: x.store_id,
       productId: x.product_id,
       enabled: x.enabled ?? true,
+      targetQtyOverride: x.target_qty_override ?? null,
     })),
 
     // legacy settlements 유지
@@ -384,24 +724,50 @@ export async function loadDataFromDB(): Promise<AppData> {
   }
 }
 
-export async function getSettlementV2ByMarketplaceMonthDB(input: {
+export async function getSettlementV2ByPeriodDB(input: {
   marketplaceId: string
-  periodMonth: string // "YYYY-MM"
+  periodStart: string // "YYYY-MM-DD"
+  periodEnd: string // "YYYY-MM-DD" (포함)
 }) {
   const userId = await requireUserId()
 
   const { data, error } = await supabase
     .from("settlements_v2")
-    .select("id,user_id,marketplace_id,period_month,currency,gross_amount,commission_rate,commission_amount,net_amount,rows_count,status,apply_to_inventory,source_filename,created_at,updated_at")
+    .select("id,user_id,marketplace_id,period_month,period_start,period_end,currency,gross_amount,commission_rate,commission_amount,deduction_amount,net_amount,rows_count,status,apply_to_inventory,source_filename,payout_due_date,paid_amount,last_paid_on,created_at,updated_at")
     .eq("user_id", userId)
     .eq("marketplace_id", input.marketplaceId)
-    .eq("period_month", input.periodMonth)
+    .eq("period_start", input.periodStart)
+    .eq("period_end", input.periodEnd)
     .maybeSingle()
 
   if (error) throw error
   return data as any | null
 }
 
+/**
+ * 같은 입점처에서 기간이 겹치는 다른 정산 (기간이 완전히 같은 정산은 덮어쓰기 대상이라 제외)
+ */
+export async function listOverlappingSettlementsDB(input: {
+  marketplaceId: string
+  periodStart: string
+  periodEnd: string
+}): Promise<Array<Pick<DBSettlement, "id" | "marketplace_id" | "period_start" | "period_end">>> {
+  const userId = await requireUserId()
+
+  const { data, error } = await supabase
+    .from("settlements_v2")
+    .select("id,marketplace_id,period_start,period_end")
+    .eq("user_id", userId)
+    .eq("marketplace_id", input.marketplaceId)
+    .lte("period_start", input.periodEnd)
+    .gte("period_end", input.periodStart)
+    .order("period_start", { ascending: true })
+    .returns<Array<Pick<DBSettlement, "id" | "marketplace_id" | "period_start" | "period_end">>>()
+
+  if (error) throw error
+  return (data ?? []).filter((s) => !(s.period_start === input.periodStart && s.period_end === input.periodEnd))
+}
+
 export async function listSettlementLinesV2DB(input: {
   settlementId: string
 }) {
@@ -418,6 +784,223 @@ export async function listSettlementLinesV2DB(input: {
   return (data ?? []) as any[]
 }
 
+/* =========================
+   Settlement Import Profiles (정산 가져오기 프로필)
+========================= */
+
+const SETTLEMENT_IMPORT_PROFILE_SELECT =
+  "id,store_id,name,column_mapping,delimiter,header_row,footer_rows,skip_keywords,amount_basis,amount_kind,is_default,updated_at"
+
+function toSettlementImportProfile(r: DBSettlementImportProfile): SettlementImportProfile {
+  return {
+    id: r.id,
+    storeId: r.store_id,
+    name: r.name,
+    mapping: {
+      barcode: r.column_mapping?.barcode ?? "",
+      sold_qty: r.column_mapping?.sold_qty ?? "",
+      amount: r.column_mapping?.amount ?? "",
+      sku: r.column_mapping?.sku ?? "",
+      product_name: r.column_mapping?.product_name ?? "",
+      store: r.column_mapping?.store ?? "",
+      period: r.column_mapping?.period ?? "",
+      line_kind: r.column_mapping?.line_kind ?? "",
+    },
+    delimiter: r.delimiter ?? null,
+    headerRow: r.header_row ?? 0,
+    footerRows: r.footer_rows ?? 0,
+    skipKeywords: r.skip_keywords ?? [],
+    amountBasis: r.amount_basis ?? "gross",
+    amountKind: r.amount_kind ?? "line_total",
+    isDefault: Boolean(r.is_default),
+    updatedAt: new Date(r.updated_at).getTime(),
+  }
+}
+
+/**
+ * 입점처의 가져오기 프로필 목록 (기본 프로필 먼저, 그다음 최근 수정 순)
+ */
+export async function listSettlementImportProfilesDB(input: {
+  storeId: string
+}): Promise<SettlementImportProfile[]> {
+  const userId = await requireUserId()
+
+  const { data, error } = await supabase
+    .from("settlement_import_profiles")
+    .select(SETTLEMENT_IMPORT_PROFILE_SELECT)
+    .eq("user_id", userId)
+    .eq("store_id", input.storeId)
+    .order("is_default", { ascending: false })
+    .order("updated_at", { ascending: false })
+    .returns<DBSettlementImportProfile[]>()
+
+  if (error) throw error
+  return (data ?? []).map(toSettlementImportProfile)
+}
+
+/**
+ * 프로필 저장 (id 없으면 생성, 같은 이름이면 덮어씀)
+ * - isDefault면 같은 입점처의 다른 기본 프로필은 해제
+ */
+export async function upsertSettlementImportProfileDB(input: {
+  id?: string | null
+  storeId: string
+  name: string
+  mapping: SettlementImportProfile["mapping"]
+  delimiter: string | null
+  headerRow: number
+  footerRows: number
+  skipKeywords: string[]
+  amountBasis: SettlementImportProfile["amountBasis"]
+  amountKind: SettlementImportProfile["amountKind"]
+  isDefault: boolean
+}): Promise<SettlementImportProfile> {
+  const userId = await requireUserId()
+
+  const name = input.name.trim()
+  if (!name) throw new Error("프로필 이름을 입력하세요.")
+
+  if (input.isDefault) {
+    let q = supabase
+      .from("settlement_import_profiles")
+      .update({ is_default: false })
+      .eq("user_id", userId)
+      .eq("store_id", input.storeId)
+      .eq("is_default", true)
+    if (input.id) q = q.neq("id", input.id)
+    const { error } = await q
+    if (error) throw error
+  }
+
+  const row = {
+    user_id: userId,
+    store_id: input.storeId,
+    name,
+    column_mapping: input.mapping,
+    delimiter: input.delimiter || null,
+    header_row: Math.max(0, Math.floor(input.headerRow || 0)),
+    footer_rows: Math.max(0, Math.floor(input.footerRows || 0)),
+    skip_keywords: input.skipKeywords.map((k) => k.trim()).filter(Boolean),
+    amount_basis: input.amountBasis,
+    amount_kind: input.amountKind,
+    is_default: input.isDefault,
+    updated_at: new Date().toISOString(),
+  }
+
+  const { data, error } = input.id
+    ? await supabase
+        .from("settlement_import_profiles")
+        .update(row)
+        .eq("user_id", userId)
+        .eq("id", input.id)
+        .select(SETTLEMENT_IMPORT_PROFILE_SELECT)
+        .returns<DBSettlementImportProfile[]>()
+        .single()
+    : await supabase
+        .from("settlement_import_profiles")
+        .upsert(row, { onConflict: "user_id,store_id,name" })
+        .select(SETTLEMENT_IMPORT_PROFILE_SELECT)
+        .returns<DBSettlementImportProfile[]>()
+        .single()
+
+  if (error) throw error
+  return toSettlementImportProfile(data as DBSettlementImportProfile)
+}
+
+export async function deleteSettlementImportProfileDB(input: { profileId: string }): Promise<void> {
+  const userId = await requireUserId()
+
+  const { error } = await supabase
+    .from("settlement_import_profiles")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", input.profileId)
+
+  if (error) throw error
+}
+
+/* =========================
+   Product Aliases (정산 제품 별칭)
+========================= */
+
+function toProductAlias(r: DBProductAlias): ProductAlias {
+  return {
+    id: r.id,
+    storeId: r.store_id,
+    kind: r.kind,
+    aliasKey: r.alias_key,
+    aliasRaw: r.alias_raw,
+    productId: r.product_id,
+    hitCount: Number(r.hit_count ?? 0),
+    updatedAt: new Date(r.updated_at).getTime(),
+  }
+}
+
+/**
+ * 별칭 목록 (storeId 없으면 전체 입점처: 통합 정산서용)
+ */
+export async function listProductAliasesDB(input: { storeId?: string } = {}): Promise<ProductAlias[]> {
+  const userId = await requireUserId()
+
+  let q = supabase
+    .from("product_aliases")
+    .select("id,store_id,kind,alias_key,alias_raw,product_id,hit_count,updated_at")
+    .eq("user_id", userId)
+  if (input.storeId) q = q.eq("store_id", input.storeId)
+
+  const { data, error } = await q.returns<DBProductAlias[]>()
+
+  if (error) throw error
+  return (data ?? []).map(toProductAlias)
+}
+
+/**
+ * 수동 매칭 → 별칭 저장 (같은 입점처/종류/키면 제품을 덮어씀)
+ * - hitCount는 기존 값 + 1
+ */
+export async function saveProductAliasesDB(input: {
+  storeId: string
+  aliases: Array<Pick<ProductAlias, "kind" | "aliasKey" | "aliasRaw" | "productId">>
+}): Promise<void> {
+  const userId = await requireUserId()
+
+  const aliases = input.aliases.filter((a) => a.aliasKey && a.productId)
+  if (aliases.length === 0) return
+
+  const { data: existing, error: exErr } = await supabase
+    .from("product_aliases")
+    .select("kind,alias_key,hit_count")
+    .eq("user_id", userId)
+    .eq("store_id", input.storeId)
+    .in(
+      "alias_key",
+      aliases.map((a) => a.aliasKey)
+    )
+    .returns<Array<Pick<DBProductAlias, "kind" | "alias_key" | "hit_count">>>()
+
+  if (exErr) throw exErr
+
+  const hits = new Map((existing ?? []).map((r) => [`${r.kind}__${r.alias_key}`, Number(r.hit_count ?? 0)]))
+  const now = new Date().toISOString()
+
+  const rows = aliases.map((a) => ({
+    user_id: userId,
+    store_id: input.storeId,
+    kind: a.kind,
+    alias_key: a.aliasKey,
+    alias_raw: a.aliasRaw,
+    product_id: a.productId,
+    hit_count: (hits.get(`${a.kind}__${a.aliasKey}`) ?? 0) + 1,
+    updated_at: now,
+  }))
+
+  const { error } = await supabase
+    .from("product_aliases")
+    .upsert(rows, { onConflict: "user_id,store_id,kind,alias_key" })
+
+  if (error) throw error
+}
+
 /* =========================
    Category (분리 관리)
 ========================= */
@@ -468,62 +1051,235 @@ export async function deleteCategoryDB(name: string): Promise<void> {
 }
 
 /* =========================
-   Inventory / States
+   Warehouses (작업실/창고)
 ========================= */
 
-export async function upsertInventoryItemDB(input: {
-  storeId: string
-  productId: string
-  onHandQty: number
-}): Promise<void> {
+function toWarehouse(w: DBWarehouse): Warehouse {
+  return {
+    id: w.id,
+    name: w.name,
+    memo: w.memo ?? null,
+    isDefault: w.is_default ?? false,
+    createdAt: new Date(w.created_at).getTime(),
+  }
+}
+
+export async function ensureDefaultWarehouseDB(): Promise<DBWarehouse> {
+  const userId = await requireUserId()
+
+  const { data, error } = await supabase
+    .from("warehouses")
+    .upsert(
+      {
+        user_id: userId,
+        id: "home",
+        name: "작업실",
+        is_default: true,
+      },
+      { onConflict: "user_id,id", ignoreDuplicates: false }
+    )
+    .select("id,name,memo,is_default,created_at")
+    .single()
+
+  if (error) throw error
+  return data as DBWarehouse
+}
+
+export async function createWarehouseDB(w: Warehouse): Promise<void> {
   const userId = await requireUserId()
 
-  const { error } = await supabase.from("inventory").upsert(
+  const { error } = await supabase.from("warehouses").upsert(
     {
       user_id: userId,
-      store_id: input.storeId,
-      product_id: input.productId,
-      on_hand_qty: input.onHandQty,
-      updated_at: new Date().toISOString(),
+      id: w.id,
+      name: w.name,
+      memo: w.memo ?? null,
+      is_default: w.isDefault,
+      created_at: new Date(w.createdAt).toISOString(),
     },
-    { onConflict: "user_id,store_id,product_id" }
+    { onConflict: "user_id,id" }
   )
+  if (error) throw error
+}
+
+export async function updateWarehouseDB(input: {
+  id: string
+  name: string
+  memo?: string | null
+}): Promise<void> {
+  const userId = await requireUserId()
+
+  const { error } = await supabase
+    .from("warehouses")
+    .update({ name: input.name, memo: input.memo ?? null })
+    .eq("user_id", userId)
+    .eq("id", input.id)
 
   if (error) throw error
 }
 
-// src/data/store.supabase.ts
+/**
+ * ⚠️ 재고가 남아있는 보관 장소는 삭제하지 않음 (원장과 캐시가 어긋나는 것 방지)
+ */
+export async function deleteWarehouseDB(warehouseId: string): Promise<void> {
+  const userId = await requireUserId()
 
-export async function upsertInventoryItemsBatchDB(input: Array<{
-  storeId: string
+  const { data: stock, error: sErr } = await supabase
+    .from("warehouse_stock")
+    .select("product_id")
+    .eq("user_id", userId)
+    .eq("warehouse_id", warehouseId)
+    .neq("on_hand_qty", 0)
+    .limit(1)
+  if (sErr) throw sErr
+
+  if ((stock ?? []).length > 0) {
+    throw new Error("재고가 남아있는 보관 장소는 삭제할 수 없습니다. 먼저 재고를 0으로 맞춰주세요.")
+  }
+
+  const { error } = await supabase
+    .from("warehouses")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", warehouseId)
+
+  if (error) throw error
+}
+
+/* =========================
+   Inventory / States
+========================= */
+
+/**
+ * ✅ 재고 변동 원장(inventory_movements)
+ * - 재고는 절대값으로 덮어쓰지 않고 증감(qty_delta)만 append
+ * - inventory.on_hand_qty 는 DB 트리거가 원장 합계로 누적 (동시 수정 시 유실 없음)
+ * - 직접 추가는 수동 사유(입고/반품/분실/조정)만 RLS 허용 — 판매/실사 차이/생산은 RPC 에서
+ */
+export async function recordInventoryMovementsDB(input: Array<{
+  storeId?: string | null // 입점처 재고
+  warehouseId?: string | null // 또는 작업실/창고 재고
   productId: string
-  onHandQty: number
+  qtyDelta: number
+  reason: InventoryMovementReason
+  sourceType?: string | null
+  sourceId?: string | null
+  memo?: string | null
 }>): Promise<void> {
-  if (!input.length) return
+  const rows = input.filter((x) => Number.isFinite(x.qtyDelta) && x.qtyDelta !== 0)
+  if (!rows.length) return
+
+  if (rows.some((x) => !x.storeId === !x.warehouseId)) {
+    throw new Error("재고 위치(입점처/보관 장소) 중 하나만 지정해야 합니다.")
+  }
 
-  // ✅ user_id는 1번만 가져와서 모든 row에 적용
   const userId = await requireUserId()
 
-  // ✅ 너무 큰 배열은 요청 실패할 수 있으니 chunk로 쪼갬
   const CHUNK = 200
-  for (let i = 0; i < input.length; i += CHUNK) {
-    const chunk = input.slice(i, i + CHUNK)
+  for (let i = 0; i < rows.length; i += CHUNK) {
+    const chunk = rows.slice(i, i + CHUNK)
 
     const payload = chunk.map((x) => ({
       user_id: userId,
-      store_id: x.storeId,
+      store_id: x.storeId ?? null,
+      warehouse_id: x.warehouseId ?? null,
       product_id: x.productId,
-      on_hand_qty: x.onHandQty,
+      qty_delta: Math.trunc(x.qtyDelta),
+      reason: x.reason,
+      source_type: x.sourceType ?? null,
+      source_id: x.sourceId ?? null,
+      memo: x.memo ?? null,
     }))
 
-    const { error } = await supabase
-      .from("inventory")
-      .upsert(payload, { onConflict: "user_id,store_id,product_id" })
-
+    const { error } = await supabase.from("inventory_movements").insert(payload)
     if (error) throw error
   }
 }
 
+/**
+ * 재고 화면처럼 "현재 수량을 N으로" 입력하는 경우
+ * - 서버(RPC)에서 현재값을 잠그고 차이만큼 조정(adjustment) 원장을 남김
+ * - 반환값: 반영 후 on_hand_qty
+ */
+export async function setInventoryOnHandDB(input: {
+  storeId: string
+  productId: string
+  onHandQty: number
+  reason?: InventoryMovementReason
+  sourceType?: string | null
+  memo?: string | null
+}): Promise<number> {
+  const { data, error } = await supabase.rpc("set_inventory_on_hand", {
+    p_store_id: input.storeId,
+    p_product_id: input.productId,
+    p_on_hand_qty: Math.max(0, Math.trunc(input.onHandQty)),
+    p_reason: input.reason ?? "adjustment",
+    p_source_type: input.sourceType ?? null,
+    p_memo: input.memo ?? null,
+  })
+
+  if (error) throw error
+  return Number(data ?? 0)
+}
+
+export async function setWarehouseOnHandDB(input: {
+  warehouseId: string
+  productId: string
+  onHandQty: number
+  reason?: InventoryMovementReason
+  sourceType?: string | null
+  memo?: string | null
+}): Promise<number> {
+  const { data, error } = await supabase.rpc("set_warehouse_on_hand", {
+    p_warehouse_id: input.warehouseId,
+    p_product_id: input.productId,
+    p_on_hand_qty: Math.max(0, Math.trunc(input.onHandQty)),
+    p_reason: input.reason ?? "adjustment",
+    p_source_type: input.sourceType ?? null,
+    p_memo: input.memo ?? null,
+  })
+
+  if (error) throw error
+  return Number(data ?? 0)
+}
+
+export async function listInventoryMovementsDB(input: {
+  storeId?: string
+  warehouseId?: string
+  productId?: string
+  limit?: number
+}): Promise<InventoryMovement[]> {
+  const userId = await requireUserId()
+
+  let q = supabase
+    .from("inventory_movements")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(input.limit ?? 200)
+
+  if (input.storeId) q = q.eq("store_id", input.storeId)
+  if (input.warehouseId) q = q.eq("warehouse_id", input.warehouseId)
+  if (input.productId) q = q.eq("product_id", input.productId)
+
+  const { data, error } = await q
+  if (error) throw error
+
+  return ((data ?? []) as DBInventoryMovement[]).map((m) => ({
+    id: m.id,
+    storeId: m.store_id,
+    warehouseId: m.warehouse_id,
+    productId: m.product_id,
+    qtyDelta: Number(m.qty_delta ?? 0),
+    reason: m.reason,
+    sourceType: m.source_type,
+    sourceId: m.source_id,
+    memo: m.memo,
+    createdBy: m.created_by,
+    createdAt: m.created_at,
+  }))
+}
+
 export async function setStoreProductEnabledDB(input: {
   storeId: string
   productId: string
@@ -570,6 +1326,459 @@ export async function setStoreProductsEnabledBulkDB(input: {
   if (error) throw error
 }
 
+/* =========================
+   Stock Targets (목표 재고)
+========================= */
+
+/**
+ * 입점처×제품 목표 재고 직접 지정 (null = 규칙 따름)
+ * - store_product_states 행이 없으면 seed와 같은 기본값(enabled: true)으로 먼저 만든 뒤 update
+ *   (update만 하면 행이 없을 때 0건 수정으로 조용히 무시됨)
+ */
+export async function setStoreProductTargetDB(input: {
+  storeId: string
+  productId: string
+  targetQty: number | null
+}): Promise<void> {
+  const userId = await requireUserId()
+
+  const targetQty = input.targetQty == null ? null : Math.max(0, Math.floor(input.targetQty))
+  const now = new Date().toISOString()
+
+  // 1) 행 보장 (이미 있으면 그대로 = ON CONFLICT DO NOTHING)
+  const { error: seedErr } = await supabase.from("store_product_states").upsert(
+    {
+      user_id: userId,
+      store_id: input.storeId,
+      product_id: input.productId,
+      enabled: true,
+      updated_at: now,
+    },
+    { onConflict: "user_id,store_id,product_id", ignoreDuplicates: true }
+  )
+
+  if (seedErr) throw seedErr
+
+  // 2) 목표 재고만 수정 (enabled 등 다른 값은 유지)
+  const { data, error } = await supabase
+    .from("store_product_states")
+    .update({ target_qty_override: targetQty, updated_at: now })
+    .eq("user_id", userId)
+    .eq("store_id", input.storeId)
+    .eq("product_id", input.productId)
+    .select("product_id")
+
+  if (error) throw error
+  if (!data || data.length === 0) throw new Error("목표 재고를 저장할 입점처×제품 행을 찾지 못했어요.")
+}
+
+/**
+ * 정산(settlements_v2 + settlement_lines_v2) 기준 입점처×제품 월 판매량
+ * - fromMonth <= 월 < toMonth (YYYY-MM)
+ * - 여러 달에 걸친 기간(주/격주 정산)은 일수 비율로 월에 나눠 담음 (qtySold가 소수일 수 있음)
+ * - 매칭 안 된 라인(product_id null)은 제외
+ */
+export async function listStoreProductMonthlySalesDB(input: {
+  fromMonth: string
+  toMonth: string
+}): Promise<StoreProductMonthlySales[]> {
+  const userId = await requireUserId()
+
+  const { data: settlements, error: sErr } = await supabase
+    .from("settlements_v2")
+    .select("id,marketplace_id,period_month,period_start,period_end")
+    .eq("user_id", userId)
+    .gte("period_end", monthPeriod(input.fromMonth).start)
+    .lt("period_start", monthPeriod(input.toMonth).start)
+    .returns<Array<Pick<DBSettlement, "id" | "marketplace_id" | "period_month" | "period_start" | "period_end">>>()
+
+  if (sErr) throw sErr
+  if (!settlements || settlements.length === 0) return []
+
+  const settlementById = new Map(
+    settlements.map((s) => {
+      const period = periodOf(s)
+      const months = period
+        ? splitPeriodByMonth(period).filter((m) => m.month >= input.fromMonth && m.month < input.toMonth)
+        : []
+      return [s.id, { marketplaceId: s.marketplace_id, months }]
+    })
+  )
+
+  // PostgREST 기본 1000행 제한에 잘리지 않도록 페이지 단위로 모두 읽음
+  const PAGE = 1000
+  const lines: Array<Pick<DBSettlementLine, "settlement_id" | "product_id" | "qty_sold">> = []
+  for (let from = 0; ; from += PAGE) {
+    const { data, error: lErr } = await supabase
+      .from("settlement_lines_v2")
+      .select("settlement_id,product_id,qty_sold")
+      .eq("user_id", userId)
+      .in("settlement_id", Array.from(settlementById.keys()))
+      .not("product_id", "is", null)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE - 1)
+      .returns<Array<Pick<DBSettlementLine, "settlement_id" | "product_id" | "qty_sold">>>()
+
+    if (lErr) throw lErr
+    lines.push(...(data ?? []))
+    if (!data || data.length < PAGE) break
+  }
+
+  // 같은 달에 정산이 여러 번 올라온 경우도 합산
+  const byKey = new Map<string, StoreProductMonthlySales>()
+  for (const l of lines) {
+    const s = settlementById.get(l.settlement_id)
+    if (!s || !l.product_id) continue
+    for (const m of s.months) {
+      const key = `${s.marketplaceId}__${l.product_id}__${m.month}`
+      const row = byKey.get(key) ?? {
+        storeId: s.marketplaceId,
+        productId: l.product_id,
+        month: m.month,
+        qtySold: 0,
+      }
+      row.qtySold += Number(l.qty_sold ?? 0) * m.ratio
+      byKey.set(key, row)
+    }
+  }
+
+  return Array.from(byKey.values())
+}
+
+/* =========================
+   Delivery Notes (납품서)
+========================= */
+
+/**
+ * 납품 확정 (RPC 1회 = 납품서 + 라인 + 재고 원장 이동이 한 트랜잭션)
+ * - 입점처 +qty / 보관 장소 -qty
+ */
+export async function confirmDeliveryNoteDB(input: {
+  storeId: string
+  warehouseId: string
+  memo?: string | null
+  lines: DeliveryNoteLine[]
+}): Promise<string> {
+  const lines = input.lines.filter((l) => Number.isFinite(l.qty) && l.qty > 0)
+  if (!lines.length) throw new Error("납품 수량이 입력된 제품이 없습니다.")
+
+  const { data, error } = await supabase.rpc("confirm_delivery_note", {
+    p_store_id: input.storeId,
+    p_warehouse_id: input.warehouseId,
+    p_memo: input.memo ?? null,
+    p_lines: lines.map((l) => ({
+      product_id: l.productId,
+      product_name: l.productName,
+      barcode: l.barcode ?? "",
+      unit_price: l.unitPrice ?? "",
+      qty: Math.trunc(l.qty),
+    })),
+  })
+
+  if (error) throw error
+  return String(data)
+}
+
+export async function listDeliveryNotesDB(input: {
+  storeId?: string
+  limit?: number
+}): Promise<DeliveryNote[]> {
+  const userId = await requireUserId()
+
+  let q = supabase
+    .from("delivery_notes")
+    .select(
+      "id,store_id,warehouse_id,memo,total_qty,total_amount,created_at," +
+        "delivery_note_lines(product_id,product_name,barcode,unit_price,qty)"
+    )
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(input.limit ?? 50)
+
+  if (input.storeId) q = q.eq("store_id", input.storeId)
+
+  const { data, error } = await q.returns<DBDeliveryNote[]>()
+  if (error) throw error
+
+  return (data ?? []).map((n) => ({
+    id: n.id,
+    storeId: n.store_id,
+    warehouseId: n.warehouse_id,
+    memo: n.memo ?? null,
+    totalQty: Number(n.total_qty ?? 0),
+    totalAmount: Number(n.total_amount ?? 0),
+    createdAt: n.created_at,
+    lines: (n.delivery_note_lines ?? []).map((l) => ({
+      productId: l.product_id,
+      productName: l.product_name,
+      barcode: l.barcode ?? null,
+      unitPrice: l.unit_price == null ? null : Number(l.unit_price),
+      qty: Number(l.qty ?? 0),
+    })),
+  }))
+}
+
+/* =========================
+   Production Plans (제작 지시)
+========================= */
+
+const PRODUCTION_PLAN_SELECT =
+  "id,store_id,warehouse_id,month,due_date,status,memo,created_at,updated_at,completed_at," +
+  "production_plan_items(product_id,make_qty)"
+
+function toPlan(p: DBProductionPlan): Plan {
+  return {
+    id: p.id,
+    storeId: p.store_id ?? null,
+    warehouseId: p.warehouse_id,
+    month: p.month,
+    dueDate: p.due_date ?? null,
+    status: p.status,
+    memo: p.memo ?? null,
+    items: (p.production_plan_items ?? []).map((i) => ({
+      productId: i.product_id,
+      makeQty: Number(i.make_qty ?? 0),
+    })),
+    createdAt: new Date(p.created_at).getTime(),
+    updatedAt: new Date(p.updated_at).getTime(),
+    completedAt: p.completed_at ? new Date(p.completed_at).getTime() : null,
+  }
+}
+
+/**
+ * 제작 지시 생성 (지시 → 품목 순서로 저장, 품목 저장 실패 시 지시도 삭제)
+ * - 같은 제품이 여러 번 오면 수량 합산
+ */
+export async function createProductionPlanDB(input: {
+  storeId: string | null
+  warehouseId: string
+  dueDate: string | null
+  memo?: string | null
+  items: Array<{ productId: string; makeQty: number }>
+}): Promise<string> {
+  const userId = await requireUserId()
+
+  const qtyByProduct = new Map<string, number>()
+  for (const it of input.items) {
+    const qty = Math.trunc(it.makeQty)
+    if (!it.productId || !(qty > 0)) continue
+    qtyByProduct.set(it.productId, (qtyByProduct.get(it.productId) ?? 0) + qty)
+  }
+  if (qtyByProduct.size === 0) throw new Error("제작 수량이 있는 제품이 없습니다.")
+
+  const month = (input.dueDate ?? new Date().toISOString()).slice(0, 7)
+
+  const { data, error } = await supabase
+    .from("production_plans")
+    .insert({
+      user_id: userId,
+      store_id: input.storeId,
+      warehouse_id: input.warehouseId,
+      month,
+      due_date: input.dueDate,
+      memo: input.memo?.trim() || null,
+    })
+    .select("id")
+    .single()
+
+  if (error) throw error
+  const planId = String(data.id)
+
+  const { error: itemsErr } = await supabase.from("production_plan_items").insert(
+    Array.from(qtyByProduct.entries()).map(([productId, makeQty]) => ({
+      user_id: userId,
+      plan_id: planId,
+      product_id: productId,
+      make_qty: makeQty,
+    }))
+  )
+
+  if (itemsErr) {
+    await supabase.from("production_plans").delete().eq("user_id", userId).eq("id", planId)
+    throw itemsErr
+  }
+
+  return planId
+}
+
+/**
+ * 지시 상태/납기/메모 수정 (완료는 completeProductionPlanDB로만)
+ */
+export async function updateProductionPlanDB(input: {
+  planId: string
+  patch: {
+    status?: Exclude<PlanStatus, "done">
+    dueDate?: string | null
+    memo?: string | null
+  }
+}): Promise<void> {
+  const userId = await requireUserId()
+  const { patch } = input
+
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (patch.status !== undefined) row.status = patch.status
+  if (patch.dueDate !== undefined) {
+    row.due_date = patch.dueDate
+    if (patch.dueDate) row.month = patch.dueDate.slice(0, 7)
+  }
+  if (patch.memo !== undefined) row.memo = patch.memo?.trim() || null
+
+  const { error } = await supabase
+    .from("production_plans")
+    .update(row)
+    .eq("user_id", userId)
+    .eq("id", input.planId)
+
+  if (error) throw error
+}
+
+export async function updateProductionPlanItemDB(input: {
+  planId: string
+  productId: string
+  makeQty: number
+}): Promise<void> {
+  const userId = await requireUserId()
+  const qty = Math.trunc(input.makeQty)
+
+  const q = supabase.from("production_plan_items")
+  const { error } =
+    qty > 0
+      ? await q
+          .update({ make_qty: qty })
+          .eq("user_id", userId)
+          .eq("plan_id", input.planId)
+          .eq("product_id", input.productId)
+      : await q.delete().eq("user_id", userId).eq("plan_id", input.planId).eq("product_id", input.productId)
+
+  if (error) throw error
+}
+
+/**
+ * 제작 완료 (RPC 1회 = 보관 장소 입고 원장 + done 처리)
+ * - 반환값: 입고 기록된 품목 수
+ */
+export async function completeProductionPlanDB(planId: string): Promise<number> {
+  const { data, error } = await supabase.rpc("complete_production_plan", { p_plan_id: planId })
+  if (error) throw error
+  return Number(data ?? 0)
+}
+
+/* =========================
+   Stocktakes (재고 실사)
+========================= */
+
+const STOCKTAKE_SELECT =
+  "id,store_id,status,memo,created_at,posted_at," +
+  "stocktake_lines(product_id,expected_qty,counted_qty,unit_price)"
+
+function toStocktake(t: DBStocktake): Stocktake {
+  return {
+    id: t.id,
+    storeId: t.store_id,
+    status: t.status,
+    memo: t.memo ?? null,
+    createdAt: t.created_at,
+    postedAt: t.posted_at ?? null,
+    lines: (t.stocktake_lines ?? []).map((l) => ({
+      productId: l.product_id,
+      expectedQty: Number(l.expected_qty ?? 0),
+      countedQty: l.counted_qty == null ? null : Number(l.counted_qty),
+      unitPrice: l.unit_price == null ? null : Number(l.unit_price),
+    })),
+  }
+}
+
+/**
+ * 실사 시작: 현재 입점처 재고를 expected로 고정한 세션 생성 (RPC)
+ */
+export async function startStocktakeDB(input: { storeId: string; memo?: string | null }): Promise<string> {
+  const { data, error } = await supabase.rpc("start_stocktake", {
+    p_store_id: input.storeId,
+    p_memo: input.memo ?? null,
+  })
+  if (error) throw error
+  return String(data)
+}
+
+export async function listStocktakesDB(input: { storeId?: string; limit?: number } = {}): Promise<Stocktake[]> {
+  const userId = await requireUserId()
+
+  let q = supabase
+    .from("stocktakes")
+    .select(STOCKTAKE_SELECT)
+    .eq("user_id", userId)
+    .neq("status", "cancelled")
+    .order("created_at", { ascending: false })
+    .limit(input.limit ?? 30)
+
+  if (input.storeId) q = q.eq("store_id", input.storeId)
+
+  const { data, error } = await q.returns<DBStocktake[]>()
+  if (error) throw error
+  return (data ?? []).map(toStocktake)
+}
+
+export async function getStocktakeDB(stocktakeId: string): Promise<Stocktake> {
+  const userId = await requireUserId()
+
+  const { data, error } = await supabase
+    .from("stocktakes")
+    .select(STOCKTAKE_SELECT)
+    .eq("user_id", userId)
+    .eq("id", stocktakeId)
+    .returns<DBStocktake[]>()
+    .single()
+
+  if (error) throw error
+  return toStocktake(data)
+}
+
+export async function saveStocktakeCountsDB(input: {
+  stocktakeId: string
+  counts: Array<{ productId: string; countedQty: number | null }>
+}): Promise<void> {
+  if (!input.counts.length) return
+  const userId = await requireUserId()
+
+  // 라인 수가 많지 않고(제품 수), 입력 단위로 디바운스되므로 개별 update
+  for (const c of input.counts) {
+    const { error } = await supabase
+      .from("stocktake_lines")
+      .update({
+        counted_qty: c.countedQty == null ? null : Math.max(0, Math.trunc(c.countedQty)),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("user_id", userId)
+      .eq("stocktake_id", input.stocktakeId)
+      .eq("product_id", c.productId)
+
+    if (error) throw error
+  }
+}
+
+/**
+ * 실사 확정: 입력된 수량과 고정된 expected의 차이를 'count_variance' 원장으로 기록 (RPC)
+ * - 반환값: 기록된 차이 라인 수
+ */
+export async function postStocktakeDB(stocktakeId: string): Promise<number> {
+  const { data, error } = await supabase.rpc("post_stocktake", { p_stocktake_id: stocktakeId })
+  if (error) throw error
+  return Number(data ?? 0)
+}
+
+export async function cancelStocktakeDB(stocktakeId: string): Promise<void> {
+  const userId = await requireUserId()
+
+  const { error } = await supabase
+    .from("stocktakes")
+    .update({ status: "cancelled" })
+    .eq("user_id", userId)
+    .eq("id", stocktakeId)
+    .eq("status", "open")
+
+  if (error) throw error
+}
+
 /* =========================
    Product / Store CRUD
 ========================= */
@@ -627,6 +1836,8 @@ export async function createStoreDB(s: Store): Promise<void> {
       settlement_cycle: (s as any).settlementCycle ?? null,
       settlement_day: (s as any).settlementDay ?? null,
       settlement_note: (s as any).settlementNote ?? null,
+      name_aliases: s.nameAliases ?? [],
+      depositor_names: s.depositorNames ?? [],
     },
     { onConflict: "user_id,id" }
   )
@@ -668,6 +1879,8 @@ export async function updateStoreDB(s: Store): Promise<void> {
       settlement_cycle: (s as any).settlementCycle ?? null,
       settlement_day: (s as any).settlementDay ?? null,
       settlement_note: (s as any).settlementNote ?? null,
+      name_aliases: s.nameAliases ?? [],
+      depositor_names: s.depositorNames ?? [],
     },
     { onConflict: "user_id,id" }
   )
@@ -690,75 +1903,398 @@ export async function updateProductCategoryDB(input: {
   if (error) throw error
 }
 
-export async function deleteProductDB(productId: string): Promise<void> {
-  const userId = await requireUserId()
-
-  const { error } = await supabase
-    .from("products")
-    .delete()
-    .eq("user_id", userId)
-    .eq("id", productId)
+export async function deleteProductDB(productId: string): Promise<void> {
+  await deleteProductsBulkDB({ productIds: [productId] })
+}
+
+export async function deleteStoreDB(storeId: string): Promise<void> {
+  const userId = await requireUserId()
+
+  const { error } = await supabase
+    .from("stores")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", storeId)
+
+  if (error) throw error
+}
+
+export async function upsertProductsBulkDB(input: {
+  products: Array<{
+    id: string
+    name: string
+    category?: string | null
+    active?: boolean | null
+    make_enabled?: boolean | null
+    price?: number | null
+    sku?: string | null
+    barcode?: string | null
+  }>
+}): Promise<void> {
+  const userId = await requireUserId()
+  if (input.products.length === 0) return
+
+  const rows = input.products.map((p) => ({
+    user_id: userId,
+    id: p.id,
+    name: p.name,
+    category: p.category ?? null,
+    active: p.active ?? true,
+    make_enabled: p.make_enabled ?? true,
+    price: p.price ?? 0,
+    sku: p.sku ?? null,
+    barcode: p.barcode ?? null,
+  }))
+
+  const { error } = await supabase
+    .from("products")
+    .upsert(rows, { onConflict: "user_id,id" })
+
+  if (error) throw error
+}
+
+export async function deleteProductsBulkDB(input: {
+  productIds: string[]
+}): Promise<void> {
+  const userId = await requireUserId()
+  if (input.productIds.length === 0) return
+
+  // 대표 제품을 지우면 옵션 상품도 함께 삭제
+  const { data: variants, error: variantsErr } = await supabase
+    .from("products")
+    .delete()
+    .eq("user_id", userId)
+    .in("parent_id", input.productIds)
+    .select("id")
+
+  if (variantsErr) throw variantsErr
+
+  const { error } = await supabase
+    .from("products")
+    .delete()
+    .eq("user_id", userId)
+    .in("id", input.productIds)
+
+  if (error) throw error
+
+  // 재료 구성(BOM)은 product_id FK가 없으므로 직접 정리 (함께 지운 옵션 상품 포함)
+  const { error: bomErr } = await supabase
+    .from("product_materials")
+    .delete()
+    .eq("user_id", userId)
+    .in("product_id", [...input.productIds, ...(variants ?? []).map((v) => String(v.id))])
+
+  if (bomErr) throw bomErr
+}
+
+/* =========================
+   Product Variants (옵션 상품)
+========================= */
+
+export async function updateProductOptionAxesDB(input: {
+  productId: string
+  axes: ProductOptionAxis[]
+}): Promise<void> {
+  const userId = await requireUserId()
+
+  const { error } = await supabase
+    .from("products")
+    .update({ option_axes: input.axes.length ? input.axes : null })
+    .eq("user_id", userId)
+    .eq("id", input.productId)
+
+  if (error) throw error
+}
+
+/**
+ * 옵션 상품 저장(upsert)
+ * - 카테고리는 대표 제품을 따름
+ * - 새로 생긴 옵션은 대표 제품의 입점처별 취급 ON/OFF를 그대로 물려받음
+ */
+export async function upsertProductVariantsDB(input: {
+  parent: Product
+  variants: Array<{
+    id: string
+    name: string
+    optionValues: Record<string, string>
+    sku: string | null
+    barcode: string | null
+    priceOverride: number | null
+    active: boolean
+    isNew?: boolean
+  }>
+}): Promise<void> {
+  const userId = await requireUserId()
+  if (input.variants.length === 0) return
+
+  const now = new Date().toISOString()
+  const rows = input.variants.map((v) => ({
+    user_id: userId,
+    id: v.id,
+    name: v.name,
+    category: input.parent.category ?? null,
+    active: v.active,
+    make_enabled: input.parent.makeEnabled ?? true,
+    price: v.priceOverride,
+    sku: v.sku,
+    barcode: v.barcode,
+    parent_id: input.parent.id,
+    option_values: v.optionValues,
+    ...(v.isNew ? { created_at: now } : {}),
+  }))
+
+  const { error } = await supabase.from("products").upsert(rows, { onConflict: "user_id,id" })
+  if (error) throw error
+
+  const newIds = input.variants.filter((v) => v.isNew).map((v) => v.id)
+  if (newIds.length === 0) return
+
+  const [{ data: stores, error: storesErr }, { data: parentStates, error: statesErr }] = await Promise.all([
+    supabase.from("stores").select("id").eq("user_id", userId),
+    supabase
+      .from("store_product_states")
+      .select("store_id,enabled")
+      .eq("user_id", userId)
+      .eq("product_id", input.parent.id),
+  ])
+  if (storesErr) throw storesErr
+  if (statesErr) throw statesErr
+
+  const storeIds = (stores ?? []).map((x: { id: string }) => x.id)
+  await ensureStoreProductStatesSeedDB({ storeIds, productIds: newIds })
+
+  for (const st of (parentStates ?? []) as Array<{ store_id: string; enabled: boolean | null }>) {
+    if (st.enabled !== false) continue
+    await setStoreProductsEnabledBulkDB({ storeId: st.store_id, productIds: newIds, enabled: false })
+  }
+}
+
+/* =========================
+   Product Materials (재료 구성 / BOM)
+========================= */
+
+function toMaterialLibraryItem(m: DBMaterialLibrary): MaterialLibraryItem {
+  return {
+    id: m.id,
+    name: String(m.name ?? "").trim(),
+    unitPrice: Math.max(0, Number(m.unit_price ?? 0)),
+    updatedAt: m.updated_at ? new Date(m.updated_at).getTime() : 0,
+    stockQty: Number(m.stock_qty ?? 0) || 0,
+    unit: m.unit ?? null,
+    purchaseUnit: m.purchase_unit ?? null,
+    purchaseUnitQty: m.purchase_unit_qty == null ? null : Number(m.purchase_unit_qty) || null,
+  }
+}
+
+/**
+ * 재료 재고/단위 수정 (넘긴 필드만 반영)
+ */
+export async function updateMaterialStockDB(input: {
+  materialId: string
+  patch: {
+    stockQty?: number
+    unit?: string | null
+    purchaseUnit?: string | null
+    purchaseUnitQty?: number | null
+  }
+}): Promise<void> {
+  const userId = await requireUserId()
+  const { patch } = input
+
+  const row: Record<string, unknown> = { updated_at: new Date().toISOString() }
+  if (patch.stockQty !== undefined) row.stock_qty = patch.stockQty
+  if (patch.unit !== undefined) row.unit = patch.unit?.trim() || null
+  if (patch.purchaseUnit !== undefined) row.purchase_unit = patch.purchaseUnit?.trim() || null
+  if (patch.purchaseUnitQty !== undefined) {
+    row.purchase_unit_qty = patch.purchaseUnitQty && patch.purchaseUnitQty > 0 ? patch.purchaseUnitQty : null
+  }
+
+  const { error } = await supabase
+    .from("material_library")
+    .update(row)
+    .eq("user_id", userId)
+    .eq("id", input.materialId)
+
+  if (error) throw error
+}
+
+/**
+ * 제품 재료 구성 통째로 교체
+ * - lines에 없는 재료는 삭제, 있는 재료는 수량 upsert
+ * - 수량 0 이하는 저장하지 않음
+ */
+export async function setProductMaterialsDB(input: {
+  productId: string
+  lines: Array<{ materialId: string; quantity: number }>
+}): Promise<void> {
+  const userId = await requireUserId()
+
+  const lines = input.lines.filter((l) => l.materialId && Number.isFinite(l.quantity) && l.quantity > 0)
+  const keep = lines.map((l) => l.materialId)
+
+  let del = supabase
+    .from("product_materials")
+    .delete()
+    .eq("user_id", userId)
+    .eq("product_id", input.productId)
+  if (keep.length) del = del.not("material_id", "in", `(${keep.join(",")})`)
+
+  const { error: delErr } = await del
+  if (delErr) throw delErr
+
+  if (lines.length === 0) return
+
+  const now = new Date().toISOString()
+  const { error } = await supabase.from("product_materials").upsert(
+    lines.map((l) => ({
+      user_id: userId,
+      product_id: input.productId,
+      material_id: l.materialId,
+      quantity: l.quantity,
+      updated_at: now,
+    })),
+    { onConflict: "user_id,product_id,material_id" }
+  )
+  if (error) throw error
+}
+
+/* =========================
+   Commission Rules (입점처 수수료 규칙)
+========================= */
+
+function toCommissionRuleSet(r: DBCommissionRules | null | undefined): CommissionRuleSet {
+  return {
+    categoryRates: (r?.category_rates ?? []).map((x) => ({ category: x.category, rate: Number(x.rate) })),
+    productRates: (r?.product_rates ?? []).map((x) => ({ productId: x.product_id, rate: Number(x.rate) })),
+    tiers: (r?.tiers ?? []).map((x) => ({ minGross: Number(x.min_gross), rate: Number(x.rate) })),
+    itemFee: Number(r?.item_fee ?? 0),
+    applyStoreFee: Boolean(r?.apply_store_fee),
+  }
+}
+
+/**
+ * 입점처 수수료 규칙 (없으면 null → 기본 요율만)
+ */
+export async function getCommissionRuleSetDB(input: { storeId: string }): Promise<CommissionRuleSet | null> {
+  const userId = await requireUserId()
+
+  const { data, error } = await supabase
+    .from("commission_rule_sets")
+    .select("rules")
+    .eq("user_id", userId)
+    .eq("store_id", input.storeId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toCommissionRuleSet(data.rules as DBCommissionRules) : null
+}
+
+export async function upsertCommissionRuleSetDB(input: { storeId: string; rules: CommissionRuleSet }): Promise<void> {
+  const userId = await requireUserId()
+  const r = input.rules
+
+  const rules: DBCommissionRules = {
+    category_rates: r.categoryRates.map((x) => ({ category: x.category, rate: x.rate })),
+    product_rates: r.productRates.map((x) => ({ product_id: x.productId, rate: x.rate })),
+    tiers: r.tiers.map((x) => ({ min_gross: x.minGross, rate: x.rate })),
+    item_fee: r.itemFee,
+    apply_store_fee: r.applyStoreFee,
+  }
+
+  const { error } = await supabase.from("commission_rule_sets").upsert(
+    {
+      user_id: userId,
+      store_id: input.storeId,
+      rules,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id,store_id" }
+  )
+
+  if (error) throw error
+}
+
+/**
+ * 정산 1건 수수료를 현재 규칙으로 다시 계산 (라인 + 헤더 + 내역)
+ */
+export async function evaluateSettlementCommissionDB(input: { settlementId: string }): Promise<DBSettlement> {
+  const { data, error } = await supabase.rpc("evaluate_settlement_commission", {
+    p_settlement_id: input.settlementId,
+  })
+
+  if (error) throw error
+  return data as DBSettlement
+}
+
+/* =========================
+   Store Terms (입점처 계약 조건 이력)
+   - 입점처 수정으로 조건이 바뀌면 DB 트리거가 오늘부터 적용되는 이력을 추가
+   - 이력을 바꾸면 stores 조건 컬럼은 오늘 기준 조건으로 맞춰짐
+========================= */
 
-  if (error) throw error
+function toStoreTerms(t: DBStoreTerms): StoreTerms {
+  return {
+    id: t.id,
+    storeId: t.store_id,
+    effectiveFrom: t.effective_from,
+    commissionRate: t.commission_rate == null ? null : Number(t.commission_rate),
+    storeFee: t.store_fee == null ? null : Number(t.store_fee),
+    settlementCycle: (t.settlement_cycle as StoreTerms["settlementCycle"]) ?? null,
+    settlementDay: t.settlement_day ?? null,
+    memo: t.memo ?? null,
+  }
 }
 
-export async function deleteStoreDB(storeId: string): Promise<void> {
+export async function listStoreTermsDB(input: { storeId: string }): Promise<StoreTerms[]> {
   const userId = await requireUserId()
 
-  const { error } = await supabase
-    .from("stores")
-    .delete()
+  const { data, error } = await supabase
+    .from("store_terms")
+    .select(STORE_TERMS_SELECT)
     .eq("user_id", userId)
-    .eq("id", storeId)
+    .eq("store_id", input.storeId)
+    .order("effective_from")
+    .returns<DBStoreTerms[]>()
 
   if (error) throw error
+  return (data ?? []).map(toStoreTerms)
 }
 
-export async function upsertProductsBulkDB(input: {
-  products: Array<{
-    id: string
-    name: string
-    category?: string | null
-    active?: boolean | null
-    make_enabled?: boolean | null
-    price?: number | null
-    sku?: string | null
-    barcode?: string | null
-  }>
-}): Promise<void> {
+/**
+ * 조건 이력 추가/수정 (같은 적용 시작일이면 덮어씀)
+ */
+export async function upsertStoreTermsDB(input: Omit<StoreTerms, "id">): Promise<StoreTerms> {
   const userId = await requireUserId()
-  if (input.products.length === 0) return
-
-  const rows = input.products.map((p) => ({
-    user_id: userId,
-    id: p.id,
-    name: p.name,
-    category: p.category ?? null,
-    active: p.active ?? true,
-    make_enabled: p.make_enabled ?? true,
-    price: p.price ?? 0,
-    sku: p.sku ?? null,
-    barcode: p.barcode ?? null,
-  }))
+  if (!isIsoDate(input.effectiveFrom)) throw new Error("적용 시작일 형식이 올바르지 않습니다 (YYYY-MM-DD)")
 
-  const { error } = await supabase
-    .from("products")
-    .upsert(rows, { onConflict: "user_id,id" })
+  const day = input.settlementDay
+  const { data, error } = await supabase
+    .from("store_terms")
+    .upsert(
+      {
+        user_id: userId,
+        store_id: input.storeId,
+        effective_from: input.effectiveFrom,
+        commission_rate: input.commissionRate,
+        store_fee: input.storeFee,
+        settlement_cycle: input.settlementCycle,
+        settlement_day: day != null && day >= 1 && day <= 31 ? Math.floor(day) : null,
+        memo: input.memo?.trim() || null,
+      },
+      { onConflict: "user_id,store_id,effective_from" }
+    )
+    .select(STORE_TERMS_SELECT)
+    .returns<DBStoreTerms[]>()
+    .single()
 
   if (error) throw error
+  return toStoreTerms(data)
 }
 
-export async function deleteProductsBulkDB(input: {
-  productIds: string[]
-}): Promise<void> {
+export async function deleteStoreTermsDB(input: { termsId: string }): Promise<void> {
   const userId = await requireUserId()
-  if (input.productIds.length === 0) return
 
-  const { error } = await supabase
-    .from("products")
-    .delete()
-    .eq("user_id", userId)
-    .in("id", input.productIds)
+  const { error } = await supabase.from("store_terms").delete().eq("user_id", userId).eq("id", input.termsId)
 
   if (error) throw error
 }
@@ -804,21 +2340,24 @@ export async function upsertMarketplaceCommissionRateDB(input: {
 
 export async function listSettlementsDB(input: {
   marketplaceId?: string
-  periodMonth?: string // "YYYY-MM"
+  periodMonth?: string // "YYYY-MM" (이 달과 기간이 겹치는 정산)
 }): Promise<DBSettlement[]> {
   const userId = await requireUserId()
 
   let q = supabase
     .from("settlements_v2")
     .select(
-      "id,user_id,marketplace_id,period_month,currency,gross_amount,commission_rate,commission_amount,net_amount,rows_count,status,apply_to_inventory,source_filename,created_at,updated_at"
+      "id,user_id,marketplace_id,period_month,period_start,period_end,currency,gross_amount,commission_rate,commission_amount,deduction_amount,net_amount,rows_count,status,apply_to_inventory,source_filename,payout_due_date,paid_amount,last_paid_on,created_at,updated_at"
     )    
     .eq("user_id", userId)
-    .order("period_month", { ascending: false })
+    .order("period_start", { ascending: false })
     .order("created_at", { ascending: false })
 
   if (input.marketplaceId) q = q.eq("marketplace_id", input.marketplaceId)
-  if (input.periodMonth) q = q.eq("period_month", input.periodMonth)
+  if (input.periodMonth) {
+    const month = monthPeriod(input.periodMonth)
+    q = q.lte("period_start", month.end).gte("period_end", month.start)
+  }
 
   const { data, error } = await q
   if (error) throw error
@@ -827,7 +2366,7 @@ export async function listSettlementsDB(input: {
 
 export async function getSettlementDetailDB(input: {
   settlementId: string
-}): Promise<{ settlement: DBSettlement; lines: DBSettlementLine[] }> {
+}): Promise<{ settlement: DBSettlement; lines: DBSettlementLine[]; batches: DBSettlementBatch[] }> {
   const userId = await requireUserId()
 
   const { data: settlement, error: sErr } = await supabase
@@ -848,217 +2387,402 @@ export async function getSettlementDetailDB(input: {
 
   if (lErr) throw lErr
 
+  const batches = await listSettlementBatchesDB({ settlementId: input.settlementId })
+
   return {
     settlement: settlement as DBSettlement,
     lines: (lines ?? []) as DBSettlementLine[],
+    batches,
   }
 }
 
-export async function deleteSettlementV2DB(input: { settlementId: string }) {
-  const userId = await requireUserId()
-
-  // 1) lines 삭제 (0개여도 가능)
-  {
-    const { error } = await supabase
-      .from("settlement_lines_v2")
-      .delete()
-      .eq("user_id", userId)
-      .eq("settlement_id", input.settlementId)
+/**
+ * 정산 삭제 (delete_settlement RPC — 한 트랜잭션)
+ * - restoreInventory: 재고에 반영했던 배치 수량을 원장에 역분개
+ * - 라인/배치/헤더 삭제 (입금 기록은 FK cascade)
+ */
+export async function deleteSettlementV2DB(input: { settlementId: string; restoreInventory: boolean }) {
+  const { error } = await supabase.rpc("delete_settlement", {
+    p_settlement_id: input.settlementId,
+    p_restore_inventory: input.restoreInventory,
+  })
 
-    if (error) throw error
+  if (error) {
+    // ✅ 삭제 대상이 없으면 실패로 처리 (권한/RLS 또는 조건 불일치)
+    if (error.message === "settlement_not_found") {
+      throw new Error("삭제 실패: DB에서 정산이 삭제되지 않았습니다 (권한/RLS 또는 조건 불일치).")
+    }
+    throw error
   }
+}
 
-  // 2) header 삭제 (여기는 반드시 1개가 삭제돼야 정상)
-  {
-    const { data, error } = await supabase
-      .from("settlements_v2")
-      .delete()
-      .eq("user_id", userId)
-      .eq("id", input.settlementId)
-      .select("id")
+export type SettlementLineInput = {
+  lineKind?: SettlementLineKind // 없으면 판매
+  productId?: string | null
+  productNameRaw: string
+  productNameMatched?: string | null
+  skuRaw?: string | null
+  qtySold: number
+  unitPrice?: number | null
+  grossAmount: number
+  matchStatus: "matched" | "unmatched" | "manual"
+}
 
-    if (error) throw error
+// apply_settlement RPC 예외 → 사용자 메시지
+const APPLY_SETTLEMENT_ERRORS: Record<string, string> = {
+  store_not_found: "입점처를 찾을 수 없습니다.",
+  invalid_period: "정산 기간이 올바르지 않습니다.",
+  period_overlap: "같은 입점처에 기간이 겹치는 정산이 있습니다.",
+  empty_lines: "저장할 정산 라인이 없습니다.",
+}
 
-    // ✅ 여기 중요: 실제로 삭제된 row가 0개면 실패로 처리
-    if (!data || data.length === 0) {
-      throw new Error("삭제 실패: DB에서 정산이 삭제되지 않았습니다 (권한/RLS 또는 조건 불일치).")
-    }
+/**
+ * 정산 적용 (RPC 1회 = 헤더 + 배치/라인 + 재고 원장 + 합계 재계산이 한 트랜잭션)
+ * - uploadMode: 같은 기간 정산이 이미 있을 때 배치 교체/추가 방식
+ * - 반환값: 합계까지 반영된 정산 헤더
+ */
+export async function applySettlementDB(input: {
+  marketplaceId: string
+  periodStart: string // "YYYY-MM-DD"
+  periodEnd: string // "YYYY-MM-DD" (포함)
+  currency?: string
+  commissionRate: number // 0.25 형태
+  sourceFilename?: string | null
+  uploadMode: "replace_batch" | "merge" | "replace_all"
+  applyToInventory: boolean
+  lines: SettlementLineInput[]
+}): Promise<DBSettlement> {
+  const { data, error } = await supabase.rpc("apply_settlement", {
+    p_marketplace_id: input.marketplaceId,
+    p_period_start: input.periodStart,
+    p_period_end: input.periodEnd,
+    p_commission_rate: input.commissionRate,
+    p_source_filename: input.sourceFilename ?? null,
+    p_upload_mode: input.uploadMode,
+    p_apply_to_inventory: input.applyToInventory,
+    p_currency: input.currency ?? "KRW",
+    p_lines: input.lines.map((l) => ({
+      product_id: l.productId ?? "",
+      product_name_raw: l.productNameRaw,
+      product_name_matched: l.productNameMatched ?? "",
+      sku_raw: l.skuRaw ?? "",
+      qty_sold: Math.trunc(l.qtySold),
+      unit_price: l.unitPrice ?? "",
+      gross_amount: l.grossAmount,
+      match_status: l.matchStatus,
+      line_kind: l.lineKind ?? "sale",
+    })),
+  })
+
+  if (error) {
+    const friendly = APPLY_SETTLEMENT_ERRORS[error.message]
+    throw friendly ? new Error(friendly) : error
   }
+  return data as DBSettlement
 }
 
-export async function restoreInventoryFromSettlementV2DB(input: {
+/* =========================
+   Settlement Batches (정산 업로드 배치)
+========================= */
+
+export async function listSettlementBatchesDB(input: {
   settlementId: string
-}): Promise<void> {
+}): Promise<DBSettlementBatch[]> {
   const userId = await requireUserId()
 
-  // 1) settlement 로드
-  const { data: settlement, error: sErr } = await supabase
-    .from("settlements_v2")
-    .select("id,user_id,marketplace_id,apply_to_inventory")
+  const { data, error } = await supabase
+    .from("settlement_batches_v2")
+    .select("id,user_id,settlement_id,marketplace_id,source_filename,rows_count,qty_total,gross_amount,apply_to_inventory,created_at")
     .eq("user_id", userId)
-    .eq("id", input.settlementId)
-    .single()
-  if (sErr) throw sErr
+    .eq("settlement_id", input.settlementId)
+    .order("created_at", { ascending: true })
+    .returns<DBSettlementBatch[]>()
 
-  // 적용 안 된 정산이면 복원하지 않음
-  if (!settlement.apply_to_inventory) return
+  if (error) throw error
+  return data ?? []
+}
 
-  // 2) lines 로드
-  const { data: lines, error: lErr } = await supabase
-    .from("settlement_lines_v2")
-    .select("product_id,qty_sold")
-    .eq("user_id", userId)
-    .eq("settlement_id", input.settlementId)
-  if (lErr) throw lErr
+/**
+ * 배치 1개 삭제 (remove_settlement_batch RPC — 한 트랜잭션)
+ * - restoreInventory: 이 배치가 재고에 반영했던 수량을 원장에 역분개
+ * - 남은 배치 라인 기준으로 합계/수수료 재계산
+ * - 마지막 배치였으면 정산도 삭제하고 null
+ */
+export async function deleteSettlementBatchDB(input: {
+  batchId: string
+  restoreInventory: boolean
+}): Promise<DBSettlement | null> {
+  const { data, error } = await supabase.rpc("remove_settlement_batch", {
+    p_batch_id: input.batchId,
+    p_restore_inventory: input.restoreInventory,
+  })
 
-  const storeId = String(settlement.marketplace_id ?? "")
-  if (!storeId) return
-
-  // 3) product_id별 qty 합산
-  const agg = new Map<string, number>()
-  for (const l of lines ?? []) {
-    const pid = String(l.product_id ?? "")
-    if (!pid) continue
-    const q = Number(l.qty_sold ?? 0)
-    if (!Number.isFinite(q) || q === 0) continue
-    agg.set(pid, (agg.get(pid) ?? 0) + q)
+  if (error) {
+    if (error.message === "batch_not_found") throw new Error("삭제할 배치를 찾을 수 없습니다.")
+    throw error
   }
+  // 정산까지 삭제되면 null (빈 composite는 id 없는 객체로 올 수 있음)
+  const settlement = data as DBSettlement | null
+  return settlement?.id ? settlement : null
+}
 
-  if (agg.size === 0) return
-
-  const productIds = Array.from(agg.keys())
+export async function searchProductsForSettlementDB(input: {
+  query: string
+  limit?: number
+}): Promise<DBProduct[]> {
+  const userId = await requireUserId()
+  const q = (input.query ?? "").trim()
+  if (!q) return []
 
-  // 4) inventory 현재값을 한 번에 조회 (IN)
-  const { data: invRows, error: invErr } = await supabase
-    .from("inventory")
-    .select("product_id,on_hand_qty")
+  const { data, error } = await supabase
+    .from("products")
+    .select("id,name,category,active,make_enabled,created_at,price,sku,barcode")
     .eq("user_id", userId)
-    .eq("store_id", storeId)
-    .in("product_id", productIds)
+    .or(`name.ilike.%${q}%,sku.ilike.%${q}%,barcode.ilike.%${q}%`)
+    .limit(input.limit ?? 20)
+
+  if (error) throw error
+  return (data ?? []) as DBProduct[]
+}
 
-  if (invErr) throw invErr
+/* =========================
+   Settlement Payments (정산 입금)
+========================= */
 
-  const currentByPid = new Map<string, number>(
-    (invRows ?? []).map((r: any) => [
-      String(r.product_id),
-      Number(r.on_hand_qty ?? 0),
-    ])
-  )
+export async function listSettlementPaymentsDB(input: {
+  settlementId?: string // 없으면 전체
+}): Promise<DBSettlementPayment[]> {
+  const userId = await requireUserId()
 
-  // 5) 계산 후 배치 업서트
-  const payload = productIds.map((pid) => {
-    const current = currentByPid.get(pid) ?? 0
-    const restoreQty = agg.get(pid) ?? 0
-    return {
-      storeId,
-      productId: pid,
-      onHandQty: current + restoreQty,
-    }
-  })
+  let q = supabase
+    .from("settlement_payments")
+    .select("id,user_id,settlement_id,marketplace_id,amount,paid_on,memo,bank_deposit_id,created_at")
+    .eq("user_id", userId)
+    .order("paid_on", { ascending: true })
+    .order("created_at", { ascending: true })
 
-  await upsertInventoryItemsBatchDB(payload)
+  if (input.settlementId) q = q.eq("settlement_id", input.settlementId)
+
+  const { data, error } = await q.returns<DBSettlementPayment[]>()
+  if (error) throw error
+  return data ?? []
 }
 
-export async function upsertSettlementHeaderDB(input: {
+/**
+ * 입금 기록 추가 (부분 입금 가능, 환급/정정은 음수)
+ * - settlements_v2.paid_amount / last_paid_on 은 DB 트리거가 갱신
+ */
+export async function addSettlementPaymentDB(input: {
+  settlementId: string
   marketplaceId: string
-  periodMonth: string // "YYYY-MM"
-  currency?: string
-  grossAmount: number
-  commissionRate: number
-  commissionAmount: number
-  netAmount: number
-  rowsCount: number
-  sourceFilename?: string | null
-  applyToInventory: boolean
-}): Promise<DBSettlement> {
+  amount: number
+  paidOn: string // YYYY-MM-DD
+  memo?: string | null
+  bankDepositId?: string | null
+}): Promise<DBSettlementPayment> {
   const userId = await requireUserId()
 
-  const payload = {
-    user_id: userId,
-    marketplace_id: input.marketplaceId,
-    period_month: input.periodMonth,
-    currency: input.currency ?? "KRW",
-    gross_amount: input.grossAmount,
-    commission_rate: input.commissionRate,
-    commission_amount: input.commissionAmount,
-    net_amount: input.netAmount,
-    rows_count: input.rowsCount,
-    status: "confirmed",
-    apply_to_inventory: input.applyToInventory,
-    source_filename: input.sourceFilename ?? null,
-  }
+  const amount = Math.round(Number(input.amount))
+  if (!Number.isFinite(amount) || amount === 0) throw new Error("입금액을 확인해 주세요.")
+  if (!isIsoDate(input.paidOn)) throw new Error("입금일을 확인해 주세요.")
 
   const { data, error } = await supabase
-    .from("settlements_v2")
-    .upsert(payload, { onConflict: "user_id,marketplace_id,period_month" })
-    .select("*")
+    .from("settlement_payments")
+    .insert({
+      user_id: userId,
+      settlement_id: input.settlementId,
+      marketplace_id: input.marketplaceId,
+      amount,
+      paid_on: input.paidOn,
+      memo: input.memo?.trim() || null,
+      bank_deposit_id: input.bankDepositId ?? null,
+    })
+    .select("id,user_id,settlement_id,marketplace_id,amount,paid_on,memo,bank_deposit_id,created_at")
     .single()
 
   if (error) throw error
-  return data as DBSettlement
+  return data as DBSettlementPayment
+}
+
+export async function deleteSettlementPaymentDB(input: { paymentId: string }): Promise<void> {
+  const userId = await requireUserId()
+
+  const { error } = await supabase
+    .from("settlement_payments")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", input.paymentId)
+
+  if (error) throw error
 }
 
-export async function replaceSettlementLinesDB(input: {
+// 입금 예정일 직접 지정 (null이면 입점처 정산 주기/정산일로 계산)
+export async function updateSettlementPayoutDueDateDB(input: {
   settlementId: string
-  marketplaceId: string
-  lines: Array<{
-    productId?: string | null
-    productNameRaw: string
-    productNameMatched?: string | null
-    skuRaw?: string | null
-    qtySold: number
-    unitPrice?: number | null
-    grossAmount: number
-    matchStatus: "matched" | "unmatched" | "manual"
-  }>
+  dueDate: string | null
 }): Promise<void> {
   const userId = await requireUserId()
+  if (input.dueDate != null && !isIsoDate(input.dueDate)) throw new Error("입금 예정일을 확인해 주세요.")
 
-  const { error: delErr } = await supabase
-    .from("settlement_lines_v2")
-    .delete()
+  const { error } = await supabase
+    .from("settlements_v2")
+    .update({ payout_due_date: input.dueDate, updated_at: new Date().toISOString() })
     .eq("user_id", userId)
-    .eq("settlement_id", input.settlementId)
+    .eq("id", input.settlementId)
 
-  if (delErr) throw delErr
+  if (error) throw error
+}
 
-  if (input.lines.length === 0) return
+/* =========================
+   Bank Deposits (은행 입금 대사)
+========================= */
 
-  const rows = input.lines.map((l) => ({
-    settlement_id: input.settlementId,
-    user_id: userId,
-    marketplace_id: input.marketplaceId,
-    product_id: l.productId ?? null,
-    product_name_raw: l.productNameRaw,
-    product_name_matched: l.productNameMatched ?? null,
-    sku_raw: l.skuRaw ?? null,
-    qty_sold: l.qtySold,
-    unit_price: l.unitPrice ?? null,
-    gross_amount: l.grossAmount,
-    match_status: l.matchStatus,
-  }))
+export type BankDepositInput = {
+  depositedOn: string // YYYY-MM-DD
+  depositor: string
+  amount: number
+  memo?: string | null
+  dedupeKey: string
+}
 
-  const { error: insErr } = await supabase.from("settlement_lines_v2").insert(rows)
-  if (insErr) throw insErr
+export type BankDepositWithLinks = DBBankDeposit & {
+  payments: DBSettlementPayment[] // 이 입금으로 기록된 정산 입금
+  linkedAmount: number
 }
 
-export async function searchProductsForSettlementDB(input: {
-  query: string
-  limit?: number
-}): Promise<DBProduct[]> {
+/**
+ * 통장 입금 저장 (같은 dedupe_key는 건너뜀)
+ * @returns 새로 저장된 건수
+ */
+export async function importBankDepositsDB(input: {
+  deposits: BankDepositInput[]
+  sourceFilename?: string | null
+}): Promise<number> {
   const userId = await requireUserId()
-  const q = (input.query ?? "").trim()
-  if (!q) return []
+  if (input.deposits.length === 0) return 0
 
   const { data, error } = await supabase
-    .from("products")
-    .select("id,name,category,active,make_enabled,created_at,price,sku,barcode")
+    .from("bank_deposits")
+    .upsert(
+      input.deposits.map((d) => ({
+        user_id: userId,
+        deposited_on: d.depositedOn,
+        depositor: d.depositor,
+        amount: d.amount,
+        memo: d.memo ?? null,
+        source_filename: input.sourceFilename ?? null,
+        dedupe_key: d.dedupeKey,
+      })),
+      { onConflict: "user_id,dedupe_key", ignoreDuplicates: true }
+    )
+    .select("id")
+
+  if (error) throw error
+  return (data ?? []).length
+}
+
+/**
+ * 입금 내역 + 연결된 정산 입금
+ * - 기본: 숨김(ignored) 제외
+ */
+export async function listBankDepositsDB(input: { includeIgnored?: boolean } = {}): Promise<BankDepositWithLinks[]> {
+  const userId = await requireUserId()
+
+  let q = supabase
+    .from("bank_deposits")
+    .select("id,user_id,deposited_on,depositor,amount,memo,source_filename,dedupe_key,ignored,created_at")
     .eq("user_id", userId)
-    .or(`name.ilike.%${q}%,sku.ilike.%${q}%,barcode.ilike.%${q}%`)
-    .limit(input.limit ?? 20)
+    .order("deposited_on", { ascending: false })
+    .order("created_at", { ascending: false })
+
+  if (!input.includeIgnored) q = q.eq("ignored", false)
+
+  const { data: deposits, error } = await q.returns<DBBankDeposit[]>()
+  if (error) throw error
+
+  const { data: payments, error: pErr } = await supabase
+    .from("settlement_payments")
+    .select("id,user_id,settlement_id,marketplace_id,amount,paid_on,memo,bank_deposit_id,created_at")
+    .eq("user_id", userId)
+    .not("bank_deposit_id", "is", null)
+    .returns<DBSettlementPayment[]>()
+  if (pErr) throw pErr
+
+  const byDeposit = new Map<string, DBSettlementPayment[]>()
+  for (const p of payments ?? []) {
+    if (!p.bank_deposit_id) continue
+    const list = byDeposit.get(p.bank_deposit_id) ?? []
+    list.push(p)
+    byDeposit.set(p.bank_deposit_id, list)
+  }
+
+  return (deposits ?? []).map((d) => {
+    const linked = byDeposit.get(d.id) ?? []
+    return {
+      ...d,
+      payments: linked,
+      linkedAmount: linked.reduce((sum, p) => sum + Number(p.amount ?? 0), 0),
+    }
+  })
+}
+
+// settlement_payments 입금 연결 트리거 예외 → 사용자 메시지
+const LINK_DEPOSIT_ERRORS: Record<string, string> = {
+  deposit_over_linked: "입금 잔액보다 많이 연결할 수 없어요. 목록을 새로고침해 주세요.",
+  deposit_not_found: "입금 내역을 찾을 수 없습니다.",
+  deposit_link_amount_invalid: "연결할 금액을 확인해 주세요.",
+}
+
+/**
+ * 입금 → 정산 연결 (정산 입금 기록 생성 → 정산 입금 합계는 트리거가 갱신)
+ */
+export async function linkBankDepositDB(input: {
+  depositId: string
+  settlementId: string
+  marketplaceId: string
+  amount: number
+  depositedOn: string
+  depositor: string
+}): Promise<void> {
+  try {
+    await addSettlementPaymentDB({
+      settlementId: input.settlementId,
+      marketplaceId: input.marketplaceId,
+      amount: input.amount,
+      paidOn: input.depositedOn,
+      memo: `은행 입금 · ${input.depositor || "입금자 없음"}`,
+      bankDepositId: input.depositId,
+    })
+  } catch (e) {
+    // 입금 잔액은 DB 트리거가 입금 행을 잠그고 다시 검사
+    const friendly = LINK_DEPOSIT_ERRORS[(e as { message?: string } | null)?.message ?? ""]
+    throw friendly ? new Error(friendly) : e
+  }
+}
+
+// 연결 해제: 이 입금으로 만든 정산 입금 기록 삭제
+export async function unlinkBankDepositDB(input: { depositId: string }): Promise<void> {
+  const userId = await requireUserId()
+
+  const { error } = await supabase
+    .from("settlement_payments")
+    .delete()
+    .eq("user_id", userId)
+    .eq("bank_deposit_id", input.depositId)
+
+  if (error) throw error
+}
+
+export async function setBankDepositIgnoredDB(input: { depositId: string; ignored: boolean }): Promise<void> {
+  const userId = await requireUserId()
+
+  const { error } = await supabase
+    .from("bank_deposits")
+    .update({ ignored: input.ignored })
+    .eq("user_id", userId)
+    .eq("id", input.depositId)
 
   if (error) throw error
-  return (data ?? []) as DBProduct[]
 }
 
 /* =========================
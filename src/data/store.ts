@@ -13,9 +13,14 @@ export function createEmptyData(): AppData {
       products: [],
       stores: [],
       inventory: [],
+      warehouses: [],
+      warehouseStock: [],
+      materials: [],
+      productMaterials: [],
       storeProductStates: [], // ✅ 반드시 추가
       settlements: [],
       settlementsV2: [],
+      storeTerms: [],
       plans: [],
       updatedAt: Date.now(),
     };
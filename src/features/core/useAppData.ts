@@ -4,8 +4,13 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import type { ChangeEvent } from "react"
 import { toast } from "@/lib/toast"
+import { parseCsv, stringifyCsv } from "@/lib/csv"
+import { firstFilledSheetIndex, isXlsxFileName, readXlsxFile } from "@/lib/xlsx"
+import type { XlsxWorkbook } from "@/lib/xlsx"
+import { ENCODING_LABEL, readCsvFile } from "@/lib/csvEncoding"
+import type { CsvEncoding } from "@/lib/csvEncoding"
 
-import type { AppData } from "@/data/models"
+import type { AppData, TargetSettings } from "@/data/models"
 import { downloadJson, generateId, readJsonFile } from "@/data/store"
 import {
   loadDataFromDB,
@@ -21,14 +26,20 @@ import {
   deleteCategoryDB,
   updateStoreDB,
   upsertProductsBulkDB,
-  updateProductCategoryDB
+  updateProductCategoryDB,
+  createWarehouseDB,
+  updateWarehouseDB,
+  deleteWarehouseDB,
 } from "@/data/store.supabase"
 import {
   supabase,
   getOrCreateMyProfile,
   updateMyDefaultTargetQty,
   updateMyLowStockThreshold,
+  updateMyTargetSettings,
+  type Profile,
 } from "@/lib/supabaseClient"
+import { DEFAULT_TARGET_SETTINGS } from "@/features/inventory/lib/targets"
 
 /**
  * ✅ CSV row 타입(템플릿: category,name,active,price,sku,barcode)
@@ -62,6 +73,24 @@ type ProductCsvConflictInfo = {
   conflicts: ProductCsvConflict[]
 }
 
+// 엑셀 제품 파일: 시트/헤더 행을 고른 뒤 가져오기
+export type ProductXlsxPick = {
+  fileName: string
+  book: XlsxWorkbook
+  sheetIndex: number
+  headerRow: number // 헤더 앞 건너뛸 줄 수 (0 = 자동 감지)
+}
+
+function toTargetSettings(profile: Profile): TargetSettings {
+  return {
+    mode: profile.target_mode === "velocity" ? "velocity" : "fixed",
+    velocityMonths: profile.velocity_months ?? DEFAULT_TARGET_SETTINGS.velocityMonths,
+    coverMonths: Number(profile.cover_months ?? DEFAULT_TARGET_SETTINGS.coverMonths),
+    minQty: profile.target_min_qty ?? null,
+    maxQty: profile.target_max_qty ?? null,
+  }
+}
+
 function normalizeCategoryKey(raw: string | null | undefined) {
   return (raw ?? "").trim()
 }
@@ -75,9 +104,14 @@ const EMPTY: AppData = {
   products: [],
   stores: [],
   inventory: [],
+  warehouses: [],
+  warehouseStock: [],
+  materials: [],
+  productMaterials: [],
   storeProductStates: [],
   settlements: [],
   settlementsV2: [],
+  storeTerms: [],
   plans: [],
   updatedAt: Date.now(),
 }
@@ -98,18 +132,13 @@ function parseNumberLikeNullable(v: string): number | null {
   return Math.max(0, Math.round(n))
 }
 
-// 단순 CSV 파서(템플릿 기준). 복잡한 인용부호 케이스는 지원하지 않음.
-function parseSimpleCSV(text: string): ProductCsvRow[] {
-  const lines = text
-    .replace(/\r\n/g, "\n")
-    .replace(/\r/g, "\n")
-    .split("\n")
-    .map((l) => l.trim())
-    .filter((l) => l.length > 0)
+// 제품 CSV(템플릿 기준) → 행. 따옴표/쉼표가 들어간 제품명은 공용 RFC 4180 파서가 처리
+// - headerRow: 헤더 앞 건너뛸 줄 수 (0 = 자동 감지, 엑셀 헤더 행 선택)
+function parseSimpleCSV(text: string, headerRow = 0): ProductCsvRow[] {
+  const { headers, rows: records } = parseCsv(text, { headerRow })
+  if (headers.length === 0) return []
 
-  if (lines.length === 0) return []
-
-  const header = lines[0].split(",").map((x) => x.trim().toLowerCase())
+  const header = headers.map((x) => x.trim().toLowerCase())
   const idxCategory = header.indexOf("category")
   const idxName = header.indexOf("name")
   const idxActive = header.indexOf("active")
@@ -125,8 +154,7 @@ function parseSimpleCSV(text: string): ProductCsvRow[] {
 
   const rows: ProductCsvRow[] = []
 
-  for (let i = 1; i < lines.length; i++) {
-    const cols = lines[i].split(",").map((x) => x.trim())
+  for (const cols of records) {
 
     const category = idxCategory >= 0 ? (cols[idxCategory] ?? "").trim() : ""
     const name = (cols[idxName] ?? "").trim()
@@ -198,13 +226,16 @@ const seedKeyRef = useRef<string>("")
   // ✅ 유저별 설정
   const [defaultTargetQtyInput, setDefaultTargetQtyInput] = useState<string>("5")
   const [lowStockThresholdInput, setLowStockThresholdInput] = useState<string>("2")
+  const [targetSettings, setTargetSettings] = useState<TargetSettings>(DEFAULT_TARGET_SETTINGS)
   const [profileLoading, setProfileLoading] = useState(true)
   const [profileSaving, setProfileSaving] = useState(false)
 
   // ✅ CSV 업로드
   const csvInputRef = useRef<HTMLInputElement | null>(null)
   const [csvBusy, setCsvBusy] = useState(false)
+  const [csvEncoding, setCsvEncoding] = useState<CsvEncoding>("auto") // 자동 감지(BOM → UTF-8 → CP949) / 수동 지정
   const [csvConflictInfo, setCsvConflictInfo] = useState<ProductCsvConflictInfo | null>(null)
+  const [productXlsx, setProductXlsx] = useState<ProductXlsxPick | null>(null)
 
   const handleProductCsvUpload = useCallback(() => {
     // 템플릿 다운로드는 ProductsManager에서도 하고 있으니
@@ -269,6 +300,7 @@ useEffect(() => {
       if (!alive) return
       setDefaultTargetQtyInput(String(profile.default_target_qty))
       setLowStockThresholdInput(String(profile.low_stock_threshold ?? 2))
+      setTargetSettings(toTargetSettings(profile))
     } catch (e) {
       console.error("[profiles] failed to load profile", e)
     } finally {
@@ -458,6 +490,8 @@ const createStoreWithFields = useCallback(
       settlementCycle: input.settlementCycle ?? null,
       settlementDay: input.settlementDay ?? null,
       settlementNote: input.settlementNote ?? null,
+      nameAliases: input.nameAliases ?? [],
+      depositorNames: input.depositorNames ?? [],
     } as any
 
     try {
@@ -778,6 +812,71 @@ setNewStoreMemo("")
     [refresh]
   )
 
+  // ===== warehouses (작업실/창고) =====
+  const addWarehouse = useCallback(
+    async (rawName: string) => {
+      const name = rawName.trim()
+      if (!name) return
+
+      const w = {
+        id: generateId("w"),
+        name,
+        memo: null,
+        isDefault: false,
+        createdAt: Date.now(),
+      }
+
+      setData((prev) => ({ ...prev, warehouses: [...prev.warehouses, w], updatedAt: Date.now() }))
+
+      try {
+        await createWarehouseDB(w)
+        toast.success("보관 장소를 추가했어요.")
+      } catch (e) {
+        console.error(e)
+        toast.error(`보관 장소 추가 실패: ${e instanceof Error ? e.message : String(e)}`)
+        await refresh()
+      }
+    },
+    [refresh]
+  )
+
+  const renameWarehouse = useCallback(
+    async (warehouseId: string, rawName: string) => {
+      const name = rawName.trim()
+      if (!name) return
+
+      setData((prev) => ({
+        ...prev,
+        warehouses: prev.warehouses.map((w) => (w.id === warehouseId ? { ...w, name } : w)),
+        updatedAt: Date.now(),
+      }))
+
+      try {
+        await updateWarehouseDB({ id: warehouseId, name })
+      } catch (e) {
+        console.error(e)
+        toast.error(`보관 장소 저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+        await refresh()
+      }
+    },
+    [refresh]
+  )
+
+  const deleteWarehouse = useCallback(
+    async (warehouseId: string) => {
+      try {
+        await deleteWarehouseDB(warehouseId)
+        toast.success("보관 장소를 삭제했어요.")
+      } catch (e) {
+        console.error(e)
+        toast.error(e instanceof Error ? e.message : "보관 장소 삭제 실패")
+      } finally {
+        await refresh()
+      }
+    },
+    [refresh]
+  )
+
   const toggleOne = useCallback(
     async (storeId: string, productId: string, next: boolean) => {
       const prevStates = data.storeProductStates
@@ -813,6 +912,33 @@ setNewStoreMemo("")
     [data.storeProductStates, refresh, scheduleRefresh]
   )    
 
+  // 여러 제품을 한 번에 ON/OFF (옵션 상품 묶음 토글 등)
+  const toggleMany = useCallback(
+    async (storeId: string, productIds: string[], next: boolean) => {
+      if (productIds.length === 0) return
+      const ids = new Set(productIds)
+      const prevStates = data.storeProductStates
+
+      setData((prev) => {
+        const cur = prev.storeProductStates ?? []
+        const kept = cur.filter((x) => !(x.storeId === storeId && ids.has(x.productId)))
+        const nextStates = [...productIds.map((pid) => ({ storeId, productId: pid, enabled: next })), ...kept]
+        return { ...prev, storeProductStates: nextStates, updatedAt: Date.now() }
+      })
+
+      try {
+        await setStoreProductsEnabledBulkDB({ storeId, productIds, enabled: next })
+        scheduleRefresh()
+      } catch (e) {
+        console.error(e)
+        setData((prev) => ({ ...prev, storeProductStates: prevStates, updatedAt: Date.now() }))
+        toast.error("일괄 변경 저장에 실패했어요.")
+        await refresh()
+      }
+    },
+    [data.storeProductStates, refresh, scheduleRefresh]
+  )
+
   const toggleAll = useCallback(
     async (storeId: string, next: boolean) => {
       const productIds = data.products.map((p) => p.id)
@@ -871,6 +997,8 @@ setNewStoreMemo("")
         settlementCycle?: "monthly" | "weekly" | "biweekly" | "ad-hoc" | null
         settlementDay?: number | null
         settlementNote?: string | null
+        nameAliases?: string[] | null
+        depositorNames?: string[] | null
       }
     ) => {
       const hit = data.stores.find((s) => s.id === storeId)
@@ -913,6 +1041,8 @@ setNewStoreMemo("")
         settlementCycle: input.settlementCycle ?? (hit as any).settlementCycle ?? null,
         settlementDay: safeSettlementDay,
         settlementNote: input.settlementNote ?? (hit as any).settlementNote ?? null,
+        nameAliases: input.nameAliases ?? hit.nameAliases ?? [],
+        depositorNames: input.depositorNames ?? hit.depositorNames ?? [],
       }
   
       const prevStores = data.stores
@@ -1075,10 +1205,10 @@ const applyCsvProducts = useCallback(
   [data, categories, refresh]
 )
 
-const handleProductCsvFile = useCallback(
-  async (file: File) => {
-    const text = await file.text()
-    const rows = parseSimpleCSV(text)
+// CSV 텍스트(엑셀 시트 포함) → 충돌 확인 → 반영
+const importProductCsvText = useCallback(
+  async (text: string, fileName: string, headerRow = 0) => {
+    const rows = parseSimpleCSV(text, headerRow)
     // ✅ 엑셀 과학적 표기/손상 간단 감지 (barcode/SKU)
 const suspicious = rows.filter((r) => {
   const sku = String(r.sku ?? "").trim()
@@ -1159,7 +1289,7 @@ if (suspicious.length > 0) {
     }
 
     if (conflicts.length > 0) {
-      setCsvConflictInfo({ fileName: file.name, rows: uniqueRows, conflicts })
+      setCsvConflictInfo({ fileName, rows: uniqueRows, conflicts })
       return
     }
 
@@ -1168,6 +1298,58 @@ if (suspicious.length > 0) {
   [data.products, applyCsvProducts]
 )
 
+// ✅ 파일 선택: CSV는 바로 가져오고, 엑셀은 시트/헤더 행 선택 후 가져오기
+const handleProductCsvFile = useCallback(
+  async (file: File) => {
+    try {
+      if (isXlsxFileName(file.name)) {
+        const book = await readXlsxFile(file)
+        setProductXlsx({ fileName: file.name, book, sheetIndex: firstFilledSheetIndex(book), headerRow: 0 })
+        return
+      }
+
+      const read = await readCsvFile(file, csvEncoding)
+      if (csvEncoding === "auto" && read.encoding !== "utf-8") {
+        toast.message(`${ENCODING_LABEL[read.encoding]} 인코딩으로 읽었어요.`)
+      }
+      await importProductCsvText(read.text, file.name)
+    } catch (e) {
+      console.error(e)
+      toast.error(`파일 읽기 실패: ${e instanceof Error ? e.message : String(e)}`)
+      if (csvInputRef.current) csvInputRef.current.value = ""
+    }
+  },
+  [importProductCsvText, csvEncoding]
+)
+
+const setProductXlsxSheet = useCallback((sheetIndex: number) => {
+  setProductXlsx((p) => (p ? { ...p, sheetIndex, headerRow: 0 } : p))
+}, [])
+
+const setProductXlsxHeaderRow = useCallback((headerRow: number) => {
+  setProductXlsx((p) => (p ? { ...p, headerRow } : p))
+}, [])
+
+const confirmProductXlsx = useCallback(async () => {
+  if (!productXlsx) return
+  const sheet = productXlsx.book.sheets[productXlsx.sheetIndex]
+  setProductXlsx(null)
+  if (!sheet) return
+
+  try {
+    await importProductCsvText(stringifyCsv(sheet.rows), productXlsx.fileName, productXlsx.headerRow)
+  } catch (e) {
+    console.error(e)
+    toast.error(`파일 읽기 실패: ${e instanceof Error ? e.message : String(e)}`)
+    if (csvInputRef.current) csvInputRef.current.value = ""
+  }
+}, [productXlsx, importProductCsvText])
+
+const cancelProductXlsx = useCallback(() => {
+  setProductXlsx(null)
+  if (csvInputRef.current) csvInputRef.current.value = ""
+}, [])
+
 const onChangeProductCsv = useCallback(
   async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -1217,9 +1399,14 @@ const cancelProductCsvConflict = useCallback(() => {
         products: parsed.products ?? [],
         stores: parsed.stores ?? [],
         inventory: parsed.inventory ?? [],
+        warehouses: parsed.warehouses ?? [],
+        warehouseStock: parsed.warehouseStock ?? [],
+        materials: parsed.materials ?? [],
+        productMaterials: parsed.productMaterials ?? [],
         storeProductStates: parsed.storeProductStates ?? [],
         settlements: parsed.settlements ?? [],
         settlementsV2: parsed.settlementsV2 ?? [], // ✅ 추가
+        storeTerms: parsed.storeTerms ?? [],
         plans: parsed.plans ?? [],
         updatedAt: Date.now(),
       }
@@ -1266,6 +1453,22 @@ const cancelProductCsvConflict = useCallback(() => {
     }
   }, [lowStockThresholdInput])
 
+  const saveTargetSettings = useCallback(async (next: TargetSettings) => {
+    if (next.minQty != null && next.maxQty != null && next.minQty > next.maxQty) {
+      toast.error("최소 목표는 최대 목표보다 클 수 없어요.")
+      return
+    }
+    try {
+      setProfileSaving(true)
+      setTargetSettings(toTargetSettings(await updateMyTargetSettings(next)))
+      toast.success("목표 재고 규칙을 저장했어요.")
+    } catch {
+      toast.error("저장에 실패했어요.")
+    } finally {
+      setProfileSaving(false)
+    }
+  }, [])
+
   return {
     data,
     setData,
@@ -1282,6 +1485,8 @@ const cancelProductCsvConflict = useCallback(() => {
     setLowStockThresholdInput,
     saveDefaultTargetQty,
     saveLowStockThreshold,
+    targetSettings,
+    saveTargetSettings,
 
     // categories
     categories,
@@ -1320,6 +1525,7 @@ const cancelProductCsvConflict = useCallback(() => {
     addStore,
     deleteStore,
     toggleOne,
+    toggleMany,
     toggleAll,
     newStoreCommissionInput,
     setNewStoreCommissionInput,
@@ -1327,10 +1533,22 @@ const cancelProductCsvConflict = useCallback(() => {
     setNewStoreMemo,
     createStoreWithFields,
 
+    // warehouses
+    addWarehouse,
+    renameWarehouse,
+    deleteWarehouse,
+
     // csv
     csvInputRef,
     csvBusy,
+    csvEncoding,
+    setCsvEncoding,
     csvConflictInfo,
+    productXlsx,
+    setProductXlsxSheet,
+    setProductXlsxHeaderRow,
+    confirmProductXlsx,
+    cancelProductXlsx,
     handleProductCsvUpload,
     onChangeProductCsv,
     resolveProductCsvConflict,
@@ -0,0 +1,64 @@
+// src/features/core/useBarcodeScanner.ts
+// USB 바코드 스캐너(키보드 웨지) 입력 감지: 빠른 연속 키 입력 + Enter = 스캔 1회
+
+import { useEffect, useRef } from "react"
+
+function isEditableTarget(t: EventTarget | null) {
+  if (!(t instanceof HTMLElement)) return false
+  if (t.isContentEditable) return true
+  const tag = t.tagName
+  return tag === "INPUT" || tag === "TEXTAREA" || tag === "SELECT"
+}
+
+/**
+ * - 입력칸에 포커스가 있을 때는 관여하지 않음 (일반 타이핑/스캔 전용 입력칸이 직접 처리)
+ * - 키 간격이 maxIntervalMs보다 길면 사람 타이핑으로 보고 버퍼를 비움
+ */
+export function useBarcodeScanner(input: {
+  enabled: boolean
+  onScan: (code: string) => void
+  minLength?: number
+  maxIntervalMs?: number
+}) {
+  const { enabled, minLength = 4, maxIntervalMs = 50 } = input
+
+  // 최신 콜백 유지 (리스너 재등록 없이)
+  const onScanRef = useRef(input.onScan)
+  useEffect(() => {
+    onScanRef.current = input.onScan
+  }, [input.onScan])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    let buffer = ""
+    let lastAt = 0
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return
+      if (isEditableTarget(e.target)) {
+        buffer = ""
+        return
+      }
+
+      const now = performance.now()
+      if (now - lastAt > maxIntervalMs) buffer = ""
+      lastAt = now
+
+      if (e.key === "Enter") {
+        const code = buffer
+        buffer = ""
+        if (code.length >= minLength) {
+          e.preventDefault()
+          onScanRef.current(code)
+        }
+        return
+      }
+
+      if (e.key.length === 1) buffer += e.key
+    }
+
+    window.addEventListener("keydown", onKeyDown, true)
+    return () => window.removeEventListener("keydown", onKeyDown, true)
+  }, [enabled, minLength, maxIntervalMs])
+}
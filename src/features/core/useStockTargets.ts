@@ -0,0 +1,82 @@
+// src/features/core/useStockTargets.ts
+// 입점처×제품 목표 재고 (직접 지정 / 판매 속도 / 입점처 / 기본) — 재고·납품·대시보드 공용
+
+import { useEffect, useMemo, useState } from "react"
+
+import type { AppData, StoreProductMonthlySales, TargetSettings } from "@/data/models"
+import { listStoreProductMonthlySalesDB } from "@/data/store.supabase"
+import { buildTargetResolver, velocityWindow } from "@/features/inventory/lib/targets"
+
+/**
+ * - velocity 모드일 때만 정산 판매 이력을 읽음
+ * - 정산 목록(settlementsV2)이 바뀌면 다시 집계
+ */
+export function useStockTargets(input: {
+  data: AppData
+  defaultTargetQtyInput: string
+  targetSettings: TargetSettings
+}) {
+  const { data, targetSettings } = input
+
+  const defaultTarget = useMemo(() => {
+    const v = Number.parseInt(String(input.defaultTargetQtyInput ?? "5").trim(), 10)
+    return Number.isFinite(v) ? Math.max(0, v) : 5
+  }, [input.defaultTargetQtyInput])
+
+  const [sales, setSales] = useState<StoreProductMonthlySales[]>([])
+  const [loadedKey, setLoadedKey] = useState("")
+
+  const useVelocity = targetSettings.mode === "velocity"
+  const period = useMemo(() => velocityWindow(targetSettings.velocityMonths), [targetSettings.velocityMonths])
+  const settlementsKey = useMemo(
+    () => data.settlementsV2.map((s) => `${s.id}:${s.period_start}~${s.period_end}`).join("|"),
+    [data.settlementsV2]
+  )
+
+  const requestKey = useVelocity ? `${period.fromMonth}|${period.toMonth}|${settlementsKey}` : ""
+
+  useEffect(() => {
+    if (!requestKey) {
+      setSales([])
+      setLoadedKey("")
+      return
+    }
+
+    let alive = true
+    ;(async () => {
+      try {
+        const rows = await listStoreProductMonthlySalesDB({ fromMonth: period.fromMonth, toMonth: period.toMonth })
+        if (alive) setSales(rows)
+      } catch (e) {
+        console.error("[targets] failed to load sales history", e)
+        if (alive) setSales([])
+      } finally {
+        if (alive) setLoadedKey(requestKey)
+      }
+    })()
+
+    return () => {
+      alive = false
+    }
+  }, [requestKey, period.fromMonth, period.toMonth])
+
+  const resolver = useMemo(
+    () =>
+      buildTargetResolver({
+        stores: data.stores,
+        storeProductStates: data.storeProductStates,
+        defaultTarget,
+        settings: targetSettings,
+        sales,
+      }),
+    [data.stores, data.storeProductStates, defaultTarget, targetSettings, sales]
+  )
+
+  return {
+    defaultTarget,
+    targetOf: resolver.targetOf,
+    // 판매 이력 집계가 끝났는지 (fixed 모드는 항상 true)
+    ready: loadedKey === requestKey,
+    period,
+  }
+}
@@ -2,6 +2,7 @@
 import { useMemo } from "react"
 
 import { useAppData } from "@/features/core/useAppData"
+import { useStockTargets } from "@/features/core/useStockTargets"
 import { useNavigate } from "react-router-dom"
 import { AppButton } from "@/components/app/AppButton"
 import { AppCard } from "@/components/app/AppCard"
@@ -9,6 +10,10 @@ import { AppBadge } from "@/components/app/AppBadge"
 
 import { ErrorState } from "@/components/shared/ErrorState"
 import { Skeleton } from "@/components/shared/Skeleton"
+import { buildMakeRows, homeStockByProduct } from "@/features/inventory/lib/makeList"
+import { stockProducts } from "@/features/products/lib/variants"
+import { monthShare, periodOf } from "@/lib/settlementPeriod"
+import { buildPayoutRows, summarizeReceivables } from "@/lib/settlementPayout"
 
 function fmtKRW(v: number) {
   return new Intl.NumberFormat("ko-KR").format(Math.round(v))
@@ -39,10 +44,13 @@ function DashboardViewInner() {
   const stores = (data.stores ?? []) as any[]
   const products = (data.products ?? []) as any[]
   const inventory = (data.inventory ?? []) as any[] // { storeId, productId, onHandQty }
-  const settlementsV2 = ((data as any).settlementsV2 ?? []) as any[] // snake_case: period_month, gross_amount...
+  const settlementsV2 = ((data as any).settlementsV2 ?? []) as any[] // snake_case: period_start/period_end, gross_amount...
+  const warehouses = data.warehouses
+  const warehouseStock = data.warehouseStock
 
   // ===== KPI: 기본 수치 =====
-  const totalSku = useMemo(() => products.length, [products])
+  // 옵션 상품이 있으면 대표 제품 대신 옵션 수로 셈
+  const totalSku = useMemo(() => stockProducts(products).length, [products])
 
   const storeCount = useMemo(() => stores.length, [stores])
 
@@ -56,23 +64,56 @@ function DashboardViewInner() {
     return inventory.filter((it: any) => n(it.onHandQty) < lowStockThreshold).length
   }, [inventory, lowStockThreshold])
 
-  // 제작 필요 수(간단 버전): 목표재고 - 현재재고 (store별 override는 상세 탭에서 처리)
-  const targetQty = useMemo(() => {
-    const v = Number.parseInt(String(a.defaultTargetQtyInput ?? "5").trim(), 10)
-    return Number.isFinite(v) ? Math.max(0, v) : 5
-  }, [a.defaultTargetQtyInput])
+  // 제작 필요 수: 입점처×제품 목표 재고(직접 지정/판매 속도/입점처/기본) - 현재재고
+  const { defaultTarget, targetOf } = useStockTargets(a)
 
   const makeNeedProductCount = useMemo(() => {
     // storeId+productId 조합으로 들어온 inventory를 productId 기준으로 묶어서
     // 어떤 스토어에서든 목표 미달이면 제작 필요로 카운트(overview 목적)
+    // - 작업실 재고로 채울 수 있는 부족분은 제외
+    const rows = buildMakeRows(
+      inventory,
+      (it) => targetOf(String(it.storeId), String(it.productId)).qty - n(it.onHandQty),
+      homeStockByProduct(warehouseStock)
+    )
     const need = new Set<string>()
-    for (const it of inventory as any[]) {
-      const onHand = n(it.onHandQty)
-      const needQty = Math.max(0, targetQty - onHand)
-      if (needQty > 0) need.add(String(it.productId))
+    for (const r of rows) {
+      if (r.make > 0) need.add(String(r.it.productId))
     }
     return need.size
-  }, [inventory, targetQty])
+  }, [inventory, targetOf, warehouseStock])
+
+  // ===== 위치별 재고 (입점처 + 작업실/창고) =====
+  const unitsByLocation = useMemo(() => {
+    const byStore = new Map<string, number>()
+    for (const it of data.inventory) {
+      const sid = String(it.storeId)
+      byStore.set(sid, (byStore.get(sid) ?? 0) + Math.max(0, n(it.onHandQty)))
+    }
+
+    const byWarehouse = new Map<string, number>()
+    for (const w of warehouseStock) {
+      byWarehouse.set(w.warehouseId, (byWarehouse.get(w.warehouseId) ?? 0) + Math.max(0, n(w.onHandQty)))
+    }
+
+    const rows = [
+      ...warehouses.map((w) => ({
+        key: `wh:${w.id}`,
+        name: w.name,
+        kind: "warehouse" as const,
+        units: byWarehouse.get(w.id) ?? 0,
+      })),
+      ...data.stores.map((s) => ({
+        key: `st:${s.id}`,
+        name: String(s.name ?? "입점처"),
+        kind: "store" as const,
+        units: byStore.get(String(s.id)) ?? 0,
+      })),
+    ].sort((a, b) => b.units - a.units)
+
+    const total = rows.reduce((acc, r) => acc + r.units, 0)
+    return { rows, total }
+  }, [data.inventory, data.stores, warehouseStock, warehouses])
 
   // ===== 정산(성과) 요약: 이번달/전월/1위 채널 =====
   const now = new Date()
@@ -85,16 +126,18 @@ function DashboardViewInner() {
 
     const byMarketplace = new Map<string, number>()
 
+    // 주/격주 정산처럼 월을 걸친 기간은 일수 비율로 나눠 담음
     for (const s of settlementsV2 as any[]) {
-      const pm = String(s.period_month ?? "")
+      const period = periodOf(s)
       const mid = String(s.marketplace_id ?? "")
       const gross = n(s.gross_amount)
 
-      if (pm === thisMonth) {
-        thisTotal += gross
-        if (mid) byMarketplace.set(mid, (byMarketplace.get(mid) ?? 0) + gross)
+      const thisShare = monthShare(period, thisMonth)
+      if (thisShare > 0) {
+        thisTotal += gross * thisShare
+        if (mid) byMarketplace.set(mid, (byMarketplace.get(mid) ?? 0) + gross * thisShare)
       }
-      if (pm === prevMonth) prevTotal += gross
+      prevTotal += gross * monthShare(period, prevMonth)
     }
 
     const ranked = Array.from(byMarketplace.entries())
@@ -119,6 +162,24 @@ function DashboardViewInner() {
     }
   }, [settlementsV2, stores, thisMonth, prevMonth])
 
+  // ===== 입금 지연: 입금 예정일이 지났는데 정산금을 다 받지 못한 정산 =====
+  const overduePayouts = useMemo(() => {
+    const rows = buildPayoutRows({
+      settlements: data.settlementsV2 ?? [],
+      stores: data.stores ?? [],
+      storeTerms: data.storeTerms ?? [],
+    }).filter((r) => r.overdue)
+    const byStore = summarizeReceivables(rows).map((s) => ({
+      ...s,
+      maxOverdueDays: Math.max(0, ...rows.filter((r) => r.storeId === s.storeId).map((r) => r.overdueDays)),
+    }))
+    return {
+      count: rows.length,
+      amount: rows.reduce((sum, r) => sum + r.outstanding, 0),
+      byStore,
+    }
+  }, [data.settlementsV2, data.stores, data.storeTerms])
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -202,7 +263,9 @@ function DashboardViewInner() {
       <div className="space-y-1">
         <p className="text-sm text-muted-foreground">제작 필요 제품</p>
         <p className="text-3xl font-semibold tabular-nums">{makeNeedProductCount}</p>
-        <p className="text-xs text-muted-foreground">목표 재고: {targetQty}</p>
+        <p className="text-xs text-muted-foreground">
+          목표 재고: {a.targetSettings.mode === "velocity" ? "판매 속도 기준" : defaultTarget}
+        </p>
       </div>
       {makeNeedProductCount > 0 ? (
         <AppBadge>할 일</AppBadge>
@@ -223,6 +286,39 @@ function DashboardViewInner() {
   </AppCard>
 </div>
 
+      {/* 위치별 재고 */}
+      <AppCard className="shadow-sm">
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">위치별 재고</p>
+            <p className="text-xs text-muted-foreground">
+              작업실/창고와 입점처에 있는 전체 수량: <span className="tabular-nums">{unitsByLocation.total}</span>개
+            </p>
+          </div>
+          <AppButton variant="secondary" onClick={() => nav("/inventory?tab=home")}>
+            작업실 재고
+          </AppButton>
+        </div>
+
+        <div className="mt-4 space-y-2">
+          {unitsByLocation.rows.slice(0, 8).map((r) => {
+            const pct = unitsByLocation.total > 0 ? (r.units / unitsByLocation.total) * 100 : 0
+            return (
+              <div key={r.key} className="flex items-center gap-3">
+                <div className="flex w-[180px] min-w-0 items-center gap-2">
+                  <span className="truncate text-sm">{r.name}</span>
+                  {r.kind === "warehouse" && <AppBadge variant="secondary">보관</AppBadge>}
+                </div>
+                <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
+                  <div className="h-full rounded-full bg-primary" style={{ width: `${pct}%` }} />
+                </div>
+                <span className="w-[64px] text-right text-sm tabular-nums">{r.units}</span>
+              </div>
+            )
+          })}
+        </div>
+      </AppCard>
+
       {/* 매출 요약 */}
       <AppCard className="shadow-sm">
         <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
@@ -272,6 +368,44 @@ function DashboardViewInner() {
           </div>
         </div>
       </AppCard>
+
+      {/* 입금 지연 */}
+      <AppCard className="shadow-sm">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <p className="text-sm font-medium">입금 지연</p>
+              {overduePayouts.count > 0 ? (
+                <AppBadge variant="destructive">{overduePayouts.count}건</AppBadge>
+              ) : (
+                <AppBadge variant="muted">없음</AppBadge>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              입금 예정일(입점처 정산 주기/정산일 기준)이 지났는데 아직 다 받지 못한 정산금이에요.
+            </p>
+          </div>
+
+          <AppButton variant="secondary" onClick={() => nav("/settlements")}>
+            미수금 보기
+          </AppButton>
+        </div>
+
+        {overduePayouts.count > 0 ? (
+          <div className="mt-4 space-y-2">
+            <p className="text-2xl font-semibold tabular-nums">{fmtKRW(overduePayouts.amount)}원</p>
+            {overduePayouts.byStore.slice(0, 5).map((s) => (
+              <div key={s.storeId} className="flex items-center justify-between gap-3 text-sm">
+                <span className="truncate">{s.storeName}</span>
+                <span className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">최대 {s.maxOverdueDays}일</span>
+                  <span className="tabular-nums">{fmtKRW(s.overdueAmount)}원</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : null}
+      </AppCard>
     </div>
   )
 }
@@ -6,6 +6,7 @@ import { AppCard } from "@/components/app/AppCard"
 import { EmptyState } from "@/components/shared/EmptyState"
 import { Skeleton } from "@/components/shared/Skeleton"
 import { UpgradeBlock } from "@/components/shared/UpgradeBlock"
+import { monthPeriod, monthShare, periodOf } from "@/lib/settlementPeriod"
 
 export type MarketplacePerformanceSettlement = {
   id: string
@@ -13,6 +14,8 @@ export type MarketplacePerformanceSettlement = {
   // 프로젝트 DB에서는 period_month / net_amount를 쓰고 있어 둘 다 허용
   month?: string // "YYYY-MM" (legacy)
   period_month?: string // "YYYY-MM" (v2)
+  period_start?: string // "YYYY-MM-DD" (v2 정산 기간, 주/격주 정산)
+  period_end?: string
   gross_amount: number
   net_settlement_amount?: number
   net_amount?: number
@@ -135,21 +138,23 @@ export default function MarketplacePerformance(props: MarketplacePerformanceProp
 
     for (const s of settlements) {
       const gross = n(s.gross_amount)
-      const period = String((s as any).period_month ?? (s as any).month ?? "")
+      const legacyMonth = String(s.month ?? "")
+      const period = periodOf(s) ?? (/^\d{4}-\d{2}$/.test(legacyMonth) ? monthPeriod(legacyMonth) : null)
       const mid = String((s as any).marketplace_id ?? "")
 
       // 특정 입점처만 보는 경우: 모든 계산에서 필터
       if (focusMid && mid !== focusMid) continue
 
-      // 월 합계(전월 대비)는 항상 period 기준으로 계산
-      if (period === thisPeriod) thisM += gross
-      if (period === prevPeriod) prevM += gross
+      // 월 합계(전월 대비)는 항상 period 기준으로 계산 (월을 걸친 기간은 일수 비율로 배분)
+      const thisShare = monthShare(period, thisPeriod)
+      thisM += gross * thisShare
+      prevM += gross * monthShare(period, prevPeriod)
 
       // 집계 스코프: focusMonth가 있으면 period 기준 / 아니면 최근 30일 created_at 기준
       if (focusMonth) {
-        if (period !== thisPeriod) continue
-        totalScope += gross
-        sumByMarketplace.set(mid, (sumByMarketplace.get(mid) ?? 0) + gross)
+        if (thisShare <= 0) continue
+        totalScope += gross * thisShare
+        sumByMarketplace.set(mid, (sumByMarketplace.get(mid) ?? 0) + gross * thisShare)
       } else {
         const createdAt = new Date(String((s as any).created_at ?? ""))
         if (Number.isFinite(createdAt.getTime()) && createdAt >= since30d) {
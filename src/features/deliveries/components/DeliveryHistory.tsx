@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from "react"
+import { Download, Printer } from "lucide-react"
+
+import type { DeliveryNote, Store, Warehouse } from "@/data/models"
+import { listDeliveryNotesDB } from "@/data/store.supabase"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppBadge } from "@/components/app/AppBadge"
+import { Skeleton } from "@/components/shared/Skeleton"
+
+import { toast } from "@/lib/toast"
+import {
+  deliveryNoteFilename,
+  downloadDeliveryNoteCSV,
+  printDeliveryNote,
+} from "@/features/deliveries/lib/deliveryNote"
+
+function fmtKRW(v: number) {
+  return new Intl.NumberFormat("ko-KR").format(Math.round(v))
+}
+
+function fmtDate(iso: string) {
+  const d = new Date(iso)
+  return Number.isNaN(d.getTime()) ? "-" : d.toLocaleDateString("ko-KR")
+}
+
+/**
+ * 납품 이력 (입점처 상세 / 납품 페이지 공용)
+ * - storeId가 있으면 해당 입점처만, 없으면 전체
+ * - reloadKey를 바꾸면 다시 불러옴 (납품 확정 직후 갱신용)
+ */
+export function DeliveryHistory(props: {
+  storeId?: string
+  stores: Store[]
+  warehouses?: Warehouse[]
+  reloadKey?: number
+  limit?: number
+}) {
+  const { storeId, limit } = props
+
+  const [loading, setLoading] = useState(false)
+  const [notes, setNotes] = useState<DeliveryNote[]>([])
+  const [expandedId, setExpandedId] = useState<string>("")
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setNotes(await listDeliveryNotesDB({ storeId, limit }))
+    } catch (e) {
+      console.error(e)
+      toast.error(`납품 이력을 불러오지 못했어요: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [storeId, limit])
+
+  useEffect(() => {
+    void load()
+  }, [load, props.reloadKey])
+
+  const storeName = (id: string) => props.stores.find((s) => s.id === id)?.name ?? "입점처"
+  const warehouseName = (id: string) => props.warehouses?.find((w) => w.id === id)?.name ?? "작업실"
+
+  const onPrint = (n: DeliveryNote) => {
+    try {
+      printDeliveryNote({ note: n, storeName: storeName(n.storeId), fromName: warehouseName(n.warehouseId) })
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : String(e))
+    }
+  }
+
+  if (loading && notes.length === 0) return <Skeleton className="h-24" />
+
+  if (notes.length === 0) {
+    return <div className="text-sm text-muted-foreground">납품 이력이 없습니다.</div>
+  }
+
+  return (
+    <div className="divide-y rounded-lg border">
+      {notes.map((n) => {
+        const open = expandedId === n.id
+        return (
+          <div key={n.id} className="p-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <button
+                type="button"
+                className="flex min-w-0 items-center gap-2 text-left text-sm"
+                onClick={() => setExpandedId(open ? "" : n.id)}
+              >
+                <span className="tabular-nums">{fmtDate(n.createdAt)}</span>
+                {!storeId && <span className="truncate font-medium">{storeName(n.storeId)}</span>}
+                <AppBadge variant="muted">{n.lines.length}종</AppBadge>
+                <span className="text-muted-foreground tabular-nums">
+                  {n.totalQty}개 · {fmtKRW(n.totalAmount)}원
+                </span>
+              </button>
+
+              <div className="flex items-center gap-1">
+                <AppButton type="button" variant="ghost" size="icon-sm" title="출력" onClick={() => onPrint(n)}>
+                  <Printer className="h-4 w-4" />
+                </AppButton>
+                <AppButton
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  title="CSV 다운로드"
+                  onClick={() => downloadDeliveryNoteCSV(deliveryNoteFilename(storeName(n.storeId), n.createdAt), n)}
+                >
+                  <Download className="h-4 w-4" />
+                </AppButton>
+              </div>
+            </div>
+
+            {open && (
+              <div className="mt-2 space-y-1 text-sm">
+                {n.memo && <div className="text-muted-foreground">메모: {n.memo}</div>}
+                {n.lines.map((l) => (
+                  <div key={l.productId} className="flex items-center justify-between gap-2">
+                    <span className="truncate">{l.productName}</span>
+                    <span className="tabular-nums text-muted-foreground">× {l.qty}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,165 @@
+// src/features/deliveries/lib/deliveryNote.ts
+import type { AppData, DeliveryNote, DeliveryNoteLine } from "@/data/models"
+import type { ResolvedTarget } from "@/features/inventory/lib/targets"
+import { stockProducts } from "@/features/products/lib/variants"
+
+export type DeliveryDraftLine = DeliveryNoteLine & {
+  storeOnHand: number
+  target: number
+  need: number // 목표 - 현재 (납품 필요)
+}
+
+function num(v: unknown) {
+  const x = typeof v === "number" ? v : Number(v)
+  return Number.isFinite(x) ? x : 0
+}
+
+/**
+ * 입점처의 부족분(제작 리스트와 같은 기준)으로 납품서 초안 생성
+ * - 해당 입점처에서 취급 ON인 제품만
+ * - qty 기본값 = 부족 수량 (사용자가 조정)
+ */
+export function buildDeliveryDraft(input: {
+  data: AppData
+  storeId: string
+  targetOf: (storeId: string, productId: string) => ResolvedTarget
+}): DeliveryDraftLine[] {
+  const { data, storeId } = input
+  const store = data.stores.find((s) => s.id === storeId)
+  if (!store) return []
+
+  const hasStates = data.storeProductStates.length > 0
+  const enabled = new Set(
+    data.storeProductStates.filter((x) => x.storeId === storeId && x.enabled).map((x) => x.productId)
+  )
+
+  const onHandByPid = new Map<string, number>()
+  for (const it of data.inventory) {
+    if (it.storeId !== storeId) continue
+    onHandByPid.set(it.productId, num(it.onHandQty))
+  }
+
+  return stockProducts(data.products)
+    .filter((p) => (hasStates ? enabled.has(p.id) : true))
+    .map((p) => {
+      const storeOnHand = onHandByPid.get(p.id) ?? 0
+      const target = input.targetOf(storeId, p.id).qty
+      const need = Math.max(0, target - storeOnHand)
+      return {
+        productId: p.id,
+        productName: p.name,
+        barcode: p.barcode ?? null,
+        unitPrice: p.price ?? null,
+        qty: need,
+        storeOnHand,
+        target,
+        need,
+      }
+    })
+    .filter((l) => l.need > 0)
+    .sort((a, b) => b.need - a.need || a.productName.localeCompare(b.productName))
+}
+
+export function deliveryNoteCsvRows(note: Pick<DeliveryNote, "lines">): string[][] {
+  const rows: string[][] = [["제품명", "바코드", "단가", "수량", "금액"]]
+  for (const l of note.lines) {
+    const price = num(l.unitPrice)
+    rows.push([l.productName, l.barcode ?? "", String(price), String(l.qty), String(price * l.qty)])
+  }
+  const totalQty = note.lines.reduce((acc, l) => acc + l.qty, 0)
+  const totalAmount = note.lines.reduce((acc, l) => acc + num(l.unitPrice) * l.qty, 0)
+  rows.push(["합계", "", "", String(totalQty), String(totalAmount)])
+  return rows
+}
+
+export function downloadDeliveryNoteCSV(filename: string, note: Pick<DeliveryNote, "lines">) {
+  const csvContent = deliveryNoteCsvRows(note)
+    .map((r) => r.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(","))
+    .join("\n")
+
+  const BOM = "\uFEFF"
+  const blob = new Blob([BOM + csvContent], { type: "text/csv;charset=utf-8;" })
+  const url = URL.createObjectURL(blob)
+
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+export function deliveryNoteFilename(storeName: string, createdAt: string) {
+  const date = String(createdAt ?? "").slice(0, 10) || new Date().toISOString().slice(0, 10)
+  const safe = String(storeName ?? "").replace(/[\\/:*?"<>|]/g, "_").trim() || "입점처"
+  return `ShopPlanner_납품서_${safe}_${date}.csv`
+}
+
+function escapeHtml(v: string) {
+  return v
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/**
+ * 출력용 납품서: 새 창에 표를 그리고 브라우저 인쇄 대화상자 호출
+ */
+export function printDeliveryNote(input: {
+  note: Pick<DeliveryNote, "lines" | "createdAt" | "memo">
+  storeName: string
+  fromName: string
+}) {
+  const w = window.open("", "_blank", "width=800,height=900")
+  if (!w) throw new Error("팝업이 차단되어 출력할 수 없습니다. 브라우저 팝업 허용 후 다시 시도해 주세요.")
+
+  const fmt = (v: number) => new Intl.NumberFormat("ko-KR").format(Math.round(v))
+  const date = new Date(input.note.createdAt)
+  const dateLabel = Number.isNaN(date.getTime()) ? "-" : date.toLocaleDateString("ko-KR")
+
+  const body = input.note.lines
+    .map(
+      (l, i) => `<tr>
+        <td>${i + 1}</td>
+        <td>${escapeHtml(l.productName)}</td>
+        <td>${escapeHtml(l.barcode ?? "")}</td>
+        <td class="r">${fmt(num(l.unitPrice))}</td>
+        <td class="r">${fmt(l.qty)}</td>
+        <td class="r">${fmt(num(l.unitPrice) * l.qty)}</td>
+      </tr>`
+    )
+    .join("")
+
+  const totalQty = input.note.lines.reduce((acc, l) => acc + l.qty, 0)
+  const totalAmount = input.note.lines.reduce((acc, l) => acc + num(l.unitPrice) * l.qty, 0)
+
+  w.document.write(`<!doctype html>
+<html lang="ko"><head><meta charset="utf-8" /><title>납품서 - ${escapeHtml(input.storeName)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; padding: 24px; color: #111; }
+  h1 { font-size: 20px; margin: 0 0 12px; }
+  .meta { font-size: 13px; margin-bottom: 16px; line-height: 1.6; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border: 1px solid #999; padding: 6px 8px; }
+  th { background: #f3f3f3; }
+  .r { text-align: right; }
+  tfoot td { font-weight: 600; }
+</style></head>
+<body>
+  <h1>납품서</h1>
+  <div class="meta">
+    납품처: ${escapeHtml(input.storeName)}<br />
+    출고지: ${escapeHtml(input.fromName)}<br />
+    납품일: ${escapeHtml(dateLabel)}
+    ${input.note.memo ? `<br />메모: ${escapeHtml(input.note.memo)}` : ""}
+  </div>
+  <table>
+    <thead><tr><th>#</th><th>제품명</th><th>바코드</th><th class="r">단가</th><th class="r">수량</th><th class="r">금액</th></tr></thead>
+    <tbody>${body}</tbody>
+    <tfoot><tr><td colspan="4">합계</td><td class="r">${fmt(totalQty)}</td><td class="r">${fmt(totalAmount)}</td></tr></tfoot>
+  </table>
+</body></html>`)
+  w.document.close()
+  w.focus()
+  w.print()
+}
@@ -0,0 +1,459 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { useSearchParams } from "react-router-dom"
+import { Trash2 } from "lucide-react"
+
+import PageHeader from "@/app/layout/PageHeader"
+import type { DeliveryNote, Product } from "@/data/models"
+import { confirmDeliveryNoteDB } from "@/data/store.supabase"
+import { useAppData } from "@/features/core/useAppData"
+import { useStockTargets } from "@/features/core/useStockTargets"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppCard } from "@/components/app/AppCard"
+import { AppInput } from "@/components/app/AppInput"
+import { AppSelect } from "@/components/app/AppSelect"
+import { AppBadge } from "@/components/app/AppBadge"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+import { ConfirmDialog } from "@/components/shared/ConfirmDialog"
+import { EmptyState } from "@/components/shared/EmptyState"
+import { ErrorState } from "@/components/shared/ErrorState"
+import { Skeleton } from "@/components/shared/Skeleton"
+import { toast } from "@/lib/toast"
+
+import { BarcodeScanPanel, type ScanResult } from "@/features/products/components/BarcodeScanPanel"
+import { stockProducts } from "@/features/products/lib/variants"
+import { DeliveryHistory } from "@/features/deliveries/components/DeliveryHistory"
+import {
+  buildDeliveryDraft,
+  deliveryNoteFilename,
+  downloadDeliveryNoteCSV,
+  printDeliveryNote,
+  type DeliveryDraftLine,
+} from "@/features/deliveries/lib/deliveryNote"
+
+function fmtKRW(v: number) {
+  return new Intl.NumberFormat("ko-KR").format(Math.round(v))
+}
+
+export default function DeliveriesPage() {
+  const [sp, setSp] = useSearchParams()
+  const a = useAppData()
+  const data = a.data
+
+  const stores = data.stores
+  const warehouses = data.warehouses
+
+  const { targetOf, ready: targetsReady } = useStockTargets(a)
+
+  // ✅ 재고 화면/대시보드에서 ?store= 로 바로 진입
+  const [storeId, setStoreId] = useState<string>(sp.get("store") ?? "")
+  const [warehouseId, setWarehouseId] = useState<string>("")
+  const [lines, setLines] = useState<DeliveryDraftLine[]>([])
+  const [memo, setMemo] = useState("")
+  const [addProductId, setAddProductId] = useState("")
+
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [lastNote, setLastNote] = useState<DeliveryNote | null>(null)
+
+  const activeWarehouseId = useMemo(() => {
+    if (warehouses.some((w) => w.id === warehouseId)) return warehouseId
+    return (warehouses.find((w) => w.isDefault) ?? warehouses[0])?.id ?? ""
+  }, [warehouses, warehouseId])
+
+  const store = stores.find((s) => s.id === storeId) ?? null
+  const warehouse = warehouses.find((w) => w.id === activeWarehouseId) ?? null
+
+  const storeOptions = useMemo(
+    () => stores.filter((s) => s.status !== "inactive").map((s) => ({ value: s.id, label: s.name })),
+    [stores]
+  )
+
+  // 입점처를 고르면 부족분으로 초안 생성 (데이터 로딩 완료 후 1회)
+  const draftKeyRef = useRef("")
+  useEffect(() => {
+    if (a.loading || a.profileLoading || !targetsReady || !storeId) return
+    if (draftKeyRef.current === storeId) return
+    draftKeyRef.current = storeId
+    setLines(buildDeliveryDraft({ data, storeId, targetOf }))
+  }, [a.loading, a.profileLoading, targetsReady, storeId, data, targetOf])
+
+  const resetDraft = useCallback(() => {
+    if (!storeId) return
+    setLines(buildDeliveryDraft({ data, storeId, targetOf }))
+  }, [data, storeId, targetOf])
+
+  const homeQtyByPid = useMemo(() => {
+    const m = new Map<string, number>()
+    for (const w of data.warehouseStock) {
+      if (w.warehouseId !== activeWarehouseId) continue
+      m.set(w.productId, Number(w.onHandQty ?? 0))
+    }
+    return m
+  }, [data.warehouseStock, activeWarehouseId])
+
+  const addableOptions = useMemo(() => {
+    const inDraft = new Set(lines.map((l) => l.productId))
+    const enabled = new Set(
+      data.storeProductStates.filter((x) => x.storeId === storeId && x.enabled).map((x) => x.productId)
+    )
+    const hasStates = data.storeProductStates.length > 0
+    return stockProducts(data.products)
+      .filter((p) => !inDraft.has(p.id))
+      .filter((p) => (hasStates ? enabled.has(p.id) : true))
+      .map((p) => ({ value: p.id, label: p.name }))
+  }, [lines, data.products, data.storeProductStates, storeId])
+
+  const addLine = (productId: string, qty = 1) => {
+    const p = data.products.find((x) => x.id === productId)
+    if (!p) return
+    const onHand = Number(data.inventory.find((x) => x.storeId === storeId && x.productId === p.id)?.onHandQty ?? 0)
+    setLines((prev) => [
+      ...prev,
+      {
+        productId: p.id,
+        productName: p.name,
+        barcode: p.barcode ?? null,
+        unitPrice: p.price ?? null,
+        qty,
+        storeOnHand: onHand,
+        target: targetOf(storeId, p.id).qty,
+        need: 0,
+      },
+    ])
+    setAddProductId("")
+  }
+
+  const setLineQty = (productId: string, qty: number) => {
+    setLines((prev) => prev.map((l) => (l.productId === productId ? { ...l, qty } : l)))
+  }
+
+  const removeLine = (productId: string) => {
+    setLines((prev) => prev.filter((l) => l.productId !== productId))
+  }
+
+  // ✅ 스캔 모드: 스캔 1회 = 납품 수량 +1 (초안에 없으면 1개로 추가)
+  const onScanProduct = (p: Product): ScanResult => {
+    const line = lines.find((l) => l.productId === p.id)
+    if (!line) {
+      addLine(p.id, 1)
+      return { ok: true, message: "납품 1개 (추가됨)" }
+    }
+    setLineQty(p.id, line.qty + 1)
+    return { ok: true, message: `납품 ${line.qty + 1}개` }
+  }
+
+  const qtyInputRefs = useRef<Array<HTMLInputElement | null>>([])
+  const moveFocus = useCallback((fromIndex: number, dir: -1 | 1) => {
+    const el = qtyInputRefs.current[fromIndex + dir]
+    if (el) el.focus()
+  }, [])
+
+  const totals = useMemo(() => {
+    let qty = 0
+    let amount = 0
+    let shortOfHome = 0
+    for (const l of lines) {
+      if (l.qty <= 0) continue
+      qty += l.qty
+      amount += l.qty * Number(l.unitPrice ?? 0)
+      if (l.qty > (homeQtyByPid.get(l.productId) ?? 0)) shortOfHome++
+    }
+    return { qty, amount, shortOfHome }
+  }, [lines, homeQtyByPid])
+
+  const confirm = async () => {
+    if (!store || !warehouse) return
+    const noteLines = lines
+      .filter((l) => l.qty > 0)
+      .map((l) => ({
+        productId: l.productId,
+        productName: l.productName,
+        barcode: l.barcode,
+        unitPrice: l.unitPrice,
+        qty: l.qty,
+      }))
+
+    try {
+      setBusy(true)
+      const id = await confirmDeliveryNoteDB({
+        storeId: store.id,
+        warehouseId: warehouse.id,
+        memo: memo.trim() || null,
+        lines: noteLines,
+      })
+
+      setLastNote({
+        id,
+        storeId: store.id,
+        warehouseId: warehouse.id,
+        memo: memo.trim() || null,
+        totalQty: totals.qty,
+        totalAmount: totals.amount,
+        createdAt: new Date().toISOString(),
+        lines: noteLines,
+      })
+      toast.success(`납품 확정: ${store.name}에 ${totals.qty}개 입고`)
+
+      setConfirmOpen(false)
+      setMemo("")
+      setReloadKey((k) => k + 1)
+      draftKeyRef.current = ""
+      await a.refresh()
+    } catch (e) {
+      console.error(e)
+      toast.error(`납품 확정 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (a.errorMsg) return <ErrorState message={a.errorMsg} onRetry={a.refresh} />
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="납품"
+        description="작업실 재고를 입점처로 보내고 납품서를 남깁니다. 확정 시 입점처 재고 +, 작업실 재고 −로 기록돼요."
+      />
+
+      {lastNote && (
+        <AppCard density="compact" className="border-primary/40">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm">
+              <span className="font-medium">{stores.find((s) => s.id === lastNote.storeId)?.name ?? "입점처"}</span> 납품서가
+              저장되었습니다. ({lastNote.totalQty}개 · {fmtKRW(lastNote.totalAmount)}원)
+            </div>
+            <div className="flex gap-2">
+              <AppButton
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  try {
+                    printDeliveryNote({
+                      note: lastNote,
+                      storeName: stores.find((s) => s.id === lastNote.storeId)?.name ?? "입점처",
+                      fromName: warehouses.find((w) => w.id === lastNote.warehouseId)?.name ?? "작업실",
+                    })
+                  } catch (e) {
+                    toast.error(e instanceof Error ? e.message : String(e))
+                  }
+                }}
+              >
+                출력
+              </AppButton>
+              <AppButton
+                type="button"
+                variant="outline"
+                onClick={() =>
+                  downloadDeliveryNoteCSV(
+                    deliveryNoteFilename(stores.find((s) => s.id === lastNote.storeId)?.name ?? "입점처", lastNote.createdAt),
+                    lastNote
+                  )
+                }
+              >
+                CSV
+              </AppButton>
+            </div>
+          </div>
+        </AppCard>
+      )}
+
+      <AppCard
+        density="compact"
+        title="납품서 작성"
+        description="입점처를 고르면 목표 재고 대비 부족분으로 수량이 채워져요. 수량은 자유롭게 조정할 수 있어요."
+        contentClassName="space-y-3"
+      >
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <div className="w-full sm:w-[240px]">
+            <AppSelect
+              value={storeId}
+              onValueChange={(v) => {
+                setStoreId(v)
+                setLastNote(null)
+                setSp((prev) => {
+                  const n = new URLSearchParams(prev)
+                  if (v) n.set("store", v)
+                  else n.delete("store")
+                  return n
+                })
+              }}
+              options={storeOptions}
+              placeholder="(입점처 선택)"
+            />
+          </div>
+
+          {warehouses.length > 1 && (
+            <div className="w-full sm:w-[200px]">
+              <AppSelect
+                value={activeWarehouseId}
+                onValueChange={setWarehouseId}
+                options={warehouses.map((w) => ({ value: w.id, label: `출고: ${w.name}` }))}
+              />
+            </div>
+          )}
+
+          <AppButton type="button" variant="outline" onClick={resetDraft} disabled={!storeId}>
+            부족분으로 다시 채우기
+          </AppButton>
+        </div>
+
+        {storeId && (
+          <BarcodeScanPanel
+            products={data.products}
+            onProduct={onScanProduct}
+            hint="스캔할 때마다 납품 수량이 1씩 늘어요."
+          />
+        )}
+
+        {a.loading && lines.length === 0 ? (
+          <Skeleton className="h-40" />
+        ) : !storeId ? (
+          <EmptyState title="입점처를 선택해 주세요." />
+        ) : (
+          <>
+            <div className="overflow-hidden rounded-lg border">
+              <Table className="w-full text-sm">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>제품</TableHead>
+                    <TableHead>바코드</TableHead>
+                    <TableHead className="text-right">단가</TableHead>
+                    <TableHead className="text-right">입점처 현재/목표</TableHead>
+                    <TableHead className="text-right">{warehouse?.name ?? "작업실"}</TableHead>
+                    <TableHead className="text-right">납품 수량</TableHead>
+                    <TableHead className="w-[48px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-10">
+                        <EmptyState title="부족한 제품이 없습니다." description="아래에서 제품을 직접 추가할 수 있어요." />
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    lines.map((l, rowIndex) => {
+                      const home = homeQtyByPid.get(l.productId) ?? 0
+                      const over = l.qty > home
+                      return (
+                        <TableRow key={l.productId} className={over ? "bg-destructive/10" : undefined}>
+                          <TableCell className="font-medium">{l.productName}</TableCell>
+                          <TableCell className="text-muted-foreground">{l.barcode ?? "-"}</TableCell>
+                          <TableCell className="text-right tabular-nums">{fmtKRW(Number(l.unitPrice ?? 0))}</TableCell>
+                          <TableCell className="text-right tabular-nums text-muted-foreground">
+                            {l.storeOnHand} / {l.target}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{home}</TableCell>
+                          <TableCell className="text-right">
+                            <input
+                              ref={(el) => {
+                                qtyInputRefs.current[rowIndex] = el
+                              }}
+                              type="number"
+                              inputMode="numeric"
+                              className="h-9 w-[92px] rounded-md border bg-background px-2 text-right tabular-nums focus:outline-none focus:ring-2 focus:ring-ring"
+                              value={l.qty}
+                              onChange={(e) => {
+                                const v = Number(e.target.value)
+                                setLineQty(l.productId, Number.isFinite(v) ? Math.max(0, Math.floor(v)) : 0)
+                              }}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter" || e.key === "ArrowDown") {
+                                  e.preventDefault()
+                                  moveFocus(rowIndex, 1)
+                                }
+                                if (e.key === "ArrowUp") {
+                                  e.preventDefault()
+                                  moveFocus(rowIndex, -1)
+                                }
+                              }}
+                              onFocus={(e) => {
+                                ;(e.target as HTMLInputElement).select()
+                              }}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <AppButton
+                              type="button"
+                              variant="ghost"
+                              size="icon-sm"
+                              title="제외"
+                              onClick={() => removeLine(l.productId)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </AppButton>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div className="flex items-center gap-2">
+                <div className="w-full sm:w-[240px]">
+                  <AppSelect
+                    value={addProductId}
+                    onValueChange={(v) => {
+                      if (v) addLine(v)
+                    }}
+                    options={addableOptions}
+                    placeholder="+ 제품 추가"
+                  />
+                </div>
+                <AppInput
+                  className="h-10 w-full sm:w-[240px]"
+                  placeholder="메모 (선택)"
+                  value={memo}
+                  onChange={(e) => setMemo(e.target.value)}
+                />
+              </div>
+
+              <div className="flex items-center gap-3">
+                <div className="text-sm text-muted-foreground">
+                  합계 <span className="font-semibold tabular-nums text-foreground">{totals.qty}</span>개 ·{" "}
+                  <span className="tabular-nums">{fmtKRW(totals.amount)}</span>원
+                </div>
+                <AppButton
+                  type="button"
+                  onClick={() => setConfirmOpen(true)}
+                  disabled={busy || totals.qty === 0 || !warehouse}
+                >
+                  납품 확정
+                </AppButton>
+              </div>
+            </div>
+
+            {totals.shortOfHome > 0 && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <AppBadge variant="destructive">주의</AppBadge>
+                {totals.shortOfHome}개 제품이 {warehouse?.name ?? "작업실"} 재고보다 많이 납품됩니다. (작업실 재고가 마이너스가 돼요)
+              </div>
+            )}
+          </>
+        )}
+      </AppCard>
+
+      <AppCard density="compact" title="최근 납품 이력" contentClassName="px-4 pb-4">
+        <DeliveryHistory stores={stores} warehouses={warehouses} reloadKey={reloadKey} limit={20} />
+      </AppCard>
+
+      <ConfirmDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title="납품을 확정할까요?"
+        description={`${store?.name ?? "입점처"}에 ${totals.qty}개를 납품하고 ${warehouse?.name ?? "작업실"} 재고에서 차감합니다.`}
+        confirmText="납품 확정"
+        busy={busy}
+        onConfirm={confirm}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+
+import type { InventoryMovement, InventoryMovementReason } from "@/data/models"
+import { listInventoryMovementsDB, recordInventoryMovementsDB } from "@/data/store.supabase"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppInput } from "@/components/app/AppInput"
+import { AppSelect } from "@/components/app/AppSelect"
+import { AppBadge } from "@/components/app/AppBadge"
+import { EmptyState } from "@/components/shared/EmptyState"
+import { Skeleton } from "@/components/shared/Skeleton"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+import { toast } from "@/lib/toast"
+import {
+  MANUAL_MOVEMENT_SIGN,
+  movementReasonLabel,
+  withRunningBalance,
+} from "@/features/inventory/lib/movements"
+
+const MANUAL_REASONS: InventoryMovementReason[] = ["delivery", "return", "loss", "adjustment"]
+// 작업실/창고에는 "납품(입고)"이 없음 (납품은 입점처 쪽 입고)
+const MANUAL_REASONS_WAREHOUSE: InventoryMovementReason[] = ["return", "loss", "adjustment"]
+
+function formatDateTime(iso: string) {
+  const d = new Date(iso)
+  if (Number.isNaN(d.getTime())) return "-"
+  return d.toLocaleString("ko-KR", {
+    year: "2-digit",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+/**
+ * 입점처(또는 작업실/창고)×제품 재고 변동 이력
+ * - "왜 이 입점처 재고가 3개지?" → 원장을 최신순으로 보여주고 기록 후 재고를 역산
+ * - 납품/반품/분실/조정은 여기서 직접 원장에 추가
+ */
+export function InventoryMovementsDialog(props: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  storeId: string | null
+  warehouseId?: string | null
+  productId: string | null
+  locationName: string
+  productName: string
+  currentQty: number
+  onPosted?: () => Promise<void> | void
+}) {
+  const { open, storeId, productId, currentQty } = props
+  const warehouseId = props.warehouseId ?? null
+  const hasLocation = !!storeId || !!warehouseId
+  const reasons = warehouseId ? MANUAL_REASONS_WAREHOUSE : MANUAL_REASONS
+
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [movements, setMovements] = useState<InventoryMovement[]>([])
+
+  const [reason, setReason] = useState<InventoryMovementReason>("delivery")
+  const [qtyInput, setQtyInput] = useState("")
+  const [memo, setMemo] = useState("")
+
+  const load = useCallback(async () => {
+    if (!hasLocation || !productId) return
+    setLoading(true)
+    try {
+      const rows = await listInventoryMovementsDB({
+        storeId: storeId ?? undefined,
+        warehouseId: warehouseId ?? undefined,
+        productId,
+      })
+      setMovements(rows)
+    } catch (e) {
+      console.error(e)
+      toast.error(`재고 이력을 불러오지 못했어요: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [hasLocation, storeId, warehouseId, productId])
+
+  useEffect(() => {
+    if (!open) return
+    setReason(reasons[0])
+    setQtyInput("")
+    setMemo("")
+    void load()
+  }, [open, load, reasons])
+
+  const rows = useMemo(() => withRunningBalance(movements, currentQty), [movements, currentQty])
+
+  const sign = MANUAL_MOVEMENT_SIGN[reason]
+
+  const post = async () => {
+    if (!hasLocation || !productId) return
+
+    const raw = Math.trunc(Number(qtyInput))
+    if (!Number.isFinite(raw) || raw === 0) {
+      toast.error("수량을 입력해 주세요.")
+      return
+    }
+
+    // 납품/반품/분실은 부호 고정, 수동 조정은 입력한 부호 그대로
+    const qtyDelta = sign ? sign * Math.abs(raw) : raw
+
+    try {
+      setBusy(true)
+      await recordInventoryMovementsDB([
+        {
+          storeId,
+          warehouseId,
+          productId,
+          qtyDelta,
+          reason,
+          sourceType: "inventory_page",
+          memo: memo.trim() || null,
+        },
+      ])
+      toast.success("재고 변동을 기록했어요.")
+      setQtyInput("")
+      setMemo("")
+      await props.onPosted?.()
+      await load()
+    } catch (e) {
+      console.error(e)
+      toast.error(`재고 변동 기록 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle className="truncate">{props.productName}</DialogTitle>
+          <DialogDescription>
+            {props.locationName} · 현재 재고 <span className="font-semibold tabular-nums">{currentQty}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* 수동 기록 */}
+        <div className="rounded-xl border p-3">
+          <div className="grid gap-2 sm:grid-cols-[160px_120px_1fr_auto] sm:items-center">
+            <AppSelect
+              value={reason}
+              onValueChange={(v) => setReason((v || reasons[0]) as InventoryMovementReason)}
+              options={reasons.map((r) => ({ value: r, label: movementReasonLabel(r) }))}
+            />
+            <AppInput
+              type="number"
+              inputMode="numeric"
+              className="h-10 text-right tabular-nums"
+              placeholder={sign ? "수량" : "±수량"}
+              value={qtyInput}
+              onChange={(e) => setQtyInput(e.target.value)}
+            />
+            <AppInput
+              className="h-10"
+              placeholder="메모 (선택)"
+              value={memo}
+              onChange={(e) => setMemo(e.target.value)}
+            />
+            <AppButton type="button" onClick={post} disabled={busy || !hasLocation || !productId}>
+              기록
+            </AppButton>
+          </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            {sign === 1 ? "입고(+)로 기록됩니다." : sign === -1 ? "출고(−)로 기록됩니다." : "+/− 부호를 포함해 입력하세요."}
+          </p>
+        </div>
+
+        {/* 이력 */}
+        {loading ? (
+          <Skeleton className="h-40" />
+        ) : rows.length === 0 ? (
+          <EmptyState title="재고 변동 이력이 없습니다." description="재고를 수정하거나 정산을 반영하면 여기에 쌓입니다." />
+        ) : (
+          <div className="max-h-[360px] overflow-auto rounded-lg border">
+            <Table className="w-full text-sm">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>일시</TableHead>
+                  <TableHead>사유</TableHead>
+                  <TableHead className="text-right">변동</TableHead>
+                  <TableHead className="text-right">기록 후</TableHead>
+                  <TableHead>메모</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((m) => (
+                  <TableRow key={m.id}>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">{formatDateTime(m.createdAt)}</TableCell>
+                    <TableCell>
+                      <AppBadge variant={m.qtyDelta < 0 ? "secondary" : "muted"}>{movementReasonLabel(m.reason)}</AppBadge>
+                    </TableCell>
+                    <TableCell className="text-right font-semibold tabular-nums">
+                      {m.qtyDelta > 0 ? `+${m.qtyDelta}` : m.qtyDelta}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{m.balanceAfter}</TableCell>
+                    <TableCell className="text-muted-foreground">{m.memo ?? "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,72 @@
+// src/features/inventory/lib/makeList.ts
+import type { Store, WarehouseStockItem } from "@/data/models"
+
+export type MakeRow<T> = {
+  it: T
+  need: number // 목표 - 현재 (입점처 부족분)
+  fromStock: number // 작업실/창고 재고로 충당 가능한 수량
+  make: number // 실제로 새로 만들어야 하는 수량
+}
+
+/**
+ * 입점처 목표 재고: 입점처별 override(> 0)가 있으면 우선, 없으면 기본 목표
+ */
+export function effectiveStoreTarget(store: Pick<Store, "targetQtyOverride"> | null | undefined, defaultTarget: number) {
+  const override = Number(store?.targetQtyOverride)
+  if (Number.isFinite(override) && override > 0) return override
+  return defaultTarget
+}
+
+/**
+ * 제품별 보관 장소(작업실/창고) 재고 합계
+ */
+export function homeStockByProduct(
+  warehouseStock: WarehouseStockItem[],
+  warehouseIds?: Set<string>
+): Map<string, number> {
+  const m = new Map<string, number>()
+  for (const w of warehouseStock) {
+    if (warehouseIds && !warehouseIds.has(String(w.warehouseId))) continue
+    const qty = Number(w.onHandQty ?? 0)
+    if (!Number.isFinite(qty) || qty <= 0) continue
+    const pid = String(w.productId)
+    m.set(pid, (m.get(pid) ?? 0) + qty)
+  }
+  return m
+}
+
+/**
+ * 입점처 부족분 → 제작 리스트
+ * - 이미 만들어서 작업실에 있는 재고는 부족분이 큰 입점처부터 먼저 배정
+ * - 남은 부족분만 make(제작 필요)로 계산
+ */
+export function buildMakeRows<T extends { productId: string }>(
+  rows: T[],
+  getNeed: (it: T) => number,
+  homeStock: Map<string, number>
+): MakeRow<T>[] {
+  const remaining = new Map(homeStock)
+
+  return rows
+    .map((it) => ({ it, need: Math.max(0, Math.floor(getNeed(it))) }))
+    .filter((x) => x.need > 0)
+    .sort((a, b) => b.need - a.need)
+    .map(({ it, need }) => {
+      const pid = String(it.productId)
+      const available = remaining.get(pid) ?? 0
+      const fromStock = Math.min(available, need)
+      if (fromStock > 0) remaining.set(pid, available - fromStock)
+      return { it, need, fromStock, make: need - fromStock }
+    })
+}
+
+export function sumMakeRows<T>(rows: MakeRow<T>[]) {
+  return rows.reduce(
+    (acc, r) => ({
+      need: acc.need + r.need,
+      fromStock: acc.fromStock + r.fromStock,
+      make: acc.make + r.make,
+    }),
+    { need: 0, fromStock: 0, make: 0 }
+  )
+}
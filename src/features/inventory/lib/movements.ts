@@ -0,0 +1,40 @@
+// src/features/inventory/lib/movements.ts
+import type { InventoryMovement, InventoryMovementReason } from "@/data/models"
+
+export const MOVEMENT_REASON_LABEL: Record<InventoryMovementReason, string> = {
+  delivery: "납품",
+  sale: "판매(정산)",
+  adjustment: "수동 조정",
+  return: "반품",
+  loss: "분실/파손",
+  count_variance: "실사 차이",
+  production: "제작 완료",
+}
+
+// 수동 기록 시 기본 부호 (납품/반품 = 입고, 분실 = 출고)
+export const MANUAL_MOVEMENT_SIGN: Partial<Record<InventoryMovementReason, 1 | -1>> = {
+  delivery: 1,
+  return: 1,
+  loss: -1,
+}
+
+export function movementReasonLabel(reason: InventoryMovementReason) {
+  return MOVEMENT_REASON_LABEL[reason] ?? reason
+}
+
+/**
+ * 원장(최신순)에 "기록 후 재고"를 붙여서 반환
+ * - currentQty: 지금 화면에 보이는 재고(= 원장 전체 합계)
+ * - 원장이 limit로 잘려도 최신 구간은 정확히 역산됨
+ */
+export function withRunningBalance(
+  movementsDesc: InventoryMovement[],
+  currentQty: number
+): Array<InventoryMovement & { balanceAfter: number }> {
+  let balance = currentQty
+  return movementsDesc.map((m) => {
+    const row = { ...m, balanceAfter: balance }
+    balance -= m.qtyDelta
+    return row
+  })
+}
@@ -0,0 +1,118 @@
+// src/features/inventory/lib/targets.ts
+import type { Store, StoreProductMonthlySales, StoreProductState, TargetSettings } from "@/data/models"
+import { effectiveStoreTarget } from "@/features/inventory/lib/makeList"
+
+export type TargetRule = "pair" | "velocity" | "store" | "default"
+
+export type ResolvedTarget = {
+  qty: number
+  rule: TargetRule
+  detail: string // 화면 설명용 (어떤 규칙으로 나온 값인지)
+}
+
+export const TARGET_RULE_LABEL: Record<TargetRule, string> = {
+  pair: "직접 지정",
+  velocity: "판매 속도",
+  store: "입점처 목표",
+  default: "기본 목표",
+}
+
+export const DEFAULT_TARGET_SETTINGS: TargetSettings = {
+  mode: "fixed",
+  velocityMonths: 3,
+  coverMonths: 1,
+  minQty: null,
+  maxQty: null,
+}
+
+function monthKey(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`
+}
+
+/**
+ * 판매 속도 집계 기간: 이번 달을 뺀 최근 N개월 (이번 달 정산은 보통 아직 없음)
+ * - fromMonth 포함, toMonth 미포함
+ */
+export function velocityWindow(months: number, now = new Date()) {
+  const n = Math.max(1, Math.floor(months))
+  const to = new Date(now.getFullYear(), now.getMonth(), 1)
+  const from = new Date(now.getFullYear(), now.getMonth() - n, 1)
+  return { fromMonth: monthKey(from), toMonth: monthKey(to), months: n }
+}
+
+function fmtAvg(n: number) {
+  return (Math.round(n * 10) / 10).toLocaleString("ko-KR")
+}
+
+/**
+ * 입점처×제품 목표 재고 계산기
+ * 우선순위: 직접 지정 > 판매 속도(velocity 모드 + 해당 입점처 판매 이력 있음) > 입점처 override > 기본 목표
+ * - 판매 속도: ceil(월평균 판매량 × coverMonths) → minQty/maxQty clamp
+ * - 입점처에 기간 내 정산이 하나도 없으면 판매 속도를 쓰지 않음 (신규 입점처가 0으로 떨어지지 않도록)
+ */
+export function buildTargetResolver(input: {
+  stores: Array<Pick<Store, "id" | "targetQtyOverride">>
+  storeProductStates: StoreProductState[]
+  defaultTarget: number
+  settings: TargetSettings
+  sales: StoreProductMonthlySales[]
+}) {
+  const { settings } = input
+  const storeById = new Map(input.stores.map((s) => [String(s.id), s]))
+
+  const pairOverride = new Map<string, number>()
+  for (const sp of input.storeProductStates) {
+    if (sp.targetQtyOverride == null) continue
+    pairOverride.set(`${sp.storeId}__${sp.productId}`, sp.targetQtyOverride)
+  }
+
+  const soldByPair = new Map<string, number>()
+  const storesWithHistory = new Set<string>()
+  for (const r of input.sales) {
+    storesWithHistory.add(String(r.storeId))
+    const key = `${r.storeId}__${r.productId}`
+    soldByPair.set(key, (soldByPair.get(key) ?? 0) + Number(r.qtySold ?? 0))
+  }
+
+  const months = Math.max(1, Math.floor(settings.velocityMonths))
+  const useVelocity = settings.mode === "velocity"
+
+  const clamp = (v: number) => {
+    let out = v
+    if (settings.minQty != null) out = Math.max(out, settings.minQty)
+    if (settings.maxQty != null) out = Math.min(out, settings.maxQty)
+    return out
+  }
+
+  const targetOf = (storeId: string, productId: string): ResolvedTarget => {
+    const key = `${storeId}__${productId}`
+
+    const direct = pairOverride.get(key)
+    if (direct != null) return { qty: direct, rule: "pair", detail: "이 입점처·제품에 직접 지정한 목표" }
+
+    if (useVelocity && storesWithHistory.has(String(storeId))) {
+      const avg = (soldByPair.get(key) ?? 0) / months
+      const raw = Math.ceil(avg * settings.coverMonths)
+      const qty = clamp(raw)
+      const clampNote =
+        qty > raw ? ` → 최소 ${settings.minQty}` : qty < raw ? ` → 최대 ${settings.maxQty}` : ""
+      return {
+        qty,
+        rule: "velocity",
+        detail: `최근 ${months}개월 월평균 ${fmtAvg(avg)}개 × ${fmtAvg(settings.coverMonths)}개월 = ${raw}${clampNote}`,
+      }
+    }
+
+    const store = storeById.get(String(storeId))
+    const qty = effectiveStoreTarget(store, input.defaultTarget)
+    const fallbackNote = useVelocity ? " (기간 내 정산 없음)" : ""
+    if (qty !== input.defaultTarget) {
+      return { qty, rule: "store", detail: `입점처 목표 재고${fallbackNote}` }
+    }
+    return { qty, rule: "default", detail: `기본 목표 재고${fallbackNote}` }
+  }
+
+  return { targetOf }
+}
+
+export type TargetResolver = ReturnType<typeof buildTargetResolver>
@@ -3,7 +3,18 @@ import { useNavigate, useSearchParams } from "react-router-dom"
 
 import PageHeader from "@/app/layout/PageHeader"
 import { useAppData } from "@/features/core/useAppData"
-import { upsertInventoryItemDB } from "@/data/store.supabase"
+import { useStockTargets } from "@/features/core/useStockTargets"
+import { setInventoryOnHandDB, setStoreProductTargetDB, setWarehouseOnHandDB } from "@/data/store.supabase"
+import { InventoryMovementsDialog } from "@/features/inventory/components/InventoryMovementsDialog"
+import { buildMakeRows, effectiveStoreTarget, homeStockByProduct, sumMakeRows } from "@/features/inventory/lib/makeList"
+import { TARGET_RULE_LABEL, type ResolvedTarget } from "@/features/inventory/lib/targets"
+import { BarcodeScanPanel, type ScanResult } from "@/features/products/components/BarcodeScanPanel"
+import { stockProducts } from "@/features/products/lib/variants"
+import { buildBomIndex } from "@/features/products/lib/bom"
+import { MaterialRequirementsCard } from "@/features/materials/components/MaterialRequirementsCard"
+import { CreateProductionPlanDialog } from "@/features/production/components/CreateProductionPlanDialog"
+import { openPlanQtyByProduct } from "@/features/production/lib/plans"
+import type { Product } from "@/data/models"
 
 import { AppButton } from "@/components/app/AppButton"
 import { AppCard } from "@/components/app/AppCard"
@@ -16,6 +27,7 @@ import { EmptyState } from "@/components/shared/EmptyState"
 import { ErrorState } from "@/components/shared/ErrorState"
 import { Skeleton } from "@/components/shared/Skeleton"
 import { toast } from "@/lib/toast"
+import { History } from "lucide-react"
 
 function num(n: unknown, fallback = 0) {
   const v = typeof n === "number" ? n : Number(n)
@@ -26,6 +38,20 @@ function toKey(v: unknown) {
   return String(v ?? "")
 }
 
+// 제작 리스트 행 선택 키 (입점처 × 제품)
+function makeKey(it: { storeId: unknown; productId: unknown }) {
+  return `${toKey(it.storeId)}-${toKey(it.productId)}`
+}
+
+// 목표 재고가 어떤 규칙으로 나왔는지 (마우스를 올리면 계산 근거)
+function TargetRuleHint({ target }: { target: ResolvedTarget }) {
+  return (
+    <div className="text-[11px] text-muted-foreground" title={target.detail}>
+      {TARGET_RULE_LABEL[target.rule]}
+    </div>
+  )
+}
+
 function safeFilename(name: string) {
   return String(name ?? "").replace(/[\\\/:*?"<>|]/g, "_").trim()
 }
@@ -57,18 +83,22 @@ export default function InventoryPage() {
   const errorMsg = a.errorMsg
 
   const stores = (data.stores ?? []) as any[]
-  const products = (data.products ?? []) as any[]
+  // 옵션이 있는 대표 제품은 재고 대상이 아님 (옵션 상품 단위로 관리)
+  const products = stockProducts(data.products ?? []) as any[]
   const inventory = (data.inventory ?? []) as any[] // { storeId, productId, onHandQty }
   const storeProductStates = (data.storeProductStates ?? []) as any[] // { storeId, productId, enabled }
+  const warehouses = data.warehouses
+  const warehouseStock = data.warehouseStock
 
   // ✅ 탭: querystring으로 초기화 (dashboard 버튼에서 바로 열기)
-  const initialTab = (sp.get("tab") ?? "inventory") as "inventory" | "make"
-  const [tab, setTab] = useState<"inventory" | "make">(initialTab === "make" ? "make" : "inventory")
+  type InventoryTab = "inventory" | "home" | "make"
+  const parseTab = (v: string | null): InventoryTab | null =>
+    v === "inventory" || v === "home" || v === "make" ? v : null
+  const [tab, setTab] = useState<InventoryTab>(parseTab(sp.get("tab")) ?? "inventory")
 
   useEffect(() => {
-    const q = sp.get("tab")
-    if (q === "make") setTab("make")
-    if (q === "inventory") setTab("inventory")
+    const q = parseTab(sp.get("tab"))
+    if (q) setTab(q)
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
@@ -87,31 +117,56 @@ export default function InventoryPage() {
 
   const storeById = useMemo(() => new Map<string, any>(stores.map((s: any) => [String(s.id), s])), [stores])
 
-  // ===== 목표 재고 =====
-  const targetQty = useMemo(() => {
-    const v = Number.parseInt(String(a.defaultTargetQtyInput ?? "5").trim(), 10)
-    return Number.isFinite(v) ? Math.max(0, v) : 5
-  }, [a.defaultTargetQtyInput])
-
-  const effectiveTargetQty = useMemo(() => {
-    if (selectedStoreId === "__all__") return targetQty
-    const store = storeById.get(String(selectedStoreId))
-    const override = Number(store?.targetQtyOverride)
-    if (Number.isFinite(override) && override > 0) return override
-    return targetQty
-  }, [selectedStoreId, storeById, targetQty])
-
-  const isTargetOverrideActive = useMemo(() => {
-    if (selectedStoreId === "__all__") return false
-    const store = storeById.get(String(selectedStoreId))
-    const override = Number(store?.targetQtyOverride)
-    return Number.isFinite(override) && override > 0 && override !== targetQty
-  }, [selectedStoreId, storeById, targetQty])
+  // ===== 목표 재고 (입점처×제품별: 직접 지정 > 판매 속도 > 입점처 > 기본) =====
+  const { defaultTarget, targetOf } = useStockTargets(a)
+  const targetSettings = a.targetSettings
 
   const targetQtyLabel = useMemo(() => {
-    if (selectedStoreId === "__all__") return `${effectiveTargetQty}`
-    return isTargetOverrideActive ? `${effectiveTargetQty} (override)` : `${effectiveTargetQty}`
-  }, [selectedStoreId, effectiveTargetQty, isTargetOverrideActive])
+    if (targetSettings.mode === "velocity") {
+      return `판매 속도 (최근 ${targetSettings.velocityMonths}개월 평균 × ${targetSettings.coverMonths}개월)`
+    }
+    if (selectedStoreId === "__all__") return `${defaultTarget}`
+    const storeTarget = effectiveStoreTarget(storeById.get(String(selectedStoreId)), defaultTarget)
+    return storeTarget !== defaultTarget ? `${storeTarget} (override)` : `${storeTarget}`
+  }, [targetSettings, selectedStoreId, storeById, defaultTarget])
+
+  // 목표 재고 직접 지정 입력칸 (빈칸 = 규칙 따름)
+  const [targetEdit, setTargetEdit] = useState<Record<string, string>>({})
+
+  const targetOverrideByKey = useMemo(() => {
+    const m = new Map<string, number>()
+    for (const sp of storeProductStates) {
+      if (sp.targetQtyOverride != null) m.set(makeKey(sp), Number(sp.targetQtyOverride))
+    }
+    return m
+  }, [storeProductStates])
+
+  const commitTargetOverride = useCallback(
+    async (storeId: string, productId: string) => {
+      const key = makeKey({ storeId, productId })
+      const raw = targetEdit[key]
+      if (raw === undefined) return
+
+      const prev = targetOverrideByKey.get(key) ?? null
+      const next = raw.trim() === "" ? null : Math.max(0, Math.floor(Number(raw) || 0))
+
+      setTargetEdit((m) => {
+        const copy = { ...m }
+        delete copy[key]
+        return copy
+      })
+      if (next === prev) return
+
+      try {
+        await setStoreProductTargetDB({ storeId, productId, targetQty: next })
+        await a.refresh()
+      } catch (e) {
+        console.error(e)
+        toast.error(`목표 재고 저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+      }
+    },
+    [targetEdit, targetOverrideByKey, a]
+  )
 
   // ===== 제품명/카테고리 맵 =====
   const productNameById = useMemo(() => {
@@ -225,24 +280,100 @@ export default function InventoryPage() {
     return arr
   }, [filteredInventory, qtySort, selectedStoreId, storeById, productCategoryById, productNameById])
 
-  // 제작 리스트(need 큰 순)
+  // ===== 작업실/창고 재고 (이미 만들었지만 아직 납품 안 한 수량) =====
+  const homeStock = useMemo(() => homeStockByProduct(warehouseStock), [warehouseStock])
+
+  // 제작 리스트(need 큰 순): 부족분 중 작업실 재고로 못 채우는 만큼만 제작
   const makeRows = useMemo(() => {
-    return filteredInventory
-      .map((it: any) => {
-        const onHand = num(it.onHandQty, 0)
-        const need = Math.max(0, effectiveTargetQty - onHand)
-        return { it, need }
+    return buildMakeRows(
+      filteredInventory,
+      (it: any) => targetOf(String(it.storeId), String(it.productId)).qty - num(it.onHandQty, 0),
+      homeStock
+    )
+  }, [filteredInventory, targetOf, homeStock])
+
+  const makeTotals = useMemo(() => sumMakeRows(makeRows), [makeRows])
+
+  // 제작 재료비: 제품 재료 구성(BOM) × 제작 수량 (단가는 원부자재 라이브러리 기준)
+  const bom = useMemo(
+    () =>
+      buildBomIndex({
+        products: data.products,
+        productMaterials: data.productMaterials,
+        materials: data.materials,
+      }),
+    [data.products, data.productMaterials, data.materials]
+  )
+
+  // ===== 제작 지시: 제작 리스트에서 골라서 지시로 저장 =====
+  const plannedQtyByProduct = useMemo(() => openPlanQtyByProduct(data.plans), [data.plans])
+  const [selectedMakeKeys, setSelectedMakeKeys] = useState<Set<string>>(() => new Set())
+  const [planDialogOpen, setPlanDialogOpen] = useState(false)
+
+  const selectableMakeRows = useMemo(() => makeRows.filter((r) => r.make > 0), [makeRows])
+
+  const selectedPlanItems = useMemo(() => {
+    const qtyByPid = new Map<string, number>()
+    for (const r of selectableMakeRows) {
+      if (!selectedMakeKeys.has(makeKey(r.it))) continue
+      const pid = String(r.it.productId)
+      qtyByPid.set(pid, (qtyByPid.get(pid) ?? 0) + r.make)
+    }
+    return Array.from(qtyByPid.entries()).map(([productId, makeQty]) => ({
+      productId,
+      productName: productNameById.get(productId) ?? "제품",
+      makeQty,
+    }))
+  }, [selectableMakeRows, selectedMakeKeys, productNameById])
+
+  const allMakeSelected =
+    selectableMakeRows.length > 0 && selectableMakeRows.every((r) => selectedMakeKeys.has(makeKey(r.it)))
+
+  const makeMaterialCost = useMemo(() => {
+    let total = 0
+    let missing = 0
+    for (const r of makeRows) {
+      if (r.make <= 0) continue
+      const unit = bom.materialCostOf(String(r.it.productId))
+      if (unit == null) missing += 1
+      else total += unit * r.make
+    }
+    return { total, missing }
+  }, [makeRows, bom])
+
+  const [selectedWarehouseId, setSelectedWarehouseId] = useState<string>("")
+
+  const activeWarehouseId = useMemo(() => {
+    if (warehouses.some((w) => w.id === selectedWarehouseId)) return selectedWarehouseId
+    return (warehouses.find((w) => w.isDefault) ?? warehouses[0])?.id ?? ""
+  }, [warehouses, selectedWarehouseId])
+
+  const warehouseOptions = useMemo(
+    () => warehouses.map((w) => ({ label: w.name, value: w.id })),
+    [warehouses]
+  )
+
+  // 작업실 재고는 입점처 취급 여부와 무관하게 "제작 대상" 제품 전체를 보여줌
+  const homeRows = useMemo(() => {
+    const qtyByPid = new Map<string, number>()
+    for (const w of warehouseStock) {
+      if (w.warehouseId !== activeWarehouseId) continue
+      qtyByPid.set(String(w.productId), num(w.onHandQty, 0))
+    }
+
+    return products
+      .filter((p: any) => p.makeEnabled !== false || (qtyByPid.get(String(p.id)) ?? 0) > 0)
+      .filter((p: any) => categoryFilter === "__all__" || String(p.category ?? "").trim() === categoryFilter)
+      .map((p: any) => ({ productId: String(p.id), onHandQty: qtyByPid.get(String(p.id)) ?? 0 }))
+      .sort((a, b) => {
+        const catA = productCategoryById.get(a.productId) ?? ""
+        const catB = productCategoryById.get(b.productId) ?? ""
+        if (catA !== catB) return catA.localeCompare(catB)
+        return (productNameById.get(a.productId) ?? "").localeCompare(productNameById.get(b.productId) ?? "")
       })
-      .filter((x) => x.need > 0)
-      .sort((a, b) => b.need - a.need)
-  }, [filteredInventory, effectiveTargetQty])
+  }, [products, warehouseStock, activeWarehouseId, categoryFilter, productCategoryById, productNameById])
 
-  const makeNeededTotal = useMemo(() => {
-    return filteredInventory.reduce((acc: number, it: any) => {
-      const onHand = num(it.onHandQty, 0)
-      return acc + Math.max(0, effectiveTargetQty - onHand)
-    }, 0)
-  }, [filteredInventory, effectiveTargetQty])
+  const homeTotal = useMemo(() => homeRows.reduce((acc, r) => acc + r.onHandQty, 0), [homeRows])
 
   // ===== 입력 저장 (Optimistic + debounce) =====
   const qtyInputRefs = useRef<Array<HTMLInputElement | null>>([])
@@ -282,7 +413,8 @@ export default function InventoryPage() {
 
       saveTimersRef.current[key] = window.setTimeout(async () => {
         try {
-          await upsertInventoryItemDB({ storeId, productId, onHandQty: nextQty })
+          // ✅ 절대값 덮어쓰기 X → 서버에서 현재값과의 차이만큼 조정 원장 기록
+          await setInventoryOnHandDB({ storeId, productId, onHandQty: nextQty, sourceType: "inventory_page" })
         } catch (e) {
           console.error(e)
           toast.error("재고 저장에 실패했어요.")
@@ -293,12 +425,109 @@ export default function InventoryPage() {
     [a]
   )
 
-  const moveFocus = useCallback((fromIndex: number, dir: -1 | 1) => {
+  const homeQtyInputRefs = useRef<Array<HTMLInputElement | null>>([])
+
+  const setHomeQtyLocal = useCallback(
+    (warehouseId: string, productId: string, nextQty: number) => {
+      a.setData((prev) => {
+        const cur = prev.warehouseStock ?? []
+        const idx = cur.findIndex((x) => x.warehouseId === warehouseId && x.productId === productId)
+
+        const next =
+          idx >= 0
+            ? cur.map((x, i) => (i === idx ? { ...x, onHandQty: nextQty, updatedAt: Date.now() } : x))
+            : [{ warehouseId, productId, onHandQty: nextQty, updatedAt: Date.now() }, ...cur]
+
+        return { ...prev, warehouseStock: next, updatedAt: Date.now() }
+      })
+    },
+    [a]
+  )
+
+  const scheduleSaveHomeQty = useCallback(
+    (warehouseId: string, productId: string, nextQty: number) => {
+      const key = `wh:${warehouseId}__${productId}`
+
+      const prevTimer = saveTimersRef.current[key]
+      if (prevTimer) window.clearTimeout(prevTimer)
+
+      saveTimersRef.current[key] = window.setTimeout(async () => {
+        try {
+          await setWarehouseOnHandDB({ warehouseId, productId, onHandQty: nextQty, sourceType: "inventory_page" })
+        } catch (e) {
+          console.error(e)
+          toast.error("작업실 재고 저장에 실패했어요.")
+          await a.refresh()
+        }
+      }, 500)
+    },
+    [a]
+  )
+
+  // ===== 재고 변동 이력 =====
+  const [historyTarget, setHistoryTarget] = useState<
+    { storeId: string; productId: string } | { warehouseId: string; productId: string } | null
+  >(null)
+
+  const historyQty = !historyTarget
+    ? 0
+    : "warehouseId" in historyTarget
+      ? num(
+          warehouseStock.find(
+            (x) => x.warehouseId === historyTarget.warehouseId && x.productId === historyTarget.productId
+          )?.onHandQty,
+          0
+        )
+      : num(
+          inventory.find(
+            (x) => String(x.storeId) === historyTarget.storeId && String(x.productId) === historyTarget.productId
+          )?.onHandQty,
+          0
+        )
+
+  const historyLocationName = !historyTarget
+    ? "-"
+    : "warehouseId" in historyTarget
+      ? warehouses.find((w) => w.id === historyTarget.warehouseId)?.name ?? "작업실"
+      : String(storeById.get(historyTarget.storeId)?.name ?? "-")
+
+  const moveFocus = useCallback((fromIndex: number, dir: -1 | 1, refs = qtyInputRefs) => {
     const next = fromIndex + dir
-    const el = qtyInputRefs.current[next]
+    const el = refs.current[next]
     if (el) el.focus()
   }, [])
 
+  // ===== 스캔 모드: 스캔 1회 = 선택한 입점처/작업실 재고 +1 =====
+  const scanDisabledReason =
+    tab === "make"
+      ? "재고 현황/작업실 재고 탭에서 스캔할 수 있어요."
+      : tab === "inventory" && selectedStoreId === "__all__"
+        ? "입점처를 하나 선택하면 스캔할 수 있어요."
+        : tab === "home" && !activeWarehouseId
+          ? "작업실을 먼저 등록해 주세요."
+          : ""
+
+  const onScanProduct = (p: Product): ScanResult => {
+    if (tab === "home") {
+      const cur = num(
+        warehouseStock.find((w) => w.warehouseId === activeWarehouseId && w.productId === p.id)?.onHandQty,
+        0
+      )
+      setHomeQtyLocal(activeWarehouseId, p.id, cur + 1)
+      scheduleSaveHomeQty(activeWarehouseId, p.id, cur + 1)
+      return { ok: true, message: `작업실 ${cur + 1}개` }
+    }
+
+    const storeId = String(selectedStoreId)
+    const row = expandedInventory.find((it) => String(it.storeId) === storeId && String(it.productId) === p.id)
+    if (!row) return { ok: false, message: "이 입점처에서 취급하지 않는 제품" }
+
+    const next = num(row.onHandQty, 0) + 1
+    setQtyLocal(storeId, p.id, next)
+    scheduleSaveQty(storeId, p.id, next)
+    return { ok: true, message: `${storeById.get(storeId)?.name ?? "입점처"} ${next}개` }
+  }
+
   // ===== CSV Export =====
   const exportInventoryCSV = useCallback(() => {
     const today = new Date().toISOString().slice(0, 10)
@@ -324,20 +553,46 @@ export default function InventoryPage() {
     const store = selectedStoreId === "__all__" ? null : storeById.get(String(selectedStoreId))
 
     const rows: string[][] = []
-    rows.push(["입점처", "카테고리", "제품", "현재 재고", "목표 재고", "필요 수량"])
-
-    for (const { it, need } of makeRows as any[]) {
+    rows.push([
+      "입점처",
+      "카테고리",
+      "제품",
+      "현재 재고",
+      "목표 재고",
+      "목표 기준",
+      "필요 수량",
+      "작업실 재고 충당",
+      "제작 수량",
+      "개당 재료비",
+      "재료비 합계",
+    ])
+
+    for (const { it, need, fromStock, make } of makeRows) {
       const onHand = num(it.onHandQty, 0)
       const sName =
         selectedStoreId === "__all__" ? storeById.get(String(it.storeId))?.name ?? "-" : store?.name ?? "-"
       const pName = productNameById.get(String(it.productId)) ?? "제품"
       const cat = productCategoryById.get(String(it.productId)) ?? ""
-      rows.push([String(sName), String(cat || "-"), String(pName), String(onHand), String(effectiveTargetQty), String(need)])
+      const unitCost = bom.materialCostOf(String(it.productId))
+      const target = targetOf(String(it.storeId), String(it.productId))
+      rows.push([
+        String(sName),
+        String(cat || "-"),
+        String(pName),
+        String(onHand),
+        String(target.qty),
+        `${TARGET_RULE_LABEL[target.rule]}: ${target.detail}`,
+        String(need),
+        String(fromStock),
+        String(make),
+        unitCost == null ? "" : String(Math.round(unitCost)),
+        unitCost == null ? "" : String(Math.round(unitCost * make)),
+      ])
     }
 
     const storeSafe = safeFilename(store?.name ?? "전체")
     downloadCSV(`ShopPlanner_제작리스트_${storeSafe}_${today}.csv`, rows)
-  }, [makeRows, productNameById, productCategoryById, selectedStoreId, storeById, effectiveTargetQty])
+  }, [makeRows, productNameById, productCategoryById, selectedStoreId, storeById, targetOf, bom])
 
   if (loading) {
     return (
@@ -429,11 +684,21 @@ export default function InventoryPage() {
           </div>
         </div>
 
+        <div className="mt-3">
+          <BarcodeScanPanel
+            products={data.products}
+            onProduct={onScanProduct}
+            disabled={Boolean(scanDisabledReason)}
+            disabledReason={scanDisabledReason}
+            hint={tab === "home" ? "스캔할 때마다 작업실 재고가 1씩 늘어요." : "스캔할 때마다 입점처 재고가 1씩 늘어요."}
+          />
+        </div>
+
         <div className="mt-3">
           <Tabs
             value={tab}
             onValueChange={(v) => {
-              const next = v as any
+              const next = parseTab(v) ?? "inventory"
               setTab(next)
               setSp((prev) => {
                 const n = new URLSearchParams(prev)
@@ -445,6 +710,7 @@ export default function InventoryPage() {
           >
             <TabsList className="w-full justify-start">
               <TabsTrigger value="inventory">재고 현황</TabsTrigger>
+              <TabsTrigger value="home">작업실 재고</TabsTrigger>
               <TabsTrigger value="make">제작 리스트</TabsTrigger>
             </TabsList>
 
@@ -454,9 +720,10 @@ export default function InventoryPage() {
                 <Table className="w-full text-sm">
                   <TableHeader>
                     <TableRow>
-                      <TableHead className="w-[18%]">카테고리</TableHead>
-                      <TableHead className="w-[40%]">제품</TableHead>
-                      <TableHead className="w-[24%]">입점처</TableHead>
+                      <TableHead className="w-[16%]">카테고리</TableHead>
+                      <TableHead className="w-[32%]">제품</TableHead>
+                      <TableHead className="w-[20%]">입점처</TableHead>
+                      <TableHead className="w-[14%] text-right">목표</TableHead>
                       <TableHead className="w-[18%] text-right">현재</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -464,7 +731,7 @@ export default function InventoryPage() {
                   <TableBody>
                     {sortedInventoryRows.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={4} className="py-10">
+                        <TableCell colSpan={5} className="py-10">
                           <EmptyState title="표시할 데이터가 없습니다." description="입점처/필터를 확인해 주세요." />
                         </TableCell>
                       </TableRow>
@@ -476,6 +743,9 @@ export default function InventoryPage() {
                         const current = num(it.onHandQty, 0)
                         const isLow = current < lowStockThreshold
                         const rowClass = isLow ? "bg-destructive/10" : "hover:bg-accent/30"
+                        const target = targetOf(String(it.storeId), String(it.productId))
+                        const targetKey = makeKey(it)
+                        const override = targetOverrideByKey.get(targetKey)
 
                         return (
                           <TableRow key={toKey(`${it.storeId}-${it.productId}`)} className={rowClass}>
@@ -490,39 +760,167 @@ export default function InventoryPage() {
 
                             <TableCell className="text-right">
                               <input
-                                ref={(el) => {
-                                  qtyInputRefs.current[rowIndex] = el
-                                }}
                                 type="number"
                                 inputMode="numeric"
-                                className="h-9 w-[92px] rounded-md border bg-background px-2 text-right tabular-nums focus:outline-none focus:ring-2 focus:ring-ring"
-                                value={current}
-                                onChange={(e) => {
-                                  const v = Number(e.target.value)
-                                  const nextQty = Number.isFinite(v) ? Math.max(0, Math.floor(v)) : 0
-                                  setQtyLocal(String(it.storeId), String(it.productId), nextQty)
-                                  scheduleSaveQty(String(it.storeId), String(it.productId), nextQty)
-                                }}
-                                onBlur={(e) => {
-                                  const v = Number((e.target as HTMLInputElement).value)
-                                  const nextQty = Number.isFinite(v) ? Math.max(0, Math.floor(v)) : 0
-                                  setQtyLocal(String(it.storeId), String(it.productId), nextQty)
-                                  scheduleSaveQty(String(it.storeId), String(it.productId), nextQty)
-                                }}
+                                className="h-9 w-[72px] rounded-md border bg-background px-2 text-right tabular-nums placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+                                value={targetEdit[targetKey] ?? (override == null ? "" : String(override))}
+                                placeholder={String(target.qty)}
+                                title={`${TARGET_RULE_LABEL[target.rule]}: ${target.detail} (빈칸 = 규칙 따름)`}
+                                onChange={(e) => setTargetEdit((m) => ({ ...m, [targetKey]: e.target.value }))}
+                                onBlur={() => void commitTargetOverride(String(it.storeId), String(it.productId))}
                                 onKeyDown={(e) => {
-                                  if (e.key === "Enter" || e.key === "ArrowDown") {
-                                    e.preventDefault()
-                                    moveFocus(rowIndex, 1)
-                                  }
-                                  if (e.key === "ArrowUp") {
-                                    e.preventDefault()
-                                    moveFocus(rowIndex, -1)
-                                  }
-                                }}
-                                onFocus={(e) => {
-                                  ;(e.target as HTMLInputElement).select()
+                                  if (e.key === "Enter") (e.target as HTMLInputElement).blur()
                                 }}
                               />
+                              <TargetRuleHint target={target} />
+                            </TableCell>
+
+                            <TableCell className="text-right">
+                              <div className="inline-flex items-center gap-1">
+                                <input
+                                  ref={(el) => {
+                                    qtyInputRefs.current[rowIndex] = el
+                                  }}
+                                  type="number"
+                                  inputMode="numeric"
+                                  className="h-9 w-[92px] rounded-md border bg-background px-2 text-right tabular-nums focus:outline-none focus:ring-2 focus:ring-ring"
+                                  value={current}
+                                  onChange={(e) => {
+                                    const v = Number(e.target.value)
+                                    const nextQty = Number.isFinite(v) ? Math.max(0, Math.floor(v)) : 0
+                                    setQtyLocal(String(it.storeId), String(it.productId), nextQty)
+                                    scheduleSaveQty(String(it.storeId), String(it.productId), nextQty)
+                                  }}
+                                  onBlur={(e) => {
+                                    const v = Number((e.target as HTMLInputElement).value)
+                                    const nextQty = Number.isFinite(v) ? Math.max(0, Math.floor(v)) : 0
+                                    setQtyLocal(String(it.storeId), String(it.productId), nextQty)
+                                    scheduleSaveQty(String(it.storeId), String(it.productId), nextQty)
+                                  }}
+                                  onKeyDown={(e) => {
+                                    if (e.key === "Enter" || e.key === "ArrowDown") {
+                                      e.preventDefault()
+                                      moveFocus(rowIndex, 1)
+                                    }
+                                    if (e.key === "ArrowUp") {
+                                      e.preventDefault()
+                                      moveFocus(rowIndex, -1)
+                                    }
+                                  }}
+                                  onFocus={(e) => {
+                                    ;(e.target as HTMLInputElement).select()
+                                  }}
+                                />
+                                <AppButton
+                                  type="button"
+                                  variant="ghost"
+                                  size="icon-sm"
+                                  title="재고 변동 이력"
+                                  onClick={() =>
+                                    setHistoryTarget({ storeId: String(it.storeId), productId: String(it.productId) })
+                                  }
+                                >
+                                  <History className="h-4 w-4" />
+                                </AppButton>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+
+            {/* 작업실 재고 */}
+            <TabsContent value="home" className="mt-3">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                <div className="text-xs text-muted-foreground">
+                  제작 완료 후 아직 납품하지 않은 재고입니다. 합계:{" "}
+                  <span className="font-semibold tabular-nums">{homeTotal}</span>
+                </div>
+                {warehouses.length > 1 && (
+                  <div className="w-full sm:w-[220px]">
+                    <AppSelect
+                      value={activeWarehouseId}
+                      onValueChange={(v: string) => setSelectedWarehouseId(v)}
+                      options={warehouseOptions}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="mt-2 overflow-hidden rounded-lg border">
+                <Table className="w-full text-sm">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[18%]">카테고리</TableHead>
+                      <TableHead className="w-[64%]">제품</TableHead>
+                      <TableHead className="w-[18%] text-right">보유</TableHead>
+                    </TableRow>
+                  </TableHeader>
+
+                  <TableBody>
+                    {!activeWarehouseId || homeRows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={3} className="py-10">
+                          <EmptyState title="표시할 데이터가 없습니다." description="제품/필터를 확인해 주세요." />
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      homeRows.map((r, rowIndex) => {
+                        const pName = productNameById.get(r.productId) ?? "제품"
+                        const cat = productCategoryById.get(r.productId) || "-"
+
+                        return (
+                          <TableRow key={`${activeWarehouseId}-${r.productId}`} className="hover:bg-accent/30">
+                            <TableCell>
+                              <span className="inline-flex items-center rounded-md bg-muted px-2 py-0.5 text-[11px] text-muted-foreground">
+                                {cat}
+                              </span>
+                            </TableCell>
+                            <TableCell className="font-medium">{pName}</TableCell>
+                            <TableCell className="text-right">
+                              <div className="inline-flex items-center gap-1">
+                                <input
+                                  ref={(el) => {
+                                    homeQtyInputRefs.current[rowIndex] = el
+                                  }}
+                                  type="number"
+                                  inputMode="numeric"
+                                  className="h-9 w-[92px] rounded-md border bg-background px-2 text-right tabular-nums focus:outline-none focus:ring-2 focus:ring-ring"
+                                  value={r.onHandQty}
+                                  onChange={(e) => {
+                                    const v = Number(e.target.value)
+                                    const nextQty = Number.isFinite(v) ? Math.max(0, Math.floor(v)) : 0
+                                    setHomeQtyLocal(activeWarehouseId, r.productId, nextQty)
+                                    scheduleSaveHomeQty(activeWarehouseId, r.productId, nextQty)
+                                  }}
+                                  onKeyDown={(e) => {
+                                    if (e.key === "Enter" || e.key === "ArrowDown") {
+                                      e.preventDefault()
+                                      moveFocus(rowIndex, 1, homeQtyInputRefs)
+                                    }
+                                    if (e.key === "ArrowUp") {
+                                      e.preventDefault()
+                                      moveFocus(rowIndex, -1, homeQtyInputRefs)
+                                    }
+                                  }}
+                                  onFocus={(e) => {
+                                    ;(e.target as HTMLInputElement).select()
+                                  }}
+                                />
+                                <AppButton
+                                  type="button"
+                                  variant="ghost"
+                                  size="icon-sm"
+                                  title="재고 변동 이력"
+                                  onClick={() => setHistoryTarget({ warehouseId: activeWarehouseId, productId: r.productId })}
+                                >
+                                  <History className="h-4 w-4" />
+                                </AppButton>
+                              </div>
                             </TableCell>
                           </TableRow>
                         )
@@ -537,7 +935,30 @@ export default function InventoryPage() {
             <TabsContent value="make" className="mt-3">
               <div className="flex items-center justify-between">
                 <div className="text-xs text-muted-foreground">
-                  제작 필요 합계: <span className="font-semibold tabular-nums">{makeNeededTotal}</span>
+                  부족 합계 <span className="font-semibold tabular-nums">{makeTotals.need}</span>
+                  {" · "}작업실 재고 충당 <span className="font-semibold tabular-nums">{makeTotals.fromStock}</span>
+                  {" · "}제작 필요 <span className="font-semibold tabular-nums">{makeTotals.make}</span>
+                  {" · "}예상 재료비{" "}
+                  <span className="font-semibold tabular-nums">
+                    {Math.round(makeMaterialCost.total).toLocaleString("ko-KR")}원
+                  </span>
+                  {makeMaterialCost.missing > 0 && (
+                    <span className="ml-1">(재료 구성 없는 제품 {makeMaterialCost.missing}건 제외)</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  {selectedStoreId !== "__all__" && makeTotals.fromStock > 0 && (
+                    <AppButton
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => nav(`/deliveries?store=${encodeURIComponent(selectedStoreId)}`)}
+                    >
+                      납품서 작성
+                    </AppButton>
+                  )}
+                  <AppButton size="sm" disabled={selectedPlanItems.length === 0} onClick={() => setPlanDialogOpen(true)}>
+                    제작 지시{selectedPlanItems.length > 0 ? ` (${selectedPlanItems.length})` : ""}
+                  </AppButton>
                 </div>
               </div>
 
@@ -545,28 +966,63 @@ export default function InventoryPage() {
                 <Table className="w-full text-sm">
                   <TableHeader>
                     <TableRow>
-                      <TableHead className="w-[18%]">카테고리</TableHead>
-                      <TableHead className="w-[40%]">제품</TableHead>
-                      <TableHead className="w-[24%]">입점처</TableHead>
-                      <TableHead className="w-[18%] text-right">필요</TableHead>
+                      <TableHead className="w-[40px] text-center">
+                        <input
+                          type="checkbox"
+                          checked={allMakeSelected}
+                          disabled={selectableMakeRows.length === 0}
+                          onChange={(e) =>
+                            setSelectedMakeKeys(
+                              e.target.checked ? new Set(selectableMakeRows.map((r) => makeKey(r.it))) : new Set()
+                            )
+                          }
+                        />
+                      </TableHead>
+                      <TableHead className="w-[12%]">카테고리</TableHead>
+                      <TableHead className="w-[22%]">제품</TableHead>
+                      <TableHead className="w-[14%]">입점처</TableHead>
+                      <TableHead className="w-[10%] text-right">목표</TableHead>
+                      <TableHead className="w-[8%] text-right">부족</TableHead>
+                      <TableHead className="w-[11%] text-right">작업실 충당</TableHead>
+                      <TableHead className="w-[9%] text-right">제작</TableHead>
+                      <TableHead className="w-[11%] text-right">재료비</TableHead>
                     </TableRow>
                   </TableHeader>
 
                   <TableBody>
                     {makeRows.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={4} className="py-10">
+                        <TableCell colSpan={9} className="py-10">
                           <EmptyState title="제작 필요 항목이 없습니다." description="현재는 안정적인 상태입니다." />
                         </TableCell>
                       </TableRow>
                     ) : (
-                      makeRows.slice(0, 50).map(({ it, need }: any) => {
+                      makeRows.slice(0, 50).map(({ it, need, fromStock, make }) => {
                         const pName = productNameById.get(String(it.productId)) ?? "제품"
                         const sName = storeById.get(String(it.storeId))?.name ?? "-"
                         const cat = productCategoryById.get(String(it.productId)) || "-"
+                        const unitCost = bom.materialCostOf(String(it.productId))
+                        const key = makeKey(it)
+                        const planned = plannedQtyByProduct.get(String(it.productId)) ?? 0
+                        const target = targetOf(String(it.storeId), String(it.productId))
 
                         return (
                           <TableRow key={toKey(`${it.storeId}-${it.productId}`)} className="hover:bg-accent/30">
+                            <TableCell className="text-center">
+                              <input
+                                type="checkbox"
+                                checked={selectedMakeKeys.has(key)}
+                                disabled={make <= 0}
+                                onChange={(e) =>
+                                  setSelectedMakeKeys((prev) => {
+                                    const next = new Set(prev)
+                                    if (e.target.checked) next.add(key)
+                                    else next.delete(key)
+                                    return next
+                                  })
+                                }
+                              />
+                            </TableCell>
                             <TableCell>
                               <span className="inline-flex items-center rounded-md bg-muted px-2 py-0.5 text-[11px] text-muted-foreground">
                                 {cat}
@@ -575,7 +1031,23 @@ export default function InventoryPage() {
                             <TableCell className="font-medium">{pName}</TableCell>
                             <TableCell className="text-muted-foreground">{sName}</TableCell>
                             <TableCell className="text-right tabular-nums">
-                              <span className="font-semibold">{need}</span>
+                              {target.qty}
+                              <TargetRuleHint target={target} />
+                            </TableCell>
+                            <TableCell className="text-right tabular-nums">{need}</TableCell>
+                            <TableCell className="text-right tabular-nums text-muted-foreground">
+                              {fromStock > 0 ? fromStock : "-"}
+                            </TableCell>
+                            <TableCell className="text-right tabular-nums">
+                              <span className="font-semibold">{make}</span>
+                              {planned > 0 && (
+                                <div className="text-[11px] text-muted-foreground" title="진행 중인 제작 지시 수량(제품 전체)">
+                                  지시 {planned}
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right tabular-nums text-muted-foreground">
+                              {unitCost == null || make <= 0 ? "-" : Math.round(unitCost * make).toLocaleString("ko-KR")}
                             </TableCell>
                           </TableRow>
                         )
@@ -584,11 +1056,48 @@ export default function InventoryPage() {
                   </TableBody>
                 </Table>
               </div>
+
+              <MaterialRequirementsCard
+                makeRows={makeRows}
+                bom={bom}
+                materials={data.materials}
+                productNameById={productNameById}
+                fileLabel={safeFilename(
+                  selectedStoreId === "__all__" ? "전체" : storeById.get(String(selectedStoreId))?.name ?? "전체"
+                )}
+              />
             </TabsContent>
           </Tabs>
         </div>
       </AppCard>
 
+      <CreateProductionPlanDialog
+        open={planDialogOpen}
+        onOpenChange={setPlanDialogOpen}
+        items={selectedPlanItems}
+        storeId={selectedStoreId === "__all__" ? null : selectedStoreId}
+        warehouses={warehouses}
+        defaultWarehouseId={activeWarehouseId}
+        onCreated={async () => {
+          setSelectedMakeKeys(new Set())
+          await a.refresh()
+        }}
+      />
+
+      <InventoryMovementsDialog
+        open={!!historyTarget}
+        onOpenChange={(open) => {
+          if (!open) setHistoryTarget(null)
+        }}
+        storeId={historyTarget && "storeId" in historyTarget ? historyTarget.storeId : null}
+        warehouseId={historyTarget && "warehouseId" in historyTarget ? historyTarget.warehouseId : null}
+        productId={historyTarget?.productId ?? null}
+        locationName={historyLocationName}
+        productName={productNameById.get(historyTarget?.productId ?? "") ?? "제품"}
+        currentQty={historyQty}
+        onPosted={a.refresh}
+      />
+
       <div className="flex justify-end">
         <AppButton variant="secondary" onClick={() => nav("/dashboard")}>
           대시보드로 돌아가기
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useMemo, useState } from "react"
 import PageHeader from "@/app/layout/PageHeader"
 import { AppSection } from "@/components/app/AppSection"
 import { AppCard } from "@/components/app/AppCard"
@@ -33,7 +33,13 @@ import {
 } from "@/components/ui/table"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 
-import { Plus, Trash2, Edit2, Copy, Library, ArrowDownToLine, Check } from "lucide-react"
+import { Plus, Trash2, Edit2, Copy, Library, ArrowDownToLine, Check, Link2 } from "lucide-react"
+
+import { AppSelect } from "@/components/app/AppSelect"
+import { useAppData } from "@/features/core/useAppData"
+import { setProductMaterialsDB } from "@/data/store.supabase"
+import { buildBomIndex } from "@/features/products/lib/bom"
+import { toast } from "@/lib/toast"
 
 // ✅ 여기가 중요: 네 프로젝트의 실제 supabase 유틸 경로로 맞추기
 import {
@@ -65,6 +71,9 @@ type Product = {
   memo?: string
   materials: Material[]
 
+  // ✅ 카탈로그 제품과 연결되면 재료는 그 제품의 재료 구성(BOM)을 사용
+  catalogProductId: string | null
+
   hourlyRate: number
   productionPerHour: number
   laborInputMode: "perHour" | "perItem"
@@ -136,6 +145,8 @@ function migrateProduct(p: any): Product {
         }))
       : [],
 
+    catalogProductId: typeof p?.catalogProductId === "string" && p.catalogProductId ? p.catalogProductId : null,
+
     hourlyRate: clamp(Number(p?.hourlyRate ?? 0), 0),
     productionPerHour: clamp(Number(p?.productionPerHour ?? 1), 0.0001),
     laborInputMode: p?.laborInputMode === "perItem" ? "perItem" : "perHour",
@@ -166,8 +177,9 @@ function calcLaborCost(p: Product) {
   return p.hourlyRate / perHour
 }
 
-function calcCOGS(p: Product) {
-  const materials = calcMaterialCost(p.materials)
+// materialCost: 카탈로그 재료 구성에서 계산한 재료비(연결된 경우). 없으면 저장된 재료로 계산
+function calcCOGS(p: Product, materialCost?: number) {
+  const materials = materialCost ?? calcMaterialCost(p.materials)
   const labor = calcLaborCost(p)
   const base = materials + labor + p.outsourcingCost
   const lossMultiplier = 1 + clamp(p.lossRate, 0, 100) / 100
@@ -182,16 +194,16 @@ function calcVat(p: Product) {
   return p.sellingPrice * (clamp(p.vatRate, 0, 100) / 100)
 }
 
-function calcProfit(p: Product) {
-  const cogs = calcCOGS(p)
+function calcProfit(p: Product, materialCost?: number) {
+  const cogs = calcCOGS(p, materialCost)
   const commission = calcCommission(p)
   const vat = calcVat(p)
   return p.sellingPrice - cogs - commission - vat
 }
 
-function calcMarginRate(p: Product) {
+function calcMarginRate(p: Product, materialCost?: number) {
   if (p.sellingPrice <= 0) return 0
-  return (calcProfit(p) / p.sellingPrice) * 100
+  return (calcProfit(p, materialCost) / p.sellingPrice) * 100
 }
 
 function emptyProduct(): Product {
@@ -200,6 +212,7 @@ function emptyProduct(): Product {
     name: "",
     memo: "",
     materials: [],
+    catalogProductId: null,
     hourlyRate: 0,
     productionPerHour: 1,
     laborInputMode: "perHour",
@@ -262,6 +275,8 @@ function badgeClasses(level: MarginAssessment["level"]) {
 }
 
 export default function MarginCalculatorPage() {
+  const app = useAppData()
+
   const [products, setProducts] = useState<Product[]>([])
   const [library, setLibrary] = useState<LibraryItem[]>([])
   const [loading, setLoading] = useState(true)
@@ -362,6 +377,66 @@ export default function MarginCalculatorPage() {
     return s
   }, [library])
 
+  // ✅ 카탈로그 재료 구성(BOM): 단가는 이 화면의 라이브러리 값 기준 → 단가를 고치면 연결된 제품 원가에 바로 반영
+  const bom = useMemo(
+    () =>
+      buildBomIndex({
+        products: app.data.products,
+        productMaterials: app.data.productMaterials,
+        materials: library,
+      }),
+    [app.data.products, app.data.productMaterials, library]
+  )
+
+  const catalogNameById = useMemo(
+    () => new Map(app.data.products.map((p) => [p.id, p.name])),
+    [app.data.products]
+  )
+
+  const catalogOptions = useMemo(
+    () =>
+      [...app.data.products]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((p) => ({ value: p.id, label: p.name })),
+    [app.data.products]
+  )
+
+  // 연결된 제품: 카탈로그 재료 구성이 있으면 그 재료비, 없으면 저장된 재료로 계산
+  const linkedMaterialCost = useCallback(
+    (p: Product) => (p.catalogProductId ? bom.materialCostOf(p.catalogProductId) ?? undefined : undefined),
+    [bom]
+  )
+
+  const bomMaterials = useCallback(
+    (catalogProductId: string): Material[] =>
+      bom.linesOf(catalogProductId).map((l) => ({
+        id: uuid(),
+        name: l.name,
+        unitPrice: l.unitPrice,
+        quantity: l.quantity,
+      })),
+    [bom]
+  )
+
+  const linkCatalogProduct = (catalogProductId: string) => {
+    if (!catalogProductId) {
+      setDraft((prev) => ({ ...prev, catalogProductId: null }))
+      return
+    }
+
+    const cp = app.data.products.find((x) => x.id === catalogProductId)
+    const fromBom = bomMaterials(catalogProductId)
+
+    setDraft((prev) => ({
+      ...prev,
+      catalogProductId,
+      name: prev.name.trim() ? prev.name : cp?.name ?? "",
+      sellingPrice: prev.sellingPrice > 0 ? prev.sellingPrice : cp?.price ?? 0,
+      // 카탈로그에 구성이 있으면 그걸 불러오고, 없으면 지금 재료가 저장 시 구성이 됨
+      materials: fromBom.length ? fromBom : prev.materials,
+    }))
+  }
+
   const openCreate = () => {
     setEditing(null)
     setDraft(emptyProduct())
@@ -372,8 +447,10 @@ export default function MarginCalculatorPage() {
   }
 
   const openEdit = (p: Product) => {
+    const base = migrateProduct(p)
+    const fromBom = base.catalogProductId ? bomMaterials(base.catalogProductId) : []
     setEditing(p)
-    setDraft(migrateProduct(p))
+    setDraft(fromBom.length ? { ...base, materials: fromBom } : base)
     setNewMaterialName("")
     setNewMaterialUnitPrice("")
     setNewMaterialQty("1")
@@ -388,6 +465,15 @@ export default function MarginCalculatorPage() {
     })
     if (!normalized.name.trim()) return
 
+    if (normalized.catalogProductId) {
+      try {
+        await syncCatalogMaterials(normalized.catalogProductId, normalized.materials)
+      } catch (e) {
+        console.error(e)
+        toast.error(`재료 구성 저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+      }
+    }
+
     const row = await upsertMyMarginProduct({
       id: editing ? editing.id : undefined, // ✅ DB id(uuid)
       name: normalized.name,
@@ -465,9 +551,9 @@ export default function MarginCalculatorPage() {
   }
 
   // ✅ 라이브러리: DB upsert + state 반영
-  const upsertLibraryItem = async (name: string, unitPrice: number) => {
+  const upsertLibraryItem = async (name: string, unitPrice: number): Promise<LibraryItem | null> => {
     const n = name.trim()
-    if (!n) return
+    if (!n) return null
 
     const row = await upsertMyMaterialLibraryItem({ name: n, unitPrice: clamp(unitPrice, 0) })
 
@@ -486,6 +572,30 @@ export default function MarginCalculatorPage() {
     })
 
     setLibUnitPriceEdit((m) => ({ ...m, [saved.id]: String(saved.unitPrice) }))
+    return saved
+  }
+
+  // ✅ 연결된 카탈로그 제품의 재료 구성 저장
+  // - 재료는 이름 기준으로 라이브러리에 저장/갱신 (단가는 라이브러리가 단일 출처)
+  const syncCatalogMaterials = async (catalogProductId: string, materials: Material[]) => {
+    const qtyByMaterialId = new Map<string, number>()
+
+    for (const m of materials) {
+      const name = m.name.trim()
+      if (!name) continue
+
+      let item: LibraryItem | null = library.find((x) => normName(x.name) === normName(name)) ?? null
+      if (!item || item.unitPrice !== m.unitPrice) item = await upsertLibraryItem(name, m.unitPrice)
+      if (!item) continue
+
+      qtyByMaterialId.set(item.id, (qtyByMaterialId.get(item.id) ?? 0) + m.quantity)
+    }
+
+    await setProductMaterialsDB({
+      productId: catalogProductId,
+      lines: Array.from(qtyByMaterialId.entries()).map(([materialId, quantity]) => ({ materialId, quantity })),
+    })
+    await app.refresh()
   }
 
   const deleteLibraryItem = async (id: string) => {
@@ -554,9 +664,10 @@ export default function MarginCalculatorPage() {
           ) : (
             <div className="space-y-4">
               {sortedProducts.map((p) => {
-                const cogs = calcCOGS(p)
-                const profit = calcProfit(p)
-                const margin = calcMarginRate(p)
+                const materialCost = linkedMaterialCost(p)
+                const cogs = calcCOGS(p, materialCost)
+                const profit = calcProfit(p, materialCost)
+                const margin = calcMarginRate(p, materialCost)
                 const assessment = assessMargin(margin)
 
                 return (
@@ -572,6 +683,13 @@ export default function MarginCalculatorPage() {
                         {p.memo ? (
                           <div className="text-xs text-muted-foreground mt-1 line-clamp-2">{p.memo}</div>
                         ) : null}
+                        {p.catalogProductId ? (
+                          <div className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
+                            <Link2 className="h-3 w-3" />
+                            {catalogNameById.get(p.catalogProductId) ?? "삭제된 제품"}
+                            {materialCost != null ? " · 재료 구성 기준" : " · 재료 구성 없음"}
+                          </div>
+                        ) : null}
                       </div>
 
                       <div className="flex items-center gap-2 shrink-0">
@@ -668,6 +786,21 @@ export default function MarginCalculatorPage() {
                       </div>
                     </div>
 
+                    <div className="space-y-2">
+                      <Label>카탈로그 제품 연결(선택)</Label>
+                      <AppSelect
+                        value={draft.catalogProductId ?? ""}
+                        onValueChange={linkCatalogProduct}
+                        options={[{ value: "", label: "연결 안 함" }, ...catalogOptions]}
+                      />
+                      {draft.catalogProductId ? (
+                        <div className="text-xs text-muted-foreground">
+                          저장하면 아래 재료가 “{catalogNameById.get(draft.catalogProductId) ?? "제품"}”의 재료 구성으로
+                          저장되고, 단가는 원부자재 라이브러리에 반영돼요. 제작 리스트·리포트도 같은 원가를 사용합니다.
+                        </div>
+                      ) : null}
+                    </div>
+
                     <div className="space-y-3">
                       <div className="font-medium text-sm">재료/부자재</div>
 
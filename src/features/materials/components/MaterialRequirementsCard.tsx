@@ -0,0 +1,166 @@
+import { useMemo } from "react"
+import { Link } from "react-router-dom"
+import { Download } from "lucide-react"
+
+import type { MaterialLibraryItem } from "@/data/models"
+import type { BomIndex } from "@/features/products/lib/bom"
+import {
+  buildMaterialRequirements,
+  formatMaterialQty,
+  shoppingListCsvRows,
+} from "@/features/materials/lib/requirements"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppBadge } from "@/components/app/AppBadge"
+import { EmptyState } from "@/components/shared/EmptyState"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+function downloadCSV(filename: string, rows: string[][]) {
+  const csvContent = rows
+    .map((r) => r.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(","))
+    .join("\n")
+
+  const BOM = "\uFEFF"
+  const blob = new Blob([BOM + csvContent], { type: "text/csv;charset=utf-8;" })
+  const url = URL.createObjectURL(blob)
+
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * 제작 리스트 기준 재료 소요량
+ * - 제작 수량 × 제품 재료 구성(BOM) → 재료별 필요량 vs 재료 재고
+ * - 부족한 재료만 구매 목록 CSV로 내려받기
+ */
+export function MaterialRequirementsCard(props: {
+  makeRows: Array<{ it: { productId: string }; make: number }>
+  bom: BomIndex
+  materials: MaterialLibraryItem[]
+  productNameById: Map<string, string>
+  fileLabel: string
+}) {
+  const { makeRows, bom, materials, productNameById } = props
+
+  const { rows, missingProductIds } = useMemo(() => {
+    const makeQtyByProduct = new Map<string, number>()
+    for (const r of makeRows) {
+      if (r.make <= 0) continue
+      const pid = String(r.it.productId)
+      makeQtyByProduct.set(pid, (makeQtyByProduct.get(pid) ?? 0) + r.make)
+    }
+    return buildMaterialRequirements({ makeQtyByProduct, bom, materials })
+  }, [makeRows, bom, materials])
+
+  const shortCount = rows.filter((r) => r.shortage > 0).length
+  const purchaseTotal = rows.reduce((acc, r) => acc + r.purchaseCost, 0)
+
+  const exportShoppingList = () => {
+    const today = new Date().toISOString().slice(0, 10)
+    downloadCSV(`ShopPlanner_재료구매목록_${props.fileLabel}_${today}.csv`, shoppingListCsvRows(rows))
+  }
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm font-medium">
+          재료 소요량
+          <span className="ml-2 text-xs font-normal text-muted-foreground">
+            부족 {shortCount}종 · 예상 구매 {Math.round(purchaseTotal).toLocaleString("ko-KR")}원
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <AppButton asChild variant="ghost" size="sm">
+            <Link to="/materials">재료 재고</Link>
+          </AppButton>
+          <AppButton variant="outline" size="sm" onClick={exportShoppingList} disabled={shortCount === 0}>
+            <Download className="mr-1 h-4 w-4" />
+            구매 목록 CSV
+          </AppButton>
+        </div>
+      </div>
+
+      {missingProductIds.length > 0 && (
+        <div className="rounded-md border border-amber-500/40 bg-amber-500/10 p-2 text-xs">
+          ⚠️ 재료 구성이 없는 제품 {missingProductIds.length}개는 계산에서 빠졌어요:{" "}
+          {missingProductIds
+            .slice(0, 5)
+            .map((pid) => productNameById.get(pid) ?? "제품")
+            .join(", ")}
+          {missingProductIds.length > 5 ? ` 외 ${missingProductIds.length - 5}개` : ""}
+        </div>
+      )}
+
+      <div className="overflow-hidden rounded-lg border">
+        <Table className="w-full text-sm">
+          <TableHeader>
+            <TableRow>
+              <TableHead>재료</TableHead>
+              <TableHead className="w-[12%] text-right">필요</TableHead>
+              <TableHead className="w-[12%] text-right">보유</TableHead>
+              <TableHead className="w-[12%] text-right">부족</TableHead>
+              <TableHead className="w-[16%] text-right">구매</TableHead>
+              <TableHead className="w-[14%] text-right">예상 금액</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="py-8">
+                  <EmptyState
+                    title="계산할 재료가 없습니다."
+                    description="제작할 제품이 없거나, 제품에 재료 구성이 없어요."
+                  />
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((r) => {
+                const m = r.material
+                const unit = m.unit ?? ""
+                return (
+                  <TableRow key={m.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{m.name}</span>
+                        {r.shortage > 0 ? (
+                          <AppBadge variant="destructive">부족</AppBadge>
+                        ) : (
+                          <AppBadge variant="muted">충분</AppBadge>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">제품 {r.productCount}개에 사용</div>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatMaterialQty(r.required)}
+                      {unit}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums text-muted-foreground">
+                      {formatMaterialQty(r.onHand)}
+                      {unit}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums font-semibold">
+                      {r.shortage > 0 ? `${formatMaterialQty(r.shortage)}${unit}` : "-"}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {r.shortage <= 0
+                        ? "-"
+                        : r.purchaseQty != null
+                          ? `${r.purchaseQty}${m.purchaseUnit ?? ""}`
+                          : `${formatMaterialQty(r.shortage)}${unit}`}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums text-muted-foreground">
+                      {r.purchaseCost > 0 ? Math.round(r.purchaseCost).toLocaleString("ko-KR") : "-"}
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
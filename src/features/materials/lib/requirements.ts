@@ -0,0 +1,102 @@
+// src/features/materials/lib/requirements.ts
+import type { MaterialLibraryItem } from "@/data/models"
+import type { BomIndex } from "@/features/products/lib/bom"
+
+export type MaterialRequirementRow = {
+  material: MaterialLibraryItem
+  required: number // 제작 수량 × 재료 구성 합계 (unit 기준)
+  onHand: number
+  shortage: number // 부족분 (없으면 0)
+  purchaseQty: number | null // 구매 단위로 올림한 수량 (구매 단위 미설정이면 null)
+  purchaseCost: number // 부족분 기준 예상 구매 금액
+  productCount: number // 이 재료를 쓰는 제작 제품 수
+}
+
+/**
+ * 제작 수량(제품별) × 제품 재료 구성 → 재료별 필요량 vs 보유량
+ * - 재료 구성이 없는 제품은 missingProductIds로 따로 돌려줌
+ */
+export function buildMaterialRequirements(input: {
+  makeQtyByProduct: Map<string, number>
+  bom: BomIndex
+  materials: MaterialLibraryItem[]
+}) {
+  const materialById = new Map(input.materials.map((m) => [m.id, m]))
+  const required = new Map<string, number>()
+  const products = new Map<string, Set<string>>()
+  const missingProductIds: string[] = []
+
+  for (const [productId, qty] of input.makeQtyByProduct) {
+    if (!(qty > 0)) continue
+    const lines = input.bom.linesOf(productId)
+    if (lines.length === 0) {
+      missingProductIds.push(productId)
+      continue
+    }
+    for (const l of lines) {
+      required.set(l.materialId, (required.get(l.materialId) ?? 0) + l.quantity * qty)
+      const set = products.get(l.materialId) ?? new Set<string>()
+      set.add(productId)
+      products.set(l.materialId, set)
+    }
+  }
+
+  const rows: MaterialRequirementRow[] = []
+  for (const [materialId, req] of required) {
+    const material = materialById.get(materialId)
+    if (!material) continue
+
+    const onHand = Math.max(0, Number(material.stockQty ?? 0))
+    const shortage = Math.max(0, req - onHand)
+    const perPurchase = Number(material.purchaseUnitQty ?? 0)
+    const purchaseQty = perPurchase > 0 ? Math.ceil(shortage / perPurchase) : null
+
+    rows.push({
+      material,
+      required: req,
+      onHand,
+      shortage,
+      purchaseQty,
+      // 구매 단위가 있으면 실제로 사게 되는 양(올림) 기준
+      purchaseCost: material.unitPrice * (purchaseQty != null ? purchaseQty * perPurchase : shortage),
+      productCount: products.get(materialId)?.size ?? 0,
+    })
+  }
+
+  rows.sort((a, b) => {
+    if ((a.shortage > 0) !== (b.shortage > 0)) return a.shortage > 0 ? -1 : 1
+    return a.material.name.localeCompare(b.material.name)
+  })
+
+  return { rows, missingProductIds }
+}
+
+// 소수점 재료(원단 m 등)는 둘째 자리까지
+export function formatMaterialQty(n: number) {
+  return (Math.round(n * 100) / 100).toLocaleString("ko-KR")
+}
+
+/**
+ * 구매 목록 CSV (부족한 재료만)
+ */
+export function shoppingListCsvRows(rows: MaterialRequirementRow[]): string[][] {
+  const out: string[][] = [
+    ["재료", "단위", "필요량", "보유량", "부족량", "구매 단위", "구매 수량", "단가", "예상 금액"],
+  ]
+  for (const r of rows) {
+    if (r.shortage <= 0) continue
+    const m = r.material
+    out.push([
+      m.name,
+      m.unit ?? "",
+      String(Math.round(r.required * 100) / 100),
+      String(Math.round(r.onHand * 100) / 100),
+      String(Math.round(r.shortage * 100) / 100),
+      m.purchaseUnit && m.purchaseUnitQty ? `${m.purchaseUnit}(${m.purchaseUnitQty}${m.unit ?? ""})` : "",
+      r.purchaseQty == null ? "" : String(r.purchaseQty),
+      String(m.unitPrice),
+      String(Math.round(r.purchaseCost)),
+    ])
+  }
+  return out
+}
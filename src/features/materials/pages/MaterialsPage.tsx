@@ -0,0 +1,283 @@
+import { useEffect, useMemo, useState } from "react"
+import { Link } from "react-router-dom"
+
+import PageHeader from "@/app/layout/PageHeader"
+import type { MaterialLibraryItem } from "@/data/models"
+import { updateMaterialStockDB } from "@/data/store.supabase"
+import { useAppData } from "@/features/core/useAppData"
+import { formatMaterialQty } from "@/features/materials/lib/requirements"
+import { upsertMyMaterialLibraryItem } from "@/lib/supabaseClient"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppCard } from "@/components/app/AppCard"
+import { AppInput } from "@/components/app/AppInput"
+
+import { EmptyState } from "@/components/shared/EmptyState"
+import { ErrorState } from "@/components/shared/ErrorState"
+import { Skeleton } from "@/components/shared/Skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/lib/toast"
+
+type RowDraft = {
+  stockText: string
+  unit: string
+  purchaseUnit: string
+  purchaseQtyText: string
+  receiveText: string
+}
+
+function toNum(v: string) {
+  const n = Number(String(v ?? "").replace(/,/g, "").trim())
+  return Number.isFinite(n) ? n : 0
+}
+
+function toDraft(m: MaterialLibraryItem): RowDraft {
+  return {
+    stockText: String(m.stockQty ?? 0),
+    unit: m.unit ?? "",
+    purchaseUnit: m.purchaseUnit ?? "",
+    purchaseQtyText: m.purchaseUnitQty ? String(m.purchaseUnitQty) : "",
+    receiveText: "",
+  }
+}
+
+export default function MaterialsPage() {
+  const a = useAppData()
+  const data = a.data
+
+  const [query, setQuery] = useState("")
+  const [drafts, setDrafts] = useState<Record<string, RowDraft>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [newName, setNewName] = useState("")
+  const [newPrice, setNewPrice] = useState("")
+
+  // 서버 값이 바뀌면 입력칸도 다시 맞춤
+  useEffect(() => {
+    const next: Record<string, RowDraft> = {}
+    for (const m of data.materials) next[m.id] = toDraft(m)
+    setDrafts(next)
+  }, [data.materials])
+
+  // 재료별 사용 제품 수 (재료 구성 기준)
+  const usedByCount = useMemo(() => {
+    const m = new Map<string, number>()
+    for (const pm of data.productMaterials) m.set(pm.materialId, (m.get(pm.materialId) ?? 0) + 1)
+    return m
+  }, [data.productMaterials])
+
+  const rows = useMemo(() => {
+    const q = query.trim().toLowerCase()
+    return data.materials
+      .filter((m) => !q || m.name.toLowerCase().includes(q))
+      .sort((x, y) => x.name.localeCompare(y.name))
+  }, [data.materials, query])
+
+  const patchDraft = (id: string, patch: Partial<RowDraft>) => {
+    setDrafts((prev) => ({ ...prev, [id]: { ...(prev[id] ?? {}), ...patch } as RowDraft }))
+  }
+
+  const save = async (m: MaterialLibraryItem, patch: Parameters<typeof updateMaterialStockDB>[0]["patch"]) => {
+    try {
+      setSavingId(m.id)
+      await updateMaterialStockDB({ materialId: m.id, patch })
+      await a.refresh()
+    } catch (e) {
+      console.error(e)
+      toast.error(`저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  // 입력칸을 벗어날 때 바뀐 값만 저장
+  const commitRow = (m: MaterialLibraryItem) => {
+    const d = drafts[m.id]
+    if (!d) return
+
+    const stockQty = Math.max(0, toNum(d.stockText))
+    const purchaseUnitQty = d.purchaseQtyText.trim() ? Math.max(0, toNum(d.purchaseQtyText)) || null : null
+
+    const changed =
+      stockQty !== (m.stockQty ?? 0) ||
+      d.unit.trim() !== (m.unit ?? "") ||
+      d.purchaseUnit.trim() !== (m.purchaseUnit ?? "") ||
+      purchaseUnitQty !== (m.purchaseUnitQty ?? null)
+    if (!changed) return
+
+    void save(m, { stockQty, unit: d.unit, purchaseUnit: d.purchaseUnit, purchaseUnitQty })
+  }
+
+  // 입고: 구매 단위가 있으면 구매 단위 기준, 없으면 재료 단위 기준
+  const receive = (m: MaterialLibraryItem) => {
+    const n = toNum(drafts[m.id]?.receiveText ?? "")
+    if (n <= 0) return
+    const perPurchase = m.purchaseUnitQty && m.purchaseUnitQty > 0 ? m.purchaseUnitQty : 1
+    const added = n * perPurchase
+    void save(m, { stockQty: Math.max(0, (m.stockQty ?? 0) + added) }).then(() =>
+      toast.success(`${m.name} ${formatMaterialQty(added)}${m.unit ?? ""} 입고했어요.`)
+    )
+  }
+
+  const addMaterial = async () => {
+    const name = newName.trim()
+    if (!name) return
+    try {
+      await upsertMyMaterialLibraryItem({ name, unitPrice: Math.max(0, toNum(newPrice)) })
+      setNewName("")
+      setNewPrice("")
+      await a.refresh()
+    } catch (e) {
+      console.error(e)
+      toast.error(`재료 추가 실패: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  if (a.errorMsg) return <ErrorState message={a.errorMsg} onRetry={a.refresh} />
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="재료 재고"
+        description="원부자재 보유량과 구매 단위를 관리합니다. 필요량은 재고 › 제작 리스트에서 재료 구성 기준으로 계산돼요."
+      />
+
+      <AppCard density="compact" contentClassName="space-y-3">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <AppInput
+            className="h-10 w-full sm:w-[240px]"
+            placeholder="재료 검색"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <div className="flex flex-1 flex-wrap items-center gap-2 sm:justify-end">
+            <AppInput
+              className="h-10 w-[160px]"
+              placeholder="새 재료 이름"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <AppInput
+              className="h-10 w-[110px] text-right"
+              inputMode="numeric"
+              placeholder="단가"
+              value={newPrice}
+              onChange={(e) => setNewPrice(e.target.value)}
+            />
+            <AppButton onClick={() => void addMaterial()} disabled={!newName.trim()}>
+              재료 추가
+            </AppButton>
+            <AppButton asChild variant="outline">
+              <Link to="/inventory?tab=make">재료 소요량 보기</Link>
+            </AppButton>
+          </div>
+        </div>
+
+        {a.loading && data.materials.length === 0 ? (
+          <Skeleton className="h-40 w-full" />
+        ) : rows.length === 0 ? (
+          <EmptyState
+            title="재료가 없습니다."
+            description="재료를 추가하거나 마진 계산기의 원부자재 라이브러리에 저장해 주세요."
+          />
+        ) : (
+          <div className="overflow-x-auto rounded-lg border">
+            <Table className="w-full text-sm">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>재료</TableHead>
+                  <TableHead className="w-[90px] text-right">단가</TableHead>
+                  <TableHead className="w-[80px]">단위</TableHead>
+                  <TableHead className="w-[110px] text-right">보유량</TableHead>
+                  <TableHead className="w-[190px]">구매 단위</TableHead>
+                  <TableHead className="w-[170px]">입고</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((m) => {
+                  const d = drafts[m.id] ?? toDraft(m)
+                  const busy = savingId === m.id
+                  return (
+                    <TableRow key={m.id}>
+                      <TableCell>
+                        <div className="font-medium">{m.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {usedByCount.get(m.id) ? `제품 ${usedByCount.get(m.id)}개에 사용` : "사용 제품 없음"}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{m.unitPrice.toLocaleString("ko-KR")}</TableCell>
+                      <TableCell>
+                        <AppInput
+                          value={d.unit}
+                          placeholder="개"
+                          disabled={busy}
+                          onChange={(e) => patchDraft(m.id, { unit: e.target.value })}
+                          onBlur={() => commitRow(m)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <AppInput
+                          inputMode="decimal"
+                          className="text-right"
+                          value={d.stockText}
+                          disabled={busy}
+                          onChange={(e) => patchDraft(m.id, { stockText: e.target.value })}
+                          onBlur={() => commitRow(m)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <AppInput
+                            className="w-[72px]"
+                            value={d.purchaseUnit}
+                            placeholder="롤"
+                            disabled={busy}
+                            onChange={(e) => patchDraft(m.id, { purchaseUnit: e.target.value })}
+                            onBlur={() => commitRow(m)}
+                          />
+                          <span className="text-xs text-muted-foreground">=</span>
+                          <AppInput
+                            inputMode="decimal"
+                            className="w-[72px] text-right"
+                            value={d.purchaseQtyText}
+                            placeholder="50"
+                            disabled={busy}
+                            onChange={(e) => patchDraft(m.id, { purchaseQtyText: e.target.value })}
+                            onBlur={() => commitRow(m)}
+                          />
+                          <span className="text-xs text-muted-foreground">{m.unit ?? ""}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <AppInput
+                            inputMode="decimal"
+                            className="w-[72px] text-right"
+                            value={d.receiveText}
+                            placeholder={m.purchaseUnit && m.purchaseUnitQty ? m.purchaseUnit : m.unit || "수량"}
+                            disabled={busy}
+                            onChange={(e) => patchDraft(m.id, { receiveText: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") receive(m)
+                            }}
+                          />
+                          <AppButton
+                            variant="secondary"
+                            size="sm"
+                            disabled={busy || toNum(d.receiveText) <= 0}
+                            onClick={() => receive(m)}
+                          >
+                            입고
+                          </AppButton>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </AppCard>
+    </div>
+  )
+}
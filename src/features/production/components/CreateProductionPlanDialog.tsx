@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useState } from "react"
+
+import type { Warehouse } from "@/data/models"
+import { createProductionPlanDB } from "@/data/store.supabase"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppInput } from "@/components/app/AppInput"
+import { AppSelect } from "@/components/app/AppSelect"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+import { toast } from "@/lib/toast"
+
+type DraftItem = { productId: string; productName: string; qtyText: string }
+
+/**
+ * 제작 리스트에서 고른 제품 → 제작 지시 생성
+ * - 수량은 제작 필요 수량으로 채워두고, 여기서 조정 가능
+ */
+export function CreateProductionPlanDialog(props: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  items: Array<{ productId: string; productName: string; makeQty: number }>
+  storeId: string | null
+  warehouses: Warehouse[]
+  defaultWarehouseId: string
+  onCreated?: (planId: string) => void | Promise<void>
+}) {
+  const { open, items } = props
+
+  const [rows, setRows] = useState<DraftItem[]>([])
+  const [warehouseId, setWarehouseId] = useState("")
+  const [dueDate, setDueDate] = useState("")
+  const [memo, setMemo] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setRows(items.map((it) => ({ productId: it.productId, productName: it.productName, qtyText: String(it.makeQty) })))
+    setWarehouseId(props.defaultWarehouseId)
+    setDueDate("")
+    setMemo("")
+  }, [open, items, props.defaultWarehouseId])
+
+  const warehouseOptions = useMemo(
+    () => props.warehouses.map((w) => ({ value: w.id, label: w.name })),
+    [props.warehouses]
+  )
+
+  const totalQty = rows.reduce((acc, r) => acc + Math.max(0, Math.trunc(Number(r.qtyText) || 0)), 0)
+
+  const create = async () => {
+    if (!warehouseId) {
+      toast.error("완료 시 입고할 보관 장소를 선택해 주세요.")
+      return
+    }
+
+    try {
+      setSaving(true)
+      const planId = await createProductionPlanDB({
+        storeId: props.storeId,
+        warehouseId,
+        dueDate: dueDate || null,
+        memo,
+        items: rows.map((r) => ({ productId: r.productId, makeQty: Number(r.qtyText) || 0 })),
+      })
+      toast.success("제작 지시를 만들었어요.")
+      props.onOpenChange(false)
+      await props.onCreated?.(planId)
+    } catch (e) {
+      console.error(e)
+      toast.error(`제작 지시 생성 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-[640px] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>제작 지시 만들기</DialogTitle>
+          <DialogDescription>완료 처리하면 지시 수량만큼 선택한 보관 장소 재고로 입고돼요.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-2 sm:grid-cols-3">
+            <AppSelect
+              value={warehouseId}
+              onValueChange={setWarehouseId}
+              options={warehouseOptions}
+              placeholder="(입고 장소)"
+            />
+            <AppInput type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} title="납기일" />
+            <AppInput placeholder="메모 (선택)" value={memo} onChange={(e) => setMemo(e.target.value)} />
+          </div>
+
+          <div className="overflow-hidden rounded-lg border">
+            <Table className="w-full text-sm">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>제품</TableHead>
+                  <TableHead className="w-[120px] text-right">지시 수량</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((r) => (
+                  <TableRow key={r.productId}>
+                    <TableCell className="font-medium">{r.productName}</TableCell>
+                    <TableCell>
+                      <AppInput
+                        type="number"
+                        inputMode="numeric"
+                        className="text-right"
+                        value={r.qtyText}
+                        onChange={(e) =>
+                          setRows((prev) =>
+                            prev.map((x) => (x.productId === r.productId ? { ...x, qtyText: e.target.value } : x))
+                          )
+                        }
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">
+              {rows.length}개 제품 · 총 <span className="font-semibold tabular-nums">{totalQty}</span>개
+            </span>
+            <div className="flex gap-2">
+              <AppButton type="button" variant="outline" onClick={() => props.onOpenChange(false)} disabled={saving}>
+                취소
+              </AppButton>
+              <AppButton type="button" onClick={create} disabled={saving || totalQty <= 0}>
+                {saving ? "저장 중…" : "지시 만들기"}
+              </AppButton>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
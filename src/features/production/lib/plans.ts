@@ -0,0 +1,35 @@
+// src/features/production/lib/plans.ts
+import type { Plan, PlanStatus } from "@/data/models"
+
+export const PLAN_STATUS_LABEL: Record<PlanStatus, string> = {
+  planned: "지시",
+  in_progress: "제작 중",
+  done: "완료",
+  cancelled: "취소",
+}
+
+export function isOpenPlan(p: Pick<Plan, "status">) {
+  return p.status === "planned" || p.status === "in_progress"
+}
+
+/**
+ * 진행 중인 지시(지시/제작 중)의 제품별 수량 합계
+ * - 제작 리스트에서 "이미 지시한 수량" 표시용
+ */
+export function openPlanQtyByProduct(plans: Plan[]) {
+  const m = new Map<string, number>()
+  for (const p of plans) {
+    if (!isOpenPlan(p)) continue
+    for (const it of p.items) m.set(it.productId, (m.get(it.productId) ?? 0) + it.makeQty)
+  }
+  return m
+}
+
+export function planTotalQty(p: Pick<Plan, "items">) {
+  return p.items.reduce((acc, it) => acc + it.makeQty, 0)
+}
+
+// 납기일이 오늘보다 이전인데 아직 완료되지 않은 지시
+export function isOverdue(p: Pick<Plan, "status" | "dueDate">, today = new Date().toISOString().slice(0, 10)) {
+  return isOpenPlan(p) && !!p.dueDate && p.dueDate < today
+}
@@ -0,0 +1,304 @@
+import { useEffect, useMemo, useState } from "react"
+import { Link } from "react-router-dom"
+
+import PageHeader from "@/app/layout/PageHeader"
+import type { Plan, PlanStatus } from "@/data/models"
+import {
+  completeProductionPlanDB,
+  updateProductionPlanDB,
+  updateProductionPlanItemDB,
+} from "@/data/store.supabase"
+import { useAppData } from "@/features/core/useAppData"
+import { PLAN_STATUS_LABEL, isOpenPlan, isOverdue, planTotalQty } from "@/features/production/lib/plans"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppCard } from "@/components/app/AppCard"
+import { AppInput } from "@/components/app/AppInput"
+import { AppBadge } from "@/components/app/AppBadge"
+
+import { ConfirmDialog } from "@/components/shared/ConfirmDialog"
+import { EmptyState } from "@/components/shared/EmptyState"
+import { ErrorState } from "@/components/shared/ErrorState"
+import { Skeleton } from "@/components/shared/Skeleton"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/lib/toast"
+
+type StatusFilter = "open" | PlanStatus | "all"
+
+const FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: "open", label: "진행 중" },
+  { value: "done", label: "완료" },
+  { value: "cancelled", label: "취소" },
+  { value: "all", label: "전체" },
+]
+
+function statusBadgeVariant(status: PlanStatus) {
+  if (status === "in_progress") return "default" as const
+  if (status === "planned") return "secondary" as const
+  return "muted" as const
+}
+
+export default function ProductionPage() {
+  const a = useAppData()
+  const data = a.data
+
+  const [filter, setFilter] = useState<StatusFilter>("open")
+  const [openId, setOpenId] = useState("")
+  const [busyId, setBusyId] = useState("")
+  const [qtyEdit, setQtyEdit] = useState<Record<string, string>>({})
+  const [completeTarget, setCompleteTarget] = useState<Plan | null>(null)
+  const [cancelTarget, setCancelTarget] = useState<Plan | null>(null)
+
+  const productNameById = useMemo(() => new Map(data.products.map((p) => [p.id, p.name])), [data.products])
+  const storeNameById = useMemo(() => new Map(data.stores.map((s) => [s.id, s.name])), [data.stores])
+  const warehouseNameById = useMemo(() => new Map(data.warehouses.map((w) => [w.id, w.name])), [data.warehouses])
+
+  const plans = useMemo(() => {
+    const list = data.plans.filter((p) => {
+      if (filter === "all") return true
+      if (filter === "open") return isOpenPlan(p)
+      return p.status === filter
+    })
+    // 진행 중: 납기 빠른 순(납기 없음은 뒤로), 나머지: 최신순
+    return [...list].sort((x, y) => {
+      if (filter === "open") {
+        const dx = x.dueDate ?? "9999-12-31"
+        const dy = y.dueDate ?? "9999-12-31"
+        if (dx !== dy) return dx.localeCompare(dy)
+      }
+      return y.createdAt - x.createdAt
+    })
+  }, [data.plans, filter])
+
+  const openCount = useMemo(() => data.plans.filter(isOpenPlan).length, [data.plans])
+
+  // 서버 값 기준으로 수량 입력칸 초기화
+  useEffect(() => {
+    const next: Record<string, string> = {}
+    for (const p of data.plans) for (const it of p.items) next[`${p.id}:${it.productId}`] = String(it.makeQty)
+    setQtyEdit(next)
+  }, [data.plans])
+
+  const run = async (planId: string, fn: () => Promise<void>) => {
+    try {
+      setBusyId(planId)
+      await fn()
+      await a.refresh()
+    } catch (e) {
+      console.error(e)
+      toast.error(`처리 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setBusyId("")
+    }
+  }
+
+  const commitQty = (p: Plan, productId: string, current: number) => {
+    const raw = qtyEdit[`${p.id}:${productId}`] ?? String(current)
+    const qty = Math.max(0, Math.trunc(Number(raw) || 0))
+    if (qty === current) return
+    void run(p.id, () => updateProductionPlanItemDB({ planId: p.id, productId, makeQty: qty }))
+  }
+
+  if (a.errorMsg) return <ErrorState message={a.errorMsg} onRetry={a.refresh} />
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="제작 지시"
+        description="재고 › 제작 리스트에서 만든 지시를 관리합니다. 완료하면 지시 수량만큼 작업실/창고 재고로 입고돼요."
+      />
+
+      <AppCard density="compact" contentClassName="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {FILTERS.map((f) => (
+            <AppButton
+              key={f.value}
+              size="sm"
+              variant={filter === f.value ? "default" : "outline"}
+              onClick={() => setFilter(f.value)}
+            >
+              {f.label}
+              {f.value === "open" && openCount > 0 ? ` ${openCount}` : ""}
+            </AppButton>
+          ))}
+          <div className="flex-1" />
+          <AppButton asChild size="sm" variant="secondary">
+            <Link to="/inventory?tab=make">제작 리스트에서 만들기</Link>
+          </AppButton>
+        </div>
+
+        {a.loading && data.plans.length === 0 ? (
+          <Skeleton className="h-32 w-full" />
+        ) : plans.length === 0 ? (
+          <EmptyState
+            title="제작 지시가 없습니다."
+            description="재고 › 제작 리스트에서 제품을 고르고 '제작 지시'를 눌러주세요."
+          />
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {plans.map((p) => {
+              const opened = openId === p.id
+              const busy = busyId === p.id
+              const editable = isOpenPlan(p)
+
+              return (
+                <div key={p.id}>
+                  <button
+                    type="button"
+                    className={`flex w-full flex-wrap items-center gap-2 p-3 text-left text-sm ${opened ? "bg-muted" : ""}`}
+                    onClick={() => setOpenId(opened ? "" : p.id)}
+                  >
+                    <AppBadge variant={statusBadgeVariant(p.status)}>{PLAN_STATUS_LABEL[p.status]}</AppBadge>
+                    {isOverdue(p) && <AppBadge variant="destructive">납기 지남</AppBadge>}
+                    <span className="tabular-nums">{p.dueDate ? `납기 ${p.dueDate}` : "납기 미정"}</span>
+                    <span className="text-muted-foreground">
+                      {p.items.length}개 제품 · {planTotalQty(p)}개 → {warehouseNameById.get(p.warehouseId) ?? "보관 장소"}
+                    </span>
+                    {p.storeId && (
+                      <span className="text-muted-foreground">· {storeNameById.get(p.storeId) ?? "입점처"}</span>
+                    )}
+                    {p.memo && <span className="truncate text-muted-foreground">· {p.memo}</span>}
+                    <span className="ml-auto text-xs text-muted-foreground tabular-nums">
+                      {new Date(p.createdAt).toLocaleDateString("ko-KR")}
+                    </span>
+                  </button>
+
+                  {opened && (
+                    <div className="space-y-3 p-3 pt-0">
+                      {editable && (
+                        <div className="flex flex-wrap items-center gap-2 pt-3">
+                          <AppInput
+                            type="date"
+                            className="h-9 w-[160px]"
+                            value={p.dueDate ?? ""}
+                            disabled={busy}
+                            onChange={(e) =>
+                              void run(p.id, () =>
+                                updateProductionPlanDB({ planId: p.id, patch: { dueDate: e.target.value || null } })
+                              )
+                            }
+                          />
+                          <div className="flex-1" />
+                          {p.status === "planned" && (
+                            <AppButton
+                              size="sm"
+                              variant="secondary"
+                              disabled={busy}
+                              onClick={() =>
+                                void run(p.id, () =>
+                                  updateProductionPlanDB({ planId: p.id, patch: { status: "in_progress" } })
+                                )
+                              }
+                            >
+                              제작 시작
+                            </AppButton>
+                          )}
+                          <AppButton size="sm" disabled={busy} onClick={() => setCompleteTarget(p)}>
+                            완료 · 입고
+                          </AppButton>
+                          <AppButton size="sm" variant="ghost" disabled={busy} onClick={() => setCancelTarget(p)}>
+                            지시 취소
+                          </AppButton>
+                        </div>
+                      )}
+
+                      <div className="overflow-hidden rounded-lg border">
+                        <Table className="w-full text-sm">
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>제품</TableHead>
+                              <TableHead className="w-[120px] text-right">지시 수량</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {p.items.map((it) => {
+                              const key = `${p.id}:${it.productId}`
+                              return (
+                                <TableRow key={key}>
+                                  <TableCell className="font-medium">
+                                    {productNameById.get(it.productId) ?? "(삭제된 제품)"}
+                                  </TableCell>
+                                  <TableCell className="text-right tabular-nums">
+                                    {editable ? (
+                                      <AppInput
+                                        type="number"
+                                        inputMode="numeric"
+                                        className="text-right"
+                                        value={qtyEdit[key] ?? String(it.makeQty)}
+                                        disabled={busy}
+                                        onChange={(e) => setQtyEdit((prev) => ({ ...prev, [key]: e.target.value }))}
+                                        onBlur={() => commitQty(p, it.productId, it.makeQty)}
+                                      />
+                                    ) : (
+                                      it.makeQty
+                                    )}
+                                  </TableCell>
+                                </TableRow>
+                              )
+                            })}
+                          </TableBody>
+                        </Table>
+                      </div>
+                      {editable && (
+                        <div className="text-xs text-muted-foreground">수량을 0으로 바꾸면 지시에서 빠져요.</div>
+                      )}
+                      {p.completedAt && (
+                        <div className="text-xs text-muted-foreground">
+                          완료: {new Date(p.completedAt).toLocaleString("ko-KR")}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </AppCard>
+
+      <ConfirmDialog
+        open={Boolean(completeTarget)}
+        onOpenChange={(open) => {
+          if (!open) setCompleteTarget(null)
+        }}
+        title="제작 완료 처리할까요?"
+        description={
+          completeTarget
+            ? `${planTotalQty(completeTarget)}개가 “${
+                warehouseNameById.get(completeTarget.warehouseId) ?? "보관 장소"
+              }” 재고로 입고됩니다. 완료 후에는 수정할 수 없어요.`
+            : ""
+        }
+        confirmText="완료"
+        busy={Boolean(busyId)}
+        onConfirm={async () => {
+          const target = completeTarget
+          if (!target) return
+          await run(target.id, async () => {
+            const n = await completeProductionPlanDB(target.id)
+            toast.success(`제작 완료: ${n}개 제품을 입고했어요.`)
+          })
+          setCompleteTarget(null)
+        }}
+      />
+
+      <ConfirmDialog
+        open={Boolean(cancelTarget)}
+        onOpenChange={(open) => {
+          if (!open) setCancelTarget(null)
+        }}
+        title="제작 지시를 취소할까요?"
+        description="재고에는 영향이 없어요."
+        confirmText="지시 취소"
+        destructive
+        busy={Boolean(busyId)}
+        onConfirm={async () => {
+          const target = cancelTarget
+          if (!target) return
+          await run(target.id, () => updateProductionPlanDB({ planId: target.id, patch: { status: "cancelled" } }))
+          setCancelTarget(null)
+        }}
+      />
+    </div>
+  )
+}
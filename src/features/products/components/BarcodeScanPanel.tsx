@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { ScanBarcode, X } from "lucide-react"
+
+import type { Product } from "@/data/models"
+import { useBarcodeScanner } from "@/features/core/useBarcodeScanner"
+import { buildProductCodeIndex, normalizeCode, playScanBeep } from "@/features/products/lib/barcode"
+import { stockProducts } from "@/features/products/lib/variants"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppBadge } from "@/components/app/AppBadge"
+import { cn } from "@/lib/utils"
+
+export type ScanResult = { ok: true; message?: string } | { ok: false; message: string }
+
+type UnknownCode = { code: string; count: number; reason: string }
+
+/**
+ * 스캔 모드 패널 (재고 / 실사 / 납품 공용)
+ * - 켜면 스캔 입력칸에 포커스 → 스캐너가 입력 후 Enter
+ * - 입력칸 밖에서도 빠른 연속 입력 + Enter는 스캔으로 인식 (useBarcodeScanner)
+ * - 바코드 → SKU 순으로 제품을 찾고, 실제 반영(+1)은 화면별 onProduct가 담당
+ * - 못 찾은 코드 / 반영할 수 없는 제품은 별도 목록에 모아둠
+ */
+export function BarcodeScanPanel(props: {
+  products: Product[]
+  onProduct: (p: Product) => ScanResult
+  disabled?: boolean
+  disabledReason?: string
+  hint?: string
+}) {
+  const { products, onProduct } = props
+
+  const [enabled, setEnabled] = useState(false)
+  const [value, setValue] = useState("")
+  const [flash, setFlash] = useState<"ok" | "error" | null>(null)
+  const [last, setLast] = useState<{ ok: boolean; text: string } | null>(null)
+  const [unknown, setUnknown] = useState<UnknownCode[]>([])
+  const [scanCount, setScanCount] = useState(0)
+
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  const flashTimerRef = useRef<number | null>(null)
+
+  const lookup = useMemo(() => buildProductCodeIndex(stockProducts(products)), [products])
+
+  useEffect(() => {
+    return () => {
+      if (flashTimerRef.current) window.clearTimeout(flashTimerRef.current)
+    }
+  }, [])
+
+  const feedback = useCallback((ok: boolean, text: string) => {
+    playScanBeep(ok)
+    setLast({ ok, text })
+    setFlash(ok ? "ok" : "error")
+    if (flashTimerRef.current) window.clearTimeout(flashTimerRef.current)
+    flashTimerRef.current = window.setTimeout(() => setFlash(null), 600)
+  }, [])
+
+  const pushUnknown = useCallback((code: string, reason: string) => {
+    setUnknown((prev) => {
+      const idx = prev.findIndex((u) => u.code === code)
+      if (idx < 0) return [{ code, count: 1, reason }, ...prev]
+      return prev.map((u, i) => (i === idx ? { ...u, count: u.count + 1, reason } : u))
+    })
+  }, [])
+
+  const handleCode = useCallback(
+    (raw: string) => {
+      const code = normalizeCode(raw)
+      if (!code) return
+
+      const p = lookup(code)
+      if (!p) {
+        pushUnknown(code, "등록되지 않은 코드")
+        feedback(false, `${code}: 등록되지 않은 코드`)
+        return
+      }
+
+      const r = onProduct(p)
+      if (!r.ok) {
+        pushUnknown(code, `${p.name} · ${r.message}`)
+        feedback(false, `${p.name}: ${r.message}`)
+        return
+      }
+
+      setScanCount((n) => n + 1)
+      feedback(true, r.message ? `${p.name} · ${r.message}` : p.name)
+    },
+    [lookup, onProduct, pushUnknown, feedback]
+  )
+
+  const active = enabled && !props.disabled
+  useBarcodeScanner({ enabled: active, onScan: handleCode })
+
+  useEffect(() => {
+    if (active) inputRef.current?.focus()
+  }, [active])
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border p-3 transition-colors",
+        flash === "ok" && "border-emerald-500 bg-emerald-500/10",
+        flash === "error" && "border-destructive bg-destructive/10"
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <AppButton
+          type="button"
+          variant={enabled ? "default" : "outline"}
+          size="sm"
+          onClick={() => setEnabled((v) => !v)}
+        >
+          <ScanBarcode className="mr-1 h-4 w-4" />
+          {enabled ? "스캔 모드 ON" : "스캔 모드"}
+        </AppButton>
+
+        {enabled && (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleCode(value)
+              setValue("")
+            }}
+          >
+            <input
+              ref={inputRef}
+              className="h-9 w-[220px] rounded-md border bg-background px-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+              placeholder="바코드/SKU 스캔"
+              value={value}
+              disabled={props.disabled}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </form>
+        )}
+
+        {enabled && scanCount > 0 && <AppBadge variant="muted">스캔 {scanCount}회</AppBadge>}
+
+        {enabled && (props.disabled ? props.disabledReason : props.hint) && (
+          <span className="text-xs text-muted-foreground">{props.disabled ? props.disabledReason : props.hint}</span>
+        )}
+      </div>
+
+      {enabled && last && (
+        <div className={cn("mt-2 text-sm", last.ok ? "text-emerald-700 dark:text-emerald-400" : "text-destructive")}>
+          {last.ok ? "✓" : "✕"} {last.text}
+        </div>
+      )}
+
+      {enabled && unknown.length > 0 && (
+        <div className="mt-3 space-y-1">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>처리하지 못한 코드 {unknown.length}건</span>
+            <AppButton type="button" variant="ghost" size="sm" onClick={() => setUnknown([])}>
+              비우기
+            </AppButton>
+          </div>
+          <div className="divide-y rounded-md border text-sm">
+            {unknown.map((u) => (
+              <div key={u.code} className="flex items-center justify-between gap-2 px-2 py-1">
+                <span className="font-mono">{u.code}</span>
+                <span className="min-w-0 flex-1 truncate text-xs text-muted-foreground">{u.reason}</span>
+                <span className="tabular-nums text-muted-foreground">× {u.count}</span>
+                <AppButton
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  title="목록에서 제거"
+                  onClick={() => setUnknown((prev) => prev.filter((x) => x.code !== u.code))}
+                >
+                  <X className="h-4 w-4" />
+                </AppButton>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
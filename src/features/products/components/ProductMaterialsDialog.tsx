@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useState } from "react"
+import { Plus, Trash2 } from "lucide-react"
+
+import type { MaterialLibraryItem, Product, ProductMaterial } from "@/data/models"
+import { setProductMaterialsDB } from "@/data/store.supabase"
+import { upsertMyMaterialLibraryItem } from "@/lib/supabaseClient"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppInput } from "@/components/app/AppInput"
+import { AppSelect } from "@/components/app/AppSelect"
+import { EmptyState } from "@/components/shared/EmptyState"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+import { toast } from "@/lib/toast"
+
+type LineDraft = { materialId: string; qtyText: string }
+
+function toQty(v: string) {
+  const n = Number(String(v).replace(/,/g, "").trim())
+  return Number.isFinite(n) ? n : 0
+}
+
+/**
+ * 제품 재료 구성(BOM) 편집
+ * - 재료는 원부자재 라이브러리에서 고르고, 여기서는 수량만 저장
+ * - 단가는 라이브러리 값을 그대로 사용 → 라이브러리 단가를 고치면 원가가 같이 바뀜
+ */
+export function ProductMaterialsDialog(props: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  product: Product | null
+  materials: MaterialLibraryItem[]
+  lines: ProductMaterial[]
+  onSaved?: () => void | Promise<void>
+}) {
+  const { open, product, lines } = props
+
+  const [rows, setRows] = useState<LineDraft[]>([])
+  const [newName, setNewName] = useState("")
+  const [newPrice, setNewPrice] = useState("")
+  const [extraMaterials, setExtraMaterials] = useState<MaterialLibraryItem[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setRows(lines.map((l) => ({ materialId: l.materialId, qtyText: String(l.quantity) })))
+    setNewName("")
+    setNewPrice("")
+    setExtraMaterials([])
+  }, [open, lines])
+
+  // 이 화면에서 새로 만든 라이브러리 재료도 바로 고를 수 있게
+  const materialById = useMemo(() => {
+    const m = new Map<string, MaterialLibraryItem>()
+    for (const it of [...props.materials, ...extraMaterials]) m.set(it.id, it)
+    return m
+  }, [props.materials, extraMaterials])
+
+  const pickOptions = useMemo(() => {
+    const used = new Set(rows.map((r) => r.materialId))
+    return [...materialById.values()]
+      .filter((m) => !used.has(m.id))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((m) => ({ value: m.id, label: `${m.name} · ${m.unitPrice.toLocaleString("ko-KR")}원` }))
+  }, [materialById, rows])
+
+  const total = useMemo(
+    () => rows.reduce((acc, r) => acc + (materialById.get(r.materialId)?.unitPrice ?? 0) * toQty(r.qtyText), 0),
+    [rows, materialById]
+  )
+
+  const addRow = (materialId: string) => {
+    if (!materialId || rows.some((r) => r.materialId === materialId)) return
+    setRows((prev) => [...prev, { materialId, qtyText: "1" }])
+  }
+
+  const createMaterial = async () => {
+    const name = newName.trim()
+    if (!name) return
+    try {
+      const row = await upsertMyMaterialLibraryItem({ name, unitPrice: toQty(newPrice) })
+      const item: MaterialLibraryItem = {
+        id: row.id,
+        name: row.name,
+        unitPrice: Math.max(0, Number(row.unit_price ?? 0)),
+        updatedAt: Date.now(),
+      }
+      setExtraMaterials((prev) => [...prev.filter((x) => x.id !== item.id), item])
+      addRow(item.id)
+      setNewName("")
+      setNewPrice("")
+    } catch (e) {
+      console.error(e)
+      toast.error(`재료 저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  const save = async () => {
+    if (!product) return
+    const bad = rows.find((r) => toQty(r.qtyText) <= 0)
+    if (bad) {
+      toast.error(`${materialById.get(bad.materialId)?.name ?? "재료"}: 수량은 0보다 커야 해요.`)
+      return
+    }
+
+    try {
+      setSaving(true)
+      await setProductMaterialsDB({
+        productId: product.id,
+        lines: rows.map((r) => ({ materialId: r.materialId, quantity: toQty(r.qtyText) })),
+      })
+      toast.success("재료 구성을 저장했어요.")
+      props.onOpenChange(false)
+      await props.onSaved?.()
+    } catch (e) {
+      console.error(e)
+      toast.error(`재료 구성 저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-[720px] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>재료 구성 · {product?.name ?? ""}</DialogTitle>
+          <DialogDescription>
+            1개를 만드는 데 드는 재료와 수량이에요. 단가는 원부자재 라이브러리 값을 따르고, 옵션 상품은 이 구성을
+            그대로 사용합니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <AppSelect
+              className="min-w-[240px] flex-1"
+              value=""
+              onValueChange={addRow}
+              options={pickOptions}
+              placeholder={pickOptions.length ? "라이브러리에서 재료 추가" : "추가할 재료가 없어요"}
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <AppInput
+              className="w-[180px]"
+              value={newName}
+              placeholder="새 재료 이름"
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <AppInput
+              className="w-[120px] text-right"
+              inputMode="numeric"
+              value={newPrice}
+              placeholder="단가"
+              onChange={(e) => setNewPrice(e.target.value)}
+            />
+            <AppButton type="button" variant="outline" size="sm" onClick={() => void createMaterial()} disabled={!newName.trim()}>
+              <Plus className="mr-1 h-4 w-4" />
+              라이브러리에 만들고 추가
+            </AppButton>
+          </div>
+
+          <div className="overflow-hidden rounded-lg border">
+            <Table className="w-full text-sm">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>재료</TableHead>
+                  <TableHead className="w-[110px] text-right">단가</TableHead>
+                  <TableHead className="w-[100px] text-right">수량</TableHead>
+                  <TableHead className="w-[110px] text-right">금액</TableHead>
+                  <TableHead className="w-[48px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="py-8">
+                      <EmptyState title="재료가 없습니다." description="라이브러리에서 재료를 추가해 주세요." />
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((r) => {
+                    const m = materialById.get(r.materialId)
+                    const unitPrice = m?.unitPrice ?? 0
+                    return (
+                      <TableRow key={r.materialId}>
+                        <TableCell className="font-medium">{m?.name ?? "(삭제된 재료)"}</TableCell>
+                        <TableCell className="text-right tabular-nums">{unitPrice.toLocaleString("ko-KR")}</TableCell>
+                        <TableCell>
+                          <AppInput
+                            inputMode="decimal"
+                            className="text-right"
+                            value={r.qtyText}
+                            onChange={(e) =>
+                              setRows((prev) =>
+                                prev.map((x) => (x.materialId === r.materialId ? { ...x, qtyText: e.target.value } : x))
+                              )
+                            }
+                          />
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {Math.round(unitPrice * toQty(r.qtyText)).toLocaleString("ko-KR")}
+                        </TableCell>
+                        <TableCell>
+                          <AppButton
+                            type="button"
+                            variant="ghost"
+                            size="icon-sm"
+                            title="재료 삭제"
+                            onClick={() => setRows((prev) => prev.filter((x) => x.materialId !== r.materialId))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </AppButton>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">개당 재료비</span>
+            <span className="font-semibold tabular-nums">{Math.round(total).toLocaleString("ko-KR")}원</span>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <AppButton type="button" variant="outline" onClick={() => props.onOpenChange(false)} disabled={saving}>
+              취소
+            </AppButton>
+            <AppButton type="button" onClick={save} disabled={saving}>
+              {saving ? "저장 중…" : "저장"}
+            </AppButton>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
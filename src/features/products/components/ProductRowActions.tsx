@@ -1,5 +1,5 @@
 import { useState } from "react"
-import { MoreHorizontal, Pencil, Trash2 } from "lucide-react"
+import { Layers, MoreHorizontal, Package, Pencil, Trash2 } from "lucide-react"
 
 import { AppButton } from "@/components/app/AppButton"
 import {
@@ -12,11 +12,13 @@ import {
 type Props = {
   onEdit: () => void
   onDeleteRequest: () => void
+  onManageVariants?: () => void
+  onManageMaterials?: () => void
   disabled?: boolean
 }
 
 export default function ProductRowActions(props: Props) {
-  const { onEdit, onDeleteRequest, disabled } = props
+  const { onEdit, onDeleteRequest, onManageVariants, onManageMaterials, disabled } = props
   const [open, setOpen] = useState(false)
 
   return (
@@ -38,6 +40,30 @@ export default function ProductRowActions(props: Props) {
           수정
         </DropdownMenuItem>
 
+        {onManageVariants ? (
+          <DropdownMenuItem
+            onClick={() => {
+              setOpen(false)
+              onManageVariants()
+            }}
+          >
+            <Layers className="mr-2 h-4 w-4" />
+            옵션 관리
+          </DropdownMenuItem>
+        ) : null}
+
+        {onManageMaterials ? (
+          <DropdownMenuItem
+            onClick={() => {
+              setOpen(false)
+              onManageMaterials()
+            }}
+          >
+            <Package className="mr-2 h-4 w-4" />
+            재료 구성
+          </DropdownMenuItem>
+        ) : null}
+
         <DropdownMenuItem
           className="text-destructive focus:text-destructive"
           onClick={() => {
@@ -0,0 +1,335 @@
+import { useEffect, useMemo, useState } from "react"
+import { Plus, Trash2 } from "lucide-react"
+
+import type { Product, ProductOptionAxis } from "@/data/models"
+import { generateId } from "@/data/store"
+import { deleteProductsBulkDB, updateProductOptionAxesDB, upsertProductVariantsDB } from "@/data/store.supabase"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppInput } from "@/components/app/AppInput"
+import { AppSwitch } from "@/components/app/AppSwitch"
+import { EmptyState } from "@/components/shared/EmptyState"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+import { toast } from "@/lib/toast"
+import {
+  expandOptionCombos,
+  optionKey,
+  optionLabel,
+  parseOptionValues,
+  variantName,
+} from "@/features/products/lib/variants"
+
+const MAX_AXES = 3
+
+type AxisDraft = { name: string; valuesText: string }
+
+type VariantDraft = {
+  id: string
+  optionValues: Record<string, string>
+  sku: string
+  barcode: string
+  priceText: string // "" = 대표 가격
+  active: boolean
+  isNew: boolean
+}
+
+function toAxes(drafts: AxisDraft[]): ProductOptionAxis[] {
+  return drafts
+    .map((d) => ({ name: d.name.trim(), values: parseOptionValues(d.valuesText) }))
+    .filter((a) => a.name && a.values.length > 0)
+}
+
+/**
+ * 옵션 상품 관리 (대표 제품 1개 기준)
+ * - 옵션 축(색상/사이즈 …)과 값을 정하면 조합별 옵션 상품을 만든다
+ * - 옵션 상품마다 SKU/바코드/가격을 따로 둘 수 있음 (가격 비우면 대표 가격)
+ */
+export function ProductVariantsDialog(props: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  product: Product | null
+  variants: Product[]
+  allProducts: Product[]
+  parentHasStock?: boolean
+  onSaved?: () => void | Promise<void>
+}) {
+  const { open, product, variants } = props
+
+  const [axes, setAxes] = useState<AxisDraft[]>([])
+  const [rows, setRows] = useState<VariantDraft[]>([])
+  const [removedIds, setRemovedIds] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  // 열릴 때마다 현재 값으로 초기화
+  useEffect(() => {
+    if (!open || !product) return
+    const cur = product.optionAxes ?? []
+    setAxes(
+      cur.length
+        ? cur.map((a) => ({ name: a.name, valuesText: a.values.join(", ") }))
+        : [{ name: "색상", valuesText: "" }]
+    )
+    setRows(
+      variants.map((v) => ({
+        id: v.id,
+        optionValues: v.optionValues ?? {},
+        sku: v.sku ?? "",
+        barcode: v.barcode ?? "",
+        priceText: v.priceOverride == null ? "" : String(v.priceOverride),
+        active: v.active,
+        isNew: false,
+      }))
+    )
+    setRemovedIds([])
+  }, [open, product, variants])
+
+  const parsedAxes = useMemo(() => toAxes(axes), [axes])
+
+  const generateCombos = () => {
+    if (parsedAxes.length === 0) {
+      toast.error("옵션 이름과 값을 입력해 주세요.")
+      return
+    }
+    const existing = new Set(rows.map((r) => optionKey(r.optionValues, parsedAxes)))
+    const added: VariantDraft[] = []
+    for (const c of expandOptionCombos(parsedAxes)) {
+      if (existing.has(optionKey(c, parsedAxes))) continue
+      added.push({
+        id: generateId("p"),
+        optionValues: c,
+        sku: "",
+        barcode: "",
+        priceText: "",
+        active: true,
+        isNew: true,
+      })
+    }
+    if (added.length === 0) {
+      toast.message("새로 만들 조합이 없어요.")
+      return
+    }
+    setRows((prev) => [...prev, ...added])
+  }
+
+  const patchRow = (id: string, patch: Partial<VariantDraft>) => {
+    setRows((prev) => prev.map((r) => (r.id === id ? { ...r, ...patch } : r)))
+  }
+
+  const removeRow = (r: VariantDraft) => {
+    setRows((prev) => prev.filter((x) => x.id !== r.id))
+    if (!r.isNew) setRemovedIds((prev) => [...prev, r.id])
+  }
+
+  // SKU/바코드 중복 검사 (다른 제품 + 이 화면 안)
+  const findDuplicate = (): string | null => {
+    const taken = new Map<string, string>()
+    const mine = new Set(rows.map((r) => r.id))
+    for (const p of props.allProducts) {
+      if (mine.has(p.id) || removedIds.includes(p.id)) continue
+      if (p.sku) taken.set(`sku:${p.sku.trim()}`, p.name)
+      if (p.barcode) taken.set(`barcode:${p.barcode.trim()}`, p.name)
+    }
+    for (const r of rows) {
+      const label = optionLabel(r.optionValues, parsedAxes) || "옵션"
+      for (const [kind, v] of [
+        ["sku", r.sku.trim()],
+        ["barcode", r.barcode.trim()],
+      ] as const) {
+        if (!v) continue
+        const key = `${kind}:${v}`
+        const hit = taken.get(key)
+        if (hit) return `${label}: ${kind === "sku" ? "SKU" : "바코드"} ${v}가 "${hit}"와 겹칩니다.`
+        taken.set(key, label)
+      }
+    }
+    return null
+  }
+
+  const save = async () => {
+    if (!product) return
+    const dup = findDuplicate()
+    if (dup) {
+      toast.error(dup)
+      return
+    }
+
+    try {
+      setSaving(true)
+      await updateProductOptionAxesDB({ productId: product.id, axes: parsedAxes })
+      await upsertProductVariantsDB({
+        parent: product,
+        variants: rows.map((r) => {
+          const price = Number.parseInt(r.priceText.trim(), 10)
+          return {
+            id: r.id,
+            name: variantName(product.name, r.optionValues, parsedAxes),
+            optionValues: r.optionValues,
+            sku: r.sku.trim() || null,
+            barcode: r.barcode.trim() || null,
+            priceOverride: Number.isFinite(price) ? Math.max(0, price) : null,
+            active: r.active,
+            isNew: r.isNew,
+          }
+        }),
+      })
+      if (removedIds.length) await deleteProductsBulkDB({ productIds: removedIds })
+
+      toast.success("옵션 상품을 저장했어요.")
+      props.onOpenChange(false)
+      await props.onSaved?.()
+    } catch (e) {
+      console.error(e)
+      toast.error(`옵션 저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-[860px] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>옵션 관리 · {product?.name ?? ""}</DialogTitle>
+          <DialogDescription>
+            재고·납품·정산은 옵션 상품 단위로, 리포트는 대표 제품으로 묶어서 보여줘요.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="text-sm font-medium">옵션 축</div>
+            {axes.map((ax, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <AppInput
+                  className="w-[140px]"
+                  value={ax.name}
+                  placeholder="옵션명 (예: 색상)"
+                  onChange={(e) => setAxes((prev) => prev.map((x, j) => (j === i ? { ...x, name: e.target.value } : x)))}
+                />
+                <AppInput
+                  className="flex-1"
+                  value={ax.valuesText}
+                  placeholder="값을 쉼표로 구분 (예: 네이비, 베이지)"
+                  onChange={(e) =>
+                    setAxes((prev) => prev.map((x, j) => (j === i ? { ...x, valuesText: e.target.value } : x)))
+                  }
+                />
+                <AppButton
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  title="옵션 축 삭제"
+                  onClick={() => setAxes((prev) => prev.filter((_, j) => j !== i))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </AppButton>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap gap-2">
+              <AppButton
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={axes.length >= MAX_AXES}
+                onClick={() => setAxes((prev) => [...prev, { name: "", valuesText: "" }])}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                옵션 축 추가
+              </AppButton>
+              <AppButton type="button" size="sm" onClick={generateCombos}>
+                조합 만들기
+              </AppButton>
+            </div>
+          </div>
+
+          {props.parentHasStock && (
+            <div className="rounded-md border border-amber-500/40 bg-amber-500/10 p-2 text-xs">
+              ⚠️ 대표 제품에 재고가 남아 있어요. 옵션을 만들면 재고 화면에서 대표 제품이 빠지므로, 남은 수량은 옵션
+              상품으로 옮겨 주세요.
+            </div>
+          )}
+
+          <div className="overflow-hidden rounded-lg border">
+            <Table className="w-full text-sm">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>옵션</TableHead>
+                  <TableHead className="w-[150px]">SKU</TableHead>
+                  <TableHead className="w-[160px]">바코드</TableHead>
+                  <TableHead className="w-[120px] text-right">가격</TableHead>
+                  <TableHead className="w-[64px] text-center">판매</TableHead>
+                  <TableHead className="w-[48px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="py-8">
+                      <EmptyState title="옵션 상품이 없습니다." description="옵션 축을 입력하고 '조합 만들기'를 눌러주세요." />
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((r) => (
+                    <TableRow key={r.id}>
+                      <TableCell className="font-medium">
+                        {optionLabel(r.optionValues, parsedAxes) || "-"}
+                        {r.isNew && <span className="ml-1 text-xs text-muted-foreground">(새 옵션)</span>}
+                      </TableCell>
+                      <TableCell>
+                        <AppInput value={r.sku} placeholder="-" onChange={(e) => patchRow(r.id, { sku: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <AppInput
+                          value={r.barcode}
+                          placeholder="-"
+                          onChange={(e) => patchRow(r.id, { barcode: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <AppInput
+                          type="number"
+                          inputMode="numeric"
+                          className="text-right"
+                          value={r.priceText}
+                          placeholder={String(product?.price ?? 0)}
+                          onChange={(e) => patchRow(r.id, { priceText: e.target.value })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <AppSwitch checked={r.active} onCheckedChange={(v) => patchRow(r.id, { active: Boolean(v) })} />
+                      </TableCell>
+                      <TableCell>
+                        <AppButton type="button" variant="ghost" size="icon-sm" title="옵션 삭제" onClick={() => removeRow(r)}>
+                          <Trash2 className="h-4 w-4" />
+                        </AppButton>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {removedIds.length > 0 && (
+            <div className="text-xs text-destructive">
+              저장하면 옵션 {removedIds.length}개가 삭제됩니다. (재고/정산 기록이 있는 옵션은 판매 OFF를 권장해요)
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <AppButton type="button" variant="outline" onClick={() => props.onOpenChange(false)} disabled={saving}>
+              취소
+            </AppButton>
+            <AppButton type="button" onClick={save} disabled={saving}>
+              {saving ? "저장 중…" : "저장"}
+            </AppButton>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,56 @@
+import { AppButton } from "@/components/app/AppButton"
+import { XlsxSheetPicker } from "@/components/shared/XlsxSheetPicker"
+
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+
+import type { ProductXlsxPick } from "@/features/core/useAppData"
+
+/**
+ * 엑셀 제품 업로드 › 시트/헤더 행 선택
+ * - 정산 업로드와 같은 선택 UI (헤더 행 0 = 자동 감지)
+ */
+export function ProductXlsxDialog(props: {
+  pick: ProductXlsxPick | null
+  busy?: boolean
+  onSheetChange: (index: number) => void
+  onHeaderRowChange: (headerRow: number) => void
+  onConfirm: () => void
+  onCancel: () => void
+}) {
+  const { pick } = props
+
+  return (
+    <Dialog open={Boolean(pick)} onOpenChange={(open) => (!open ? props.onCancel() : undefined)}>
+      <DialogContent className="max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>엑셀 시트 선택</DialogTitle>
+          <DialogDescription>
+            {pick?.fileName} · 제품 목록이 있는 시트와 헤더(name, active 등) 행을 고르세요.
+          </DialogDescription>
+        </DialogHeader>
+
+        {pick ? (
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <XlsxSheetPicker
+              book={pick.book}
+              sheetIndex={pick.sheetIndex}
+              onSheetChange={props.onSheetChange}
+              headerRow={pick.headerRow}
+              onHeaderRowChange={props.onHeaderRowChange}
+              disabled={props.busy}
+            />
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <AppButton type="button" variant="outline" onClick={props.onCancel} disabled={props.busy}>
+            취소
+          </AppButton>
+          <AppButton type="button" onClick={props.onConfirm} disabled={props.busy}>
+            가져오기
+          </AppButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
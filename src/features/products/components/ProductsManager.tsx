@@ -3,6 +3,11 @@ import { useEffect, useMemo, useRef, useState, useCallback } from "react"
 import type { ChangeEvent } from "react"
 
 import ProductRowActions from "@/features/products/components/ProductRowActions"
+import { ProductVariantsDialog } from "@/features/products/components/ProductVariantsDialog"
+import { ProductMaterialsDialog } from "@/features/products/components/ProductMaterialsDialog"
+import { ProductXlsxDialog } from "@/features/products/components/ProductXlsxDialog"
+import { variantsByParent } from "@/features/products/lib/variants"
+import { buildBomIndex } from "@/features/products/lib/bom"
 
 import { AppButton } from "@/components/app/AppButton"
 import { AppCard } from "@/components/app/AppCard"
@@ -32,11 +37,13 @@ import {
 import { useAppData } from "@/features/core/useAppData"
 import { ConfirmDialog } from "@/components/shared/ConfirmDialog"
 import { toast } from "@/lib/toast"
+import { CSV_ENCODING_OPTIONS } from "@/lib/csvEncoding"
 import { EmptyState } from "@/components/shared/EmptyState"
 import { Skeleton } from "@/components/shared/Skeleton"
 import { ErrorState } from "@/components/shared/ErrorState"
 
 import { upsertProductsBulkDB, deleteProductsBulkDB } from "@/data/store.supabase"
+import type { Product } from "@/data/models"
 
 const ITEMS_PER_PAGE = 20
 
@@ -148,9 +155,39 @@ export default function ProductsManager() {
     await handler(e)
   }
 
+  // ====== 옵션 상품 ======
+  // 목록에는 대표 제품만, 옵션 상품은 "옵션 관리"에서 편집
+  const variantsByParentId = useMemo(() => variantsByParent(a.data.products), [a.data.products])
+  const [variantsTarget, setVariantsTarget] = useState<Product | null>(null)
+
+  const parentHasStock = useMemo(() => {
+    if (!variantsTarget) return false
+    const pid = variantsTarget.id
+    return (
+      a.data.inventory.some((x) => x.productId === pid && Number(x.onHandQty ?? 0) !== 0) ||
+      a.data.warehouseStock.some((x) => x.productId === pid && Number(x.onHandQty ?? 0) !== 0)
+    )
+  }, [variantsTarget, a.data.inventory, a.data.warehouseStock])
+
+  // ====== 재료 구성(BOM) ======
+  const bom = useMemo(
+    () =>
+      buildBomIndex({
+        products: a.data.products,
+        productMaterials: a.data.productMaterials,
+        materials: a.data.materials,
+      }),
+    [a.data.products, a.data.productMaterials, a.data.materials]
+  )
+  const [materialsTarget, setMaterialsTarget] = useState<Product | null>(null)
+  const materialsTargetLines = useMemo(
+    () => (materialsTarget ? a.data.productMaterials.filter((x) => x.productId === materialsTarget.id) : []),
+    [materialsTarget, a.data.productMaterials]
+  )
+
   // ====== 정렬 ======
   const sortedProducts = useMemo(() => {
-    const arr = [...localProducts]
+    const arr = localProducts.filter((p) => !p.parentId)
     const dir = sort.dir === "asc" ? 1 : -1
 
     arr.sort((x, y) => {
@@ -196,8 +233,13 @@ export default function ProductsManager() {
   const searchedProducts = useMemo(() => {
     const q = query.trim().toLowerCase()
     if (!q) return filteredProducts
-    return filteredProducts.filter((p) => String(p.name ?? "").toLowerCase().includes(q))
-  }, [filteredProducts, query])
+    // 옵션 상품의 이름/SKU/바코드로도 대표 제품을 찾을 수 있게
+    const hit = (p: Product) =>
+      [p.name, p.sku, p.barcode].some((v) => String(v ?? "").toLowerCase().includes(q))
+    return filteredProducts.filter(
+      (p) => hit(p) || (variantsByParentId.get(String(p.id)) ?? []).some(hit)
+    )
+  }, [filteredProducts, query, variantsByParentId])
 
   const totalPages = Math.max(1, Math.ceil(searchedProducts.length / ITEMS_PER_PAGE))
   const safePage = Math.min(productListPage, totalPages)
@@ -358,6 +400,16 @@ export default function ProductsManager() {
         onSecondary={() => (a as any)?.resolveProductCsvConflict?.("safe")}
       />
 
+      {/* 엑셀 업로드: 시트/헤더 행 선택 */}
+      <ProductXlsxDialog
+        pick={a.productXlsx}
+        busy={a.csvBusy}
+        onSheetChange={a.setProductXlsxSheet}
+        onHeaderRowChange={a.setProductXlsxHeaderRow}
+        onConfirm={() => void a.confirmProductXlsx()}
+        onCancel={a.cancelProductXlsx}
+      />
+
       {/* 상단: 저장/선택삭제 */}
       <div className="flex flex-wrap items-center gap-2">
   <div className="text-sm text-muted-foreground">
@@ -400,19 +452,27 @@ export default function ProductsManager() {
               제품 CSV 템플릿 다운로드
             </AppButton>
 
+            <AppSelect
+              className="w-[150px]"
+              value={a.csvEncoding}
+              onValueChange={(v) => a.setCsvEncoding(v === "utf-8" || v === "cp949" ? v : "auto")}
+              options={CSV_ENCODING_OPTIONS}
+              disabled={a.csvBusy}
+            />
+
             <AppButton
               type="button"
               variant="outline"
               onClick={() => csvInputRef.current?.click()}
               disabled={Boolean((a as any)?.csvBusy)}
             >
-              제품 CSV 업로드/업데이트
+              제품 CSV/엑셀 업로드/업데이트
             </AppButton>
 
             <input
               ref={csvInputRef}
               type="file"
-              accept=".csv"
+              accept=".csv,.xlsx"
               className="hidden"
               onChange={onChangeProductCsv}
             />
@@ -677,6 +737,15 @@ export default function ProductsManager() {
                           ) : (
                             <div className="min-w-0 flex items-center gap-2">
                               <div className="truncate text-sm font-medium">{p.name}</div>
+                              {variantsByParentId.has(id) ? (
+                                <AppBadge
+                                  variant="muted"
+                                  className="shrink-0 cursor-pointer"
+                                  onClick={() => setVariantsTarget(p)}
+                                >
+                                  옵션 {variantsByParentId.get(id)?.length}
+                                </AppBadge>
+                              ) : null}
                               {p.makeEnabled === false ? (
                                 <AppBadge variant="secondary" className="shrink-0">
                                   제작중지
@@ -699,7 +768,18 @@ export default function ProductsManager() {
                               placeholder="0"
                             />
                           ) : (
-                            <span className="tabular-nums">{(p.price ?? 0).toLocaleString("ko-KR")}</span>
+                            <>
+                              <span className="tabular-nums">{(p.price ?? 0).toLocaleString("ko-KR")}</span>
+                              {bom.materialCostOf(id) != null ? (
+                                <div
+                                  className="cursor-pointer text-[11px] tabular-nums text-muted-foreground"
+                                  title="개당 재료비"
+                                  onClick={() => setMaterialsTarget(p)}
+                                >
+                                  재료 {Math.round(bom.materialCostOf(id) ?? 0).toLocaleString("ko-KR")}
+                                </div>
+                              ) : null}
+                            </>
                           )}
                         </TableCell>
 
@@ -814,6 +894,8 @@ export default function ProductsManager() {
                                   setDeleteProductId(p.id)
                                   setDeleteProductName(p.name)
                                 }}
+                                onManageVariants={() => setVariantsTarget(p)}
+                                onManageMaterials={() => setMaterialsTarget(p)}
                               />
                             </div>
                           )}
@@ -848,6 +930,31 @@ export default function ProductsManager() {
         )}
       </AppCard>
 
+      {/* 옵션 관리 */}
+      <ProductVariantsDialog
+        open={Boolean(variantsTarget)}
+        onOpenChange={(open) => {
+          if (!open) setVariantsTarget(null)
+        }}
+        product={variantsTarget}
+        variants={variantsTarget ? variantsByParentId.get(variantsTarget.id) ?? [] : []}
+        allProducts={a.data.products}
+        parentHasStock={parentHasStock}
+        onSaved={a.refresh}
+      />
+
+      {/* 재료 구성(BOM) */}
+      <ProductMaterialsDialog
+        open={Boolean(materialsTarget)}
+        onOpenChange={(open) => {
+          if (!open) setMaterialsTarget(null)
+        }}
+        product={materialsTarget}
+        materials={a.data.materials}
+        lines={materialsTargetLines}
+        onSaved={a.refresh}
+      />
+
       {/* 단일 삭제 */}
       <ConfirmDialog
         open={Boolean(deleteProductId)}
@@ -860,7 +967,9 @@ export default function ProductsManager() {
         title="제품을 삭제할까요?"
         description={
           deleteProductName
-            ? `“${deleteProductName}” 제품이 삭제됩니다. 되돌릴 수 없습니다.`
+            ? `“${deleteProductName}” 제품이 삭제됩니다.${
+                variantsByParentId.has(deleteProductId) ? " 옵션 상품도 함께 삭제돼요." : ""
+              } 되돌릴 수 없습니다.`
             : "제품이 삭제됩니다. 되돌릴 수 없습니다."
         }
         confirmText="삭제"
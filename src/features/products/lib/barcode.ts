@@ -0,0 +1,55 @@
+// src/features/products/lib/barcode.ts
+import type { Product } from "@/data/models"
+
+// 스캐너가 붙이는 공백/하이픈은 무시, SKU는 대소문자 무시
+export function normalizeCode(v: unknown) {
+  return String(v ?? "")
+    .trim()
+    .replace(/[\s-]/g, "")
+    .toUpperCase()
+}
+
+/**
+ * 바코드/SKU → 제품 조회용 인덱스
+ * - 바코드가 SKU보다 우선 (같은 코드가 겹치면 바코드 쪽 제품)
+ */
+export function buildProductCodeIndex(products: Product[]) {
+  const bySku = new Map<string, Product>()
+  const byBarcode = new Map<string, Product>()
+
+  for (const p of products) {
+    const b = normalizeCode(p.barcode)
+    if (b && !byBarcode.has(b)) byBarcode.set(b, p)
+    const s = normalizeCode(p.sku)
+    if (s && !bySku.has(s)) bySku.set(s, p)
+  }
+
+  return (code: string): Product | null => {
+    const k = normalizeCode(code)
+    if (!k) return null
+    return byBarcode.get(k) ?? bySku.get(k) ?? null
+  }
+}
+
+let audioCtx: AudioContext | null = null
+
+/**
+ * 스캔 결과 효과음 (성공: 짧고 높은 음 / 실패: 길고 낮은 음)
+ * - 브라우저 정책상 사용자 입력 이후에만 소리가 남
+ */
+export function playScanBeep(ok: boolean) {
+  try {
+    audioCtx ??= new AudioContext()
+    const osc = audioCtx.createOscillator()
+    const gain = audioCtx.createGain()
+    osc.type = ok ? "sine" : "square"
+    osc.frequency.value = ok ? 1200 : 220
+    gain.gain.value = 0.08
+    osc.connect(gain)
+    gain.connect(audioCtx.destination)
+    osc.start()
+    osc.stop(audioCtx.currentTime + (ok ? 0.08 : 0.25))
+  } catch {
+    // 오디오 미지원 환경은 무시 (시각 피드백만)
+  }
+}
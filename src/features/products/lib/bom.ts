@@ -0,0 +1,71 @@
+// src/features/products/lib/bom.ts
+import type { MaterialLibraryItem, Product, ProductMaterial } from "@/data/models"
+
+export type BomLine = {
+  materialId: string
+  name: string
+  unitPrice: number
+  quantity: number
+  cost: number
+}
+
+/**
+ * 제품 id → 재료 구성 목록
+ */
+export function bomByProduct(productMaterials: ProductMaterial[]) {
+  const m = new Map<string, ProductMaterial[]>()
+  for (const pm of productMaterials) {
+    const arr = m.get(pm.productId) ?? []
+    arr.push(pm)
+    m.set(pm.productId, arr)
+  }
+  return m
+}
+
+/**
+ * 제품 1개당 재료 구성 (단가는 라이브러리 기준으로 매번 계산)
+ * - 옵션 상품에 구성이 없으면 대표 제품 구성을 사용
+ * - 라이브러리에서 지워진 재료는 제외
+ */
+export function buildBomIndex(input: {
+  products: Pick<Product, "id" | "parentId">[]
+  productMaterials: ProductMaterial[]
+  materials: MaterialLibraryItem[]
+}) {
+  const byProduct = bomByProduct(input.productMaterials)
+  const materialById = new Map(input.materials.map((m) => [m.id, m]))
+  const parentById = new Map(input.products.map((p) => [p.id, p.parentId ?? null]))
+
+  const linesOf = (productId: string): BomLine[] => {
+    const own = byProduct.get(productId)
+    const parentId = parentById.get(productId)
+    const src = own?.length ? own : parentId ? byProduct.get(parentId) ?? [] : []
+
+    const out: BomLine[] = []
+    for (const pm of src) {
+      const mat = materialById.get(pm.materialId)
+      if (!mat) continue
+      const quantity = Number(pm.quantity) || 0
+      out.push({
+        materialId: mat.id,
+        name: mat.name,
+        unitPrice: mat.unitPrice,
+        quantity,
+        cost: mat.unitPrice * quantity,
+      })
+    }
+    return out
+  }
+
+  return {
+    linesOf,
+    // 구성이 없으면 null (0원과 구분)
+    materialCostOf: (productId: string): number | null => {
+      const lines = linesOf(productId)
+      if (lines.length === 0) return null
+      return lines.reduce((acc, l) => acc + l.cost, 0)
+    },
+  }
+}
+
+export type BomIndex = ReturnType<typeof buildBomIndex>
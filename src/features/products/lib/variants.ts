@@ -0,0 +1,85 @@
+// src/features/products/lib/variants.ts
+import type { Product, ProductOptionAxis } from "@/data/models"
+
+/**
+ * 대표 제품 id → 옵션 상품 목록
+ */
+export function variantsByParent(products: Product[]) {
+  const m = new Map<string, Product[]>()
+  for (const p of products) {
+    if (!p.parentId) continue
+    const arr = m.get(p.parentId) ?? []
+    arr.push(p)
+    m.set(p.parentId, arr)
+  }
+  return m
+}
+
+/**
+ * 재고/제작/납품/실사 대상 제품
+ * - 옵션이 있는 대표 제품은 제외 (재고는 옵션 상품 단위로 관리)
+ */
+export function stockProducts<T extends Pick<Product, "id" | "parentId">>(products: T[]): T[] {
+  const parents = new Set<string>()
+  for (const p of products) if (p.parentId) parents.add(p.parentId)
+  return products.filter((p) => !parents.has(p.id))
+}
+
+/**
+ * 리포트 집계용: 옵션 상품 id → 대표 제품 (옵션이 아니면 자기 자신)
+ */
+export function rollupProduct(products: Product[]) {
+  const byId = new Map(products.map((p) => [p.id, p]))
+  return (productId: string): Product | null => {
+    const p = byId.get(productId)
+    if (!p) return null
+    return (p.parentId ? byId.get(p.parentId) : null) ?? p
+  }
+}
+
+export function optionLabel(values: Record<string, string> | null | undefined, axes?: ProductOptionAxis[] | null) {
+  if (!values) return ""
+  const keys = axes?.length ? axes.map((a) => a.name) : Object.keys(values)
+  return keys
+    .map((k) => values[k])
+    .filter(Boolean)
+    .join(" / ")
+}
+
+export function variantName(parentName: string, values: Record<string, string>, axes?: ProductOptionAxis[] | null) {
+  const label = optionLabel(values, axes)
+  return label ? `${parentName} - ${label}` : parentName
+}
+
+// 같은 조합인지 비교용 키 (축 순서 고정)
+export function optionKey(values: Record<string, string>, axes: ProductOptionAxis[]) {
+  return axes.map((a) => `${a.name}=${values[a.name] ?? ""}`).join("|")
+}
+
+/**
+ * 옵션 축 → 가능한 모든 조합 (예: 색상 2 × 사이즈 3 = 6개)
+ */
+export function expandOptionCombos(axes: ProductOptionAxis[]): Array<Record<string, string>> {
+  const valid = axes.filter((a) => a.name.trim() && a.values.length > 0)
+  if (valid.length === 0) return []
+
+  let combos: Array<Record<string, string>> = [{}]
+  for (const axis of valid) {
+    const next: Array<Record<string, string>> = []
+    for (const c of combos) {
+      for (const v of axis.values) next.push({ ...c, [axis.name]: v })
+    }
+    combos = next
+  }
+  return combos
+}
+
+// "네이비, 베이지 ,네이비" → ["네이비", "베이지"]
+export function parseOptionValues(input: string) {
+  const out: string[] = []
+  for (const raw of input.split(",")) {
+    const v = raw.trim()
+    if (v && !out.includes(v)) out.push(v)
+  }
+  return out
+}
@@ -7,6 +7,8 @@ import { ErrorState } from "@/components/shared/ErrorState"
 import { useState } from "react"
 
 import { useAppData } from "@/features/core/useAppData"
+import { TargetRulesCard } from "@/features/settings/components/TargetRulesCard"
+import { WarehousesCard } from "@/features/settings/components/WarehousesCard"
 
 export default function SettingsManager() {
   const a = useAppData()
@@ -59,6 +61,20 @@ export default function SettingsManager() {
         </div>
       </AppCard>
 
+      <TargetRulesCard
+        settings={a.targetSettings}
+        busy={a.profileLoading || a.profileSaving}
+        onSave={a.saveTargetSettings}
+      />
+
+      <WarehousesCard
+        warehouses={a.data.warehouses}
+        busy={a.loading}
+        onAdd={a.addWarehouse}
+        onRename={a.renameWarehouse}
+        onDelete={a.deleteWarehouse}
+      />
+
       <AppCard
         density="compact"
         title="백업 / 복구"
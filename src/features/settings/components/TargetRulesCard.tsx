@@ -0,0 +1,147 @@
+// src/features/settings/components/TargetRulesCard.tsx
+import { useState } from "react"
+
+import type { TargetMode, TargetSettings } from "@/data/models"
+import { AppButton } from "@/components/app/AppButton"
+import { AppCard } from "@/components/app/AppCard"
+import { AppInput } from "@/components/app/AppInput"
+import { AppSelect } from "@/components/app/AppSelect"
+
+type Draft = {
+  mode: TargetMode
+  months: string
+  cover: string
+  min: string
+  max: string
+}
+
+function toDraft(s: TargetSettings): Draft {
+  return {
+    mode: s.mode,
+    months: String(s.velocityMonths),
+    cover: String(s.coverMonths),
+    min: s.minQty == null ? "" : String(s.minQty),
+    max: s.maxQty == null ? "" : String(s.maxQty),
+  }
+}
+
+function toQtyOrNull(v: string) {
+  if (v.trim() === "") return null
+  const n = Number(v)
+  return Number.isFinite(n) ? Math.max(0, Math.floor(n)) : null
+}
+
+const MODE_OPTIONS = [
+  { value: "fixed", label: "고정 (기본/입점처 목표)" },
+  { value: "velocity", label: "판매 속도 기반" },
+]
+
+/**
+ * 목표 재고 규칙
+ * - 판매 속도: 정산 판매량 월평균 × 보유 개월 수 → 최소/최대로 제한
+ * - 재고 화면에서 입점처×제품별로 직접 지정한 값이 항상 우선
+ */
+export function TargetRulesCard(props: {
+  settings: TargetSettings
+  busy?: boolean
+  onSave: (next: TargetSettings) => Promise<void>
+}) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(props.settings))
+
+  // 저장/불러오기로 설정이 바뀌면 입력칸도 다시 맞춤
+  const [syncedSettings, setSyncedSettings] = useState(props.settings)
+  if (syncedSettings !== props.settings) {
+    setSyncedSettings(props.settings)
+    setDraft(toDraft(props.settings))
+  }
+
+  const velocity = draft.mode === "velocity"
+
+  const save = () => {
+    const months = Math.max(1, Math.min(24, Math.floor(Number(draft.months) || 0)))
+    const cover = Number(draft.cover)
+    void props.onSave({
+      mode: draft.mode,
+      velocityMonths: months,
+      coverMonths: Number.isFinite(cover) && cover > 0 ? cover : 1,
+      minQty: toQtyOrNull(draft.min),
+      maxQty: toQtyOrNull(draft.max),
+    })
+  }
+
+  return (
+    <AppCard
+      density="compact"
+      title="목표 재고 규칙"
+      description="판매 속도 기반이면 정산 판매 이력으로 입점처×제품별 목표를 계산해요. 정산이 없는 입점처는 기본 목표를 써요."
+      contentClassName="space-y-3"
+    >
+      <div className="flex flex-wrap items-center gap-4">
+        <AppSelect
+          className="w-[220px]"
+          value={draft.mode}
+          onValueChange={(v) => setDraft((d) => ({ ...d, mode: v === "velocity" ? "velocity" : "fixed" }))}
+          options={MODE_OPTIONS}
+        />
+
+        <div className="flex items-center gap-2">
+          <div className="text-sm font-medium">최근</div>
+          <AppInput
+            className="w-20"
+            type="number"
+            min={1}
+            max={24}
+            step={1}
+            value={draft.months}
+            onChange={(e) => setDraft((d) => ({ ...d, months: e.target.value }))}
+            disabled={!velocity || props.busy}
+          />
+          <div className="text-sm">개월 평균 ×</div>
+          <AppInput
+            className="w-20"
+            type="number"
+            min={0.1}
+            step={0.5}
+            value={draft.cover}
+            onChange={(e) => setDraft((d) => ({ ...d, cover: e.target.value }))}
+            disabled={!velocity || props.busy}
+          />
+          <div className="text-sm">개월분</div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="text-sm font-medium">최소</div>
+          <AppInput
+            className="w-20"
+            type="number"
+            min={0}
+            step={1}
+            placeholder="없음"
+            value={draft.min}
+            onChange={(e) => setDraft((d) => ({ ...d, min: e.target.value }))}
+            disabled={!velocity || props.busy}
+          />
+          <div className="text-sm font-medium">최대</div>
+          <AppInput
+            className="w-20"
+            type="number"
+            min={0}
+            step={1}
+            placeholder="없음"
+            value={draft.max}
+            onChange={(e) => setDraft((d) => ({ ...d, max: e.target.value }))}
+            disabled={!velocity || props.busy}
+          />
+        </div>
+
+        <AppButton type="button" size="sm" onClick={save} disabled={props.busy}>
+          저장
+        </AppButton>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        우선순위: 재고 화면에서 직접 지정한 목표 → 판매 속도 → 입점처 목표 → 기본 목표
+      </div>
+    </AppCard>
+  )
+}
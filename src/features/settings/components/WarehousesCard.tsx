@@ -0,0 +1,109 @@
+// src/features/settings/components/WarehousesCard.tsx
+import { useState } from "react"
+import { Trash2 } from "lucide-react"
+
+import type { Warehouse } from "@/data/models"
+import { AppButton } from "@/components/app/AppButton"
+import { AppCard } from "@/components/app/AppCard"
+import { AppInput } from "@/components/app/AppInput"
+import { AppBadge } from "@/components/app/AppBadge"
+import { ConfirmDialog } from "@/components/shared/ConfirmDialog"
+
+/**
+ * 보관 장소(작업실/창고) 관리
+ * - 기본 장소는 삭제 불가 (제작 완료/납품 흐름의 기준 위치)
+ */
+export function WarehousesCard(props: {
+  warehouses: Warehouse[]
+  busy?: boolean
+  onAdd: (name: string) => Promise<void>
+  onRename: (warehouseId: string, name: string) => Promise<void>
+  onDelete: (warehouseId: string) => Promise<void>
+}) {
+  const [newName, setNewName] = useState("")
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+  const [deleting, setDeleting] = useState<Warehouse | null>(null)
+
+  const add = async () => {
+    const name = newName.trim()
+    if (!name) return
+    await props.onAdd(name)
+    setNewName("")
+  }
+
+  return (
+    <AppCard
+      density="compact"
+      title="보관 장소"
+      description="작업실/창고 재고는 제작 리스트에서 부족분을 먼저 충당하는 데 사용돼요."
+      contentClassName="space-y-3"
+    >
+      <div className="space-y-2">
+        {props.warehouses.map((w) => {
+          const draft = drafts[w.id] ?? w.name
+          return (
+            <div key={w.id} className="flex items-center gap-2">
+              <AppInput
+                className="w-56"
+                value={draft}
+                onChange={(e) => setDrafts((prev) => ({ ...prev, [w.id]: e.target.value }))}
+                onBlur={() => {
+                  if (draft.trim() && draft.trim() !== w.name) void props.onRename(w.id, draft)
+                }}
+                disabled={props.busy}
+              />
+              {w.isDefault ? (
+                <AppBadge variant="secondary">기본</AppBadge>
+              ) : (
+                <AppButton
+                  type="button"
+                  variant="ghost"
+                  size="icon-sm"
+                  title="삭제"
+                  onClick={() => setDeleting(w)}
+                  disabled={props.busy}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </AppButton>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <AppInput
+          className="w-56"
+          placeholder="새 보관 장소 (예: 창고)"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") void add()
+          }}
+          disabled={props.busy}
+        />
+        <AppButton type="button" variant="outline" onClick={add} disabled={props.busy || !newName.trim()}>
+          추가
+        </AppButton>
+      </div>
+
+      <ConfirmDialog
+        open={Boolean(deleting)}
+        onOpenChange={(open) => {
+          if (!open) setDeleting(null)
+        }}
+        title="보관 장소를 삭제할까요?"
+        description={`"${deleting?.name ?? ""}"을(를) 삭제합니다. 재고가 남아있으면 삭제되지 않습니다.`}
+        confirmText="삭제"
+        cancelText="취소"
+        destructive
+        busy={props.busy}
+        onConfirm={async () => {
+          if (!deleting) return
+          await props.onDelete(deleting.id)
+          setDeleting(null)
+        }}
+      />
+    </AppCard>
+  )
+}
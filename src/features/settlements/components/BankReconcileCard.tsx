@@ -0,0 +1,358 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+
+import { AppCard } from "@/components/app/AppCard"
+import { AppButton } from "@/components/app/AppButton"
+import { AppBadge } from "@/components/app/AppBadge"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+import type { SettlementV2, Store, StoreTerms } from "@/data/models"
+import {
+  importBankDepositsDB,
+  linkBankDepositDB,
+  listBankDepositsDB,
+  setBankDepositIgnoredDB,
+  unlinkBankDepositDB,
+  type BankDepositWithLinks,
+} from "@/data/store.supabase"
+import { parseCsv } from "@/lib/csv"
+import { readCsvFile } from "@/lib/csvEncoding"
+import { formatPeriod } from "@/lib/settlementPeriod"
+import { buildPayoutRows, type PayoutRow } from "@/lib/settlementPayout"
+import { toast } from "@/lib/toast"
+import {
+  DEPOSIT_MATCH_LABEL,
+  detectBankColumns,
+  matchBankDeposits,
+  parseBankDeposits,
+  type DepositMatch,
+} from "@/features/settlements/lib/bankReconcile"
+
+function won(v: number) {
+  return `${Math.round(v).toLocaleString()}원`
+}
+
+function payoutLabel(r: PayoutRow) {
+  return `${r.storeName} · ${formatPeriod(r.period)} · 남은 ${won(r.outstanding)}`
+}
+
+/**
+ * 은행 입금 대사
+ * - 통장 거래내역 CSV(거래일/입금자/입금액) 업로드 → 입금 저장(중복 건너뜀)
+ * - 금액 + 입금자명이 맞는 정산 하나뿐이면 자동 매칭, 애매하면 골라서 연결
+ * - 연결하면 정산 입금 기록이 생겨 미수금/입금 상태에 바로 반영
+ */
+export function BankReconcileCard(props: {
+  settlements: SettlementV2[]
+  stores: Store[]
+  storeTerms: StoreTerms[]
+  onChanged: () => void | Promise<void>
+}) {
+  const fileRef = useRef<HTMLInputElement | null>(null)
+
+  const [deposits, setDeposits] = useState<BankDepositWithLinks[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [showLinked, setShowLinked] = useState(false)
+  const [picked, setPicked] = useState<Record<string, string>>({}) // depositId → settlementId (직접 고른 정산)
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true)
+      setDeposits(await listBankDepositsDB())
+    } catch (e) {
+      toast.error(`입금 내역을 불러오지 못했어요: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const payouts = useMemo(
+    () => buildPayoutRows({ settlements: props.settlements, stores: props.stores, storeTerms: props.storeTerms }),
+    [props.settlements, props.stores, props.storeTerms]
+  )
+  const payoutById = useMemo(() => new Map(payouts.map((r) => [r.settlementId, r])), [payouts])
+  const openPayouts = useMemo(() => payouts.filter((r) => r.status !== "paid" && r.outstanding > 0), [payouts])
+
+  const openDeposits = useMemo(
+    () =>
+      deposits
+        .map((d) => ({ ...d, remaining: Math.round(Number(d.amount) - d.linkedAmount) }))
+        .filter((d) => d.remaining > 0),
+    [deposits]
+  )
+
+  const matchById = useMemo(() => {
+    const matches = matchBankDeposits({
+      deposits: openDeposits.map((d) => ({
+        id: d.id,
+        depositedOn: d.deposited_on,
+        depositor: d.depositor,
+        remaining: d.remaining,
+      })),
+      payouts: openPayouts,
+      stores: props.stores,
+    })
+    return new Map<string, DepositMatch>(matches.map((m) => [m.depositId, m]))
+  }, [openDeposits, openPayouts, props.stores])
+
+  const autoCount = Array.from(matchById.values()).filter((m) => m.status === "auto").length
+  const linkedDeposits = deposits.filter((d) => d.payments.length > 0)
+
+  const refreshAll = async () => {
+    await load()
+    await props.onChanged()
+  }
+
+  const onFile = async (file: File) => {
+    try {
+      setBusy(true)
+      const { text } = await readCsvFile(file)
+      const parsed = parseCsv(text)
+      const columns = detectBankColumns(parsed.headers)
+      if (!columns) {
+        toast.error(`거래일/입금자/입금액 컬럼을 찾지 못했어요. (헤더: ${parsed.headers.join(", ") || "없음"})`)
+        return
+      }
+
+      const { deposits: rows, skipped } = parseBankDeposits(parsed.rows, columns)
+      const saved = await importBankDepositsDB({ deposits: rows, sourceFilename: file.name })
+      const dup = rows.length - saved
+      toast.success(
+        `입금 ${saved}건을 저장했어요.` +
+          (dup > 0 ? ` (이미 있는 ${dup}건 건너뜀)` : "") +
+          (skipped > 0 ? ` 출금/빈 행 ${skipped}건 제외.` : "")
+      )
+      await load()
+    } catch (e) {
+      toast.error(`입금 내역 가져오기 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setBusy(false)
+      if (fileRef.current) fileRef.current.value = ""
+    }
+  }
+
+  // 남은 입금액과 남은 정산금 중 작은 쪽만큼 연결 (큰 입금은 여러 정산에 나눠 연결 가능)
+  const linkOne = async (d: (typeof openDeposits)[number], settlementId: string) => {
+    const r = payoutById.get(settlementId)
+    if (!r) throw new Error("정산을 찾지 못했어요.")
+    await linkBankDepositDB({
+      depositId: d.id,
+      settlementId: r.settlementId,
+      marketplaceId: r.storeId,
+      amount: Math.min(d.remaining, r.outstanding),
+      depositedOn: d.deposited_on,
+      depositor: d.depositor,
+    })
+  }
+
+  const run = async (job: () => Promise<string>) => {
+    try {
+      setBusy(true)
+      toast.success(await job())
+      await refreshAll()
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : String(e))
+      await load()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const applyAuto = () =>
+    run(async () => {
+      let n = 0
+      for (const d of openDeposits) {
+        const m = matchById.get(d.id)
+        if (m?.status !== "auto") continue
+        await linkOne(d, m.candidates[0].settlementId)
+        n += 1
+      }
+      return `자동 매칭 ${n}건을 연결했어요.`
+    })
+
+  const link = (d: (typeof openDeposits)[number]) =>
+    run(async () => {
+      const settlementId = picked[d.id] || matchById.get(d.id)?.candidates[0]?.settlementId
+      if (!settlementId) throw new Error("연결할 정산을 골라 주세요.")
+      await linkOne(d, settlementId)
+      setPicked((prev) => {
+        const next = { ...prev }
+        delete next[d.id]
+        return next
+      })
+      return "입금을 정산에 연결했어요."
+    })
+
+  const unlink = (depositId: string) =>
+    run(async () => {
+      await unlinkBankDepositDB({ depositId })
+      return "연결을 해제했어요."
+    })
+
+  const ignore = (depositId: string) =>
+    run(async () => {
+      await setBankDepositIgnoredDB({ depositId, ignored: true })
+      return "정산과 무관한 입금으로 숨겼어요."
+    })
+
+  return (
+    <AppCard
+      density="compact"
+      title="은행 입금 대사"
+      description="통장 거래내역 CSV를 올리면 금액과 입금자명으로 미입금 정산을 찾아 연결해요."
+      action={
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <input type="checkbox" checked={showLinked} onChange={(e) => setShowLinked(e.target.checked)} />
+            연결된 입금 보기
+          </label>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const f = e.target.files?.[0]
+              if (f) onFile(f)
+            }}
+          />
+          <AppButton type="button" variant="outline" onClick={() => fileRef.current?.click()} disabled={busy}>
+            거래내역 CSV
+          </AppButton>
+          <AppButton type="button" onClick={applyAuto} disabled={busy || autoCount === 0}>
+            자동 매칭 {autoCount}건 연결
+          </AppButton>
+        </div>
+      }
+      contentClassName="px-4 pb-4 space-y-3"
+    >
+      {loading ? <div className="text-xs text-muted-foreground">불러오는 중…</div> : null}
+
+      {openDeposits.length === 0 ? (
+        <div className="text-sm text-muted-foreground">정산에 연결할 입금이 없어요.</div>
+      ) : (
+        <div className="overflow-hidden rounded-xl border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[110px]">입금일</TableHead>
+                <TableHead className="w-[160px]">입금자</TableHead>
+                <TableHead className="w-[120px] text-right">남은 금액</TableHead>
+                <TableHead className="w-[100px]">매칭</TableHead>
+                <TableHead>정산</TableHead>
+                <TableHead className="w-[150px] text-right pr-6">작업</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {openDeposits.map((d) => {
+                const m = matchById.get(d.id)
+                const candidateIds = new Set(m?.candidates.map((c) => c.settlementId) ?? [])
+                const value = picked[d.id] ?? m?.candidates[0]?.settlementId ?? ""
+                return (
+                  <TableRow key={d.id}>
+                    <TableCell className="tabular-nums">{d.deposited_on}</TableCell>
+                    <TableCell className="truncate">{d.depositor || "-"}</TableCell>
+                    <TableCell className="text-right tabular-nums">{won(d.remaining)}</TableCell>
+                    <TableCell>
+                      <AppBadge
+                        variant={m?.status === "auto" ? "default" : m?.status === "review" ? "secondary" : "outline"}
+                      >
+                        {DEPOSIT_MATCH_LABEL[m?.status ?? "none"]}
+                      </AppBadge>
+                    </TableCell>
+                    <TableCell>
+                      <select
+                        className="h-9 w-full rounded-md border bg-background px-2 text-sm"
+                        value={value}
+                        onChange={(e) => setPicked((prev) => ({ ...prev, [d.id]: e.target.value }))}
+                      >
+                        <option value="">정산 선택</option>
+                        {(m?.candidates ?? []).map((c) => {
+                          const r = payoutById.get(c.settlementId)
+                          if (!r) return null
+                          const why = [c.amountMatch ? "금액" : "", c.nameMatch ? "입금자" : ""].filter(Boolean).join("+")
+                          return (
+                            <option key={c.settlementId} value={c.settlementId}>
+                              [{why} 일치] {payoutLabel(r)}
+                            </option>
+                          )
+                        })}
+                        {openPayouts
+                          .filter((r) => !candidateIds.has(r.settlementId))
+                          .map((r) => (
+                            <option key={r.settlementId} value={r.settlementId}>
+                              {payoutLabel(r)}
+                            </option>
+                          ))}
+                      </select>
+                    </TableCell>
+                    <TableCell className="text-right pr-6">
+                      <div className="inline-flex items-center justify-end gap-1">
+                        <AppButton type="button" size="sm" variant="outline" onClick={() => link(d)} disabled={busy || !value}>
+                          연결
+                        </AppButton>
+                        <AppButton type="button" size="sm" variant="ghost" onClick={() => ignore(d.id)} disabled={busy}>
+                          숨김
+                        </AppButton>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {showLinked ? (
+        linkedDeposits.length === 0 ? (
+          <div className="text-xs text-muted-foreground">정산에 연결된 입금이 없어요.</div>
+        ) : (
+          <div className="overflow-hidden rounded-xl border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[110px]">입금일</TableHead>
+                  <TableHead className="w-[160px]">입금자</TableHead>
+                  <TableHead className="w-[120px] text-right">입금액</TableHead>
+                  <TableHead>연결된 정산</TableHead>
+                  <TableHead className="w-[110px] text-right pr-6">작업</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {linkedDeposits.map((d) => (
+                  <TableRow key={d.id}>
+                    <TableCell className="tabular-nums">{d.deposited_on}</TableCell>
+                    <TableCell className="truncate">{d.depositor || "-"}</TableCell>
+                    <TableCell className="text-right tabular-nums">{won(Number(d.amount))}</TableCell>
+                    <TableCell className="text-xs">
+                      {d.payments.map((p) => {
+                        const r = payoutById.get(p.settlement_id)
+                        return (
+                          <div key={p.id}>
+                            {r ? `${r.storeName} · ${formatPeriod(r.period)}` : "(삭제된 정산)"} ·{" "}
+                            <span className="tabular-nums">{won(Number(p.amount))}</span>
+                          </div>
+                        )
+                      })}
+                    </TableCell>
+                    <TableCell className="text-right pr-6">
+                      <AppButton type="button" size="sm" variant="ghost" onClick={() => unlink(d.id)} disabled={busy}>
+                        연결 해제
+                      </AppButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )
+      ) : null}
+    </AppCard>
+  )
+}
@@ -0,0 +1,260 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Trash2 } from "lucide-react"
+
+import type { CommissionRuleSet, Product } from "@/data/models"
+import { getCommissionRuleSetDB, upsertCommissionRuleSetDB } from "@/data/store.supabase"
+import { EMPTY_COMMISSION_RULES } from "@/features/settlements/lib/commissionRules"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppInput } from "@/components/app/AppInput"
+import { AppSelect } from "@/components/app/AppSelect"
+import { Skeleton } from "@/components/shared/Skeleton"
+
+import { toast } from "@/lib/toast"
+
+// 입력 중에는 문자열로 들고 있다가 저장할 때 숫자로
+type Draft = {
+  categoryRates: Array<{ category: string; rate: string }>
+  productRates: Array<{ productId: string; rate: string }>
+  tiers: Array<{ minGross: string; rate: string }>
+  itemFee: string
+  applyStoreFee: boolean
+}
+
+function toDraft(r: CommissionRuleSet): Draft {
+  return {
+    categoryRates: r.categoryRates.map((x) => ({ category: x.category, rate: String(x.rate) })),
+    productRates: r.productRates.map((x) => ({ productId: x.productId, rate: String(x.rate) })),
+    tiers: r.tiers.map((x) => ({ minGross: String(x.minGross), rate: String(x.rate) })),
+    itemFee: r.itemFee ? String(r.itemFee) : "",
+    applyStoreFee: r.applyStoreFee,
+  }
+}
+
+function toNum(v: string) {
+  const n = Number(String(v ?? "").replace(/,/g, ""))
+  return Number.isFinite(n) ? n : NaN
+}
+
+function fromDraft(d: Draft): CommissionRuleSet {
+  const rate = (v: string) => {
+    const n = toNum(v)
+    if (!(n >= 0 && n <= 100)) throw new Error(`요율은 0~100 사이로 입력하세요. (${v || "빈 값"})`)
+    return n
+  }
+
+  return {
+    categoryRates: d.categoryRates.filter((x) => x.category).map((x) => ({ category: x.category, rate: rate(x.rate) })),
+    productRates: d.productRates.filter((x) => x.productId).map((x) => ({ productId: x.productId, rate: rate(x.rate) })),
+    tiers: d.tiers
+      .filter((x) => x.minGross.trim())
+      .map((x) => ({ minGross: Math.max(0, Math.round(toNum(x.minGross) || 0)), rate: rate(x.rate) }))
+      .sort((a, b) => a.minGross - b.minGross),
+    itemFee: Math.max(0, Math.round(toNum(d.itemFee) || 0)),
+    applyStoreFee: d.applyStoreFee,
+  }
+}
+
+/**
+ * 입점처 상세 › 수수료 규칙
+ * - 라인 요율: 상품 > 카테고리 > 구간(기간 매출) > 기본 수수료율
+ * - 개당 고정 수수료, 월 입점료 차감
+ * - 저장 후 업로드하는 정산부터 적용 (이미 저장된 정산은 정산 상세에서 다시 계산)
+ */
+export function CommissionRulesEditor(props: {
+  storeId: string
+  storeFee: number | null | undefined
+  products: Product[]
+}) {
+  const { storeId, products } = props
+
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [draft, setDraft] = useState<Draft>(() => toDraft(EMPTY_COMMISSION_RULES))
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setDraft(toDraft((await getCommissionRuleSetDB({ storeId })) ?? EMPTY_COMMISSION_RULES))
+    } catch (e) {
+      console.error(e)
+      toast.error(`수수료 규칙을 불러오지 못했어요: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [storeId])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const categoryOptions = useMemo(
+    () =>
+      Array.from(new Set(products.map((p) => p.category).filter((c): c is string => Boolean(c))))
+        .sort((x, y) => x.localeCompare(y, "ko"))
+        .map((c) => ({ value: c, label: c })),
+    [products]
+  )
+  const productOptions = useMemo(
+    () =>
+      products
+        .filter((p) => p.active !== false)
+        .map((p) => ({ value: p.id, label: p.name }))
+        .sort((x, y) => x.label.localeCompare(y.label, "ko")),
+    [products]
+  )
+
+  const patch = (p: Partial<Draft>) => setDraft((d) => ({ ...d, ...p }))
+
+  const save = async () => {
+    try {
+      setSaving(true)
+      await upsertCommissionRuleSetDB({ storeId, rules: fromDraft(draft) })
+      toast.success("수수료 규칙을 저장했어요.")
+      await load()
+    } catch (e) {
+      console.error(e)
+      toast.error(`수수료 규칙 저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) return <Skeleton className="h-16 w-full" />
+
+  const removeButton = (onClick: () => void) => (
+    <AppButton type="button" size="icon-sm" variant="ghost" title="삭제" onClick={onClick}>
+      <Trash2 className="h-4 w-4" />
+    </AppButton>
+  )
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">카테고리 요율 (%)</div>
+        {draft.categoryRates.map((x, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <AppSelect
+              className="flex-1"
+              value={x.category}
+              onValueChange={(v) =>
+                patch({ categoryRates: draft.categoryRates.map((y, j) => (j === i ? { ...y, category: v } : y)) })
+              }
+              options={categoryOptions}
+              placeholder="카테고리"
+            />
+            <AppInput
+              className="w-[90px]"
+              inputMode="decimal"
+              value={x.rate}
+              onChange={(e) =>
+                patch({ categoryRates: draft.categoryRates.map((y, j) => (j === i ? { ...y, rate: e.target.value } : y)) })
+              }
+              placeholder="%"
+            />
+            {removeButton(() => patch({ categoryRates: draft.categoryRates.filter((_, j) => j !== i) }))}
+          </div>
+        ))}
+        <AppButton
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => patch({ categoryRates: [...draft.categoryRates, { category: "", rate: "" }] })}
+        >
+          카테고리 요율 추가
+        </AppButton>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">상품 요율 (%) · 카테고리 요율보다 우선</div>
+        {draft.productRates.map((x, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <AppSelect
+              className="flex-1"
+              value={x.productId}
+              onValueChange={(v) =>
+                patch({ productRates: draft.productRates.map((y, j) => (j === i ? { ...y, productId: v } : y)) })
+              }
+              options={productOptions}
+              placeholder="상품"
+            />
+            <AppInput
+              className="w-[90px]"
+              inputMode="decimal"
+              value={x.rate}
+              onChange={(e) =>
+                patch({ productRates: draft.productRates.map((y, j) => (j === i ? { ...y, rate: e.target.value } : y)) })
+              }
+              placeholder="%"
+            />
+            {removeButton(() => patch({ productRates: draft.productRates.filter((_, j) => j !== i) }))}
+          </div>
+        ))}
+        <AppButton
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => patch({ productRates: [...draft.productRates, { productId: "", rate: "" }] })}
+        >
+          상품 요율 추가
+        </AppButton>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">
+          구간 요율 · 정산 기간 매출이 기준 이상이면 기본 수수료율 대신 적용 (가장 높은 구간)
+        </div>
+        {draft.tiers.map((x, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <AppInput
+              className="flex-1"
+              inputMode="numeric"
+              value={x.minGross}
+              onChange={(e) => patch({ tiers: draft.tiers.map((y, j) => (j === i ? { ...y, minGross: e.target.value } : y)) })}
+              placeholder="매출 기준(원) 이상"
+            />
+            <AppInput
+              className="w-[90px]"
+              inputMode="decimal"
+              value={x.rate}
+              onChange={(e) => patch({ tiers: draft.tiers.map((y, j) => (j === i ? { ...y, rate: e.target.value } : y)) })}
+              placeholder="%"
+            />
+            {removeButton(() => patch({ tiers: draft.tiers.filter((_, j) => j !== i) }))}
+          </div>
+        ))}
+        <AppButton
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => patch({ tiers: [...draft.tiers, { minGross: "", rate: "" }] })}
+        >
+          구간 추가
+        </AppButton>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <AppInput
+          inputMode="numeric"
+          value={draft.itemFee}
+          onChange={(e) => patch({ itemFee: e.target.value })}
+          placeholder="개당 고정 수수료(원, 선택)"
+        />
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.applyStoreFee}
+            onChange={(e) => patch({ applyStoreFee: e.target.checked })}
+          />
+          월 입점료 차감 ({props.storeFee ? `${props.storeFee.toLocaleString()}원` : "입점료 미입력"})
+        </label>
+      </div>
+
+      <div className="flex justify-end">
+        <AppButton type="button" size="sm" onClick={() => void save()} disabled={saving}>
+          {saving ? "저장 중…" : "수수료 규칙 저장"}
+        </AppButton>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useState } from "react"
+import { Trash2 } from "lucide-react"
+
+import type { SettlementImportProfile } from "@/data/models"
+import {
+  deleteSettlementImportProfileDB,
+  listSettlementImportProfilesDB,
+  upsertSettlementImportProfileDB,
+} from "@/data/store.supabase"
+import {
+  AMOUNT_BASIS_LABEL,
+  AMOUNT_KIND_LABEL,
+  DEFAULT_IMPORT_OPTIONS,
+  DELIMITER_OPTIONS,
+  parseKeywords,
+} from "@/features/settlements/lib/importProfiles"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppBadge } from "@/components/app/AppBadge"
+import { AppInput } from "@/components/app/AppInput"
+import { AppSelect } from "@/components/app/AppSelect"
+import { Skeleton } from "@/components/shared/Skeleton"
+
+import { toast } from "@/lib/toast"
+
+type Draft = {
+  id: string | null
+  name: string
+  barcode: string
+  soldQty: string
+  amount: string
+  sku: string
+  productName: string
+  store: string
+  period: string
+  lineKind: string
+  delimiter: string
+  headerRow: string
+  footerRows: string
+  skipKeywords: string
+  amountBasis: SettlementImportProfile["amountBasis"]
+  amountKind: SettlementImportProfile["amountKind"]
+  isDefault: boolean
+}
+
+function toDraft(p: SettlementImportProfile | null): Draft {
+  return {
+    id: p?.id ?? null,
+    name: p?.name ?? "",
+    barcode: p?.mapping.barcode ?? "",
+    soldQty: p?.mapping.sold_qty ?? "",
+    amount: p?.mapping.amount ?? "",
+    sku: p?.mapping.sku ?? "",
+    productName: p?.mapping.product_name ?? "",
+    store: p?.mapping.store ?? "",
+    period: p?.mapping.period ?? "",
+    lineKind: p?.mapping.line_kind ?? "",
+    delimiter: p?.delimiter ?? "",
+    headerRow: String(p?.headerRow ?? DEFAULT_IMPORT_OPTIONS.headerRow),
+    footerRows: String(p?.footerRows ?? DEFAULT_IMPORT_OPTIONS.footerRows),
+    skipKeywords: (p?.skipKeywords ?? []).join(", "),
+    amountBasis: p?.amountBasis ?? DEFAULT_IMPORT_OPTIONS.amountBasis,
+    amountKind: p?.amountKind ?? DEFAULT_IMPORT_OPTIONS.amountKind,
+    isDefault: p?.isDefault ?? false,
+  }
+}
+
+function toCount(v: string) {
+  const n = Number(v)
+  return Number.isFinite(n) ? Math.max(0, Math.floor(n)) : 0
+}
+
+/**
+ * 입점처 상세 › 정산 가져오기 프로필
+ * - 업로더에서 저장한 프로필을 확인/수정 (컬럼명은 CSV 헤더 그대로 입력)
+ * - 기본 프로필은 업로더에서 입점처를 고르면 자동 적용
+ */
+export function ImportProfilesEditor(props: { storeId: string }) {
+  const { storeId } = props
+
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [profiles, setProfiles] = useState<SettlementImportProfile[]>([])
+  const [draft, setDraft] = useState<Draft | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setProfiles(await listSettlementImportProfilesDB({ storeId }))
+    } catch (e) {
+      console.error(e)
+      toast.error(`가져오기 프로필을 불러오지 못했어요: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [storeId])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const patch = (p: Partial<Draft>) => setDraft((d) => (d ? { ...d, ...p } : d))
+
+  const save = async () => {
+    if (!draft) return
+    if (!draft.name.trim()) {
+      toast.error("프로필 이름을 입력하세요.")
+      return
+    }
+
+    try {
+      setSaving(true)
+      await upsertSettlementImportProfileDB({
+        id: draft.id,
+        storeId,
+        name: draft.name,
+        mapping: {
+          barcode: draft.barcode.trim(),
+          sold_qty: draft.soldQty.trim(),
+          amount: draft.amount.trim(),
+          sku: draft.sku.trim(),
+          product_name: draft.productName.trim(),
+          store: draft.store.trim(),
+          period: draft.period.trim(),
+          line_kind: draft.lineKind.trim(),
+        },
+        delimiter: draft.delimiter || null,
+        headerRow: toCount(draft.headerRow),
+        footerRows: toCount(draft.footerRows),
+        skipKeywords: parseKeywords(draft.skipKeywords),
+        amountBasis: draft.amountBasis,
+        amountKind: draft.amountKind,
+        isDefault: draft.isDefault,
+      })
+      toast.success("프로필을 저장했어요.")
+      setDraft(null)
+      await load()
+    } catch (e) {
+      console.error(e)
+      toast.error(`프로필 저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async (p: SettlementImportProfile) => {
+    if (!window.confirm(`프로필 “${p.name}”을 삭제할까요?`)) return
+    try {
+      await deleteSettlementImportProfileDB({ profileId: p.id })
+      if (draft?.id === p.id) setDraft(null)
+      await load()
+    } catch (e) {
+      console.error(e)
+      toast.error(`프로필 삭제 실패: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
+  if (loading && profiles.length === 0) return <Skeleton className="h-16 w-full" />
+
+  return (
+    <div className="space-y-2">
+      {profiles.length === 0 && !draft && (
+        <div className="text-sm text-muted-foreground">
+          저장된 프로필이 없어요. 정산 업로드에서 컬럼 매핑 후 “프로필로 저장”하거나 여기서 추가하세요.
+        </div>
+      )}
+
+      {profiles.map((p) => (
+        <div key={p.id} className="flex flex-wrap items-center gap-2 rounded-lg border p-2 text-sm">
+          <span className="font-medium">{p.name}</span>
+          {p.isDefault && <AppBadge variant="secondary">기본</AppBadge>}
+          <span className="text-xs text-muted-foreground">
+            {p.mapping.barcode || "-"} / {p.mapping.sold_qty || "-"} / {p.mapping.amount || "-"} ·{" "}
+            {AMOUNT_BASIS_LABEL[p.amountBasis]} · {AMOUNT_KIND_LABEL[p.amountKind]}
+          </span>
+          <div className="ml-auto flex items-center gap-1">
+            <AppButton type="button" size="sm" variant="outline" onClick={() => setDraft(toDraft(p))}>
+              편집
+            </AppButton>
+            <AppButton
+              type="button"
+              size="icon-sm"
+              variant="ghost"
+              title="삭제"
+              onClick={() => void remove(p)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </AppButton>
+          </div>
+        </div>
+      ))}
+
+      {draft ? (
+        <div className="space-y-3 rounded-lg border p-3">
+          <div className="grid gap-2 sm:grid-cols-2">
+            <AppInput value={draft.name} onChange={(e) => patch({ name: e.target.value })} placeholder="프로필 이름" />
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={draft.isDefault}
+                onChange={(e) => patch({ isDefault: e.target.checked })}
+              />
+              업로드 시 자동 적용 (기본)
+            </label>
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-3">
+            <AppInput
+              value={draft.barcode}
+              onChange={(e) => patch({ barcode: e.target.value })}
+              placeholder="바코드 컬럼명"
+            />
+            <AppInput
+              value={draft.soldQty}
+              onChange={(e) => patch({ soldQty: e.target.value })}
+              placeholder="판매수량 컬럼명"
+            />
+            <AppInput value={draft.amount} onChange={(e) => patch({ amount: e.target.value })} placeholder="금액 컬럼명" />
+            <AppInput value={draft.sku} onChange={(e) => patch({ sku: e.target.value })} placeholder="SKU 컬럼명 (선택)" />
+            <AppInput
+              value={draft.productName}
+              onChange={(e) => patch({ productName: e.target.value })}
+              placeholder="상품명 컬럼명 (선택)"
+            />
+            <AppInput
+              value={draft.store}
+              onChange={(e) => patch({ store: e.target.value })}
+              placeholder="입점처 컬럼명 (통합 정산서, 선택)"
+            />
+            <AppInput value={draft.period} onChange={(e) => patch({ period: e.target.value })} placeholder="정산월 컬럼명 (선택)" />
+            <AppInput
+              value={draft.lineKind}
+              onChange={(e) => patch({ lineKind: e.target.value })}
+              placeholder="구분(판매/반품/할인) 컬럼명 (선택)"
+            />
+          </div>
+
+          <div className="grid gap-2 sm:grid-cols-3">
+            <AppSelect
+              value={draft.delimiter}
+              onValueChange={(v) => patch({ delimiter: v })}
+              options={DELIMITER_OPTIONS}
+            />
+            <AppInput
+              type="number"
+              min={0}
+              value={draft.headerRow}
+              onChange={(e) => patch({ headerRow: e.target.value })}
+              placeholder="헤더 앞 건너뛸 줄"
+              title="헤더 앞 건너뛸 줄 (0 = 자동)"
+            />
+            <AppInput
+              type="number"
+              min={0}
+              value={draft.footerRows}
+              onChange={(e) => patch({ footerRows: e.target.value })}
+              placeholder="끝에서 버릴 줄"
+              title="끝에서 버릴 줄 (합계 등)"
+            />
+            <AppSelect
+              value={draft.amountBasis}
+              onValueChange={(v) => patch({ amountBasis: v === "net" ? "net" : "gross" })}
+              options={Object.entries(AMOUNT_BASIS_LABEL).map(([value, label]) => ({ value, label }))}
+            />
+            <AppSelect
+              value={draft.amountKind}
+              onValueChange={(v) => patch({ amountKind: v === "unit_price" ? "unit_price" : "line_total" })}
+              options={Object.entries(AMOUNT_KIND_LABEL).map(([value, label]) => ({ value, label }))}
+            />
+            <AppInput
+              value={draft.skipKeywords}
+              onChange={(e) => patch({ skipKeywords: e.target.value })}
+              placeholder="건너뛸 행 키워드 (예: 합계, 소계)"
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <AppButton type="button" variant="outline" size="sm" onClick={() => setDraft(null)} disabled={saving}>
+              취소
+            </AppButton>
+            <AppButton type="button" size="sm" onClick={() => void save()} disabled={saving || !draft.name.trim()}>
+              {saving ? "저장 중…" : "프로필 저장"}
+            </AppButton>
+          </div>
+        </div>
+      ) : (
+        <AppButton type="button" size="sm" variant="outline" onClick={() => setDraft(toDraft(null))}>
+          프로필 추가
+        </AppButton>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,156 @@
+import { useMemo, useState } from "react"
+
+import { AppCard } from "@/components/app/AppCard"
+import { AppButton } from "@/components/app/AppButton"
+import { AppBadge } from "@/components/app/AppBadge"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+import type { SettlementV2, Store, StoreTerms } from "@/data/models"
+import { formatPeriod } from "@/lib/settlementPeriod"
+import { buildPayoutRows, PAYOUT_STATUS_LABEL, summarizeReceivables } from "@/lib/settlementPayout"
+import { SettlementPayoutDialog } from "@/features/settlements/components/SettlementPayoutDialog"
+
+function won(v: number) {
+  return `${Math.round(v).toLocaleString()}원`
+}
+
+/**
+ * 미수금: 입점처별로 아직 받지 못한 정산금
+ * - 입금 예정일이 지난 정산은 지연으로 표시
+ * - 행에서 입금 기록/예정일 지정
+ */
+export function ReceivablesCard(props: {
+  settlements: SettlementV2[]
+  stores: Store[]
+  storeTerms: StoreTerms[]
+  onChanged: () => void | Promise<void>
+}) {
+  const [storeFilter, setStoreFilter] = useState("")
+  const [onlyOverdue, setOnlyOverdue] = useState(false)
+  const [targetId, setTargetId] = useState<string | null>(null)
+
+  const rows = useMemo(
+    () => buildPayoutRows({ settlements: props.settlements, stores: props.stores, storeTerms: props.storeTerms }),
+    [props.settlements, props.stores, props.storeTerms]
+  )
+  const summary = useMemo(() => summarizeReceivables(rows), [rows])
+
+  const openRows = useMemo(
+    () =>
+      rows
+        .filter((r) => r.status !== "paid")
+        .filter((r) => !storeFilter || r.storeId === storeFilter)
+        .filter((r) => !onlyOverdue || r.overdue)
+        .sort((a, b) => (a.dueDate ?? "9999").localeCompare(b.dueDate ?? "9999")),
+    [rows, storeFilter, onlyOverdue]
+  )
+
+  // 입금 기록 후 새로 읽은 값으로 대화상자 갱신
+  const target = targetId ? rows.find((r) => r.settlementId === targetId) ?? null : null
+
+  const totalOutstanding = summary.reduce((sum, s) => sum + s.outstanding, 0)
+  const totalOverdue = summary.reduce((sum, s) => sum + s.overdueAmount, 0)
+
+  return (
+    <AppCard
+      density="compact"
+      title="미수금"
+      description={`받을 정산금 ${won(totalOutstanding)} · 지연 ${won(totalOverdue)}`}
+      action={
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <input type="checkbox" checked={onlyOverdue} onChange={(e) => setOnlyOverdue(e.target.checked)} />
+          지연만 보기
+        </label>
+      }
+      contentClassName="px-4 pb-4 space-y-3"
+    >
+      {summary.length === 0 ? (
+        <div className="text-sm text-muted-foreground">받지 못한 정산금이 없어요.</div>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <AppButton
+              type="button"
+              size="sm"
+              variant={storeFilter ? "outline" : "default"}
+              onClick={() => setStoreFilter("")}
+            >
+              전체
+            </AppButton>
+            {summary.map((s) => (
+              <AppButton
+                key={s.storeId}
+                type="button"
+                size="sm"
+                variant={storeFilter === s.storeId ? "default" : "outline"}
+                onClick={() => setStoreFilter(storeFilter === s.storeId ? "" : s.storeId)}
+              >
+                {s.storeName} · {won(s.outstanding)}
+                {s.overdueCount > 0 ? <span className="ml-1 text-destructive">(지연 {s.overdueCount})</span> : null}
+              </AppButton>
+            ))}
+          </div>
+
+          <div className="overflow-hidden rounded-xl border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[140px]">입점처</TableHead>
+                  <TableHead className="w-[150px]">기간</TableHead>
+                  <TableHead className="w-[120px] text-right">정산금</TableHead>
+                  <TableHead className="w-[120px] text-right">입금</TableHead>
+                  <TableHead className="w-[120px] text-right">남은 금액</TableHead>
+                  <TableHead className="w-[110px]">입금 예정일</TableHead>
+                  <TableHead className="w-[100px]">상태</TableHead>
+                  <TableHead className="w-[100px] text-right pr-6">작업</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openRows.map((r) => (
+                  <TableRow key={r.settlementId}>
+                    <TableCell className="truncate">{r.storeName}</TableCell>
+                    <TableCell className="tabular-nums">{formatPeriod(r.period)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{won(r.netAmount)}</TableCell>
+                    <TableCell className="text-right tabular-nums">{won(r.paidAmount)}</TableCell>
+                    <TableCell className="text-right tabular-nums font-medium">{won(r.outstanding)}</TableCell>
+                    <TableCell className="tabular-nums text-xs">{r.dueDate ?? "-"}</TableCell>
+                    <TableCell>
+                      <AppBadge variant={r.overdue ? "destructive" : r.status === "partial" ? "secondary" : "outline"}>
+                        {r.overdue ? `지연 ${r.overdueDays}일` : PAYOUT_STATUS_LABEL[r.status]}
+                      </AppBadge>
+                    </TableCell>
+                    <TableCell className="text-right pr-6">
+                      <AppButton type="button" size="sm" variant="outline" onClick={() => setTargetId(r.settlementId)}>
+                        입금 기록
+                      </AppButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+
+                {openRows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-sm text-muted-foreground">
+                      조건에 맞는 미수 정산이 없어요.
+                    </TableCell>
+                  </TableRow>
+                ) : null}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+
+      {target ? (
+        <SettlementPayoutDialog
+          open
+          onOpenChange={(o) => {
+            if (!o) setTargetId(null)
+          }}
+          row={target}
+          onChanged={props.onChanged}
+        />
+      ) : null}
+    </AppCard>
+  )
+}
@@ -0,0 +1,244 @@
+import { useMemo, useState } from "react"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppBadge } from "@/components/app/AppBadge"
+
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+import { formatPeriod } from "@/lib/settlementPeriod"
+import {
+  buildSettlementDiff,
+  type SettlementApplyPlan,
+  type SettlementDiff,
+  type SettlementLineChange,
+  type SettlementTotals,
+  type SettlementUploadMode,
+} from "@/features/settlements/lib/settlementDiff"
+import { LINE_KIND_LABEL } from "@/features/settlements/lib/settlementAdjustments"
+
+const CHANGE_LABEL: Record<SettlementLineChange["kind"], string> = {
+  added: "추가",
+  changed: "변경",
+  removed: "삭제",
+}
+
+const CHANGE_VARIANT: Record<SettlementLineChange["kind"], "default" | "secondary" | "destructive"> = {
+  added: "default",
+  changed: "secondary",
+  removed: "destructive",
+}
+
+// 화면이 너무 길어지지 않도록 정산별 라인 변경은 앞부분만
+const MAX_CHANGE_ROWS = 50
+
+function won(v: number) {
+  return `${Math.round(v).toLocaleString()}원`
+}
+
+function BeforeAfter(props: { before: number | null | undefined; after: number | null | undefined; format?: (v: number) => string }) {
+  const fmt = props.format ?? ((v: number) => v.toLocaleString())
+  const changed = props.before != null && props.after != null && props.before !== props.after
+  return (
+    <span className="tabular-nums">
+      {props.before == null ? "-" : fmt(props.before)}
+      <span className="mx-1 text-muted-foreground">→</span>
+      <span className={changed ? "font-semibold" : undefined}>{props.after == null ? "-" : fmt(props.after)}</span>
+    </span>
+  )
+}
+
+function TotalsTable(props: { before: SettlementTotals | null; after: SettlementTotals }) {
+  const rows: Array<{ label: string; key: keyof SettlementTotals; money: boolean }> = [
+    { label: "총매출", key: "grossAmount", money: true },
+    { label: "수수료", key: "commissionAmount", money: true },
+    { label: "차감(배송비·광고비)", key: "deductionAmount", money: true },
+    { label: "정산금", key: "netAmount", money: true },
+    { label: "라인 수", key: "rowsCount", money: false },
+  ]
+  return (
+    <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm sm:grid-cols-5">
+      {rows.map((r) => (
+        <div key={r.key} className="grid gap-0.5">
+          <span className="text-xs text-muted-foreground">{r.label}</span>
+          <BeforeAfter before={props.before?.[r.key]} after={props.after[r.key]} format={r.money ? won : undefined} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function PlanDiff(props: { plan: SettlementApplyPlan; diff: SettlementDiff }) {
+  const { plan, diff } = props
+  const shown = diff.changes.slice(0, MAX_CHANGE_ROWS)
+
+  return (
+    <div className="space-y-3 rounded-xl border p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">
+          {plan.storeName} · {formatPeriod(plan.period)}
+        </span>
+        {diff.isNew ? (
+          <AppBadge>새 정산</AppBadge>
+        ) : (
+          <AppBadge variant="secondary">
+            기존 정산 · 배치 {diff.replacedBatches}개 교체 · {diff.keptBatches}개 유지
+          </AppBadge>
+        )}
+      </div>
+
+      <TotalsTable before={diff.before} after={diff.after} />
+
+      {plan.commissionRules ? (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+          <span>수수료 내역</span>
+          <AppBadge variant="outline">요율 {won(diff.commission.rateCommission)}</AppBadge>
+          {diff.commission.itemFees !== 0 ? (
+            <AppBadge variant="outline">개당 수수료 {won(diff.commission.itemFees)}</AppBadge>
+          ) : null}
+          {diff.commission.storeFee !== 0 ? (
+            <AppBadge variant="outline">입점료 {won(diff.commission.storeFee)}</AppBadge>
+          ) : null}
+          {diff.commission.tier ? (
+            <AppBadge variant="secondary">
+              구간 요율 {diff.commission.tier.rate}% (매출 {won(diff.commission.tier.minGross)} 이상)
+            </AppBadge>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">
+          라인 변경 {diff.changes.length.toLocaleString()}건 · 그대로 {diff.unchanged.toLocaleString()}건
+        </div>
+        {diff.changes.length > 0 ? (
+          <div className="max-h-[260px] overflow-auto rounded-lg border">
+            <Table className="w-full text-sm">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[70px]">구분</TableHead>
+                  <TableHead>상품</TableHead>
+                  <TableHead className="text-right">수량</TableHead>
+                  <TableHead className="text-right">단가</TableHead>
+                  <TableHead className="text-right">매출</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shown.map((c) => (
+                  <TableRow key={c.key}>
+                    <TableCell>
+                      <AppBadge variant={CHANGE_VARIANT[c.kind]}>{CHANGE_LABEL[c.kind]}</AppBadge>
+                    </TableCell>
+                    <TableCell className="max-w-[220px] truncate">
+                      {c.lineKind !== "sale" ? (
+                        <AppBadge variant="outline" className="mr-1">
+                          {LINE_KIND_LABEL[c.lineKind]}
+                        </AppBadge>
+                      ) : null}
+                      {c.name}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <BeforeAfter before={c.before?.qty} after={c.after?.qty} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <BeforeAfter before={c.before?.unitPrice} after={c.after?.unitPrice} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <BeforeAfter before={c.before?.gross} after={c.after?.gross} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {diff.changes.length > shown.length ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-xs text-muted-foreground">
+                      외 {(diff.changes.length - shown.length).toLocaleString()}건
+                    </TableCell>
+                  </TableRow>
+                ) : null}
+              </TableBody>
+            </Table>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs text-muted-foreground">재고 원장에 기록될 변동</div>
+        {diff.inventory.length === 0 ? (
+          <div className="text-xs text-muted-foreground">재고 변동 없음</div>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {diff.inventory.map((x) => (
+              <AppBadge key={x.productId} variant={x.qtyDelta < 0 ? "outline" : "muted"}>
+                {x.name} <span className="ml-1 tabular-nums">{x.qtyDelta > 0 ? `+${x.qtyDelta}` : x.qtyDelta}</span>
+              </AppBadge>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * 정산 저장 전 비교
+ * - 입점처/기간별: 헤더 합계 전→후, 라인 추가/삭제/변경, 재고 원장 델타
+ * - 재고 반영 여부를 여기서 바꾸면 델타도 바로 다시 계산
+ */
+export function SettlementDiffDialog(props: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  plans: SettlementApplyPlan[]
+  uploadMode: SettlementUploadMode
+  sourceFilename: string | null
+  defaultApplyToInventory: boolean
+  busy?: boolean
+  onConfirm: (applyToInventory: boolean) => void
+}) {
+  const { plans, uploadMode, sourceFilename } = props
+  const [applyToInventory, setApplyToInventory] = useState(props.defaultApplyToInventory)
+
+  const diffs = useMemo(
+    () => plans.map((plan) => buildSettlementDiff({ plan, uploadMode, sourceFilename, applyToInventory })),
+    [plans, uploadMode, sourceFilename, applyToInventory]
+  )
+
+  const overwrites = diffs.filter((d) => !d.isNew).length
+  const inventoryTotal = diffs.reduce((sum, d) => sum + d.inventory.reduce((s, x) => s + x.qtyDelta, 0), 0)
+
+  return (
+    <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-[860px] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>정산 저장 전 확인</DialogTitle>
+          <DialogDescription>
+            정산 {plans.length}건 · 기존 정산 변경 {overwrites}건 · 재고 순변동{" "}
+            <span className="tabular-nums">{inventoryTotal > 0 ? `+${inventoryTotal}` : inventoryTotal}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {plans.map((plan, i) => (
+            <PlanDiff key={`${plan.storeId}__${plan.period.start}__${plan.period.end}`} plan={plan} diff={diffs[i]} />
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2 sm:items-center">
+          <label className="mr-auto flex items-center gap-2 text-xs text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={applyToInventory}
+              onChange={(e) => setApplyToInventory(e.target.checked)}
+            />
+            판매 수량을 재고에도 반영하기
+          </label>
+          <AppButton type="button" variant="outline" onClick={() => props.onOpenChange(false)} disabled={props.busy}>
+            취소
+          </AppButton>
+          <AppButton type="button" onClick={() => props.onConfirm(applyToInventory)} disabled={props.busy}>
+            {props.busy ? "저장 중…" : "확인하고 저장"}
+          </AppButton>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
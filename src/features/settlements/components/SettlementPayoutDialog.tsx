@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useState } from "react"
+import { Trash2 } from "lucide-react"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppBadge } from "@/components/app/AppBadge"
+import { AppInput } from "@/components/app/AppInput"
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+import {
+  addSettlementPaymentDB,
+  deleteSettlementPaymentDB,
+  listSettlementPaymentsDB,
+  updateSettlementPayoutDueDateDB,
+} from "@/data/store.supabase"
+import { formatPeriod } from "@/lib/settlementPeriod"
+import { PAYOUT_STATUS_LABEL, todayIso, type PayoutRow } from "@/lib/settlementPayout"
+import { toast } from "@/lib/toast"
+
+type Payment = Awaited<ReturnType<typeof listSettlementPaymentsDB>>[number]
+
+function won(v: number) {
+  return `${Math.round(v).toLocaleString()}원`
+}
+
+/**
+ * 정산 1건 입금 기록
+ * - 부분 입금은 여러 번 기록 (남은 금액이 기본값)
+ * - 입금 예정일은 입점처 정산 조건으로 계산되지만 여기서 직접 지정 가능
+ */
+export function SettlementPayoutDialog(props: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  row: PayoutRow
+  onChanged: () => void | Promise<void>
+}) {
+  const { row } = props
+
+  const [payments, setPayments] = useState<Payment[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  const [amount, setAmount] = useState(() => String(row.outstanding || ""))
+  const [paidOn, setPaidOn] = useState(todayIso)
+  const [memo, setMemo] = useState("")
+  const [dueDate, setDueDate] = useState(row.dueDate ?? "")
+
+  const loadPayments = useCallback(async () => {
+    try {
+      setLoading(true)
+      setPayments(await listSettlementPaymentsDB({ settlementId: row.settlementId }))
+    } catch (e) {
+      toast.error(`입금 기록을 불러오지 못했어요: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [row.settlementId])
+
+  useEffect(() => {
+    loadPayments()
+  }, [loadPayments])
+
+  const run = async (job: () => Promise<void>, done: string) => {
+    try {
+      setBusy(true)
+      await job()
+      toast.success(done)
+      await loadPayments()
+      await props.onChanged()
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : String(e))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const addPayment = () =>
+    run(async () => {
+      await addSettlementPaymentDB({
+        settlementId: row.settlementId,
+        marketplaceId: row.storeId,
+        amount: Number(String(amount).replace(/,/g, "")),
+        paidOn,
+        memo,
+      })
+      setAmount("")
+      setMemo("")
+    }, "입금을 기록했어요.")
+
+  const removePayment = (paymentId: string) =>
+    run(() => deleteSettlementPaymentDB({ paymentId }), "입금 기록을 삭제했어요.")
+
+  const saveDueDate = (next: string | null) =>
+    run(
+      () => updateSettlementPayoutDueDateDB({ settlementId: row.settlementId, dueDate: next }),
+      next ? "입금 예정일을 지정했어요." : "입금 예정일을 정산 조건 기준으로 되돌렸어요."
+    )
+
+  const paidTotal = payments.reduce((sum, p) => sum + Number(p.amount ?? 0), 0)
+
+  return (
+    <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-[640px] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {row.storeName} · {formatPeriod(row.period)} 입금
+          </DialogTitle>
+          <DialogDescription>
+            정산금 {won(row.netAmount)} · 입금 {won(paidTotal)} · 남은 금액 {won(Math.max(0, row.netAmount - paidTotal))}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <AppBadge variant={row.status === "paid" ? "secondary" : row.overdue ? "destructive" : "outline"}>
+              {row.overdue ? `지연 ${row.overdueDays}일` : PAYOUT_STATUS_LABEL[row.status]}
+            </AppBadge>
+            <span className="text-xs text-muted-foreground">
+              입금 예정일 {row.dueDate ?? "없음"}
+              {row.dueDateOverridden ? " (직접 지정)" : ""}
+            </span>
+          </div>
+
+          <div className="rounded-xl border p-4 space-y-2">
+            <div className="text-sm font-semibold">입금 기록 추가</div>
+            <div className="grid gap-2 sm:grid-cols-[1fr_150px]">
+              <AppInput
+                inputMode="numeric"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="입금액 (환급/정정은 음수)"
+              />
+              <AppInput type="date" value={paidOn} onChange={(e) => setPaidOn(e.target.value)} />
+            </div>
+            <AppInput value={memo} onChange={(e) => setMemo(e.target.value)} placeholder="메모 (선택)" />
+            <div className="flex justify-end">
+              <AppButton type="button" onClick={addPayment} disabled={busy || !amount.trim() || !paidOn}>
+                {busy ? "저장 중…" : "입금 기록"}
+              </AppButton>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-sm font-medium">입금 내역</div>
+            {loading ? (
+              <div className="text-xs text-muted-foreground">불러오는 중…</div>
+            ) : payments.length === 0 ? (
+              <div className="text-xs text-muted-foreground">아직 입금 기록이 없어요.</div>
+            ) : (
+              <div className="overflow-hidden rounded-xl border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[120px]">입금일</TableHead>
+                      <TableHead className="w-[120px] text-right">금액</TableHead>
+                      <TableHead>메모</TableHead>
+                      <TableHead className="w-[60px]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {payments.map((p) => (
+                      <TableRow key={p.id}>
+                        <TableCell className="tabular-nums">{p.paid_on}</TableCell>
+                        <TableCell className="text-right tabular-nums">{won(Number(p.amount ?? 0))}</TableCell>
+                        <TableCell className="truncate text-xs text-muted-foreground">{p.memo ?? ""}</TableCell>
+                        <TableCell className="text-right">
+                          <AppButton
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="text-muted-foreground hover:text-destructive hover:bg-transparent"
+                            onClick={() => removePayment(p.id)}
+                            disabled={busy}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </AppButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+
+          <div className="rounded-xl border p-4 space-y-2">
+            <div className="text-sm font-semibold">입금 예정일</div>
+            <div className="flex flex-wrap items-center gap-2">
+              <AppInput
+                type="date"
+                className="w-[170px]"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+              />
+              <AppButton type="button" variant="outline" onClick={() => saveDueDate(dueDate || null)} disabled={busy}>
+                지정
+              </AppButton>
+              {row.dueDateOverridden ? (
+                <AppButton type="button" variant="ghost" onClick={() => saveDueDate(null)} disabled={busy}>
+                  정산 조건 기준으로
+                </AppButton>
+              ) : null}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
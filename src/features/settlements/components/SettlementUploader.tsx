@@ -1,4 +1,4 @@
-import { useCallback, useMemo, useRef, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import type { ChangeEvent } from "react"
 
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
@@ -16,6 +16,7 @@ import { AppButton } from "@/components/app/AppButton"
 import { AppCard } from "@/components/app/AppCard"
 import { AppBadge } from "@/components/app/AppBadge"
 import { AppInput } from "@/components/app/AppInput"
+import { AppSelect } from "@/components/app/AppSelect"
 
 import {
   Table,
@@ -29,30 +30,85 @@ import {
 import { EmptyState } from "@/components/shared/EmptyState"
 import { ErrorState } from "@/components/shared/ErrorState"
 import { Skeleton } from "@/components/shared/Skeleton"
+import { XlsxSheetPicker } from "@/components/shared/XlsxSheetPicker"
 
 import { toast } from "@/lib/toast"
+import { CSV_ENCODING_OPTIONS, ENCODING_LABEL, readCsvFile } from "@/lib/csvEncoding"
+import type { CsvEncoding, DetectedEncoding } from "@/lib/csvEncoding"
+import { stringifyCsv } from "@/lib/csv"
+import { firstFilledSheetIndex, isXlsxFileName, readXlsxFile } from "@/lib/xlsx"
+import type { XlsxWorkbook } from "@/lib/xlsx"
 import { useAppData } from "@/features/core/useAppData"
 
 import {
   createProductDB,
-  getSettlementV2ByMarketplaceMonthDB,
-  listSettlementLinesV2DB,
-  upsertInventoryItemDB,
-  upsertInventoryItemsBatchDB, // ✅ 추가
-  getMarketplaceCommissionRateDB,
-  replaceSettlementLinesDB,
-  upsertSettlementHeaderDB,
+  listOverlappingSettlementsDB,
+  getSettlementV2ByPeriodDB,
+  getSettlementDetailDB,
+  applySettlementDB,
+  listSettlementImportProfilesDB,
+  listProductAliasesDB,
+  saveProductAliasesDB,
+  getCommissionRuleSetDB,
+  upsertSettlementImportProfileDB,
 } from "@/data/store.supabase"
 
 import { generateId } from "@/data/store"
+import type { ProductAlias, SettlementColumnMapping, SettlementImportProfile, SettlementLineKind } from "@/data/models"
 import { parseCsvTextBasic } from "@/features/settlements/lib/parseSettlementCsv"
+import {
+  AMOUNT_BASIS_LABEL,
+  AMOUNT_KIND_LABEL,
+  DEFAULT_IMPORT_OPTIONS,
+  DELIMITER_OPTIONS,
+  parseKeywords,
+  pickAutoProfile,
+  normalizePeriodMonth,
+  profileToOptions,
+  resolveProfileMapping,
+  rowHasKeyword,
+  toGrossUnitPrice,
+  type SettlementImportOptions,
+} from "@/features/settlements/lib/importProfiles"
+import { stockProducts } from "@/features/products/lib/variants"
+import {
+  MATCH_METHOD_LABEL,
+  aliasesForManualMatch,
+  buildProductMatcher,
+  buildStoreMatcher,
+  type MatchMethod,
+  type ProductMatcher,
+} from "@/features/settlements/lib/settlementMatchers"
+import type { SettlementApplyPlan, SettlementUploadMode } from "@/features/settlements/lib/settlementDiff"
+import { SettlementDiffDialog } from "@/features/settlements/components/SettlementDiffDialog"
+import {
+  classifyLineKind,
+  isDeductionLineKind,
+  isProductLineKind,
+  LINE_KIND_LABEL,
+  signedLine,
+} from "@/features/settlements/lib/settlementAdjustments"
+import {
+  formatPeriod,
+  parsePeriodKey,
+  parsePeriodRangeText,
+  periodKey,
+  periodsOverlap,
+  type SettlementPeriod,
+} from "@/lib/settlementPeriod"
+import { storeTermsOn } from "@/lib/storeTerms"
+import { todayIso } from "@/lib/settlementPayout"
 
 type SettlementCsvRow = {
   store: string
-  period: string
+  period: string // 기간 키: "YYYY-MM" 또는 "YYYY-MM-DD~YYYY-MM-DD"
   barcode: string
-  sold_qty: number
+  sku: string
+  product_name: string
+  kind: SettlementLineKind
+  sold_qty: number // 반품은 음수
   unit_price: number
+  amount: number // 라인 금액 (판매·반품 = 수량 × 단가, 조정 = 파일 금액, 음수)
   currency?: string
 }
 
@@ -61,8 +117,12 @@ type PreviewRow = {
   storeName: string
   period: string
   barcode: string
-  soldQty: number
+  sku: string
+  productNameRaw: string // 파일에 적힌 상품명
+  kind: SettlementLineKind
+  soldQty: number // 반품은 음수, 조정은 0
   unitPrice: number
+  amount: number // 라인 금액 (반품/조정은 음수)
   currency: string
   productId?: string
   productName?: string
@@ -71,13 +131,13 @@ type PreviewRow = {
   status: "ok" | "error"
   error?: string
   ignored?: boolean
+  matchMethod?: MatchMethod
+  confidence?: number // 0~1
+  manual?: boolean // 수동 매칭 (별칭으로 저장됨)
+  suggestion?: { productId: string; productName: string; confidence: number }
 }
 
-type ColumnMapping = {
-  barcode: string
-  sold_qty: string
-  amount: string
-}
+type ColumnMapping = SettlementColumnMapping
 
 function downloadCsv(filename: string, csvBody: string) {
   const blob = new Blob(["\uFEFF" + csvBody], { type: "text/csv;charset=utf-8;" })
@@ -89,20 +149,22 @@ function downloadCsv(filename: string, csvBody: string) {
   URL.revokeObjectURL(url)
 }
 
-function parseIntSafe(v: string): number {
-  const t = (v ?? "").trim()
+// 반품/조정 행의 음수도 받음: "-3" / "−3" / "(3)"
+function parseSignedNumber(v: string): number {
+  let t = (v ?? "").trim().replace(/,/g, "").replace(/₩/g, "").replace(/−/g, "-")
   if (!t) return 0
-  const n = Number(t.replace(/,/g, ""))
-  if (!Number.isFinite(n)) return 0
-  return Math.max(0, Math.floor(n))
+  if (/^\(.*\)$/.test(t)) t = `-${t.slice(1, -1)}`
+  const n = Number(t)
+  return Number.isFinite(n) ? n : 0
 }
 
+function parseIntSafe(v: string): number {
+  return Math.trunc(parseSignedNumber(v))
+}
+
+// 개당 단가(소수 포함)도 받을 수 있도록 반올림은 단가 계산 후에
 function parseMoneySafe(v: string): number {
-  const t = (v ?? "").trim()
-  if (!t) return 0
-  const n = Number(t.replace(/,/g, "").replace(/₩/g, ""))
-  if (!Number.isFinite(n)) return 0
-  return Math.max(0, Math.round(n))
+  return parseSignedNumber(v)
 }
 
 function normHeader(v: string): string {
@@ -113,6 +175,25 @@ function normHeader(v: string): string {
     .replace(/[_-]/g, "")
 }
 
+function guessMapping(headers: string[]): ColumnMapping {
+  return {
+    barcode: guessHeader(headers, ["barcode", "바코드", "ean", "jan", "상품바코드"]) || "",
+    sold_qty: guessHeader(headers, ["sold_qty", "qty", "수량", "판매수량", "매출수량", "판매량"]) || "",
+    amount: guessHeader(headers, ["amount", "순매출", "매출액", "정산금", "금액"]) || "",
+    sku: guessHeader(headers, ["sku", "품번", "상품코드", "자체코드", "품목코드"]) || "",
+    product_name: guessHeader(headers, ["product_name", "상품명", "품명", "제품명", "품목명"]) || "",
+    // 입점처/정산월은 정확히 같은 헤더만 (단일 입점처 파일의 "매장코드" 등 오인 방지)
+    store: exactHeader(headers, ["store", "입점처", "입점처명"]),
+    period: exactHeader(headers, ["period", "정산월", "판매월"]),
+    line_kind: exactHeader(headers, ["line_kind", "kind", "구분", "거래구분", "매출구분", "유형"]),
+  }
+}
+
+function exactHeader(headers: string[], candidates: string[]): string {
+  const wanted = new Set(candidates.map(normHeader))
+  return headers.find((h) => wanted.has(normHeader(h))) ?? ""
+}
+
 function guessHeader(headers: string[], candidates: string[]): string | "" {
   const normalized = headers.map((h) => ({ h, n: normHeader(h) }))
   for (const c of candidates) {
@@ -128,20 +209,36 @@ function guessHeader(headers: string[], candidates: string[]): string | "" {
   return ""
 }
 
+// 기간 키 → "2026.09" / "2026.09.01 ~ 09.07" (못 읽은 값은 그대로)
+function periodLabel(key: string) {
+  const p = parsePeriodKey(key)
+  return p ? formatPeriod(p) : key
+}
+
+// 같은 입점처/기간에 이미 정산이 있을 때 이번 파일을 어떻게 넣을지
+const UPLOAD_MODE_OPTIONS: Array<{ value: SettlementUploadMode; label: string }> = [
+  { value: "replace_batch", label: "같은 파일명 배치만 교체 (없으면 추가)" },
+  { value: "merge", label: "새 배치로 추가 (합산)" },
+  { value: "replace_all", label: "기존 배치 모두 교체" },
+]
+
 function parseWithMapping(input: {
   csvText: string
   mapping: ColumnMapping
-  storeName: string
-  periodMonth: string // "YYYY-MM"
+  options: SettlementImportOptions
+  commissionRateOf: (storeName: string, period: string) => number // 0.25 형태 (net 금액 → 판매가 환산용)
+  storeName: string // 입점처 컬럼이 없거나 비었을 때
+  period: string // 기간 키, 정산월 컬럼이 없거나 비었을 때
 }): SettlementCsvRow[] {
-  const { headers, rows } = parseCsvTextBasic(input.csvText)
+  const { headers, rows } = parseCsvTextBasic(input.csvText, input.options)
   if (headers.length === 0) return []
 
   const idx = new Map<string, number>()
   headers.forEach((h, i) => idx.set(h, i))
 
-  if (!input.mapping.barcode || !idx.has(input.mapping.barcode)) {
-    throw new Error("매핑 오류: 바코드 컬럼을 선택하세요.")
+  const hasCol = (c?: string) => Boolean(c && idx.has(c))
+  if (!hasCol(input.mapping.barcode) && !hasCol(input.mapping.sku) && !hasCol(input.mapping.product_name)) {
+    throw new Error("매핑 오류: 바코드/SKU/상품명 중 하나 이상의 컬럼을 선택하세요.")
   }
   if (!input.mapping.sold_qty || !idx.has(input.mapping.sold_qty)) {
     throw new Error("매핑 오류: 판매수량 컬럼을 선택하세요.")
@@ -150,8 +247,8 @@ function parseWithMapping(input: {
     throw new Error("매핑 오류: 순매출(amount) 컬럼을 선택하세요.")
   }
 
-  const get = (row: string[], colName: string) => {
-    const i = idx.get(colName)
+  const get = (row: string[], colName?: string) => {
+    const i = colName ? idx.get(colName) : undefined
     if (i == null) return ""
     return (row[i] ?? "").trim()
   }
@@ -159,36 +256,60 @@ function parseWithMapping(input: {
   const out: SettlementCsvRow[] = []
 
   for (const row of rows) {
+    // 합계/소계 같은 행은 프로필 키워드로 건너뜀
+    if (rowHasKeyword(row, input.options.skipKeywords)) continue
+
+    // 통합 정산서: 행마다 입점처/정산 기간 (셀을 못 읽으면 그대로 두고 미리보기에서 오류 표시)
+    // - "2026.09.01 ~ 2026.09.07" 같은 기간이면 그 기간, 아니면 정산월
+    const storeName = get(row, input.mapping.store) || input.storeName
+    const periodCell = get(row, input.mapping.period)
+    const periodRange = periodCell ? parsePeriodRangeText(periodCell) : null
+    const period = periodCell
+      ? periodRange
+        ? periodKey(periodRange)
+        : (normalizePeriodMonth(periodCell) ?? periodCell)
+      : input.period
+
     const barcode = get(row, input.mapping.barcode)
+    const sku = get(row, input.mapping.sku)
+    const product_name = get(row, input.mapping.product_name)
     const sold_qty = parseIntSafe(get(row, input.mapping.sold_qty))
     const amount = parseMoneySafe(get(row, input.mapping.amount))
 
     // 완전 빈 줄 skip
-    if (!barcode && sold_qty === 0 && amount === 0) continue
-
-    // amount-only 정책
-    if (sold_qty <= 0 || amount <= 0) {
-      out.push({
-        store: input.storeName,
-        period: input.periodMonth,
-        barcode,
-        sold_qty,
-        unit_price: 0,
-        currency: "KRW",
-      })
+    if (!barcode && !sku && !product_name && sold_qty === 0 && amount === 0) continue
+
+    // 판매/반품/할인/배송비/광고비 (반품 수량·조정 금액은 음수로 정리)
+    const kind = classifyLineKind({
+      kindCell: get(row, input.mapping.line_kind),
+      productName: product_name,
+      hasProductKey: Boolean(barcode || sku),
+      qty: sold_qty,
+      amount,
+    })
+    const signed = signedLine(kind, sold_qty, amount)
+    const base = { store: storeName, period, barcode, sku, product_name, kind, currency: "KRW" }
+
+    // 금액만 있는 조정: 파일 금액 그대로 (판매가 환산 안 함)
+    if (!isProductLineKind(kind)) {
+      out.push({ ...base, sold_qty: 0, unit_price: 0, amount: signed.amount })
       continue
     }
 
-    const unit_price = Math.round(amount / sold_qty)
+    // amount-only 정책 (판매는 수량/금액이 양수, 반품은 음수여야 함 → 아니면 미리보기에서 오류)
+    if (signed.qty === 0 || signed.amount === 0 || (kind === "sale" && (signed.qty < 0 || signed.amount < 0))) {
+      out.push({ ...base, sold_qty: signed.qty, unit_price: 0, amount: 0 })
+      continue
+    }
 
-    out.push({
-      store: input.storeName,
-      period: input.periodMonth,
-      barcode,
-      sold_qty,
-      unit_price,
-      currency: "KRW",
+    const unit_price = toGrossUnitPrice({
+      amount: Math.abs(signed.amount),
+      qty: Math.abs(signed.qty),
+      options: input.options,
+      commissionRate: input.commissionRateOf(storeName, period),
     })
+
+    out.push({ ...base, sold_qty: signed.qty, unit_price, amount: signed.qty * unit_price })
   }
 
   return out
@@ -225,30 +346,194 @@ function SelectField(props: {
 
 export default function SettlementUploader() {
   const a = useAppData()
-  const products = a.data.products ?? []
+  // 수동 매칭은 옵션 상품 단위 (옵션이 있는 대표 제품은 제외)
+  const products = useMemo(() => stockProducts(a.data.products ?? []), [a.data.products])
 
   const inputRef = useRef<HTMLInputElement | null>(null)
   const [busy, setBusy] = useState(false)
   const [rows, setRows] = useState<PreviewRow[] | null>(null)
   const [lastFileName, setLastFileName] = useState<string>("")
 
+  // ✅ 인코딩: 자동 감지(BOM → UTF-8 → CP949) 또는 수동 지정
+  // - 수동으로 바꾸면 마지막 파일을 다시 읽음
+  const [csvEncoding, setCsvEncoding] = useState<CsvEncoding>("auto")
+  const [detectedEncoding, setDetectedEncoding] = useState<DetectedEncoding | null>(null)
+  const lastFileRef = useRef<File | null>(null)
+
+  // ✅ 엑셀(.xlsx): 시트를 CSV 텍스트로 바꿔 같은 매핑/미리보기 흐름을 탐
+  const [xlsxBook, setXlsxBook] = useState<XlsxWorkbook | null>(null)
+  const [xlsxSheetIndex, setXlsxSheetIndex] = useState(0)
+
   const [applyToInventory, setApplyToInventory] = useState<boolean>(true)
+  const [uploadMode, setUploadMode] = useState<SettlementUploadMode>("replace_batch")
 
   // ✅ 매핑 UI용 상태
   const [csvText, setCsvText] = useState<string>("")
-  const [csvHeaders, setCsvHeaders] = useState<string[]>([])
   const [mapping, setMapping] = useState<ColumnMapping>({
     barcode: "",
     sold_qty: "",
     amount: "",
   })
 
+  // ✅ 파일 형식(구분자/헤더 위치/금액 의미 등) + 입점처별 가져오기 프로필
+  const [importOptions, setImportOptions] = useState<SettlementImportOptions>(DEFAULT_IMPORT_OPTIONS)
+  const [profiles, setProfiles] = useState<SettlementImportProfile[]>([])
+  const [activeProfileId, setActiveProfileId] = useState<string>("")
+  const [profileName, setProfileName] = useState<string>("")
+  const [skipKeywordsText, setSkipKeywordsText] = useState<string>("")
+  const [profileSaving, setProfileSaving] = useState(false)
+
+  // ✅ 입점처별 제품 별칭 (수동 매칭을 기억해 다음 파일에서 자동 매칭)
+  const [aliases, setAliases] = useState<ProductAlias[]>([])
+
+  const { delimiter, headerRow, footerRows } = importOptions
+  const csvHeaders = useMemo(
+    () => (csvText ? parseCsvTextBasic(csvText, { delimiter, headerRow, footerRows }).headers : []),
+    [csvText, delimiter, headerRow, footerRows]
+  )
+
   const [selectedStoreId, setSelectedStoreId] = useState<string>("")
   const [selectedMonth, setSelectedMonth] = useState<string>(() => {
     const now = new Date()
     return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`
   })
 
+  // 정산 기간: 월 단위 또는 기간 지정(주/격주/수시 정산 입점처)
+  const [periodMode, setPeriodMode] = useState<"month" | "range">("month")
+  const [rangeStart, setRangeStart] = useState("")
+  const [rangeEnd, setRangeEnd] = useState("")
+
+  const defaultPeriod = useMemo(() => {
+    if (periodMode === "month") return selectedMonth
+    const p = parsePeriodKey(`${rangeStart}~${rangeEnd}`)
+    return p ? periodKey(p) : ""
+  }, [periodMode, selectedMonth, rangeStart, rangeEnd])
+
+  const onChangeStore = useCallback(
+    (storeId: string) => {
+      setSelectedStoreId(storeId)
+      const cycle = a.data.stores.find((s) => s.id === storeId)?.settlementCycle
+      if (cycle) setPeriodMode(cycle === "monthly" ? "month" : "range")
+    },
+    [a.data.stores]
+  )
+
+  // 프로필 적용: 형식 설정 + (파일이 있으면) 파일 헤더에 맞춘 매핑
+  const applyProfile = useCallback((p: SettlementImportProfile | null, text: string) => {
+    const options = p ? profileToOptions(p) : DEFAULT_IMPORT_OPTIONS
+    setActiveProfileId(p?.id ?? "")
+    setProfileName(p?.name ?? "")
+    setImportOptions(options)
+    setSkipKeywordsText(options.skipKeywords.join(", "))
+
+    if (!text) {
+      if (p) setMapping(p.mapping)
+      return
+    }
+    const { headers } = parseCsvTextBasic(text, options)
+    const guessed = guessMapping(headers)
+    setMapping(p ? resolveProfileMapping(p.mapping, headers, guessed) : guessed)
+  }, [])
+
+  // 통합 정산서는 여러 입점처가 섞이므로 별칭은 전체를 불러와 입점처별로 나눠 씀
+  useEffect(() => {
+    let alive = true
+    listProductAliasesDB()
+      .then((list) => {
+        if (alive) setAliases(list)
+      })
+      .catch((e) => console.error(e))
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  const matcherFor = useMemo(() => {
+    const cache = new Map<string, ProductMatcher>()
+    return (storeId: string) => {
+      let m = cache.get(storeId)
+      if (!m) {
+        m = buildProductMatcher({ products, aliases: aliases.filter((x) => x.storeId === storeId) })
+        cache.set(storeId, m)
+      }
+      return m
+    }
+  }, [products, aliases])
+
+  const resolveStore = useMemo(() => buildStoreMatcher(a.data.stores), [a.data.stores])
+
+  // 입점처를 고르면 그 입점처의 프로필을 불러와 자동 적용
+  const csvTextRef = useRef("")
+  useEffect(() => {
+    csvTextRef.current = csvText
+  }, [csvText])
+
+  useEffect(() => {
+    if (!selectedStoreId) {
+      setProfiles([])
+      return
+    }
+
+    let alive = true
+    ;(async () => {
+      try {
+        const list = await listSettlementImportProfilesDB({ storeId: selectedStoreId })
+        if (!alive) return
+        setProfiles(list)
+        const auto = pickAutoProfile(list)
+        if (auto) {
+          applyProfile(auto, csvTextRef.current)
+          toast.success(`가져오기 프로필 “${auto.name}”을 적용했어요.`)
+        } else {
+          setActiveProfileId("")
+        }
+      } catch (e) {
+        console.error(e)
+        if (alive) setProfiles([])
+      }
+    })()
+
+    return () => {
+      alive = false
+    }
+  }, [selectedStoreId, applyProfile])
+
+  const saveProfile = useCallback(async () => {
+    if (!selectedStoreId) {
+      toast.error("입점처를 먼저 선택하세요.")
+      return
+    }
+    const name = profileName.trim()
+    if (!name) {
+      toast.error("프로필 이름을 입력하세요.")
+      return
+    }
+
+    try {
+      setProfileSaving(true)
+      const active = profiles.find((p) => p.id === activeProfileId)
+      const saved = await upsertSettlementImportProfileDB({
+        // 이름을 바꿔 저장하면 새 프로필
+        id: active && active.name === name ? active.id : null,
+        storeId: selectedStoreId,
+        name,
+        mapping,
+        ...importOptions,
+        skipKeywords: parseKeywords(skipKeywordsText),
+        // 첫 프로필이거나 기본 프로필을 고쳐 저장하면 기본으로
+        isDefault: profiles.length === 0 || Boolean(active?.isDefault && active.name === name),
+      })
+      setProfiles(await listSettlementImportProfilesDB({ storeId: selectedStoreId }))
+      setActiveProfileId(saved.id)
+      toast.success(`프로필 “${saved.name}”을 저장했어요.`)
+    } catch (e) {
+      console.error(e)
+      toast.error(`프로필 저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setProfileSaving(false)
+    }
+  }, [selectedStoreId, profileName, profiles, activeProfileId, mapping, importOptions, skipKeywordsText])
+
   // ===== 수동 매칭 / 제품 생성 UI 상태 =====
   const [matchOpenIdx, setMatchOpenIdx] = useState<number | null>(null)
 
@@ -261,10 +546,21 @@ export default function SettlementUploader() {
     barcode: string
   }>({ rowIdx: -1, name: "", sku: "", barcode: "" })
 
-  const applyManualMatch = useCallback((rowIdx: number, p: any) => {
+  const applyManualMatch = useCallback((rowIdx: number, p: { id: string; name?: string | null }) => {
+    const row = rows?.find((x) => x.idx === rowIdx)
+    // 같은 파일에서 식별자가 똑같은 미매칭 행도 함께 매칭
+    const sameItem = (x: PreviewRow) =>
+      Boolean(row) &&
+      x.status === "error" &&
+      Boolean(x.storeId) &&
+      x.storeId === row?.storeId &&
+      x.barcode === row?.barcode &&
+      x.sku === row?.sku &&
+      x.productNameRaw === row?.productNameRaw
+
     setRows((prev) =>
       (prev ?? []).map((x) => {
-        if (x.idx !== rowIdx) return x
+        if (x.idx !== rowIdx && !sameItem(x)) return x
         return {
           ...x,
           status: "ok",
@@ -273,27 +569,52 @@ export default function SettlementUploader() {
           productId: String(p.id),
           productName: String(p.name ?? ""),
           productNameMatched: String(p.name ?? ""),
+          matchMethod: undefined,
+          confidence: undefined,
+          manual: true,
+          suggestion: undefined,
         }
       })
     )
-  }, [])
+
+    // 수동 매칭은 입점처 별칭으로 기억 → 다음 파일에서 자동 매칭
+    if (!row?.storeId) return
+    const storeId = row.storeId
+    const learned = aliasesForManualMatch({
+      barcode: row.barcode,
+      sku: row.sku,
+      name: row.productNameRaw,
+      productId: String(p.id),
+    })
+    saveProductAliasesDB({ storeId, aliases: learned })
+      .then(() => listProductAliasesDB())
+      .then((list) => setAliases(list))
+      .catch((e) => {
+        console.error(e)
+        toast.error(`별칭 저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+      })
+  }, [rows])
 
   const openCreateProduct = useCallback((r: PreviewRow) => {
     setCreateDraft({
       rowIdx: r.idx,
-      name: String(r.productName ?? "").trim() || "새 제품",
-      sku: "",
+      name: r.productNameRaw || String(r.productName ?? "").trim() || "새 제품",
+      sku: r.sku,
       barcode: String(r.barcode ?? "").trim(),
     })
     setCreateOpen(true)
   }, [])
 
   const templateDownload = useCallback(() => {
+    // store/period는 선택 (여러 입점처·여러 달을 한 파일로 올릴 때)
+    // line_kind도 선택: 비우면 판매, 반품/할인/배송비/광고비는 금액을 음수로
     const template =
-      "barcode,sold_qty,amount\n" +
-      "8801234567890,1,11000\n" +
-      "8801234567891,3,18000\n" +
-      "8801234567001,4,31600\n"
+      "store,period,line_kind,barcode,sold_qty,amount\n" +
+      ",,,8801234567890,1,11000\n" +
+      ",,,8801234567891,3,18000\n" +
+      ",,,8801234567001,4,31600\n" +
+      ",,반품,8801234567891,-1,-6000\n" +
+      ",,배송비,,0,-3000\n"
 
     downloadCsv("settlement_template.csv", template)
     toast.success("정산 CSV 템플릿을 다운로드했어요.")
@@ -304,127 +625,217 @@ export default function SettlementUploader() {
     const r = (rows ?? []).filter((x) => !x.ignored)
     const ok = r.filter((x) => x.status === "ok")
     const err = r.filter((x) => x.status === "error")
-    const gross = ok.reduce((sum, x) => sum + x.soldQty * x.unitPrice, 0)
+    const gross = ok.filter((x) => !isDeductionLineKind(x.kind)).reduce((sum, x) => sum + x.amount, 0)
+    const deductions = ok.filter((x) => isDeductionLineKind(x.kind)).reduce((sum, x) => sum - x.amount, 0)
     const sold = ok.reduce((sum, x) => sum + x.soldQty, 0)
+    const adjustments = ok.filter((x) => x.kind !== "sale").length
     const stores = new Set(ok.map((x) => x.storeName.trim()).filter(Boolean)).size
-    return { ok: ok.length, err: err.length, gross, sold, stores }
+    return { ok: ok.length, err: err.length, gross, deductions, sold, adjustments, stores }
   }, [rows])
 
   // ✅ CSV → 미리보기 생성
+  // - 제품 매칭: 바코드 → SKU → 별칭 → 상품명 (유사 상품명은 신뢰도가 높을 때만 자동, 아니면 추천)
   const buildPreview = useCallback(
     (parsed: SettlementCsvRow[]) => {
+      const productById = new Map(products.map((p) => [p.id, p]))
+
       const next: PreviewRow[] = parsed.map((r, i) => {
         const storeName = (r.store ?? "").trim()
         const period = (r.period ?? "").trim()
         const barcode = String(r.barcode ?? "").trim()
-        const soldQty = Math.max(0, Math.floor(r.sold_qty ?? 0))
-        const unitPrice = Math.max(0, Math.round(r.unit_price ?? 0))
+        const sku = String(r.sku ?? "").trim()
+        const productNameRaw = String(r.product_name ?? "").trim()
+        const kind = r.kind ?? "sale"
+        const isProductLine = isProductLineKind(kind)
+        const soldQty = isProductLine ? Math.trunc(r.sold_qty ?? 0) : 0
+        const unitPrice = isProductLine ? Math.max(0, Math.round(r.unit_price ?? 0)) : 0
+        const amount = isProductLine ? soldQty * unitPrice : Math.round(r.amount ?? 0)
         const currency = (r.currency ?? "KRW").trim().toUpperCase() || "KRW"
 
+        const base = {
+          idx: i + 1,
+          storeName,
+          period,
+          barcode,
+          sku,
+          productNameRaw,
+          kind,
+          soldQty,
+          unitPrice,
+          amount,
+          currency,
+        }
+
         if (!storeName) {
-          return { idx: i + 1, storeName, period, barcode, soldQty, unitPrice, currency, status: "error", error: "store(입점처명)이 비어있습니다." }
+          return { ...base, status: "error", error: "store(입점처명)이 비어있습니다." }
+        }
+        if (!parsePeriodKey(period)) {
+          return {
+            ...base,
+            status: "error",
+            error: "정산 기간을 읽지 못했습니다. (예: 2026-09, 2026.09.30, 2026.09.01 ~ 2026.09.07)",
+          }
+        }
+        if (isProductLine && !barcode && !sku && !productNameRaw) {
+          return { ...base, status: "error", error: "바코드/SKU/상품명이 모두 비어있습니다." }
         }
-        if (!/^\d{4}-\d{2}$/.test(period)) {
-          return { idx: i + 1, storeName, period, barcode, soldQty, unitPrice, currency, status: "error", error: "period 형식이 올바르지 않습니다 (YYYY-MM)." }
+        if (kind === "sale" && soldQty <= 0) {
+          return { ...base, status: "error", error: "sold_qty는 1 이상이어야 합니다." }
         }
-        if (!barcode) {
-          return { idx: i + 1, storeName, period, barcode, soldQty, unitPrice, currency, status: "error", error: "barcode가 비어있습니다." }
+        if (kind === "return" && soldQty >= 0) {
+          return { ...base, status: "error", error: "반품 수량을 읽지 못했습니다." }
         }
-        if (soldQty <= 0) {
-          return { idx: i + 1, storeName, period, barcode, soldQty, unitPrice, currency, status: "error", error: "sold_qty는 1 이상이어야 합니다." }
+        if (isProductLine && unitPrice <= 0) {
+          return { ...base, status: "error", error: "unit_price는 1 이상이어야 합니다." }
         }
-        if (unitPrice <= 0) {
-          return { idx: i + 1, storeName, period, barcode, soldQty, unitPrice, currency, status: "error", error: "unit_price는 1 이상이어야 합니다." }
+        if (!isProductLine && amount === 0) {
+          return { ...base, status: "error", error: `${LINE_KIND_LABEL[kind]} 금액이 비어있습니다.` }
         }
         if (currency !== "KRW") {
-          return { idx: i + 1, storeName, period, barcode, soldQty, unitPrice, currency, status: "error", error: "현재는 KRW만 지원합니다." }
+          return { ...base, status: "error", error: "현재는 KRW만 지원합니다." }
         }
 
-        const store = a.data.stores.find((s: any) => String(s.name ?? "").trim() === storeName)
+        const store = resolveStore(storeName)
         if (!store) {
-          return { idx: i + 1, storeName, period, barcode, soldQty, unitPrice, currency, status: "error", error: "앱에 등록된 입점처명과 일치하지 않습니다." }
+          return {
+            ...base,
+            status: "error",
+            error: "앱에 등록된 입점처명/별칭과 일치하지 않습니다. (입점처 상세 › 정산 파일 속 이름에 추가하세요)",
+          }
+        }
+
+        // 금액만 있는 조정은 제품 매칭 없이 그대로
+        if (!isProductLine) {
+          return { ...base, ignored: false, storeId: store.id, status: "ok" }
         }
 
-        const product = a.data.products.find((p: any) => String(p.barcode ?? "").trim() === barcode)
-        if (!product) {
+        const matcher = matcherFor(store.id)
+        const m = { barcode, sku, name: productNameRaw }
+        const hit = matcher.match(m)
+        const product = hit ? productById.get(hit.productId) : undefined
+        if (!hit || !product) {
+          const sug = matcher.suggest(m)
+          const sugProduct = sug ? productById.get(sug.productId) : undefined
           return {
-            idx: i + 1,
+            ...base,
             ignored: false,
-            storeName,
-            period,
-            barcode,
-            soldQty,
-            unitPrice,
-            currency,
             storeId: store.id,
             status: "error",
-            error: "바코드에 해당하는 제품이 없습니다. (제품 선택 또는 새 제품 만들기를 사용하세요)",
+            error: "일치하는 제품이 없습니다. (제품 선택 또는 새 제품 만들기를 사용하세요)",
+            suggestion:
+              sug && sugProduct
+                ? { productId: sugProduct.id, productName: sugProduct.name, confidence: sug.confidence }
+                : undefined,
           }
         }
 
         return {
-          idx: i + 1,
+          ...base,
           ignored: false,
-          storeName,
-          period,
-          barcode,
-          soldQty,
-          unitPrice,
-          currency,
           storeId: store.id,
           productId: product.id,
           productName: product.name,
           productNameMatched: product.name,
+          matchMethod: hit.method,
+          confidence: hit.confidence,
           status: "ok",
         }
       })
 
       setRows(next)
     },
-    [a.data.products, a.data.stores]
+    [products, resolveStore, matcherFor]
   )
 
+  // ✅ 불러온 텍스트 → 헤더 추출 + 매핑 추정 (CSV/엑셀 공용)
+  const loadCsvText = useCallback((text: string, options: SettlementImportOptions = importOptions) => {
+    const { headers } = parseCsvTextBasic(text, options)
+
+    if (headers.length === 0) {
+      toast.error("헤더를 읽지 못했습니다. 파일 형식을 확인하세요.")
+      return false
+    }
+
+    setCsvText(text)
+    setRows(null)
+
+    // 적용 중인 프로필이 있으면 프로필 매핑 우선 (파일에 없는 컬럼만 추정)
+    const guessed = guessMapping(headers)
+    const active = profiles.find((p) => p.id === activeProfileId)
+    setMapping(active ? resolveProfileMapping(active.mapping, headers, guessed) : guessed)
+    return true
+  }, [importOptions, profiles, activeProfileId])
+
   // ✅ 파일 선택 → 텍스트 저장 + 헤더 추출 + 매핑 추정
-  const onPickFile = useCallback(async (file: File) => {
+  const onPickFile = useCallback(async (file: File, encoding: CsvEncoding = csvEncoding) => {
     // ✅ 업로드 파일 기본 검증 (운영 안전장치)
   const MAX_BYTES = 5 * 1024 * 1024 // 5MB
   if (file.size > MAX_BYTES) {
-    toast.error("CSV 파일이 너무 큽니다. 5MB 이하로 업로드해주세요.")
+    toast.error("파일이 너무 큽니다. 5MB 이하로 업로드해주세요.")
     return
   }
-  if (!file.name.toLowerCase().endsWith(".csv")) {
-    toast.error("CSV 파일(.csv)만 업로드할 수 있습니다.")
+  const isXlsx = isXlsxFileName(file.name)
+  if (!isXlsx && !file.name.toLowerCase().endsWith(".csv")) {
+    toast.error("CSV(.csv) 또는 엑셀(.xlsx) 파일만 업로드할 수 있습니다.")
     return
   }
     try {
-      const text = await file.text()
-      const { headers } = parseCsvTextBasic(text)
-
-      if (headers.length === 0) {
-        toast.error("CSV 헤더를 읽지 못했습니다. 파일 형식을 확인하세요.")
+      if (isXlsx) {
+        const book = await readXlsxFile(file)
+        // 값이 있는 첫 시트
+        const first = firstFilledSheetIndex(book)
+        // 시트는 쉼표 CSV로 바꾸므로 구분자는 자동
+        const options = { ...importOptions, delimiter: null }
+        if (!loadCsvText(stringifyCsv(book.sheets[first].rows), options)) return
+        setImportOptions(options)
+
+        lastFileRef.current = file
+        setXlsxBook(book)
+        setXlsxSheetIndex(first)
+        setDetectedEncoding(null)
+        setLastFileName(file.name)
+        toast.success("엑셀을 불러왔어요. 시트/헤더 행과 컬럼 매핑을 확인한 뒤 미리보기를 생성하세요.")
         return
       }
 
-      setCsvText(text)
-      setCsvHeaders(headers)
-      setRows(null)
-      setLastFileName(file.name)
+      const { text, encoding: detected } = await readCsvFile(file, encoding)
+      if (!loadCsvText(text)) return
 
-      const guessed: ColumnMapping = {
-        barcode: guessHeader(headers, ["barcode", "바코드", "ean", "jan", "상품바코드"]) || "",
-        sold_qty: guessHeader(headers, ["sold_qty", "qty", "수량", "판매수량", "매출수량", "판매량"]) || "",
-        amount: guessHeader(headers, ["amount", "순매출", "매출액", "정산금", "금액"]) || "",
-      }
-      setMapping(guessed)
+      lastFileRef.current = file
+      setXlsxBook(null)
+      setDetectedEncoding(detected)
+      setLastFileName(file.name)
 
       toast.success("CSV를 불러왔어요. 컬럼 매핑을 확인한 뒤 미리보기를 생성하세요.")
-    } catch (e: any) {
+    } catch (e) {
       console.error(e)
-      toast.error(`CSV 읽기 실패: ${e?.message ?? e}`)
+      toast.error(`파일 읽기 실패: ${e instanceof Error ? e.message : String(e)}`)
     } finally {
       if (inputRef.current) inputRef.current.value = ""
     }
-  }, [])
+  }, [csvEncoding, importOptions, loadCsvText])
+
+  // 엑셀 시트 변경 → 그 시트로 다시 매핑
+  const onChangeSheet = useCallback((i: number) => {
+    const sheet = xlsxBook?.sheets[i]
+    if (!sheet) return
+    setXlsxSheetIndex(i)
+    loadCsvText(stringifyCsv(sheet.rows))
+  }, [xlsxBook, loadCsvText])
+
+  // 엑셀 헤더 행 변경 → 헤더 위치 반영 + 매핑 다시 추정
+  const onChangeHeaderRow = useCallback((headerRow: number) => {
+    const next = { ...importOptions, headerRow }
+    setImportOptions(next)
+    const { headers } = parseCsvTextBasic(csvText, next)
+    setMapping(guessMapping(headers))
+  }, [importOptions, csvText])
+
+  const onChangeEncoding = useCallback((v: string) => {
+    const next: CsvEncoding = v === "utf-8" || v === "cp949" ? v : "auto"
+    setCsvEncoding(next)
+    if (lastFileRef.current && !isXlsxFileName(lastFileRef.current.name)) void onPickFile(lastFileRef.current, next)
+  }, [onPickFile])
 
   const onChangeFile = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -436,13 +847,13 @@ export default function SettlementUploader() {
     return Boolean(
       csvText &&
         csvHeaders.length > 0 &&
-        selectedStoreId &&
-        selectedMonth &&
-        mapping.barcode &&
+        (selectedStoreId || mapping.store) &&
+        (defaultPeriod || mapping.period) &&
+        (mapping.barcode || mapping.sku || mapping.product_name) &&
         mapping.sold_qty &&
         mapping.amount
     )
-  }, [csvText, csvHeaders.length, selectedStoreId, selectedMonth, mapping])
+  }, [csvText, csvHeaders.length, selectedStoreId, defaultPeriod, mapping])
 
   const onBuildPreviewClick = useCallback(() => {
     try {
@@ -451,8 +862,9 @@ export default function SettlementUploader() {
         return
       }
 
-      const store = a.data.stores.find((s: any) => s.id === selectedStoreId)
-      if (!store) {
+      // 입점처 컬럼이 있으면 선택한 입점처는 빈 칸의 기본값
+      const store = a.data.stores.find((s) => s.id === selectedStoreId)
+      if (!store && !mapping.store) {
         toast.error("입점처를 선택하세요.")
         return
       }
@@ -460,8 +872,15 @@ export default function SettlementUploader() {
       const parsed = parseWithMapping({
         csvText,
         mapping,
-        storeName: String(store.name ?? "").trim(),
-        periodMonth: selectedMonth,
+        options: { ...importOptions, skipKeywords: parseKeywords(skipKeywordsText) },
+        // 미리보기 단계에선 입점처 수수료(%) 기준으로 환산 (정산 기간에 적용되는 조건)
+        commissionRateOf: (name, period) => {
+          const on = parsePeriodKey(period)?.start ?? todayIso()
+          const terms = storeTermsOn(resolveStore(name), a.data.storeTerms, on)
+          return (Number(terms?.commissionRate ?? 0) || 0) / 100
+        },
+        storeName: String(store?.name ?? "").trim(),
+        period: defaultPeriod,
       })
 
       if (parsed.length === 0) {
@@ -481,14 +900,28 @@ if (parsed.length > MAX_ROWS) {
       console.error(e)
       toast.error(`미리보기 생성 실패: ${e?.message ?? e}`)
     }
-  }, [canBuildPreview, csvText, mapping, buildPreview, a.data.stores, selectedStoreId, selectedMonth])
+  }, [
+    canBuildPreview,
+    csvText,
+    mapping,
+    importOptions,
+    skipKeywordsText,
+    buildPreview,
+    a.data.stores,
+    a.data.storeTerms,
+    resolveStore,
+    selectedStoreId,
+    defaultPeriod,
+  ])
+
+  // ✅ 저장 전 비교 화면 (입점처/기간별 계획 + 기존 정산)
+  const [diffPlans, setDiffPlans] = useState<SettlementApplyPlan[] | null>(null)
 
   /**
-   * ✅ v2 저장
-   * - 헤더 upsert
-   * - 라인 delete+insert
-   * - 재업로드(동일 월/입점처)도 안전하게 덮어씀
-   * - 재고 반영은 옵션(델타 방식)
+   * ✅ v2 저장 1단계: 계획 만들기 → 비교 화면
+   * - 미리보기 행을 입점처/기간별로 묶고 제품별 라인으로 합산
+   * - 같은 입점처에 기간이 겹치는 다른 정산이 있으면 여기서 중단
+   * - 이미 저장된 같은 기간 정산은 배치/라인까지 읽어 비교 화면에 넘김
    */
   const apply = useCallback(async () => {
     if (!rows || rows.length === 0) return
@@ -501,162 +934,210 @@ if (parsed.length > MAX_ROWS) {
       .filter((r) => !r.ignored)
       .filter((r) => r.status === "ok") as Array<Required<PreviewRow>>
   
-    const byStoreMonth = new Map<
+    const byStorePeriod = new Map<
       string,
-      { storeId: string; month: string; storeName: string; rows: Required<PreviewRow>[] }
+      { storeId: string; period: SettlementPeriod; storeName: string; rows: Required<PreviewRow>[] }
     >()
   
     for (const r of okRows) {
       const key = `${r.storeId}__${r.period}`
-      const cur = byStoreMonth.get(key)
-      if (!cur) byStoreMonth.set(key, { storeId: r.storeId, month: r.period, storeName: r.storeName, rows: [r] })
+      const cur = byStorePeriod.get(key)
+      const period = parsePeriodKey(r.period)
+      if (!period) continue
+      if (!cur) byStorePeriod.set(key, { storeId: r.storeId, period, storeName: r.storeName, rows: [r] })
       else cur.rows.push(r)
     }
   
     try {
       setBusy(true)
-  
-      // ✅ 재고 반영 확인은 apply 시작 시 1회만 (부분 적용/반복 confirm 방지)
-      const shouldApplyInventory =
-        applyToInventory ? window.confirm("판매 수량을 재고에 반영하시겠습니까?") : false
-  
-      for (const g of byStoreMonth.values()) {
-        // === 1) old qty map ===
-        const existing = await getSettlementV2ByMarketplaceMonthDB({
+
+      // ✅ 기간 겹침 확인 (파일 안 + 저장된 정산)
+      const groups = Array.from(byStorePeriod.values())
+      const overlaps: string[] = []
+      groups.forEach((g, i) => {
+        for (const o of groups.slice(i + 1)) {
+          if (o.storeId === g.storeId && periodsOverlap(o.period, g.period)) {
+            overlaps.push(`${g.storeName}: ${formatPeriod(g.period)} ↔ ${formatPeriod(o.period)} (파일 안)`)
+          }
+        }
+      })
+      for (const g of groups) {
+        const saved = await listOverlappingSettlementsDB({
           marketplaceId: g.storeId,
-          periodMonth: g.month,
+          periodStart: g.period.start,
+          periodEnd: g.period.end,
         })
-  
-        const oldQty = new Map<string, number>()
-        if (existing?.id) {
-          const oldLines = await listSettlementLinesV2DB({ settlementId: existing.id })
-          for (const l of oldLines) {
-            const pid = String(l.product_id ?? "")
-            if (!pid) continue
-            const q = Number(l.qty_sold ?? 0)
-            oldQty.set(pid, (oldQty.get(pid) ?? 0) + q)
-          }
+        for (const s of saved) {
+          overlaps.push(`${g.storeName}: ${formatPeriod(g.period)} ↔ ${formatPeriod({ start: s.period_start, end: s.period_end })} (저장된 정산)`)
         }
-  
-        // === 2) new lines aggregate ===
+      }
+      if (overlaps.length > 0) {
+        toast.error(`정산 기간이 겹쳐 저장할 수 없습니다. 기간을 고치거나 기존 정산을 삭제하세요. ${overlaps.slice(0, 3).join(" / ")}`)
+        return
+      }
+
+      const productCategory = new Map<string, string>()
+      for (const p of a.data.products) if (p.category) productCategory.set(p.id, p.category)
+
+      const plans: SettlementApplyPlan[] = []
+      for (const g of groups) {
+        // === 1) new lines aggregate ===
         const agg = new Map<
           string,
-          { productId: string; productName: string; soldQty: number; unitPrice: number; gross: number }
+          {
+            kind: SettlementLineKind
+            productId: string | null
+            productName: string
+            nameRaw: string
+            skuRaw: string
+            manual: boolean
+            soldQty: number
+            unitPrice: number
+            gross: number
+          }
         >()
   
         for (const r of g.rows) {
-          const k = r.productId
+          // 판매/반품은 제품별, 금액 조정은 유형 + 파일에 적힌 이름별로 합침
+          const isProductLine = isProductLineKind(r.kind)
+          const k = isProductLine ? `${r.kind}:${r.productId}` : `${r.kind}:${r.productNameRaw}`
           const prev = agg.get(k)
           if (!prev) {
-            const gross = r.soldQty * r.unitPrice
             agg.set(k, {
-              productId: r.productId,
-              productName: r.productName ?? "",
+              kind: r.kind,
+              productId: isProductLine ? r.productId : null,
+              productName: isProductLine ? (r.productName ?? "") : "",
+              nameRaw: r.productNameRaw || (isProductLine ? "" : LINE_KIND_LABEL[r.kind]),
+              skuRaw: r.sku,
+              manual: Boolean(r.manual),
               soldQty: r.soldQty,
               unitPrice: r.unitPrice,
-              gross,
+              gross: r.amount,
             })
-          } else {
+          } else if (isProductLine) {
             prev.soldQty += r.soldQty
             prev.unitPrice = r.unitPrice
             prev.gross = prev.soldQty * prev.unitPrice
+            prev.manual = prev.manual || Boolean(r.manual)
+          } else {
+            prev.gross += r.amount
           }
         }
   
         const lines = Array.from(agg.values()).map((x) => ({
+          lineKind: x.kind,
           productId: x.productId,
-          productNameRaw: x.productName || "(unknown)",
+          productNameRaw: x.nameRaw || x.productName || "(unknown)",
           productNameMatched: x.productName || null,
-          skuRaw: null as string | null,
+          skuRaw: x.skuRaw || null,
           qtySold: x.soldQty,
-          unitPrice: x.unitPrice,
+          unitPrice: x.productId ? x.unitPrice : null,
           grossAmount: x.gross,
-          matchStatus: "matched" as const,
+          matchStatus: x.manual ? ("manual" as const) : ("matched" as const),
         }))
   
-        const grossAmount = lines.reduce((sum, l) => sum + l.grossAmount, 0)
-  
-        // === 3) commission rate ===
-        let commissionRate = 0
-        try {
-          commissionRate = await getMarketplaceCommissionRateDB({ marketplaceId: g.storeId }) // 0.25 형태
-        } catch {
-          commissionRate = 0
-        }
-        if (!commissionRate) {
-          const store = a.data.stores.find((s: any) => s.id === g.storeId)
-          const pct = Number(store?.commissionRate ?? 0) || 0
-          commissionRate = pct / 100
-        }
-  
-        const commissionAmount = Math.round(grossAmount * commissionRate)
-        const netAmount = grossAmount - commissionAmount
-  
-        // === 4) header upsert + replace lines ===
-        const settlement = await upsertSettlementHeaderDB({
+        // === 2) commission rate: 정산 기간 시작일에 적용되는 입점처 조건 (미리보기와 같은 기준) ===
+        const store = a.data.stores.find((s) => s.id === g.storeId)
+        const terms = storeTermsOn(store, a.data.storeTerms, g.period.start)
+        const commissionRate = (Number(terms?.commissionRate ?? 0) || 0) / 100 // 0.25 형태
+        // 카테고리/상품/구간 요율, 개당 수수료, 입점료 (없으면 기본 요율만)
+        const commissionRules = await getCommissionRuleSetDB({ storeId: g.storeId })
+
+        // === 3) 같은 기간 기존 정산 (배치/라인) ===
+        const existing = await getSettlementV2ByPeriodDB({
           marketplaceId: g.storeId,
-          periodMonth: g.month,
-          currency: "KRW",
-          grossAmount,
-          commissionRate,
-          commissionAmount,
-          netAmount,
-          rowsCount: lines.length,
-          sourceFilename: lastFileName || null,
-          applyToInventory: shouldApplyInventory,
+          periodStart: g.period.start,
+          periodEnd: g.period.end,
         })
-  
-        await replaceSettlementLinesDB({
-          settlementId: settlement.id,
-          marketplaceId: g.storeId,
+        const detail = existing?.id ? await getSettlementDetailDB({ settlementId: existing.id }) : null
+
+        plans.push({
+          storeId: g.storeId,
+          storeName: g.storeName,
+          period: g.period,
+          commissionRate,
+          commissionRules,
+          storeFee: terms?.storeFee ?? null,
+          productCategory,
           lines,
+          existing: detail
+            ? {
+                grossAmount: Number(detail.settlement.gross_amount ?? 0),
+                commissionAmount: Number(detail.settlement.commission_amount ?? 0),
+                deductionAmount: Number(detail.settlement.deduction_amount ?? 0),
+                netAmount: Number(detail.settlement.net_amount ?? 0),
+                rowsCount: Number(detail.settlement.rows_count ?? 0),
+                batches: detail.batches,
+                lines: detail.lines,
+              }
+            : null,
         })
-  
-        // === 5) delta inventory apply (optional) ===
-        if (shouldApplyInventory) {
-          const newQty = new Map<string, number>()
-          for (const l of lines) {
-            const pid = String(l.productId ?? "")
-            if (!pid) continue
-            newQty.set(pid, (newQty.get(pid) ?? 0) + Number(l.qtySold ?? 0))
-          }
-  
-          const allPids = new Set<string>([...oldQty.keys(), ...newQty.keys()])
-          const updates: Array<{ storeId: string; productId: string; onHandQty: number }> = []
-
-for (const pid of allPids) {
-  const oldQ = oldQty.get(pid) ?? 0
-  const newQ = newQty.get(pid) ?? 0
-  const delta = newQ - oldQ
-  if (delta === 0) continue
-
-  const inv = a.data.inventory.find((x: any) => x.storeId === g.storeId && x.productId === pid)
-  const current = Number(inv?.onHandQty ?? 0)
-
-  const nextQty = delta > 0 ? Math.max(0, current - delta) : current + Math.abs(delta)
-
-  updates.push({ storeId: g.storeId, productId: pid, onHandQty: nextQty })
-}
-
-// ✅ 여기서 한 번에 업서트 (chunk는 내부에서 처리)
-await upsertInventoryItemsBatchDB(updates)
-        }
       }
-  
-      toast.success(shouldApplyInventory ? "정산 저장 + 재고 반영 완료" : "정산 저장 완료 (재고 미반영)")
-      setRows(null)
-      setLastFileName("")
-      setCsvText("")
-      setCsvHeaders([])
-      await a.refresh()
-    } catch (e: any) {
+
+      setDiffPlans(plans)
+    } catch (e) {
       console.error(e)
-      toast.error(`정산(v2) 저장 실패: ${e?.message ?? e}`)
-      await a.refresh()
+      toast.error(`저장 준비 실패: ${e instanceof Error ? e.message : String(e)}`)
     } finally {
       setBusy(false)
     }
-  }, [rows, a, lastFileName, applyToInventory])
+  }, [rows, a])
+
+  /**
+   * ✅ v2 저장 2단계: 비교 화면에서 확인 → 입점처/기간마다 apply_settlement RPC 1회
+   * - 업로드 1회 = 배치 1개 추가 (uploadMode에 따라 기존 배치 교체)
+   * - 헤더 합계는 남은 배치 라인 기준으로 서버에서 다시 계산
+   * - 재고 반영은 옵션(델타 방식: 이번 배치 - 교체된 배치 중 재고 반영분)
+   */
+  const commitApply = useCallback(
+    async (shouldApplyInventory: boolean) => {
+      if (!diffPlans || diffPlans.length === 0) return
+
+      let saved = 0
+      try {
+        setBusy(true)
+
+        // 입점처/기간별로 각각 원자적으로 저장 (실패하면 그 정산은 통째로 롤백)
+        for (const plan of diffPlans) {
+          await applySettlementDB({
+            marketplaceId: plan.storeId,
+            periodStart: plan.period.start,
+            periodEnd: plan.period.end,
+            currency: "KRW",
+            commissionRate: plan.commissionRate,
+            sourceFilename: lastFileName || null,
+            uploadMode,
+            applyToInventory: shouldApplyInventory,
+            lines: plan.lines,
+          })
+          saved += 1
+        }
+
+        toast.success(shouldApplyInventory ? "정산 저장 + 재고 반영 완료" : "정산 저장 완료 (재고 미반영)")
+        setDiffPlans(null)
+        setRows(null)
+        setLastFileName("")
+        setCsvText("")
+        setDetectedEncoding(null)
+        setXlsxBook(null)
+        lastFileRef.current = null
+        await a.refresh()
+      } catch (e) {
+        console.error(e)
+        const msg = e instanceof Error ? e.message : String(e)
+        toast.error(
+          saved > 0
+            ? `정산(v2) 저장 실패: ${msg} (앞의 ${saved}건은 저장됨, 실패한 정산은 변경 없음)`
+            : `정산(v2) 저장 실패: ${msg}`
+        )
+        setDiffPlans(null)
+        await a.refresh()
+      } finally {
+        setBusy(false)
+      }
+    },
+    [diffPlans, a, lastFileName, uploadMode]
+  )
 
   if (a.errorMsg) return <ErrorState message={a.errorMsg} onRetry={a.refresh} />
 
@@ -667,26 +1148,34 @@ await upsertInventoryItemsBatchDB(updates)
       <AppCard
         density="compact"
         title="새 정산 추가"
-        description="CSV 업로드 → 입점처/월 선택 → 컬럼 매핑(바코드/수량/금액) → 미리보기 → v2 정산 저장"
+        description="CSV/엑셀 업로드 → 입점처/정산 기간 선택(가져오기 프로필 자동 적용) → 컬럼 매핑(바코드/수량/금액) → 미리보기 → v2 정산 저장"
         action={
           <div className="flex flex-wrap items-center gap-2">
             <AppButton type="button" variant="outline" onClick={templateDownload}>
               CSV 템플릿 다운로드
             </AppButton>
 
+            <AppSelect
+              className="w-[150px]"
+              value={csvEncoding}
+              onValueChange={onChangeEncoding}
+              options={CSV_ENCODING_OPTIONS}
+              disabled={a.loading || busy}
+            />
+
             <AppButton
               type="button"
               variant="outline"
               onClick={() => inputRef.current?.click()}
               disabled={a.loading || busy}
             >
-              CSV 업로드
+              CSV/엑셀 업로드
             </AppButton>
 
             <input
               ref={inputRef}
               type="file"
-              accept=".csv"
+              accept=".csv,.xlsx"
               className="hidden"
               onChange={onChangeFile}
             />
@@ -694,25 +1183,34 @@ await upsertInventoryItemsBatchDB(updates)
         }
         contentClassName="px-4 pb-4"
       >
-        {csvHeaders.length > 0 && !rows ? (
+        {csvText && !rows ? (
           <div className="mt-4 space-y-3">
             <div className="flex flex-wrap items-center gap-2">
               <AppBadge variant="secondary">헤더 {csvHeaders.length}개</AppBadge>
+              {detectedEncoding ? (
+                <AppBadge variant="outline">
+                  {ENCODING_LABEL[detectedEncoding]}
+                  {csvEncoding === "auto" ? " (자동 감지)" : ""}
+                </AppBadge>
+              ) : null}
               {lastFileName ? <span className="text-xs text-muted-foreground">{lastFileName}</span> : null}
             </div>
 
             <div className="rounded-xl border p-4 space-y-3">
               <div className="text-sm font-medium">컬럼 매핑</div>
+              <div className="text-xs text-muted-foreground">
+                바코드/SKU/상품명 중 하나 이상 필요해요. 제품은 바코드 → SKU → 저장된 별칭 → 상품명 순으로 찾고, 수동으로 고른 제품은 이 입점처의 별칭으로 기억해요.
+              </div>
 
               <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
                 <label className="grid gap-1">
                   <span className="text-xs text-muted-foreground">
-                    입점처 <span className="text-destructive"> *</span>
+                    입점처 {mapping.store ? "(빈 칸 기본값)" : <span className="text-destructive"> *</span>}
                   </span>
                   <select
                     className="h-9 rounded-md border bg-background px-2 text-sm"
                     value={selectedStoreId}
-                    onChange={(e) => setSelectedStoreId(e.target.value)}
+                    onChange={(e) => onChangeStore(e.target.value)}
                   >
                     <option value="">선택</option>
                     {a.data.stores.map((s: any) => (
@@ -725,37 +1223,104 @@ await upsertInventoryItemsBatchDB(updates)
 
                 <label className="grid gap-1">
                   <span className="text-xs text-muted-foreground">
-                    월(YYYY.MM) <span className="text-destructive"> *</span>
+                    정산 기간 {mapping.period ? "(빈 칸 기본값)" : <span className="text-destructive"> *</span>}
                   </span>
-                  <select
-                    className="h-9 rounded-md border bg-background px-2 text-sm"
-                    value={selectedMonth}
-                    onChange={(e) => setSelectedMonth(e.target.value)}
-                  >
-                    {Array.from({ length: 24 }).map((_, i) => {
-                      const d = new Date()
-                      d.setMonth(d.getMonth() - i)
-                      const y = d.getFullYear()
-                      const m = String(d.getMonth() + 1).padStart(2, "0")
-                      const value = `${y}-${m}`
-                      const label = `${y}.${m}`
-                      return (
-                        <option key={value} value={value}>
-                          {label}
-                        </option>
-                      )
-                    })}
-                  </select>
+                  <div className="flex gap-2">
+                    <select
+                      className="h-9 rounded-md border bg-background px-2 text-sm"
+                      value={periodMode}
+                      onChange={(e) => setPeriodMode(e.target.value === "range" ? "range" : "month")}
+                    >
+                      <option value="month">월</option>
+                      <option value="range">기간 지정</option>
+                    </select>
+
+                    {periodMode === "month" ? (
+                      <select
+                        className="h-9 min-w-0 flex-1 rounded-md border bg-background px-2 text-sm"
+                        value={selectedMonth}
+                        onChange={(e) => setSelectedMonth(e.target.value)}
+                      >
+                        {Array.from({ length: 24 }).map((_, i) => {
+                          const d = new Date()
+                          d.setMonth(d.getMonth() - i)
+                          const y = d.getFullYear()
+                          const m = String(d.getMonth() + 1).padStart(2, "0")
+                          const value = `${y}-${m}`
+                          const label = `${y}.${m}`
+                          return (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          )
+                        })}
+                      </select>
+                    ) : (
+                      <div className="flex min-w-0 flex-1 items-center gap-1">
+                        <input
+                          type="date"
+                          className="h-9 min-w-0 flex-1 rounded-md border bg-background px-2 text-sm"
+                          value={rangeStart}
+                          onChange={(e) => setRangeStart(e.target.value)}
+                        />
+                        <span className="text-xs text-muted-foreground">~</span>
+                        <input
+                          type="date"
+                          className="h-9 min-w-0 flex-1 rounded-md border bg-background px-2 text-sm"
+                          value={rangeEnd}
+                          min={rangeStart || undefined}
+                          onChange={(e) => setRangeEnd(e.target.value)}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {periodMode === "range" && rangeStart && rangeEnd && !defaultPeriod ? (
+                    <span className="text-xs text-destructive">종료일이 시작일보다 빠릅니다.</span>
+                  ) : null}
                 </label>
 
                 <SelectField
                   label="바코드(barcode)"
-                  required
                   value={mapping.barcode}
                   options={csvHeaders}
                   onChange={(v) => setMapping((m) => ({ ...m, barcode: v }))}
                 />
 
+                <SelectField
+                  label="SKU (선택)"
+                  value={mapping.sku ?? ""}
+                  options={csvHeaders}
+                  onChange={(v) => setMapping((m) => ({ ...m, sku: v }))}
+                />
+
+                <SelectField
+                  label="상품명 (선택)"
+                  value={mapping.product_name ?? ""}
+                  options={csvHeaders}
+                  onChange={(v) => setMapping((m) => ({ ...m, product_name: v }))}
+                />
+
+                <SelectField
+                  label="입점처 컬럼 (통합 정산서, 선택)"
+                  value={mapping.store ?? ""}
+                  options={csvHeaders}
+                  onChange={(v) => setMapping((m) => ({ ...m, store: v }))}
+                />
+
+                <SelectField
+                  label="정산월/기간 컬럼 (선택)"
+                  value={mapping.period ?? ""}
+                  options={csvHeaders}
+                  onChange={(v) => setMapping((m) => ({ ...m, period: v }))}
+                />
+
+                <SelectField
+                  label="구분 컬럼 (판매/반품/할인/배송비/광고비, 선택)"
+                  value={mapping.line_kind ?? ""}
+                  options={csvHeaders}
+                  onChange={(v) => setMapping((m) => ({ ...m, line_kind: v }))}
+                />
+
                 <SelectField
                   label="판매수량(sold_qty)"
                   required
@@ -773,14 +1338,158 @@ await upsertInventoryItemsBatchDB(updates)
                 />
               </div>
 
+              {csvHeaders.length === 0 && (
+                <div className="text-xs text-destructive">
+                  헤더를 찾지 못했어요. 아래 파일 형식(헤더 위치/구분자)을 확인하세요.
+                </div>
+              )}
+
+              <div className="space-y-2 border-t pt-3">
+                <div className="text-sm font-medium">파일 형식</div>
+                <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+                  {xlsxBook ? (
+                    <XlsxSheetPicker
+                      book={xlsxBook}
+                      sheetIndex={xlsxSheetIndex}
+                      onSheetChange={onChangeSheet}
+                      headerRow={importOptions.headerRow}
+                      onHeaderRowChange={onChangeHeaderRow}
+                    />
+                  ) : null}
+
+                  <label className="grid gap-1">
+                    <span className="text-xs text-muted-foreground">구분자</span>
+                    <select
+                      className="h-9 rounded-md border bg-background px-2 text-sm"
+                      value={importOptions.delimiter ?? ""}
+                      onChange={(e) => setImportOptions((o) => ({ ...o, delimiter: e.target.value || null }))}
+                      disabled={Boolean(xlsxBook)}
+                    >
+                      {DELIMITER_OPTIONS.map((d) => (
+                        <option key={d.label} value={d.value}>
+                          {d.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className={xlsxBook ? "hidden" : "grid gap-1"}>
+                    <span className="text-xs text-muted-foreground">헤더 앞 건너뛸 줄 (0 = 자동)</span>
+                    <AppInput
+                      type="number"
+                      min={0}
+                      value={String(importOptions.headerRow)}
+                      onChange={(e) =>
+                        setImportOptions((o) => ({ ...o, headerRow: Math.max(0, parseIntSafe(e.target.value)) }))
+                      }
+                    />
+                  </label>
+
+                  <label className="grid gap-1">
+                    <span className="text-xs text-muted-foreground">끝에서 버릴 줄 (합계 등)</span>
+                    <AppInput
+                      type="number"
+                      min={0}
+                      value={String(importOptions.footerRows)}
+                      onChange={(e) =>
+                        setImportOptions((o) => ({ ...o, footerRows: Math.max(0, parseIntSafe(e.target.value)) }))
+                      }
+                    />
+                  </label>
+
+                  <label className="grid gap-1">
+                    <span className="text-xs text-muted-foreground">금액 기준</span>
+                    <select
+                      className="h-9 rounded-md border bg-background px-2 text-sm"
+                      value={importOptions.amountBasis}
+                      onChange={(e) =>
+                        setImportOptions((o) => ({ ...o, amountBasis: e.target.value === "net" ? "net" : "gross" }))
+                      }
+                    >
+                      {Object.entries(AMOUNT_BASIS_LABEL).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="grid gap-1">
+                    <span className="text-xs text-muted-foreground">금액 단위</span>
+                    <select
+                      className="h-9 rounded-md border bg-background px-2 text-sm"
+                      value={importOptions.amountKind}
+                      onChange={(e) =>
+                        setImportOptions((o) => ({
+                          ...o,
+                          amountKind: e.target.value === "unit_price" ? "unit_price" : "line_total",
+                        }))
+                      }
+                    >
+                      {Object.entries(AMOUNT_KIND_LABEL).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="grid gap-1">
+                    <span className="text-xs text-muted-foreground">건너뛸 행 키워드 (쉼표 구분)</span>
+                    <AppInput
+                      value={skipKeywordsText}
+                      placeholder="예: 합계, 소계"
+                      onChange={(e) => setSkipKeywordsText(e.target.value)}
+                    />
+                  </label>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-end gap-2 border-t pt-3">
+                <label className="grid gap-1">
+                  <span className="text-xs text-muted-foreground">가져오기 프로필</span>
+                  <select
+                    className="h-9 min-w-[180px] rounded-md border bg-background px-2 text-sm"
+                    value={activeProfileId}
+                    disabled={!selectedStoreId}
+                    onChange={(e) => applyProfile(profiles.find((p) => p.id === e.target.value) ?? null, csvText)}
+                  >
+                    <option value="">{selectedStoreId ? "(프로필 없음)" : "입점처를 먼저 선택"}</option>
+                    {profiles.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                        {p.isDefault ? " (기본)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <AppInput
+                  className="h-9 w-[180px]"
+                  placeholder="프로필 이름"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                />
+                <AppButton
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => void saveProfile()}
+                  disabled={profileSaving || !selectedStoreId || !profileName.trim()}
+                >
+                  {profileSaving ? "저장 중…" : "현재 설정을 프로필로 저장"}
+                </AppButton>
+              </div>
+
               <div className="flex flex-wrap justify-end gap-2">
                 <AppButton
                   type="button"
                   variant="outline"
                   onClick={() => {
                     setCsvText("")
-                    setCsvHeaders([])
                     setLastFileName("")
+                    setDetectedEncoding(null)
+                    setXlsxBook(null)
+                    lastFileRef.current = null
                   }}
                   disabled={busy}
                 >
@@ -803,6 +1512,12 @@ await upsertInventoryItemsBatchDB(updates)
               </AppBadge>
               <AppBadge variant="secondary">판매수량 {previewStats.sold}</AppBadge>
               <AppBadge variant="secondary">총매출 {previewStats.gross.toLocaleString()}원</AppBadge>
+              {previewStats.adjustments > 0 ? (
+                <AppBadge variant="outline">조정 라인 {previewStats.adjustments}</AppBadge>
+              ) : null}
+              {previewStats.deductions !== 0 ? (
+                <AppBadge variant="outline">차감(배송비·광고비) {previewStats.deductions.toLocaleString()}원</AppBadge>
+              ) : null}
               {lastFileName ? <span className="text-xs text-muted-foreground">{lastFileName}</span> : null}
             </div>
 
@@ -812,7 +1527,7 @@ await upsertInventoryItemsBatchDB(updates)
                   <TableRow>
                     <TableHead className="w-[60px]">#</TableHead>
                     <TableHead className="w-[140px]">입점처</TableHead>
-                    <TableHead className="w-[90px]">월</TableHead>
+                    <TableHead className="w-[150px]">기간</TableHead>
                     <TableHead className="w-[160px]">바코드</TableHead>
                     <TableHead className="w-[90px] text-right">판매</TableHead>
                     <TableHead className="w-[110px] text-right">단가</TableHead>
@@ -829,13 +1544,20 @@ await upsertInventoryItemsBatchDB(updates)
                     >
                       <TableCell>{r.idx}</TableCell>
                       <TableCell className="truncate">{r.storeName}</TableCell>
-                      <TableCell>{r.period}</TableCell>
-                      <TableCell className="font-mono text-xs">{r.barcode}</TableCell>
+                      <TableCell className="tabular-nums">{periodLabel(r.period)}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {r.kind !== "sale" ? (
+                          <AppBadge variant="outline" className="mr-1 font-sans">
+                            {LINE_KIND_LABEL[r.kind]}
+                          </AppBadge>
+                        ) : null}
+                        {r.barcode}
+                      </TableCell>
                       <TableCell className="text-right tabular-nums">{r.soldQty.toLocaleString()}</TableCell>
-                      <TableCell className="text-right tabular-nums">{r.unitPrice.toLocaleString()}</TableCell>
                       <TableCell className="text-right tabular-nums">
-                        {(r.soldQty * r.unitPrice).toLocaleString()}
+                        {isProductLineKind(r.kind) ? r.unitPrice.toLocaleString() : "-"}
                       </TableCell>
+                      <TableCell className="text-right tabular-nums">{r.amount.toLocaleString()}</TableCell>
 
                       <TableCell className="text-right pr-4">
                         <div className="flex flex-col gap-2">
@@ -849,6 +1571,17 @@ await upsertInventoryItemsBatchDB(updates)
                             {r.status === "ok" && r.productName ? (
                               <div className="text-[11px] text-muted-foreground mt-1 break-words">
                                 {r.productName}
+                                {r.manual
+                                  ? " · 수동"
+                                  : r.matchMethod
+                                    ? ` · ${MATCH_METHOD_LABEL[r.matchMethod]} ${Math.round((r.confidence ?? 0) * 100)}%`
+                                    : ""}
+                              </div>
+                            ) : null}
+
+                            {r.status !== "ok" && (r.productNameRaw || r.sku) ? (
+                              <div className="text-[11px] text-muted-foreground mt-1 break-words">
+                                {[r.productNameRaw, r.sku].filter(Boolean).join(" · ")}
                               </div>
                             ) : null}
 
@@ -861,6 +1594,22 @@ await upsertInventoryItemsBatchDB(updates)
 
                           {r.status !== "ok" && !r.ignored ? (
                             <div className="flex flex-wrap justify-end gap-2">
+                              {r.suggestion ? (
+                                <AppButton
+                                  size="sm"
+                                  variant="secondary"
+                                  title="추천 제품으로 매칭 (별칭으로 기억)"
+                                  onClick={() => {
+                                    const sug = r.suggestion
+                                    if (!sug) return
+                                    applyManualMatch(r.idx, { id: sug.productId, name: sug.productName })
+                                    toast.success("추천 제품으로 매칭했어요.")
+                                  }}
+                                >
+                                  추천: {r.suggestion.productName} ({Math.round(r.suggestion.confidence * 100)}%)
+                                </AppButton>
+                              ) : null}
+
                               <Popover
                                 open={matchOpenIdx === r.idx}
                                 onOpenChange={(open) => setMatchOpenIdx(open ? r.idx : null)}
@@ -877,7 +1626,7 @@ await upsertInventoryItemsBatchDB(updates)
                                     <CommandList>
                                       <CommandEmpty>검색 결과가 없습니다.</CommandEmpty>
                                       <CommandGroup>
-                                        {products.slice(0, 50).map((p: any) => (
+                                        {products.slice(0, 50).map((p) => (
                                           <CommandItem
                                             key={p.id}
                                             value={`${p.name ?? ""} ${(p.sku ?? "")} ${(p.barcode ?? "")}`}
@@ -938,7 +1687,22 @@ await upsertInventoryItemsBatchDB(updates)
                   checked={applyToInventory}
                   onChange={(e) => setApplyToInventory(e.target.checked)}
                 />
-                재고에도 반영하기 (기본 ON)
+                재고에도 반영하기 (저장 전 비교 화면에서 다시 확인)
+              </label>
+
+              <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                이미 저장된 기간이면
+                <select
+                  className="h-8 rounded-md border bg-background px-2 text-xs"
+                  value={uploadMode}
+                  onChange={(e) => setUploadMode(e.target.value as SettlementUploadMode)}
+                >
+                  {UPLOAD_MODE_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
               </label>
 
               <AppButton type="button" variant="outline" onClick={() => setRows(null)} disabled={busy}>
@@ -950,11 +1714,11 @@ await upsertInventoryItemsBatchDB(updates)
                 onClick={apply}
                 disabled={busy || previewStats.err > 0 || previewStats.ok === 0}
               >
-                {busy ? "저장 중…" : "정산(v2) 저장"}
+                {busy ? "준비 중…" : "비교 후 저장"}
               </AppButton>
             </div>
           </div>
-        ) : csvHeaders.length === 0 ? (
+        ) : !csvText ? (
           <div className="mt-4">
             <EmptyState
               title="정산 CSV를 업로드하세요"
@@ -964,6 +1728,22 @@ await upsertInventoryItemsBatchDB(updates)
         ) : null}
       </AppCard>
 
+      {/* ✅ 저장 전 비교 (기존 정산 대비 라인/합계/재고 변동) */}
+      {diffPlans ? (
+        <SettlementDiffDialog
+          open
+          onOpenChange={(open) => {
+            if (!open && !busy) setDiffPlans(null)
+          }}
+          plans={diffPlans}
+          uploadMode={uploadMode}
+          sourceFilename={lastFileName || null}
+          defaultApplyToInventory={applyToInventory}
+          busy={busy}
+          onConfirm={commitApply}
+        />
+      ) : null}
+
       {/* ✅ 정산에서 새 제품 만들기 */}
       <Dialog open={createOpen} onOpenChange={(open) => setCreateOpen(open)}>
         <DialogContent>
@@ -0,0 +1,184 @@
+// src/features/settlements/lib/bankReconcile.ts
+import type { BankDepositInput } from "@/data/store.supabase"
+import type { Store } from "@/data/models"
+import type { PayoutRow } from "@/lib/settlementPayout"
+import { normalizeProductName } from "@/features/settlements/lib/settlementMatchers"
+
+// 통장 거래내역 CSV → 입금 → 미입금 정산 매칭
+// - 컬럼: 거래일 / 입금자(기재내용) / 입금액 (은행마다 헤더 이름이 달라 후보로 찾음)
+// - 자동 연결: 금액이 남은 정산금과 같고 + 입금자명이 그 입점처 이름일 때, 후보가 딱 하나인 경우만
+// - 금액만 맞거나 이름만 맞으면 "확인 필요" → 화면에서 골라 연결
+
+export type BankColumns = {
+  date: number
+  depositor: number
+  amount: number // 입금액 (또는 +/- 부호가 있는 거래금액)
+  memo: number // 적요 (없으면 -1)
+}
+
+const DATE_HEADERS = ["거래일시", "거래일자", "거래일", "입금일", "일자", "날짜", "date"]
+const DEPOSITOR_HEADERS = ["입금자명", "입금자", "보낸분", "보내는분", "의뢰인", "기재내용", "거래내용", "내용", "depositor"]
+const AMOUNT_HEADERS = ["입금액", "입금금액", "맡기신금액", "입금", "거래금액", "금액", "amount"]
+const MEMO_HEADERS = ["적요", "메모", "비고", "memo"]
+
+function findHeader(headers: string[], candidates: string[], exclude: number[] = []) {
+  const keys = headers.map((h) => normalizeProductName(h))
+  for (const c of candidates) {
+    const i = keys.findIndex((k, idx) => k === normalizeProductName(c) && !exclude.includes(idx))
+    if (i >= 0) return i
+  }
+  return -1
+}
+
+/**
+ * 헤더 → 컬럼 위치 (거래일/입금자/입금액 중 하나라도 못 찾으면 null)
+ */
+export function detectBankColumns(headers: string[]): BankColumns | null {
+  const date = findHeader(headers, DATE_HEADERS)
+  const amount = findHeader(headers, AMOUNT_HEADERS, [date])
+  const depositor = findHeader(headers, DEPOSITOR_HEADERS, [date, amount])
+  if (date < 0 || amount < 0 || depositor < 0) return null
+  const memo = findHeader(headers, MEMO_HEADERS, [date, amount, depositor])
+  return { date, depositor, amount, memo }
+}
+
+// "2026.10.05 14:22:01" / "2026-10-05" / "20261005" → "2026-10-05"
+export function parseBankDate(v: string) {
+  const m = String(v ?? "").match(/(\d{4})\s*[-./년]?\s*(\d{1,2})\s*[-./월]?\s*(\d{1,2})/)
+  if (!m) return null
+  const date = `${m[1]}-${String(Number(m[2])).padStart(2, "0")}-${String(Number(m[3])).padStart(2, "0")}`
+  const [y, mo, d] = date.split("-").map(Number)
+  const t = new Date(Date.UTC(y, mo - 1, d))
+  return t.getUTCMonth() === mo - 1 && t.getUTCDate() === d ? date : null
+}
+
+function parseAmount(v: string) {
+  const n = Number(String(v ?? "").replace(/[,\s원₩]/g, ""))
+  return Number.isFinite(n) ? Math.round(n) : 0
+}
+
+/**
+ * CSV 행 → 입금 (출금/0원/날짜 없는 행은 건너뜀)
+ * - dedupeKey: 거래일|입금자|금액|같은 값 순번 → 같은 파일(또는 겹치는 기간 파일)을 다시 올려도 중복 저장 안 됨
+ */
+export function parseBankDeposits(rows: string[][], columns: BankColumns): { deposits: BankDepositInput[]; skipped: number } {
+  const deposits: BankDepositInput[] = []
+  const seen = new Map<string, number>()
+  let skipped = 0
+
+  for (const r of rows) {
+    const depositedOn = parseBankDate(r[columns.date] ?? "")
+    const amount = parseAmount(r[columns.amount] ?? "")
+    if (!depositedOn || amount <= 0) {
+      skipped += 1
+      continue
+    }
+
+    const depositor = String(r[columns.depositor] ?? "").trim()
+    const base = `${depositedOn}|${normalizeProductName(depositor)}|${amount}`
+    const n = (seen.get(base) ?? 0) + 1
+    seen.set(base, n)
+
+    deposits.push({
+      depositedOn,
+      depositor,
+      amount,
+      memo: columns.memo >= 0 ? String(r[columns.memo] ?? "").trim() || null : null,
+      dedupeKey: `${base}|${n}`,
+    })
+  }
+
+  return { deposits, skipped }
+}
+
+// "(주)현대백화점" / "주식회사 무신사" → 법인 표기 없이 비교
+function depositorKey(v: string | null | undefined) {
+  return normalizeProductName(String(v ?? "").replace(/주식회사|\(주\)|㈜|\(유\)/g, ""))
+}
+
+/**
+ * 입금자명이 이 입점처인지
+ * - 통장 입금자명(depositorNames) 우선, 없으면 입점처명/이름 별칭
+ * - 은행이 입금자명을 잘라 보여주는 경우가 많아 앞부분 일치도 인정 (두 글자 이상)
+ */
+export function depositorMatchesStore(depositor: string, store: Pick<Store, "name" | "nameAliases" | "depositorNames">) {
+  const key = depositorKey(depositor)
+  if (key.length < 2) return false
+  const names = [...(store.depositorNames ?? []), store.name, ...(store.nameAliases ?? [])]
+    .map(depositorKey)
+    .filter((n) => n.length >= 2)
+  return names.some((n) => n === key || n.startsWith(key) || key.startsWith(n))
+}
+
+export type OpenDeposit = {
+  id: string
+  depositedOn: string
+  depositor: string
+  remaining: number // 아직 정산에 연결하지 않은 금액
+}
+
+export type DepositCandidate = {
+  settlementId: string
+  amountMatch: boolean
+  nameMatch: boolean
+}
+
+export type DepositMatchStatus = "auto" | "review" | "none"
+
+export type DepositMatch = {
+  depositId: string
+  status: DepositMatchStatus
+  candidates: DepositCandidate[] // 금액+이름 → 금액 → 이름 순
+}
+
+export const DEPOSIT_MATCH_LABEL: Record<DepositMatchStatus, string> = {
+  auto: "자동 매칭",
+  review: "확인 필요",
+  none: "후보 없음",
+}
+
+export function matchBankDeposits(input: {
+  deposits: OpenDeposit[]
+  payouts: PayoutRow[] // 남은 금액이 있는 정산만 후보
+  stores: Store[]
+}): DepositMatch[] {
+  const storeById = new Map(input.stores.map((s) => [s.id, s]))
+  const open = input.payouts.filter((r) => r.status !== "paid" && r.outstanding > 0)
+
+  const matches = input.deposits.map((d) => {
+    const candidates: Array<DepositCandidate & { dueDate: string | null }> = []
+
+    for (const r of open) {
+      // 정산 기간이 시작되기 전 입금은 그 정산의 정산금일 수 없음
+      if (r.period && d.depositedOn < r.period.start) continue
+
+      const store = storeById.get(r.storeId)
+      const amountMatch = Math.round(d.remaining) === Math.round(r.outstanding)
+      const nameMatch = store ? depositorMatchesStore(d.depositor, store) : false
+      if (amountMatch || nameMatch) candidates.push({ settlementId: r.settlementId, amountMatch, nameMatch, dueDate: r.dueDate })
+    }
+
+    const rank = (c: DepositCandidate) => (c.amountMatch && c.nameMatch ? 0 : c.amountMatch ? 1 : 2)
+    candidates.sort((a, b) => rank(a) - rank(b) || (a.dueDate ?? "9999").localeCompare(b.dueDate ?? "9999"))
+
+    const strong = candidates.filter((c) => c.amountMatch && c.nameMatch)
+    const status: DepositMatchStatus = strong.length === 1 ? "auto" : candidates.length > 0 ? "review" : "none"
+
+    return {
+      depositId: d.id,
+      status,
+      candidates: candidates.map(({ settlementId, amountMatch, nameMatch }) => ({ settlementId, amountMatch, nameMatch })),
+    }
+  })
+
+  // 입금 두 건이 같은 정산으로 자동 매칭되면 둘 다 확인 필요로
+  const autoCount = new Map<string, number>()
+  for (const m of matches) {
+    if (m.status === "auto") autoCount.set(m.candidates[0].settlementId, (autoCount.get(m.candidates[0].settlementId) ?? 0) + 1)
+  }
+  for (const m of matches) {
+    if (m.status === "auto" && (autoCount.get(m.candidates[0].settlementId) ?? 0) > 1) m.status = "review"
+  }
+
+  return matches
+}
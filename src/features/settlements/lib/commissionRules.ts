@@ -0,0 +1,107 @@
+// src/features/settlements/lib/commissionRules.ts
+import type { CommissionRuleSet, SettlementLineKind } from "@/data/models"
+import { monthPeriod, periodDays, splitPeriodByMonth, type SettlementPeriod } from "@/lib/settlementPeriod"
+import { isDeductionLineKind } from "@/features/settlements/lib/settlementAdjustments"
+
+// 입점처 수수료 규칙 평가 (저장 전 비교 화면용)
+// - 계산식은 evaluate_settlement_commission RPC와 같음
+//   라인 = 매출 × (상품 > 카테고리 > 구간 > 기본 요율) + 수량 × 개당 수수료
+//   헤더 = round(라인 합 + 월 입점료 × 기간 일수 비율)
+// - 배송비/광고비 차감 라인은 판매액·수수료에서 빼고 deductions 로 따로
+
+export const EMPTY_COMMISSION_RULES: CommissionRuleSet = {
+  categoryRates: [],
+  productRates: [],
+  tiers: [],
+  itemFee: 0,
+  applyStoreFee: false,
+}
+
+export type CommissionLineInput = {
+  kind?: SettlementLineKind // 없으면 판매
+  productId: string | null
+  category: string | null
+  qty: number
+  gross: number
+}
+
+export type CommissionEvaluation = {
+  lines: Array<{ rule: string; rate: number; commission: number }> // 입력 라인 순서 그대로
+  tier: { minGross: number; rate: number } | null
+  rateCommission: number
+  itemFees: number
+  storeFee: number
+  commissionAmount: number
+  gross: number // 판매 + 반품 + 할인
+  deductions: number // 배송비/광고비 (양수)
+}
+
+/** "base" / "tier" / "product" / "category:가방" → 화면 표시 */
+export function commissionRuleLabel(rule: string | null | undefined) {
+  if (!rule || rule === "base") return "기본 요율"
+  if (rule === "tier") return "구간 요율"
+  if (rule === "product") return "상품 요율"
+  if (rule.startsWith("category:")) return `카테고리 ${rule.slice("category:".length)}`
+  return rule
+}
+
+/** 월 입점료 → 기간 몫 (달마다 겹친 일수 / 그 달 일수) */
+export function proratedStoreFee(monthlyFee: number, period: SettlementPeriod) {
+  if (!monthlyFee) return 0
+  return splitPeriodByMonth(period).reduce(
+    (sum, m) => sum + (monthlyFee * m.days) / periodDays(monthPeriod(m.month)),
+    0
+  )
+}
+
+export function evaluateCommission(input: {
+  rules: CommissionRuleSet | null
+  baseRate: number // 0.25 형태 (헤더 commission_rate)
+  storeFee: number | null // 월 입점료 (Store.storeFee)
+  period: SettlementPeriod
+  lines: CommissionLineInput[]
+}): CommissionEvaluation {
+  const rules = input.rules ?? EMPTY_COMMISSION_RULES
+  const gross = input.lines.filter((l) => !isDeductionLineKind(l.kind)).reduce((sum, l) => sum + l.gross, 0)
+  const deductions = input.lines.filter((l) => isDeductionLineKind(l.kind)).reduce((sum, l) => sum - l.gross, 0)
+
+  const tier =
+    rules.tiers
+      .filter((t) => t.minGross <= gross)
+      .sort((a, b) => b.minGross - a.minGross)[0] ?? null
+
+  const defaultRate = tier ? tier.rate / 100 : input.baseRate
+  const productRate = new Map(rules.productRates.map((x) => [x.productId, x.rate / 100]))
+  const categoryRate = new Map(rules.categoryRates.map((x) => [x.category, x.rate / 100]))
+
+  let rateCommission = 0
+  let itemFees = 0
+  const lines = input.lines.map((l) => {
+    if (isDeductionLineKind(l.kind)) return { rule: String(l.kind), rate: 0, commission: 0 }
+
+    const byProduct = l.productId ? productRate.get(l.productId) : undefined
+    const byCategory = l.category ? categoryRate.get(l.category) : undefined
+
+    const rate = byProduct ?? byCategory ?? defaultRate
+    const rule =
+      byProduct != null ? "product" : byCategory != null ? `category:${l.category}` : tier ? "tier" : "base"
+
+    const fee = l.qty * rules.itemFee
+    rateCommission += l.gross * rate
+    itemFees += fee
+    return { rule, rate, commission: l.gross * rate + fee }
+  })
+
+  const storeFee = rules.applyStoreFee ? proratedStoreFee(Number(input.storeFee ?? 0), input.period) : 0
+
+  return {
+    lines,
+    tier,
+    rateCommission: Math.round(rateCommission),
+    itemFees: Math.round(itemFees),
+    storeFee: Math.round(storeFee),
+    commissionAmount: Math.round(rateCommission + itemFees + storeFee),
+    gross,
+    deductions,
+  }
+}
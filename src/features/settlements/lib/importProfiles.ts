@@ -0,0 +1,140 @@
+// src/features/settlements/lib/importProfiles.ts
+import type {
+  SettlementAmountBasis,
+  SettlementAmountKind,
+  SettlementColumnMapping,
+  SettlementImportProfile,
+} from "@/data/models"
+
+// 프로필에서 매핑(컬럼)을 뺀 나머지 파일 형식 설정
+export type SettlementImportOptions = Pick<
+  SettlementImportProfile,
+  "delimiter" | "headerRow" | "footerRows" | "skipKeywords" | "amountBasis" | "amountKind"
+>
+
+export const DEFAULT_IMPORT_OPTIONS: SettlementImportOptions = {
+  delimiter: null,
+  headerRow: 0,
+  footerRows: 0,
+  skipKeywords: [],
+  amountBasis: "gross",
+  amountKind: "line_total",
+}
+
+export const DELIMITER_OPTIONS = [
+  { value: "", label: "자동 감지" },
+  { value: ",", label: "쉼표 ( , )" },
+  { value: ";", label: "세미콜론 ( ; )" },
+  { value: "\t", label: "탭" },
+  { value: "|", label: "세로줄 ( | )" },
+]
+
+export const AMOUNT_BASIS_LABEL: Record<SettlementAmountBasis, string> = {
+  gross: "수수료 전 (판매가 기준)",
+  net: "수수료 후 (정산금 기준)",
+}
+
+export const AMOUNT_KIND_LABEL: Record<SettlementAmountKind, string> = {
+  line_total: "행 합계 (수량 × 단가)",
+  unit_price: "개당 단가",
+}
+
+export function profileToOptions(p: SettlementImportProfile): SettlementImportOptions {
+  return {
+    delimiter: p.delimiter,
+    headerRow: p.headerRow,
+    footerRows: p.footerRows,
+    skipKeywords: p.skipKeywords,
+    amountBasis: p.amountBasis,
+    amountKind: p.amountKind,
+  }
+}
+
+/**
+ * 입점처에서 자동 적용할 프로필: 기본 프로필 → 하나뿐이면 그것
+ */
+export function pickAutoProfile(profiles: SettlementImportProfile[]) {
+  return profiles.find((p) => p.isDefault) ?? (profiles.length === 1 ? profiles[0] : null)
+}
+
+/**
+ * 프로필 매핑을 현재 파일 헤더에 맞춤
+ * - 프로필에 저장된 컬럼이 파일에 있으면 그대로, 없으면 추정값(guessed)
+ */
+export function resolveProfileMapping(
+  profileMapping: SettlementColumnMapping,
+  headers: string[],
+  guessed: SettlementColumnMapping
+): SettlementColumnMapping {
+  const has = new Set(headers)
+  const pick = (saved: string, fallback: string) => (saved && has.has(saved) ? saved : fallback)
+  return {
+    barcode: pick(profileMapping.barcode, guessed.barcode),
+    sold_qty: pick(profileMapping.sold_qty, guessed.sold_qty),
+    amount: pick(profileMapping.amount, guessed.amount),
+    sku: pick(profileMapping.sku ?? "", guessed.sku ?? ""),
+    product_name: pick(profileMapping.product_name ?? "", guessed.product_name ?? ""),
+    store: pick(profileMapping.store ?? "", guessed.store ?? ""),
+    period: pick(profileMapping.period ?? "", guessed.period ?? ""),
+    line_kind: pick(profileMapping.line_kind ?? "", guessed.line_kind ?? ""),
+  }
+}
+
+/**
+ * 정산월/판매일 셀 → "YYYY-MM" (못 읽으면 null)
+ * - 2026-09 / 2026.9 / 2026/09/30 / 202609 / 2026년 9월 / 엑셀 날짜 일련번호(46000대)
+ */
+export function normalizePeriodMonth(v: string): string | null {
+  const t = String(v ?? "").trim()
+  if (!t) return null
+
+  const fmt = (y: number, m: number) =>
+    y >= 2000 && y <= 2100 && m >= 1 && m <= 12 ? `${y}-${String(m).padStart(2, "0")}` : null
+
+  const ym = t.match(/^(\d{4})\s*[-./년]\s*(\d{1,2})/)
+  if (ym) return fmt(Number(ym[1]), Number(ym[2]))
+
+  const compact = t.match(/^(\d{4})(\d{2})(\d{2})?$/)
+  if (compact) return fmt(Number(compact[1]), Number(compact[2]))
+
+  // 엑셀 날짜 일련번호 (1900-01-01 = 1, 1900 윤년 버그로 1899-12-30 기준)
+  if (/^\d{5}(\.\d+)?$/.test(t)) {
+    const d = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(t)) * 86400000)
+    return fmt(d.getUTCFullYear(), d.getUTCMonth() + 1)
+  }
+
+  return null
+}
+
+// "합계, 소계" → ["합계", "소계"]
+export function parseKeywords(text: string) {
+  return text
+    .split(",")
+    .map((k) => k.trim())
+    .filter(Boolean)
+}
+
+export function rowHasKeyword(row: string[], keywords: string[]) {
+  if (keywords.length === 0) return false
+  return row.some((cell) => keywords.some((k) => String(cell ?? "").includes(k)))
+}
+
+/**
+ * CSV 금액 → 판매가 기준 개당 단가
+ * - unit_price면 그대로, line_total이면 ÷ 수량
+ * - net(수수료 후)이면 ÷ (1 - 수수료율)로 판매가 환산
+ */
+export function toGrossUnitPrice(input: {
+  amount: number
+  qty: number
+  options: Pick<SettlementImportOptions, "amountBasis" | "amountKind">
+  commissionRate: number // 0.25 형태
+}) {
+  const { amount, qty, options } = input
+  if (qty <= 0 || amount <= 0) return 0
+
+  const unit = options.amountKind === "unit_price" ? amount : amount / qty
+  const rate = input.commissionRate
+  const gross = options.amountBasis === "net" && rate > 0 && rate < 1 ? unit / (1 - rate) : unit
+  return Math.round(gross)
+}
@@ -1,4 +1,6 @@
 // src/features/settlements/lib/parseSettlementCsv.ts
+import { parseCsv } from "@/lib/csv"
+import type { CsvParseOptions } from "@/lib/csv"
 
 export type ColumnMapping = {
     productName: string // CSV 헤더 중 "상품명"에 해당하는 컬럼명
@@ -27,85 +29,16 @@ export type ColumnMapping = {
     return Number.isFinite(n) ? n : null
   }
   
-  function splitLineQuoteSafe(line: string, delimiter: string): string[] {
-    const out: string[] = []
-    let cur = ""
-    let inQuotes = false
-  
-    for (let i = 0; i < line.length; i++) {
-      const ch = line[i]
-  
-      if (ch === '"') {
-        // "" -> " 처리
-        const next = line[i + 1]
-        if (inQuotes && next === '"') {
-          cur += '"'
-          i++
-        } else {
-          inQuotes = !inQuotes
-        }
-        continue
-      }
-  
-      if (!inQuotes && ch === delimiter) {
-        out.push(cur.trim())
-        cur = ""
-        continue
-      }
-  
-      cur += ch
-    }
-  
-    out.push(cur.trim())
-  
-    // 양끝 따옴표 제거(남아있다면)
-    return out.map((v) => v.replace(/^"|"$/g, "").trim())
-  }
-  
-  function detectDelimiter(lines: string[]): string {
-    const candidates = [",", ";", "\t", "|"] as const
-  
-    // 첫 5줄 정도로 “열 개수 최대 + 일관성” 기준으로 선택
-    const sample = lines.slice(0, Math.min(5, lines.length))
-  
-    let best = ","
-    let bestScore = -Infinity
-  
-    for (const d of candidates) {
-      const counts = sample.map((l) => splitLineQuoteSafe(l, d).length)
-      const maxCols = Math.max(...counts)
-      const minCols = Math.min(...counts)
-      const variance = maxCols - minCols // 0에 가까울수록 일관적
-  
-      // 점수: 열 많을수록 좋고, 일관성 있을수록 좋음
-      const score = maxCols * 10 - variance
-  
-      if (score > bestScore) {
-        bestScore = score
-        best = d
-      }
-    }
-  
-    return best
-  }
-  
-  export function parseCsvTextBasic(csvText: string): { headers: string[]; rows: string[][] } {
-    const lines = csvText
-      .replace(/\r\n/g, "\n")
-      .replace(/\r/g, "\n")
-      .split("\n")
-      // trim은 헤더 내부 공백까지 날릴 수 있어서 양끝만 정리
-      .map((l) => l.replace(/^\uFEFF/, "").trimEnd()) // BOM 제거 + 오른쪽 공백 제거
-      .filter((l) => l.trim().length > 0)
-  
-    if (lines.length === 0) return { headers: [], rows: [] }
-  
-    const delimiter = detectDelimiter(lines)
-  
-    const headers = splitLineQuoteSafe(lines[0], delimiter).map((h) => h.trim())
-    const rows = lines.slice(1).map((l) => splitLineQuoteSafe(l, delimiter))
-  
-    return { headers, rows }
+  /**
+   * 정산 CSV → 헤더 + 데이터 행 (공용 RFC 4180 파서 사용)
+   * - headerRow가 0이면 헤더 앞 안내문을 자동으로 건너뛰고, 끝쪽 합계 행은 제거
+   */
+  export function parseCsvTextBasic(
+    csvText: string,
+    options: CsvParseOptions = {}
+  ): { headers: string[]; rows: string[][]; delimiter: string } {
+    const { headers, rows, delimiter } = parseCsv(csvText, options)
+    return { headers, rows, delimiter }
   }
   
   /**
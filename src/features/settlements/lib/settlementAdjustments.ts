@@ -0,0 +1,80 @@
+// src/features/settlements/lib/settlementAdjustments.ts
+import type { SettlementLineKind } from "@/data/models"
+
+// 정산 라인 유형 (판매 + 조정)
+// - 판매/반품: 상품 라인 (반품은 수량·금액 음수, 재고 반영 시 입점처 재고 +)
+// - 할인: 금액만 (음수) → 판매액에서 차감, 수수료도 같이 줄어듦
+// - 배송비/광고비: 금액만 (음수) → 판매액·수수료와 별개로 정산금에서만 차감
+// - 헤더 계산은 evaluate_settlement_commission RPC와 같음
+
+export const LINE_KIND_LABEL: Record<SettlementLineKind, string> = {
+  sale: "판매",
+  return: "반품",
+  discount: "할인",
+  shipping: "배송비",
+  ad_fee: "광고비",
+}
+
+export const LINE_KIND_OPTIONS = (Object.keys(LINE_KIND_LABEL) as SettlementLineKind[]).map((value) => ({
+  value,
+  label: LINE_KIND_LABEL[value],
+}))
+
+/** 상품/수량이 있는 라인 (재고 반영 대상) */
+export function isProductLineKind(kind: SettlementLineKind | null | undefined) {
+  return !kind || kind === "sale" || kind === "return"
+}
+
+/** 판매액(gross)·수수료에 들어가지 않고 정산금에서만 빼는 라인 */
+export function isDeductionLineKind(kind: SettlementLineKind | null | undefined) {
+  return kind === "shipping" || kind === "ad_fee"
+}
+
+// 구분 컬럼/상품명 키워드 → 유형 (앞에서부터 먼저 맞는 것)
+const KIND_KEYWORDS: Array<[SettlementLineKind, string[]]> = [
+  ["return", ["반품", "환불", "취소", "return", "refund"]],
+  ["shipping", ["배송", "택배", "운송", "shipping", "delivery"]],
+  ["ad_fee", ["광고", "ad fee", "adfee", "마케팅비"]],
+  ["discount", ["할인", "쿠폰", "프로모션", "discount", "coupon", "promotion"]],
+  ["sale", ["판매", "매출", "sale", "sales"]],
+]
+
+function kindFromText(text: string): SettlementLineKind | null {
+  const t = String(text ?? "").trim().toLowerCase()
+  if (!t) return null
+  for (const [kind, words] of KIND_KEYWORDS) {
+    if (words.some((w) => t.includes(w))) return kind
+  }
+  return null
+}
+
+/**
+ * 정산 파일 행 → 라인 유형
+ * - 구분 컬럼 값 > 상품 없는 행의 상품명(예: "배송비 차감") > 음수 수량(반품) > 상품 없는 음수 금액(할인) > 판매
+ */
+export function classifyLineKind(input: {
+  kindCell: string
+  productName: string
+  hasProductKey: boolean // 바코드/SKU가 있는 행
+  qty: number
+  amount: number
+}): SettlementLineKind {
+  const byCell = kindFromText(input.kindCell)
+  if (byCell && !(byCell === "sale" && input.qty < 0)) return byCell
+
+  if (!input.hasProductKey) {
+    const byName = kindFromText(input.productName)
+    if (byName && byName !== "sale" && byName !== "return") return byName
+  }
+
+  if (input.qty < 0) return "return"
+  if (input.qty === 0 && input.amount < 0) return "discount"
+  return "sale"
+}
+
+/** 유형에 맞게 부호 정리: 반품 수량은 음수, 조정 금액은 음수 (파일에 양수로 적힌 경우) */
+export function signedLine(kind: SettlementLineKind, qty: number, amount: number) {
+  if (kind === "sale") return { qty, amount }
+  if (kind === "return") return { qty: -Math.abs(qty), amount: -Math.abs(amount) }
+  return { qty: 0, amount: -Math.abs(amount) }
+}
@@ -0,0 +1,248 @@
+// src/features/settlements/lib/settlementDiff.ts
+import type { CommissionRuleSet, SettlementLineKind } from "@/data/models"
+import type { SettlementLineInput } from "@/data/store.supabase"
+import type { SettlementPeriod } from "@/lib/settlementPeriod"
+import {
+  evaluateCommission,
+  type CommissionEvaluation,
+  type CommissionLineInput,
+} from "@/features/settlements/lib/commissionRules"
+
+// 정산 저장 전 비교 화면용: 기존 정산(배치/라인) vs 저장 후 모습
+// - 배치 교체 규칙은 apply_settlement RPC와 같음 (replace_batch = 같은 파일명, replace_all = 전부, merge = 없음)
+// - 재고 델타도 RPC와 같은 식: 교체되는 배치 중 재고 반영분 - 이번 배치(재고 반영 시)
+// - 수수료는 저장 후 남는 라인 전체로 입점처 수수료 규칙 평가 (RPC와 같은 식)
+// - 반품/할인/배송비/광고비 조정 라인은 유형별로 따로 비교 (정산금 = 판매액 - 수수료 - 차감)
+
+export type SettlementUploadMode = "replace_batch" | "merge" | "replace_all"
+
+export type ExistingSettlementBatch = {
+  id: string
+  source_filename: string | null
+  apply_to_inventory: boolean
+}
+
+export type ExistingSettlementLine = {
+  batch_id: string | null
+  line_kind?: SettlementLineKind | null
+  product_id: string | null
+  product_name_raw: string
+  product_name_matched: string | null
+  qty_sold: number
+  gross_amount: number
+}
+
+export type SettlementApplyPlan = {
+  storeId: string
+  storeName: string
+  period: SettlementPeriod
+  commissionRate: number // 0.25 형태 (기본 요율)
+  commissionRules: CommissionRuleSet | null
+  storeFee: number | null // 월 입점료
+  productCategory: Map<string, string> // productId → 카테고리 (카테고리 요율용)
+  lines: SettlementLineInput[]
+  existing: {
+    grossAmount: number
+    commissionAmount: number
+    deductionAmount: number
+    netAmount: number
+    rowsCount: number
+    batches: ExistingSettlementBatch[]
+    lines: ExistingSettlementLine[]
+  } | null
+}
+
+export type SettlementTotals = {
+  grossAmount: number
+  commissionAmount: number
+  deductionAmount: number // 배송비/광고비
+  netAmount: number
+  rowsCount: number
+}
+
+type LineFigures = { qty: number; unitPrice: number; gross: number }
+
+export type SettlementLineChange = {
+  key: string
+  name: string
+  lineKind: SettlementLineKind
+  kind: "added" | "removed" | "changed"
+  before: LineFigures | null
+  after: LineFigures | null
+}
+
+export type SettlementDiff = {
+  isNew: boolean
+  replacedBatches: number
+  keptBatches: number
+  before: SettlementTotals | null
+  after: SettlementTotals
+  changes: SettlementLineChange[]
+  unchanged: number
+  inventory: Array<{ productId: string; name: string; qtyDelta: number }> // -판매 차감 / +되돌림
+  commission: CommissionEvaluation
+}
+
+export function replacedBatchIds(
+  batches: ExistingSettlementBatch[],
+  mode: SettlementUploadMode,
+  sourceFilename: string | null
+) {
+  if (mode === "merge") return new Set<string>()
+  return new Set(
+    batches
+      .filter((b) => mode === "replace_all" || (b.source_filename ?? "") === (sourceFilename ?? ""))
+      .map((b) => b.id)
+  )
+}
+
+type Agg = { name: string; lineKind: SettlementLineKind; qty: number; gross: number }
+
+function lineKey(lineKind: SettlementLineKind, productId: string | null | undefined, name: string) {
+  return `${lineKind}:${productId ? `p:${productId}` : `n:${name}`}`
+}
+
+function add(
+  map: Map<string, Agg>,
+  key: string,
+  name: string,
+  lineKind: SettlementLineKind,
+  qty: number,
+  gross: number
+) {
+  const cur = map.get(key) ?? { name, lineKind, qty: 0, gross: 0 }
+  cur.qty += qty
+  cur.gross += gross
+  map.set(key, cur)
+}
+
+function figures(a: Agg | undefined): LineFigures | null {
+  if (!a) return null
+  return { qty: a.qty, gross: a.gross, unitPrice: a.qty !== 0 ? Math.round(a.gross / a.qty) : 0 }
+}
+
+export function buildSettlementDiff(input: {
+  plan: SettlementApplyPlan
+  uploadMode: SettlementUploadMode
+  sourceFilename: string | null
+  applyToInventory: boolean
+}): SettlementDiff {
+  const { plan } = input
+  const existing = plan.existing
+  const replaced = existing ? replacedBatchIds(existing.batches, input.uploadMode, input.sourceFilename) : new Set<string>()
+  const appliedReplaced = new Set(
+    (existing?.batches ?? []).filter((b) => replaced.has(b.id) && b.apply_to_inventory).map((b) => b.id)
+  )
+
+  const before = new Map<string, Agg>()
+  const after = new Map<string, Agg>()
+  const oldQty = new Map<string, number>()
+  const newQty = new Map<string, number>()
+  const nameByProduct = new Map<string, string>()
+  const afterLines: CommissionLineInput[] = []
+  const toCommissionLine = (
+    kind: SettlementLineKind,
+    productId: string | null | undefined,
+    qty: number,
+    gross: number
+  ): CommissionLineInput => ({
+    kind,
+    productId: productId ?? null,
+    category: productId ? plan.productCategory.get(productId) ?? null : null,
+    qty,
+    gross,
+  })
+
+  for (const l of existing?.lines ?? []) {
+    const name = l.product_name_matched || l.product_name_raw
+    const lineKind = l.line_kind ?? "sale"
+    const key = lineKey(lineKind, l.product_id, name)
+    const qty = Number(l.qty_sold ?? 0)
+    const gross = Number(l.gross_amount ?? 0)
+    add(before, key, name, lineKind, qty, gross)
+
+    const isReplaced = l.batch_id != null && replaced.has(l.batch_id)
+    if (!isReplaced) {
+      add(after, key, name, lineKind, qty, gross)
+      afterLines.push(toCommissionLine(lineKind, l.product_id, qty, gross))
+    }
+
+    if (l.product_id && l.batch_id && appliedReplaced.has(l.batch_id)) {
+      oldQty.set(l.product_id, (oldQty.get(l.product_id) ?? 0) + qty)
+      nameByProduct.set(l.product_id, name)
+    }
+  }
+
+  for (const l of plan.lines) {
+    const name = l.productNameMatched || l.productNameRaw
+    const lineKind = l.lineKind ?? "sale"
+    add(after, lineKey(lineKind, l.productId, name), name, lineKind, l.qtySold, l.grossAmount)
+    afterLines.push(toCommissionLine(lineKind, l.productId, l.qtySold, l.grossAmount))
+
+    if (input.applyToInventory && l.productId) {
+      newQty.set(l.productId, (newQty.get(l.productId) ?? 0) + l.qtySold)
+      nameByProduct.set(l.productId, name)
+    }
+  }
+
+  const changes: SettlementLineChange[] = []
+  let unchanged = 0
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const b = before.get(key)
+    const a = after.get(key)
+    const { name, lineKind } = (a ?? b)!
+    if (!b) changes.push({ key, name, lineKind, kind: "added", before: null, after: figures(a) })
+    else if (!a) changes.push({ key, name, lineKind, kind: "removed", before: figures(b), after: null })
+    else if (b.qty !== a.qty || b.gross !== a.gross) {
+      changes.push({ key, name, lineKind, kind: "changed", before: figures(b), after: figures(a) })
+    } else unchanged += 1
+  }
+  const KIND_ORDER = { added: 0, changed: 1, removed: 2 }
+  changes.sort((x, y) => KIND_ORDER[x.kind] - KIND_ORDER[y.kind] || x.name.localeCompare(y.name, "ko"))
+
+  const commission = evaluateCommission({
+    rules: plan.commissionRules,
+    baseRate: plan.commissionRate,
+    storeFee: plan.storeFee,
+    period: plan.period,
+    lines: afterLines,
+  })
+  const grossAfter = commission.gross
+  const commissionAfter = commission.commissionAmount
+  const keptLineCount = (existing?.lines ?? []).filter((l) => !(l.batch_id != null && replaced.has(l.batch_id))).length
+
+  const inventory = Array.from(new Set([...oldQty.keys(), ...newQty.keys()]))
+    .map((productId) => ({
+      productId,
+      name: nameByProduct.get(productId) ?? productId,
+      qtyDelta: (oldQty.get(productId) ?? 0) - (newQty.get(productId) ?? 0),
+    }))
+    .filter((x) => x.qtyDelta !== 0)
+    .sort((x, y) => x.qtyDelta - y.qtyDelta)
+
+  return {
+    isNew: !existing,
+    replacedBatches: replaced.size,
+    keptBatches: (existing?.batches.length ?? 0) - replaced.size,
+    before: existing
+      ? {
+          grossAmount: existing.grossAmount,
+          commissionAmount: existing.commissionAmount,
+          deductionAmount: existing.deductionAmount,
+          netAmount: existing.netAmount,
+          rowsCount: existing.rowsCount,
+        }
+      : null,
+    after: {
+      grossAmount: grossAfter,
+      commissionAmount: commissionAfter,
+      deductionAmount: commission.deductions,
+      netAmount: grossAfter - commissionAfter - commission.deductions,
+      rowsCount: keptLineCount + plan.lines.length,
+    },
+    changes,
+    unchanged,
+    inventory,
+    commission,
+  }
+}
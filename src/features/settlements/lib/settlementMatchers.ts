@@ -0,0 +1,191 @@
+// src/features/settlements/lib/settlementMatchers.ts
+import type { Product, ProductAlias, ProductAliasKind, Store } from "@/data/models"
+
+// 정산 행 → 제품 매칭 파이프라인
+// 바코드 → SKU → 저장된 별칭(입점처별) → 정규화 상품명 일치 → 상품명 유사도
+export type MatchMethod = "barcode" | "sku" | "alias" | "name" | "fuzzy"
+
+export type MatchResult = {
+  productId: string
+  method: MatchMethod
+  confidence: number // 0~1
+}
+
+export type MatchInput = {
+  barcode?: string
+  sku?: string
+  name?: string
+}
+
+export const MATCH_METHOD_LABEL: Record<MatchMethod, string> = {
+  barcode: "바코드",
+  sku: "SKU",
+  alias: "별칭",
+  name: "상품명",
+  fuzzy: "유사 상품명",
+}
+
+// 이 이상이면 자동 매칭, 그 아래(FUZZY_SUGGEST_MIN 이상)는 추천만
+export const AUTO_MATCH_CONFIDENCE = 0.85
+const FUZZY_SUGGEST_MIN = 0.55
+
+const CONFIDENCE: Record<Exclude<MatchMethod, "fuzzy">, number> = {
+  barcode: 1,
+  sku: 0.98,
+  alias: 0.97,
+  name: 0.92,
+}
+
+// "880-1234 567" / "'8801234567" → "8801234567"
+export function normalizeCode(v: string | null | undefined) {
+  return String(v ?? "")
+    .trim()
+    .replace(/^'/, "")
+    .replace(/[\s-]/g, "")
+    .toUpperCase()
+}
+
+// 전각/반각, 대소문자, 공백, 괄호/기호 차이 무시
+export function normalizeProductName(v: string | null | undefined) {
+  return String(v ?? "")
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]/gu, "")
+}
+
+function bigrams(s: string) {
+  const out = new Map<string, number>()
+  for (let i = 0; i < s.length - 1; i++) {
+    const g = s.slice(i, i + 2)
+    out.set(g, (out.get(g) ?? 0) + 1)
+  }
+  return out
+}
+
+// Dice 계수 (글자 2-gram). 한 글자 이름은 완전 일치만 인정
+export function nameSimilarity(a: string, b: string) {
+  if (!a || !b) return 0
+  if (a === b) return 1
+  if (a.length < 2 || b.length < 2) return 0
+
+  const ga = bigrams(a)
+  const gb = bigrams(b)
+  let overlap = 0
+  for (const [g, n] of ga) overlap += Math.min(n, gb.get(g) ?? 0)
+  return (2 * overlap) / (a.length - 1 + (b.length - 1))
+}
+
+export function aliasKeyOf(kind: ProductAliasKind, raw: string) {
+  return kind === "name" ? normalizeProductName(raw) : normalizeCode(raw)
+}
+
+/**
+ * 수동 매칭한 행 → 저장할 별칭 (파일에 있는 식별자 전부)
+ */
+export function aliasesForManualMatch(input: MatchInput & { productId: string }) {
+  const out: Array<Pick<ProductAlias, "kind" | "aliasKey" | "aliasRaw" | "productId">> = []
+  const push = (kind: ProductAliasKind, raw: string | undefined) => {
+    const aliasRaw = String(raw ?? "").trim()
+    const aliasKey = aliasKeyOf(kind, aliasRaw)
+    if (aliasKey) out.push({ kind, aliasKey, aliasRaw, productId: input.productId })
+  }
+  push("barcode", input.barcode)
+  push("sku", input.sku)
+  push("name", input.name)
+  return out
+}
+
+/**
+ * 정산 파일의 입점처 값 → 앱 입점처 (입점처명 또는 이름 별칭, 공백/기호/대소문자 무시)
+ */
+export function buildStoreMatcher(stores: Store[]) {
+  const byKey = new Map<string, Store>()
+  for (const s of stores) {
+    for (const n of [s.name, ...(s.nameAliases ?? [])]) {
+      const key = normalizeProductName(n)
+      if (key && !byKey.has(key)) byKey.set(key, s)
+    }
+  }
+  return (raw: string) => byKey.get(normalizeProductName(raw)) ?? null
+}
+
+export type ProductMatcher = {
+  /** 자동 매칭 (신뢰도 AUTO_MATCH_CONFIDENCE 이상) */
+  match: (input: MatchInput) => MatchResult | null
+  /** 자동 매칭이 안 될 때 보여줄 추천 (유사 상품명) */
+  suggest: (input: MatchInput) => MatchResult | null
+}
+
+export function buildProductMatcher(input: { products: Product[]; aliases: ProductAlias[] }): ProductMatcher {
+  const productIds = new Set(input.products.map((p) => p.id))
+
+  const byBarcode = new Map<string, string>()
+  const bySku = new Map<string, string>()
+  const byName = new Map<string, string>()
+  const names: Array<{ id: string; key: string }> = []
+
+  for (const p of input.products) {
+    const bc = normalizeCode(p.barcode)
+    if (bc && !byBarcode.has(bc)) byBarcode.set(bc, p.id)
+    const sku = normalizeCode(p.sku)
+    if (sku && !bySku.has(sku)) bySku.set(sku, p.id)
+    const key = normalizeProductName(p.name)
+    if (key) {
+      if (!byName.has(key)) byName.set(key, p.id)
+      names.push({ id: p.id, key })
+    }
+  }
+
+  // 삭제된 제품을 가리키는 별칭은 무시
+  const aliasByKey = new Map<string, string>()
+  for (const a of input.aliases) {
+    if (productIds.has(a.productId)) aliasByKey.set(`${a.kind}__${a.aliasKey}`, a.productId)
+  }
+  const alias = (kind: ProductAliasKind, raw: string | undefined) => {
+    const key = aliasKeyOf(kind, String(raw ?? ""))
+    return key ? aliasByKey.get(`${kind}__${key}`) : undefined
+  }
+
+  const exact = (m: MatchInput): MatchResult | null => {
+    const bc = normalizeCode(m.barcode)
+    if (bc && byBarcode.has(bc)) return { productId: byBarcode.get(bc)!, method: "barcode", confidence: CONFIDENCE.barcode }
+
+    const sku = normalizeCode(m.sku)
+    if (sku && bySku.has(sku)) return { productId: bySku.get(sku)!, method: "sku", confidence: CONFIDENCE.sku }
+
+    const aliased = alias("barcode", m.barcode) ?? alias("sku", m.sku) ?? alias("name", m.name)
+    if (aliased) return { productId: aliased, method: "alias", confidence: CONFIDENCE.alias }
+
+    const nameKey = normalizeProductName(m.name)
+    if (nameKey && byName.has(nameKey)) return { productId: byName.get(nameKey)!, method: "name", confidence: CONFIDENCE.name }
+
+    return null
+  }
+
+  const fuzzy = (m: MatchInput): MatchResult | null => {
+    const nameKey = normalizeProductName(m.name)
+    if (!nameKey) return null
+
+    let best: { id: string; score: number } | null = null
+    for (const n of names) {
+      const score = nameSimilarity(nameKey, n.key)
+      if (!best || score > best.score) best = { id: n.id, score }
+    }
+    if (!best || best.score < FUZZY_SUGGEST_MIN) return null
+    return { productId: best.id, method: "fuzzy", confidence: Math.round(best.score * 100) / 100 }
+  }
+
+  return {
+    match: (m) => {
+      const hit = exact(m)
+      if (hit) return hit
+      const f = fuzzy(m)
+      return f && f.confidence >= AUTO_MATCH_CONFIDENCE ? f : null
+    },
+    suggest: (m) => {
+      if (exact(m)) return null
+      const f = fuzzy(m)
+      return f && f.confidence < AUTO_MATCH_CONFIDENCE ? f : null
+    },
+  }
+}
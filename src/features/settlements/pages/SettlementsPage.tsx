@@ -3,6 +3,8 @@ import { Trash2 } from "lucide-react"
 
 import PageHeader from "@/app/layout/PageHeader"
 import SettlementUploader from "@/features/settlements/components/SettlementUploader"
+import { ReceivablesCard } from "@/features/settlements/components/ReceivablesCard"
+import { BankReconcileCard } from "@/features/settlements/components/BankReconcileCard"
 import MarketplacePerformance from "@/features/dashboard/components/MarketplacePerformance"
 
 import { AppCard } from "@/components/app/AppCard"
@@ -15,14 +17,22 @@ import { ErrorState } from "@/components/shared/ErrorState"
 import { ConfirmDialog } from "@/components/shared/ConfirmDialog"
 
 import { useAppData } from "@/features/core/useAppData"
+import type { MaterialLibraryItem, Product, ProductMaterial } from "@/data/models"
+import { rollupProduct } from "@/features/products/lib/variants"
+import { buildBomIndex } from "@/features/products/lib/bom"
 import {
   listSettlementsDB,
   getSettlementDetailDB,
   deleteSettlementV2DB,
+  deleteSettlementBatchDB,
+  evaluateSettlementCommissionDB,
   listSettlementLinesV2DB,
-  upsertInventoryItemDB,
 } from "@/data/store.supabase"
 
+import { formatPeriod, monthShare, periodOf } from "@/lib/settlementPeriod"
+import { PAYOUT_STATUS_LABEL, payoutStatus } from "@/lib/settlementPayout"
+import { commissionRuleLabel } from "@/features/settlements/lib/commissionRules"
+import { isProductLineKind, LINE_KIND_LABEL } from "@/features/settlements/lib/settlementAdjustments"
 import { toast } from "@/lib/toast"
 
 import {
@@ -81,7 +91,11 @@ export default function SettlementsPage() {
   const [error, setError] = useState<string>("")
   const [items, setItems] = useState<any[]>([])
   const [selectedId, setSelectedId] = useState<string>("")
-  const [detail, setDetail] = useState<{ settlement: any; lines: any[] } | null>(null)
+  const [detail, setDetail] = useState<{
+    settlement: Awaited<ReturnType<typeof getSettlementDetailDB>>["settlement"]
+    lines: any[]
+    batches: Awaited<ReturnType<typeof getSettlementDetailDB>>["batches"]
+  } | null>(null)
 
   const [deleteOpen, setDeleteOpen] = useState(false)
   const [deleteBusy, setDeleteBusy] = useState(false)
@@ -90,6 +104,8 @@ export default function SettlementsPage() {
     storeId: string
     month: string
     applyToInventory: boolean
+    batchId?: string // 있으면 정산 전체가 아니라 업로드 배치 1개만 삭제
+    batchName?: string
   } | null>(null)
   const [restoreOnDelete, setRestoreOnDelete] = useState(true)
 
@@ -154,51 +170,53 @@ export default function SettlementsPage() {
     setDeleteOpen(false)
     setDeleteTarget(null)
 
-    // Optimistic
-    setItems((prev) => prev.filter((x) => x.id !== deletingId))
-    if (selectedId === deletingId) {
-      setSelectedId("")
-      setDetail(null)
+    // Optimistic (배치 삭제는 남은 배치로 합계를 다시 계산한 뒤 목록을 새로 읽음)
+    if (!target.batchId) {
+      setItems((prev) => prev.filter((x) => x.id !== deletingId))
+      if (selectedId === deletingId) {
+        setSelectedId("")
+        setDetail(null)
+      }
     }
 
     ;(async () => {
       try {
         const loadingId = (toast as any).loading?.("삭제 중...")
 
-        // (선택) 재고 복원
-        if (target.applyToInventory && restore) {
-          const lines = await listSettlementLinesV2DB({ settlementId: deletingId })
-
-          const restoreMap = new Map<string, number>()
-          for (const l of lines ?? []) {
-            const pid = String((l as any).product_id ?? (l as any).productId ?? "")
-            if (!pid) continue
-            const q = Number((l as any).qty_sold ?? (l as any).qtySold ?? 0)
-            restoreMap.set(pid, (restoreMap.get(pid) ?? 0) + q)
-          }
-
-          for (const [pid, restoreQty] of restoreMap.entries()) {
-            const inv = (a.data.inventory ?? []).find(
-              (x: any) => String(x.storeId) === String(target.storeId) && String(x.productId) === String(pid)
-            )
-            const current = Number(inv?.onHandQty ?? 0)
-            const nextQty = current + restoreQty
-
-            await upsertInventoryItemDB({
-              storeId: target.storeId,
-              productId: pid,
-              onHandQty: nextQty,
-            })
-          }
+        let remaining = true
+        if (target.batchId) {
+          // 재고 역분개 + 배치 삭제 + 합계 재계산을 한 트랜잭션으로
+          remaining =
+            (await deleteSettlementBatchDB({
+              batchId: target.batchId,
+              restoreInventory: target.applyToInventory && restore,
+            })) != null
+        } else {
+          // (선택) 재고 복원도 같은 트랜잭션에서
+          // - 판매로 차감했던 수량을 원장에 역분개로 기록 (현재값 덮어쓰기 X)
+          await deleteSettlementV2DB({
+            settlementId: deletingId,
+            restoreInventory: target.applyToInventory && restore,
+          })
         }
 
-        await deleteSettlementV2DB({ settlementId: deletingId })
-
         if (loadingId) (toast as any).dismiss?.(loadingId)
-        toast.success(target.applyToInventory && restore ? "삭제 완료 (재고 복원됨)" : "정산 데이터가 삭제되었습니다.")
+        toast.success(
+          target.batchId
+            ? remaining
+              ? "배치를 삭제하고 합계를 다시 계산했어요."
+              : "마지막 배치라 정산도 함께 삭제했어요."
+            : target.applyToInventory && restore
+              ? "삭제 완료 (재고 복원됨)"
+              : "정산 데이터가 삭제되었습니다."
+        )
 
         await a.refresh()
         await load()
+        if (target.batchId && remaining) {
+          setSelectedId(deletingId)
+          setDetail(await getSettlementDetailDB({ settlementId: deletingId }))
+        }
       } catch (e: any) {
         toast.error(`삭제 실패: ${e?.message ?? String(e)}`)
         await load()
@@ -208,6 +226,20 @@ export default function SettlementsPage() {
     })()
   }
 
+  // 수수료 규칙을 바꾼 뒤 이미 저장된 정산에 다시 적용
+  const reevaluateCommission = async (settlementId: string) => {
+    try {
+      await evaluateSettlementCommissionDB({ settlementId })
+      toast.success("현재 수수료 규칙으로 다시 계산했어요.")
+      await a.refresh()
+      await load()
+      setSelectedId(settlementId)
+      setDetail(await getSettlementDetailDB({ settlementId }))
+    } catch (e) {
+      toast.error(`수수료 재계산 실패: ${e instanceof Error ? e.message : String(e)}`)
+    }
+  }
+
   if (a.errorMsg) return <ErrorState message={a.errorMsg} onRetry={a.refresh} />
 
   return (
@@ -236,12 +268,37 @@ export default function SettlementsPage() {
           storeId={storeId}
           items={items}
           storeNameById={storeNameById}
+          products={a.data.products}
+          productMaterials={a.data.productMaterials}
+          materials={a.data.materials}
         />
       </div>
 
       {/* 업로드 */}
       <SettlementUploader />
 
+      {/* 미수금 (입금 추적) */}
+      <ReceivablesCard
+        settlements={a.data.settlementsV2 ?? []}
+        stores={a.data.stores ?? []}
+        storeTerms={a.data.storeTerms ?? []}
+        onChanged={async () => {
+          await a.refresh()
+          await load()
+        }}
+      />
+
+      {/* 은행 입금 대사 */}
+      <BankReconcileCard
+        settlements={a.data.settlementsV2 ?? []}
+        stores={a.data.stores ?? []}
+        storeTerms={a.data.storeTerms ?? []}
+        onChanged={async () => {
+          await a.refresh()
+          await load()
+        }}
+      />
+
       {/* 저장된 정산(v2) 조회 */}
       <AppCard
         density="compact"
@@ -309,63 +366,68 @@ export default function SettlementsPage() {
             <TableHeader>
               <TableRow>
                 <TableHead className="w-[140px]">입점처</TableHead>
-                <TableHead className="w-[90px]">월</TableHead>
+                <TableHead className="w-[150px]">기간</TableHead>
                 <TableHead className="w-[120px] text-right">총매출</TableHead>
                 <TableHead className="w-[120px] text-right">수수료</TableHead>
                 <TableHead className="w-[120px] text-right">정산금</TableHead>
-                <TableHead className="w-[160px] text-right pr-6">작업</TableHead>
+                <TableHead className="w-[230px] text-right pr-6">작업</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {items.map((s: any) => (
-                <TableRow
-                  key={s.id}
-                  className={selectedId === s.id ? "bg-muted/30" : undefined}
-                  onClick={() => openDetail(s.id)}
-                >
-                  <TableCell className="truncate">
-                    {storeNameById.get(String(s.marketplace_id)) ?? "-"}
-                  </TableCell>
-                  <TableCell>{s.period_month?.replace("-", ".")}</TableCell>
-                  <TableCell className="text-right tabular-nums">{Number(s.gross_amount ?? 0).toLocaleString()}원</TableCell>
-                  <TableCell className="text-right tabular-nums">{Number(s.commission_amount ?? 0).toLocaleString()}원</TableCell>
-                  <TableCell className="text-right tabular-nums">{Number(s.net_amount ?? 0).toLocaleString()}원</TableCell>
-                  <TableCell className="text-right pr-6">
-                    <div className="inline-flex items-center justify-end gap-2">
-                      <span
-                        className={
-                          s.apply_to_inventory
-                            ? "inline-flex items-center rounded-md border px-2 py-1 text-[11px] text-foreground"
-                            : "inline-flex items-center rounded-md border px-2 py-1 text-[11px] text-muted-foreground"
-                        }
-                      >
-                        {s.apply_to_inventory ? "재고반영" : "미반영"}
-                      </span>
-
-                      <AppButton
-                        type="button"
-                        variant="ghost"
-                        size="icon"
-                        className="text-muted-foreground hover:text-destructive hover:bg-transparent"
-                        onClick={(e) => {
-                          e.preventDefault()
-                          e.stopPropagation()
-                          setDeleteTarget({
-                            id: s.id,
-                            storeId: s.marketplace_id,
-                            month: s.period_month,
-                            applyToInventory: Boolean(s.apply_to_inventory),
-                          })
-                          setRestoreOnDelete(Boolean(s.apply_to_inventory))
-                          setDeleteOpen(true)
-                        }}
-                      >
-                        <Trash2 className="h-4 w-4 transition-colors duration-200" />
-                      </AppButton>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))}
+              {items.map((s: any) => {
+                const payout = payoutStatus(Number(s.net_amount ?? 0), Number(s.paid_amount ?? 0))
+                return (
+                  <TableRow
+                    key={s.id}
+                    className={selectedId === s.id ? "bg-muted/30" : undefined}
+                    onClick={() => openDetail(s.id)}
+                  >
+                    <TableCell className="truncate">
+                      {storeNameById.get(String(s.marketplace_id)) ?? "-"}
+                    </TableCell>
+                    <TableCell className="tabular-nums">{formatPeriod(periodOf(s))}</TableCell>
+                    <TableCell className="text-right tabular-nums">{Number(s.gross_amount ?? 0).toLocaleString()}원</TableCell>
+                    <TableCell className="text-right tabular-nums">{Number(s.commission_amount ?? 0).toLocaleString()}원</TableCell>
+                    <TableCell className="text-right tabular-nums">{Number(s.net_amount ?? 0).toLocaleString()}원</TableCell>
+                    <TableCell className="text-right pr-6">
+                      <div className="inline-flex items-center justify-end gap-2">
+                        <span
+                          className={
+                            s.apply_to_inventory
+                              ? "inline-flex items-center rounded-md border px-2 py-1 text-[11px] text-foreground"
+                              : "inline-flex items-center rounded-md border px-2 py-1 text-[11px] text-muted-foreground"
+                          }
+                        >
+                          {s.apply_to_inventory ? "재고반영" : "미반영"}
+                        </span>
+
+                        <AppBadge variant={payout === "paid" ? "secondary" : "outline"}>{PAYOUT_STATUS_LABEL[payout]}</AppBadge>
+
+                        <AppButton
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="text-muted-foreground hover:text-destructive hover:bg-transparent"
+                          onClick={(e) => {
+                            e.preventDefault()
+                            e.stopPropagation()
+                            setDeleteTarget({
+                              id: s.id,
+                              storeId: s.marketplace_id,
+                              month: formatPeriod(periodOf(s)),
+                              applyToInventory: Boolean(s.apply_to_inventory),
+                            })
+                            setRestoreOnDelete(Boolean(s.apply_to_inventory))
+                            setDeleteOpen(true)
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 transition-colors duration-200" />
+                        </AppButton>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
 
               {items.length === 0 ? (
                 <TableRow>
@@ -380,7 +442,121 @@ export default function SettlementsPage() {
 
         {detail ? (
           <div className="mt-4 space-y-2">
-            <div className="text-sm font-medium">정산 상세</div>
+            <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+              <span className="text-sm font-medium text-foreground">수수료 내역</span>
+              {detail.settlement.commission_breakdown ? (
+                <>
+                  <AppBadge variant="muted">
+                    기본 요율 {(Number(detail.settlement.commission_breakdown.base_rate ?? 0) * 100).toFixed(1)}%
+                    {detail.settlement.commission_breakdown.terms_from
+                      ? ` (${detail.settlement.commission_breakdown.terms_from}~ 조건)`
+                      : ""}
+                  </AppBadge>
+                  {detail.settlement.commission_breakdown.by_rule.map((r) => (
+                    <AppBadge key={r.rule} variant="outline">
+                      {commissionRuleLabel(r.rule)} {fmtKRW(r.amount)}원
+                    </AppBadge>
+                  ))}
+                  {detail.settlement.commission_breakdown.store_fee ? (
+                    <AppBadge variant="outline">입점료 {fmtKRW(detail.settlement.commission_breakdown.store_fee)}원</AppBadge>
+                  ) : null}
+                  {detail.settlement.commission_breakdown.tier ? (
+                    <AppBadge variant="secondary">구간 요율 {detail.settlement.commission_breakdown.tier.rate}%</AppBadge>
+                  ) : null}
+                  {detail.settlement.commission_breakdown.deductions?.shipping ? (
+                    <AppBadge variant="outline">
+                      배송비 차감 {fmtKRW(detail.settlement.commission_breakdown.deductions.shipping)}원
+                    </AppBadge>
+                  ) : null}
+                  {detail.settlement.commission_breakdown.deductions?.ad_fee ? (
+                    <AppBadge variant="outline">
+                      광고비 차감 {fmtKRW(detail.settlement.commission_breakdown.deductions.ad_fee)}원
+                    </AppBadge>
+                  ) : null}
+                </>
+              ) : (
+                <span>기본 요율 {(Number(detail.settlement.commission_rate ?? 0) * 100).toFixed(1)}%</span>
+              )}
+              <AppButton
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="ml-auto"
+                onClick={() => reevaluateCommission(detail.settlement.id)}
+              >
+                현재 규칙으로 다시 계산
+              </AppButton>
+            </div>
+
+            <div className="text-sm font-medium">업로드 배치</div>
+
+            <div className="overflow-hidden rounded-xl border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>파일</TableHead>
+                    <TableHead className="w-[140px]">업로드</TableHead>
+                    <TableHead className="w-[80px] text-right">행</TableHead>
+                    <TableHead className="w-[90px] text-right">수량</TableHead>
+                    <TableHead className="w-[120px] text-right">매출</TableHead>
+                    <TableHead className="w-[120px] text-right pr-6">작업</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.batches.map((b, i) => {
+                    const batchName = String(b.source_filename ?? "").trim() || `배치 ${i + 1}`
+                    return (
+                      <TableRow key={b.id}>
+                        <TableCell className="truncate">{batchName}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground tabular-nums">
+                          {new Date(b.created_at).toLocaleString("ko-KR", { dateStyle: "short", timeStyle: "short" })}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{Number(b.rows_count ?? 0).toLocaleString()}</TableCell>
+                        <TableCell className="text-right tabular-nums">{Number(b.qty_total ?? 0).toLocaleString()}</TableCell>
+                        <TableCell className="text-right tabular-nums">{Number(b.gross_amount ?? 0).toLocaleString()}원</TableCell>
+                        <TableCell className="text-right pr-6">
+                          <div className="inline-flex items-center justify-end gap-2">
+                            <AppBadge variant={b.apply_to_inventory ? "outline" : "muted"}>
+                              {b.apply_to_inventory ? "재고반영" : "미반영"}
+                            </AppBadge>
+                            <AppButton
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="text-muted-foreground hover:text-destructive hover:bg-transparent"
+                              onClick={() => {
+                                setDeleteTarget({
+                                  id: detail.settlement.id,
+                                  storeId: detail.settlement.marketplace_id,
+                                  month: formatPeriod(periodOf(detail.settlement)),
+                                  applyToInventory: Boolean(b.apply_to_inventory),
+                                  batchId: b.id,
+                                  batchName,
+                                })
+                                setRestoreOnDelete(Boolean(b.apply_to_inventory))
+                                setDeleteOpen(true)
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4 transition-colors duration-200" />
+                            </AppButton>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+
+                  {detail.batches.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-sm text-muted-foreground">
+                        배치가 없습니다.
+                      </TableCell>
+                    </TableRow>
+                  ) : null}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="pt-2 text-sm font-medium">정산 상세</div>
 
             <div className="overflow-hidden rounded-xl border">
               <Table>
@@ -390,6 +566,7 @@ export default function SettlementsPage() {
                     <TableHead className="w-[90px] text-right">판매</TableHead>
                     <TableHead className="w-[110px] text-right">단가</TableHead>
                     <TableHead className="w-[120px] text-right">매출</TableHead>
+                    <TableHead className="w-[120px] text-right">수수료</TableHead>
                     <TableHead className="w-[90px]">매칭</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -397,6 +574,11 @@ export default function SettlementsPage() {
                   {detail.lines.map((l: any) => (
                     <TableRow key={l.id}>
                       <TableCell className="truncate">
+                        {l.line_kind && l.line_kind !== "sale" ? (
+                          <AppBadge variant="outline" className="mr-1">
+                            {LINE_KIND_LABEL[l.line_kind as keyof typeof LINE_KIND_LABEL] ?? l.line_kind}
+                          </AppBadge>
+                        ) : null}
                         {l.product_name_matched ?? l.product_name_raw}
                       </TableCell>
                       <TableCell className="text-right tabular-nums">
@@ -408,13 +590,16 @@ export default function SettlementsPage() {
                       <TableCell className="text-right tabular-nums">
                         {Number(l.gross_amount ?? 0).toLocaleString()}
                       </TableCell>
+                      <TableCell className="text-right tabular-nums" title={commissionRuleLabel(l.commission_rule)}>
+                        {fmtKRW(Number(l.commission_amount ?? 0))}
+                      </TableCell>
                       <TableCell>{l.match_status}</TableCell>
                     </TableRow>
                   ))}
 
                   {detail.lines.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={5} className="text-sm text-muted-foreground">
+                      <TableCell colSpan={6} className="text-sm text-muted-foreground">
                         라인이 없습니다.
                       </TableCell>
                     </TableRow>
@@ -431,12 +616,14 @@ export default function SettlementsPage() {
             setDeleteOpen(o)
             if (!o) setDeleteTarget(null)
           }}
-          title="정산 데이터를 삭제할까요?"
+          title={deleteTarget?.batchId ? "업로드 배치를 삭제할까요?" : "정산 데이터를 삭제할까요?"}
           description={
             <div className="space-y-3">
               <div>
                 {deleteTarget
-                  ? `${storeNameById.get(deleteTarget.storeId) ?? "입점처"} · ${deleteTarget.month} 정산을 삭제합니다.`
+                  ? deleteTarget.batchId
+                    ? `${storeNameById.get(deleteTarget.storeId) ?? "입점처"} · ${deleteTarget.month} 정산에서 "${deleteTarget.batchName}" 배치를 삭제하고, 남은 배치로 합계를 다시 계산합니다.`
+                    : `${storeNameById.get(deleteTarget.storeId) ?? "입점처"} · ${deleteTarget.month} 정산을 삭제합니다.`
                   : "정산 데이터를 삭제합니다."}
               </div>
 
@@ -450,7 +637,11 @@ export default function SettlementsPage() {
                 />
                 <span className={deleteTarget?.applyToInventory ? "" : "text-muted-foreground"}>
                   삭제 시 재고도 복원하기
-                  {!deleteTarget?.applyToInventory ? " (이 정산은 재고차감 미적용)" : ""}
+                  {!deleteTarget?.applyToInventory
+                    ? deleteTarget?.batchId
+                      ? " (이 배치는 재고차감 미적용)"
+                      : " (이 정산은 재고차감 미적용)"
+                    : ""}
                 </span>
               </label>
             </div>
@@ -471,8 +662,20 @@ function TopProductsMiniCard(props: {
   storeId: string // "" = 전체
   items: any[] // listSettlementsDB 결과
   storeNameById: Map<string, string>
+  products: Product[]
+  productMaterials: ProductMaterial[]
+  materials: MaterialLibraryItem[]
 }) {
-  const { month, storeId, items, storeNameById } = props
+  const { month, storeId, items, storeNameById, products, productMaterials, materials } = props
+
+  // 옵션 상품 판매는 대표 제품으로 묶어서 순위 집계
+  const toRollup = useMemo(() => rollupProduct(products), [products])
+
+  // 재료비는 판매된 제품(옵션 단위)의 재료 구성 기준
+  const bom = useMemo(
+    () => buildBomIndex({ products, productMaterials, materials }),
+    [products, productMaterials, materials]
+  )
 
   const [openKey, setOpenKey] = useState<string>("")
   const [busy, setBusy] = useState(false)
@@ -482,6 +685,7 @@ function TopProductsMiniCard(props: {
       name: string
       qty: number
       gross: number
+      materialCost: number | null
       byMarketplace: Array<{ marketplaceId: string; marketplaceName: string; qty: number; gross: number }>
     }>
   >([])
@@ -512,7 +716,9 @@ function TopProductsMiniCard(props: {
           target.map(async (s) => {
             const lines = await listSettlementLinesV2DB({ settlementId: String(s.id) })
             const mid = String((s as any).marketplace_id ?? "")
-            return { mid, lines }
+            // 월을 걸친 기간(주/격주 정산)은 이 달에 속한 일수 비율만큼만 집계
+            const share = month ? monthShare(periodOf(s), month) : 1
+            return { mid, lines, share }
           })
         )
 
@@ -521,6 +727,7 @@ function TopProductsMiniCard(props: {
           {
             qty: number
             gross: number
+            materialCost: number | null
             by: Map<string, { qty: number; gross: number }>
           }
         >()
@@ -528,17 +735,23 @@ function TopProductsMiniCard(props: {
         for (const pack of linesList) {
           const mid = pack.mid
           for (const l of pack.lines ?? []) {
+            // 할인/배송비/광고비 조정 라인은 상품 판매 집계에서 제외 (반품은 음수로 상계)
+            if (!isProductLineKind((l as any).line_kind)) continue
+            const rolled = (l as any).product_id ? toRollup(String((l as any).product_id)) : null
             const name =
-              String((l as any).product_name_matched ?? (l as any).product_name_raw ?? "상품").trim() || "상품"
-            const qty = Number((l as any).qty_sold ?? 0) || 0
-            const gross = Number((l as any).gross_amount ?? 0) || 0
+              rolled?.name ??
+              (String((l as any).product_name_matched ?? (l as any).product_name_raw ?? "상품").trim() || "상품")
+            const qty = (Number((l as any).qty_sold ?? 0) || 0) * pack.share
+            const gross = (Number((l as any).gross_amount ?? 0) || 0) * pack.share
+            const unitCost = (l as any).product_id ? bom.materialCostOf(String((l as any).product_id)) : null
 
             const cur =
               agg.get(name) ??
-              { qty: 0, gross: 0, by: new Map<string, { qty: number; gross: number }>() }
+              { qty: 0, gross: 0, materialCost: null, by: new Map<string, { qty: number; gross: number }>() }
 
             cur.qty += qty
             cur.gross += gross
+            if (unitCost != null) cur.materialCost = (cur.materialCost ?? 0) + unitCost * qty
 
             if (mid) {
               const curBy = cur.by.get(mid) ?? { qty: 0, gross: 0 }
@@ -561,7 +774,7 @@ function TopProductsMiniCard(props: {
               .sort((a, b) => b.qty - a.qty)
               .slice(0, 5)
 
-            return { name, qty: v.qty, gross: v.gross, byMarketplace }
+            return { name, qty: v.qty, gross: v.gross, materialCost: v.materialCost, byMarketplace }
           })
           .sort((a, b) => b.qty - a.qty)
           .slice(0, 5)
@@ -577,7 +790,7 @@ function TopProductsMiniCard(props: {
     return () => {
       cancelled = true
     }
-  }, [month, storeId, items, storeNameById])
+  }, [month, storeId, items, storeNameById, toRollup, bom])
 
   const scopeLabel =
     storeId && storeId.trim()
@@ -607,7 +820,8 @@ function TopProductsMiniCard(props: {
                       <div className="min-w-0">
                         <div className="truncate text-sm font-medium">{r.name}</div>
                         <div className="text-xs text-muted-foreground">
-                          {fmtKRW(r.gross)}원 · {r.qty.toLocaleString()}개
+                          {fmtKRW(r.gross)}원 · {r.qty.toLocaleString("ko-KR", { maximumFractionDigits: 1 })}개
+                          {r.materialCost != null ? ` · 재료비 ${fmtKRW(r.materialCost)}원` : ""}
                         </div>
                       </div>
                       <div className="shrink-0">
@@ -627,7 +841,7 @@ function TopProductsMiniCard(props: {
                             <div key={b.marketplaceId} className="flex items-center justify-between text-sm">
                               <div className="truncate">{b.marketplaceName}</div>
                               <div className="tabular-nums text-muted-foreground">
-                                {b.qty.toLocaleString()}개 · {fmtKRW(b.gross)}원
+                                {b.qty.toLocaleString("ko-KR", { maximumFractionDigits: 1 })}개 · {fmtKRW(b.gross)}원
                               </div>
                             </div>
                           ))
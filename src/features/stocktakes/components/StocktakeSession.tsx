@@ -0,0 +1,408 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { Download } from "lucide-react"
+
+import type { Product, Stocktake } from "@/data/models"
+import { cancelStocktakeDB, getStocktakeDB, postStocktakeDB, saveStocktakeCountsDB } from "@/data/store.supabase"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppCard } from "@/components/app/AppCard"
+import { AppBadge } from "@/components/app/AppBadge"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+
+import { ConfirmDialog } from "@/components/shared/ConfirmDialog"
+import { EmptyState } from "@/components/shared/EmptyState"
+import { Skeleton } from "@/components/shared/Skeleton"
+import { toast } from "@/lib/toast"
+
+import { BarcodeScanPanel, type ScanResult } from "@/features/products/components/BarcodeScanPanel"
+import { buildVarianceRows, summarizeVariance, varianceCsvRows } from "@/features/stocktakes/lib/variance"
+
+function fmtKRW(v: number) {
+  return new Intl.NumberFormat("ko-KR").format(Math.round(v))
+}
+
+function fmtSigned(v: number) {
+  return v > 0 ? `+${v}` : String(v)
+}
+
+function safeFilename(name: string) {
+  return String(name ?? "").replace(/[\\/:*?"<>|]/g, "_").trim()
+}
+
+function downloadCSV(filename: string, rows: string[][]) {
+  const csvContent = rows
+    .map((r) => r.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(","))
+    .join("\n")
+
+  const BOM = "\uFEFF"
+  const blob = new Blob([BOM + csvContent], { type: "text/csv;charset=utf-8;" })
+  const url = URL.createObjectURL(blob)
+
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * 재고 실사 세션
+ * - 기준 재고(expected)는 시작 시점에 고정 → 실사 중 판매/납품이 있어도 흔들리지 않음
+ * - 실사 수량 입력은 재고 화면과 같은 키보드 흐름 (Enter/↓ 다음, ↑ 이전)
+ * - 확정 시 차이만 '실사 차이' 원장으로 기록 (onHandQty 직접 덮어쓰기 X)
+ */
+export function StocktakeSession(props: {
+  stocktakeId: string
+  storeName: string
+  products: Product[]
+  onPosted?: () => void | Promise<void>
+  onClosed?: () => void
+}) {
+  const { stocktakeId } = props
+
+  const [loading, setLoading] = useState(false)
+  const [stocktake, setStocktake] = useState<Stocktake | null>(null)
+  const [onlyMismatch, setOnlyMismatch] = useState(false)
+
+  const [postOpen, setPostOpen] = useState(false)
+  const [cancelOpen, setCancelOpen] = useState(false)
+  const [busy, setBusy] = useState(false)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setStocktake(await getStocktakeDB(stocktakeId))
+    } catch (e) {
+      console.error(e)
+      toast.error(`실사를 불러오지 못했어요: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [stocktakeId])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  // ===== 입력 저장 (제품별 디바운스) =====
+  const saveTimersRef = useRef<Record<string, number>>({})
+
+  useEffect(() => {
+    return () => {
+      const timers = saveTimersRef.current
+      for (const k of Object.keys(timers)) window.clearTimeout(timers[k])
+      saveTimersRef.current = {}
+    }
+  }, [])
+
+  const flushPendingSaves = useCallback(async () => {
+    const timers = saveTimersRef.current
+    for (const k of Object.keys(timers)) window.clearTimeout(timers[k])
+    saveTimersRef.current = {}
+    if (!stocktake) return
+    // 남아있는 입력을 한 번에 저장 (확정 직전)
+    await saveStocktakeCountsDB({
+      stocktakeId,
+      counts: stocktake.lines.map((l) => ({ productId: l.productId, countedQty: l.countedQty })),
+    })
+  }, [stocktake, stocktakeId])
+
+  const setCounted = useCallback(
+    (productId: string, countedQty: number | null) => {
+      setStocktake((prev) =>
+        prev
+          ? { ...prev, lines: prev.lines.map((l) => (l.productId === productId ? { ...l, countedQty } : l)) }
+          : prev
+      )
+
+      const prevTimer = saveTimersRef.current[productId]
+      if (prevTimer) window.clearTimeout(prevTimer)
+
+      saveTimersRef.current[productId] = window.setTimeout(async () => {
+        delete saveTimersRef.current[productId]
+        try {
+          await saveStocktakeCountsDB({ stocktakeId, counts: [{ productId, countedQty }] })
+        } catch (e) {
+          console.error(e)
+          toast.error("실사 수량 저장에 실패했어요.")
+        }
+      }, 500)
+    },
+    [stocktakeId]
+  )
+
+  const qtyInputRefs = useRef<Array<HTMLInputElement | null>>([])
+  const moveFocus = useCallback((fromIndex: number, dir: -1 | 1) => {
+    const el = qtyInputRefs.current[fromIndex + dir]
+    if (el) el.focus()
+  }, [])
+
+  // ===== 스캔 모드: 스캔 1회 = 실사 수량 +1 =====
+  const rowRefs = useRef<Map<string, HTMLTableRowElement>>(new Map())
+  const [scannedId, setScannedId] = useState("")
+
+  const onScanProduct = (p: Product): ScanResult => {
+    const line = stocktake?.lines.find((l) => l.productId === p.id)
+    if (!line) return { ok: false, message: "이번 실사 대상이 아닌 제품" }
+
+    const next = (line.countedQty ?? 0) + 1
+    setCounted(p.id, next)
+    setScannedId(p.id)
+    rowRefs.current.get(p.id)?.scrollIntoView({ block: "nearest" })
+    return { ok: true, message: `실사 ${next}개 (기준 ${line.expectedQty})` }
+  }
+
+  const rows = useMemo(
+    () => (stocktake ? buildVarianceRows(stocktake, props.products) : []),
+    [stocktake, props.products]
+  )
+  const summary = useMemo(() => summarizeVariance(rows), [rows])
+  const visibleRows = onlyMismatch ? rows.filter((r) => r.countedQty == null || r.diffQty !== 0) : rows
+
+  const isOpen = stocktake?.status === "open"
+
+  const fillUncountedAsExpected = () => {
+    if (!stocktake) return
+    for (const l of stocktake.lines) {
+      if (l.countedQty == null) setCounted(l.productId, l.expectedQty)
+    }
+  }
+
+  const exportCSV = () => {
+    if (!stocktake) return
+    const date = stocktake.createdAt.slice(0, 10)
+    downloadCSV(`ShopPlanner_재고실사_${safeFilename(props.storeName) || "입점처"}_${date}.csv`, varianceCsvRows(rows))
+  }
+
+  const post = async () => {
+    try {
+      setBusy(true)
+      await flushPendingSaves()
+      const n = await postStocktakeDB(stocktakeId)
+      toast.success(n > 0 ? `실사 확정: ${n}개 제품 재고를 조정했어요.` : "실사 확정: 차이가 없습니다.")
+      setPostOpen(false)
+      await load()
+      await props.onPosted?.()
+    } catch (e) {
+      console.error(e)
+      toast.error(`실사 확정 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const cancel = async () => {
+    try {
+      setBusy(true)
+      await cancelStocktakeDB(stocktakeId)
+      toast.success("실사를 취소했어요.")
+      setCancelOpen(false)
+      props.onClosed?.()
+    } catch (e) {
+      console.error(e)
+      toast.error(`실사 취소 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (loading && !stocktake) return <Skeleton className="h-64" />
+  if (!stocktake) return null
+
+  return (
+    <div className="space-y-4">
+      <AppCard
+        density="compact"
+        title={`${props.storeName} 재고 실사`}
+        description={`${new Date(stocktake.createdAt).toLocaleString("ko-KR")} 기준 재고로 고정됨${
+          stocktake.memo ? ` · ${stocktake.memo}` : ""
+        }`}
+        action={
+          <div className="flex items-center gap-2">
+            <AppBadge variant={isOpen ? "secondary" : "default"}>{isOpen ? "진행 중" : "확정됨"}</AppBadge>
+            <AppButton type="button" variant="outline" size="sm" onClick={exportCSV}>
+              <Download className="mr-1 h-4 w-4" />
+              CSV
+            </AppButton>
+          </div>
+        }
+      >
+        <div className="grid grid-cols-2 gap-3 text-sm sm:grid-cols-4">
+          <div>
+            <div className="text-muted-foreground">입력</div>
+            <div className="tabular-nums">
+              {summary.countedCount} / {summary.lineCount}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">차이 있는 제품</div>
+            <div className="tabular-nums">{summary.mismatchCount}개</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">부족 / 초과</div>
+            <div className="tabular-nums">
+              −{summary.shortQty} / +{summary.overQty}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">차이 금액 (판매가 기준)</div>
+            <div className={`tabular-nums ${summary.netValue < 0 ? "text-destructive" : ""}`}>
+              {summary.netValue > 0 ? "+" : ""}
+              {fmtKRW(summary.netValue)}원
+            </div>
+          </div>
+        </div>
+      </AppCard>
+
+      <AppCard density="compact" contentClassName="space-y-3">
+        {isOpen && (
+          <BarcodeScanPanel
+            products={props.products}
+            onProduct={onScanProduct}
+            hint="스캔할 때마다 해당 제품의 실사 수량이 1씩 늘어요."
+          />
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={onlyMismatch} onChange={(e) => setOnlyMismatch(e.target.checked)} />
+            차이/미입력만 보기
+          </label>
+
+          {isOpen && (
+            <div className="flex flex-wrap gap-2">
+              <AppButton
+                type="button"
+                variant="outline"
+                onClick={fillUncountedAsExpected}
+                disabled={summary.uncountedCount === 0}
+              >
+                미입력 = 기준 재고로 채우기
+              </AppButton>
+              <AppButton type="button" variant="outline" onClick={() => setCancelOpen(true)} disabled={busy}>
+                실사 취소
+              </AppButton>
+              <AppButton type="button" onClick={() => setPostOpen(true)} disabled={busy || summary.countedCount === 0}>
+                실사 확정
+              </AppButton>
+            </div>
+          )}
+        </div>
+
+        <div className="overflow-hidden rounded-lg border">
+          <Table className="w-full text-sm">
+            <TableHeader>
+              <TableRow>
+                <TableHead>제품</TableHead>
+                <TableHead className="text-right">기준 재고</TableHead>
+                <TableHead className="text-right">실사 수량</TableHead>
+                <TableHead className="text-right">차이</TableHead>
+                <TableHead className="text-right">단가</TableHead>
+                <TableHead className="text-right">차이 금액</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="py-10">
+                    <EmptyState title={onlyMismatch ? "차이가 있는 제품이 없습니다." : "실사 대상 제품이 없습니다."} />
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleRows.map((r, rowIndex) => {
+                  const mismatch = r.countedQty != null && r.diffQty !== 0
+                  const rowClass =
+                    r.productId === scannedId ? "bg-primary/10" : mismatch ? "bg-destructive/10" : undefined
+                  return (
+                    <TableRow
+                      key={r.productId}
+                      ref={(el) => {
+                        if (el) rowRefs.current.set(r.productId, el)
+                        else rowRefs.current.delete(r.productId)
+                      }}
+                      className={rowClass}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{r.productName}</div>
+                        {r.category && <div className="text-xs text-muted-foreground">{r.category}</div>}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{r.expectedQty}</TableCell>
+                      <TableCell className="text-right">
+                        {isOpen ? (
+                          <input
+                            ref={(el) => {
+                              qtyInputRefs.current[rowIndex] = el
+                            }}
+                            type="number"
+                            inputMode="numeric"
+                            className="h-9 w-[92px] rounded-md border bg-background px-2 text-right tabular-nums focus:outline-none focus:ring-2 focus:ring-ring"
+                            placeholder="-"
+                            value={r.countedQty ?? ""}
+                            onChange={(e) => {
+                              const raw = e.target.value.trim()
+                              if (raw === "") return setCounted(r.productId, null)
+                              const v = Number(raw)
+                              setCounted(r.productId, Number.isFinite(v) ? Math.max(0, Math.floor(v)) : 0)
+                            }}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter" || e.key === "ArrowDown") {
+                                e.preventDefault()
+                                moveFocus(rowIndex, 1)
+                              }
+                              if (e.key === "ArrowUp") {
+                                e.preventDefault()
+                                moveFocus(rowIndex, -1)
+                              }
+                            }}
+                            onFocus={(e) => {
+                              ;(e.target as HTMLInputElement).select()
+                            }}
+                          />
+                        ) : (
+                          <span className="tabular-nums">{r.countedQty ?? "-"}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {r.countedQty == null ? "-" : fmtSigned(r.diffQty)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums text-muted-foreground">
+                        {fmtKRW(r.unitPrice)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {r.countedQty == null || r.diffQty === 0 ? "-" : `${fmtKRW(r.diffValue)}원`}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </AppCard>
+
+      <ConfirmDialog
+        open={postOpen}
+        onOpenChange={setPostOpen}
+        title="실사를 확정할까요?"
+        description={`차이가 있는 ${summary.mismatchCount}개 제품의 재고를 '실사 차이'로 조정합니다.${
+          summary.uncountedCount > 0 ? ` 미입력 ${summary.uncountedCount}개 제품은 조정하지 않아요.` : ""
+        } 확정 후에는 수정할 수 없습니다.`}
+        confirmText="확정"
+        busy={busy}
+        onConfirm={post}
+      />
+
+      <ConfirmDialog
+        open={cancelOpen}
+        onOpenChange={setCancelOpen}
+        title="실사를 취소할까요?"
+        description="입력한 실사 수량은 버려지고 재고는 바뀌지 않습니다."
+        confirmText="실사 취소"
+        destructive
+        busy={busy}
+        onConfirm={cancel}
+      />
+    </div>
+  )
+}
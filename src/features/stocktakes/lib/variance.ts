@@ -0,0 +1,106 @@
+// src/features/stocktakes/lib/variance.ts
+import type { Product, Stocktake } from "@/data/models"
+
+export type VarianceRow = {
+  productId: string
+  productName: string
+  category: string | null
+  expectedQty: number
+  countedQty: number | null
+  diffQty: number // counted - expected (미입력이면 0)
+  unitPrice: number
+  diffValue: number // diffQty × 단가
+}
+
+export type VarianceSummary = {
+  lineCount: number
+  countedCount: number
+  uncountedCount: number
+  mismatchCount: number
+  shortQty: number // 부족(음수 차이) 합계, 양수로 표시
+  overQty: number
+  shortValue: number
+  overValue: number
+  netValue: number
+}
+
+/**
+ * 실사 라인 → 차이 리포트 행
+ * - 단가는 실사 시작 시점에 고정된 값 우선, 없으면 현재 Product.price
+ */
+export function buildVarianceRows(stocktake: Stocktake, products: Product[]): VarianceRow[] {
+  const productById = new Map(products.map((p) => [p.id, p]))
+
+  return stocktake.lines
+    .map((l) => {
+      const p = productById.get(l.productId)
+      const unitPrice = Number(l.unitPrice ?? p?.price ?? 0) || 0
+      const diffQty = l.countedQty == null ? 0 : l.countedQty - l.expectedQty
+      return {
+        productId: l.productId,
+        productName: p?.name ?? "(삭제된 제품)",
+        category: p?.category ?? null,
+        expectedQty: l.expectedQty,
+        countedQty: l.countedQty,
+        diffQty,
+        unitPrice,
+        diffValue: diffQty * unitPrice,
+      }
+    })
+    .sort(
+      (a, b) =>
+        String(a.category ?? "").localeCompare(String(b.category ?? "")) || a.productName.localeCompare(b.productName)
+    )
+}
+
+export function summarizeVariance(rows: VarianceRow[]): VarianceSummary {
+  const s: VarianceSummary = {
+    lineCount: rows.length,
+    countedCount: 0,
+    uncountedCount: 0,
+    mismatchCount: 0,
+    shortQty: 0,
+    overQty: 0,
+    shortValue: 0,
+    overValue: 0,
+    netValue: 0,
+  }
+
+  for (const r of rows) {
+    if (r.countedQty == null) {
+      s.uncountedCount++
+      continue
+    }
+    s.countedCount++
+    if (r.diffQty === 0) continue
+    s.mismatchCount++
+    if (r.diffQty < 0) {
+      s.shortQty += -r.diffQty
+      s.shortValue += -r.diffValue
+    } else {
+      s.overQty += r.diffQty
+      s.overValue += r.diffValue
+    }
+    s.netValue += r.diffValue
+  }
+
+  return s
+}
+
+export function varianceCsvRows(rows: VarianceRow[]): string[][] {
+  const out: string[][] = [["카테고리", "제품", "기준 재고", "실사 수량", "차이", "단가", "차이 금액"]]
+  for (const r of rows) {
+    out.push([
+      r.category ?? "",
+      r.productName,
+      String(r.expectedQty),
+      r.countedQty == null ? "" : String(r.countedQty),
+      String(r.diffQty),
+      String(r.unitPrice),
+      String(r.diffValue),
+    ])
+  }
+  const s = summarizeVariance(rows)
+  out.push(["합계", "", "", "", String(s.overQty - s.shortQty), "", String(s.netValue)])
+  return out
+}
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useSearchParams } from "react-router-dom"
+
+import PageHeader from "@/app/layout/PageHeader"
+import type { Stocktake } from "@/data/models"
+import { listStocktakesDB, startStocktakeDB } from "@/data/store.supabase"
+import { useAppData } from "@/features/core/useAppData"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppCard } from "@/components/app/AppCard"
+import { AppInput } from "@/components/app/AppInput"
+import { AppSelect } from "@/components/app/AppSelect"
+import { AppBadge } from "@/components/app/AppBadge"
+
+import { EmptyState } from "@/components/shared/EmptyState"
+import { ErrorState } from "@/components/shared/ErrorState"
+import { Skeleton } from "@/components/shared/Skeleton"
+import { toast } from "@/lib/toast"
+
+import { StocktakeSession } from "@/features/stocktakes/components/StocktakeSession"
+import { buildVarianceRows, summarizeVariance } from "@/features/stocktakes/lib/variance"
+
+function fmtKRW(v: number) {
+  return new Intl.NumberFormat("ko-KR").format(Math.round(v))
+}
+
+export default function StocktakesPage() {
+  const [sp, setSp] = useSearchParams()
+  const a = useAppData()
+  const data = a.data
+
+  // ✅ ?store= 입점처, ?id= 열어둔 실사 세션
+  const storeId = sp.get("store") ?? ""
+  const stocktakeId = sp.get("id") ?? ""
+
+  const [loading, setLoading] = useState(false)
+  const [sessions, setSessions] = useState<Stocktake[]>([])
+  const [memo, setMemo] = useState("")
+  const [busy, setBusy] = useState(false)
+
+  const store = data.stores.find((s) => s.id === storeId) ?? null
+
+  const storeOptions = useMemo(
+    () => data.stores.filter((s) => s.status !== "inactive").map((s) => ({ value: s.id, label: s.name })),
+    [data.stores]
+  )
+
+  const setParams = useCallback(
+    (next: { store?: string; id?: string }) => {
+      setSp((prev) => {
+        const n = new URLSearchParams(prev)
+        for (const [k, v] of Object.entries(next)) {
+          if (v) n.set(k, v)
+          else n.delete(k)
+        }
+        return n
+      })
+    },
+    [setSp]
+  )
+
+  const loadSessions = useCallback(async () => {
+    if (!storeId) {
+      setSessions([])
+      return
+    }
+    setLoading(true)
+    try {
+      setSessions(await listStocktakesDB({ storeId }))
+    } catch (e) {
+      console.error(e)
+      toast.error(`실사 목록을 불러오지 못했어요: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [storeId])
+
+  useEffect(() => {
+    void loadSessions()
+  }, [loadSessions])
+
+  const openSession = sessions.find((s) => s.status === "open") ?? null
+
+  const start = async () => {
+    if (!store) return
+    try {
+      setBusy(true)
+      const id = await startStocktakeDB({ storeId: store.id, memo: memo.trim() || null })
+      toast.success(`${store.name} 실사를 시작했어요. 현재 재고가 기준으로 고정됩니다.`)
+      setMemo("")
+      setParams({ id })
+      await loadSessions()
+    } catch (e) {
+      console.error(e)
+      toast.error(`실사 시작 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  if (a.errorMsg) return <ErrorState message={a.errorMsg} onRetry={a.refresh} />
+
+  return (
+    <div className="space-y-6">
+      <PageHeader
+        title="재고 실사"
+        description="입점처 재고를 직접 세어 장부와 비교합니다. 확정하면 차이만큼 '실사 차이'로 재고 원장에 기록돼요."
+      />
+
+      <AppCard density="compact" contentClassName="space-y-3">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <div className="w-full sm:w-[240px]">
+            <AppSelect
+              value={storeId}
+              onValueChange={(v) => setParams({ store: v, id: "" })}
+              options={storeOptions}
+              placeholder="(입점처 선택)"
+            />
+          </div>
+
+          {store && !openSession && (
+            <>
+              <AppInput
+                className="h-10 w-full sm:w-[240px]"
+                placeholder="메모 (선택)"
+                value={memo}
+                onChange={(e) => setMemo(e.target.value)}
+              />
+              <AppButton type="button" onClick={start} disabled={busy}>
+                실사 시작
+              </AppButton>
+            </>
+          )}
+
+          {openSession && openSession.id !== stocktakeId && (
+            <AppButton type="button" variant="outline" onClick={() => setParams({ id: openSession.id })}>
+              진행 중인 실사 이어하기
+            </AppButton>
+          )}
+        </div>
+
+        {a.loading || loading ? (
+          <Skeleton className="h-20" />
+        ) : !storeId ? (
+          <EmptyState title="입점처를 선택해 주세요." />
+        ) : sessions.length === 0 ? (
+          <div className="text-sm text-muted-foreground">실사 기록이 없습니다.</div>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {sessions.map((s) => {
+              const summary = summarizeVariance(buildVarianceRows(s, data.products))
+              const active = s.id === stocktakeId
+              return (
+                <button
+                  key={s.id}
+                  type="button"
+                  className={`flex w-full flex-wrap items-center gap-2 p-3 text-left text-sm ${active ? "bg-muted" : ""}`}
+                  onClick={() => setParams({ id: active ? "" : s.id })}
+                >
+                  <span className="tabular-nums">{new Date(s.createdAt).toLocaleDateString("ko-KR")}</span>
+                  <AppBadge variant={s.status === "open" ? "secondary" : "muted"}>
+                    {s.status === "open" ? "진행 중" : "확정됨"}
+                  </AppBadge>
+                  <span className="text-muted-foreground tabular-nums">
+                    {summary.countedCount}/{summary.lineCount} 입력 · 차이 {summary.mismatchCount}개 ·{" "}
+                    {fmtKRW(summary.netValue)}원
+                  </span>
+                  {s.memo && <span className="truncate text-muted-foreground">· {s.memo}</span>}
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </AppCard>
+
+      {store && stocktakeId && (
+        <StocktakeSession
+          key={stocktakeId}
+          stocktakeId={stocktakeId}
+          storeName={store.name}
+          products={data.products}
+          onPosted={async () => {
+            await loadSessions()
+            await a.refresh()
+          }}
+          onClosed={() => {
+            setParams({ id: "" })
+            void loadSessions()
+          }}
+        />
+      )}
+    </div>
+  )
+}
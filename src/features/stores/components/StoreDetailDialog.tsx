@@ -1,5 +1,10 @@
 import { useEffect, useState } from "react"
-import type { Store } from "@/data/models"
+import type { Product, Store, Warehouse } from "@/data/models"
+import { DeliveryHistory } from "@/features/deliveries/components/DeliveryHistory"
+import { ImportProfilesEditor } from "@/features/settlements/components/ImportProfilesEditor"
+import { CommissionRulesEditor } from "@/features/settlements/components/CommissionRulesEditor"
+import { StoreTermsEditor } from "@/features/stores/components/StoreTermsEditor"
+import { SETTLEMENT_CYCLE_LABEL } from "@/lib/storeTerms"
 
 import { AppButton } from "@/components/app/AppButton"
 import { AppInput } from "@/components/app/AppInput"
@@ -46,6 +51,8 @@ type StoreUpsertInput = {
   settlementCycle: "monthly" | "weekly" | "biweekly" | "ad-hoc" | null
   settlementDay: number | null
   settlementNote: string | null
+  nameAliases: string[]
+  depositorNames: string[]
 }
 
 export function StoreDetailDialog(props: {
@@ -66,6 +73,15 @@ export function StoreDetailDialog(props: {
 
   // edit only
   onRequestDelete?: (storeId: string, storeName: string) => void
+
+  // 납품 이력 표시용 (출고지 이름)
+  warehouses?: Warehouse[]
+
+  // 수수료 규칙(카테고리/상품 요율) 선택지
+  products?: Product[]
+
+  // 조건 이력을 바꾸면 입점처 현재 조건도 바뀜 → 목록 새로고침
+  onTermsChanged?: () => void | Promise<void>
 }) {
   const mode = props.mode ?? "edit"
   const store = props.store
@@ -94,6 +110,8 @@ export function StoreDetailDialog(props: {
   >("")
   const [settlementDay, setSettlementDay] = useState("")
   const [settlementNote, setSettlementNote] = useState("")
+  const [nameAliases, setNameAliases] = useState("")
+  const [depositorNames, setDepositorNames] = useState("")
 
   function normalizeTag(v: string) {
     return String(v ?? "").trim().replace(/\s+/g, " ")
@@ -136,6 +154,8 @@ export function StoreDetailDialog(props: {
     setSettlementCycle("")
     setSettlementDay("")
     setSettlementNote("")
+    setNameAliases("")
+    setDepositorNames("")
   }
 
   function resetFromStore(s: Store) {
@@ -159,6 +179,8 @@ export function StoreDetailDialog(props: {
     setSettlementCycle((s.settlementCycle as any) ?? "")
     setSettlementDay(s.settlementDay == null ? "" : String(s.settlementDay))
     setSettlementNote(s.settlementNote ?? "")
+    setNameAliases((s.nameAliases ?? []).join(", "))
+    setDepositorNames((s.depositorNames ?? []).join(", "))
   }
 
   // init on open/change
@@ -209,6 +231,22 @@ export function StoreDetailDialog(props: {
       settlementCycle: settlementCycle === "" ? null : settlementCycle,
       settlementDay: safeSettlementDay,
       settlementNote: settlementNote.trim() || null,
+      nameAliases: Array.from(
+        new Set(
+          nameAliases
+            .split(",")
+            .map((v) => v.trim())
+            .filter(Boolean)
+        )
+      ),
+      depositorNames: Array.from(
+        new Set(
+          depositorNames
+            .split(",")
+            .map((v) => v.trim())
+            .filter(Boolean)
+        )
+      ),
     }
   }
 
@@ -233,7 +271,7 @@ export function StoreDetailDialog(props: {
 
   return (
     <Dialog open={props.open} onOpenChange={props.onOpenChange}>
-      <DialogContent className="max-w-[820px]">
+      <DialogContent className="max-h-[90vh] max-w-[820px] overflow-y-auto">
         <DialogHeader>
           <div className="flex items-start justify-between gap-3">
             <div className="min-w-0">
@@ -304,7 +342,7 @@ export function StoreDetailDialog(props: {
               <div className="text-sm font-semibold">정산 운영</div>
               <div className="grid gap-2 sm:grid-cols-2">
                 <div className="text-sm text-muted-foreground">정산 주기</div>
-                <div className="text-sm">{store?.settlementCycle ?? "-"}</div>
+                <div className="text-sm">{store?.settlementCycle ? SETTLEMENT_CYCLE_LABEL[store.settlementCycle] : "-"}</div>
 
                 <div className="text-sm text-muted-foreground">정산일</div>
                 <div className="text-sm">
@@ -313,9 +351,48 @@ export function StoreDetailDialog(props: {
 
                 <div className="text-sm text-muted-foreground">정산 메모</div>
                 <div className="text-sm">{store?.settlementNote ?? "-"}</div>
+
+                <div className="text-sm text-muted-foreground">정산 파일 속 이름</div>
+                <div className="text-sm">
+                  {(store?.nameAliases ?? []).length ? (store?.nameAliases ?? []).join(", ") : "-"}
+                </div>
+
+                <div className="text-sm text-muted-foreground">통장 입금자명</div>
+                <div className="text-sm">
+                  {(store?.depositorNames ?? []).length ? (store?.depositorNames ?? []).join(", ") : "-"}
+                </div>
               </div>
             </div>
 
+            {store && (
+              <div className="rounded-xl border p-4 space-y-2">
+                <div className="text-sm font-semibold">계약 조건 이력</div>
+                <div className="text-xs text-muted-foreground">
+                  정산은 기간 시작일에 적용되던 수수료율/입점료/정산 주기로 계산해요. 조건이 바뀌면 적용 시작일과 함께
+                  추가하세요.
+                </div>
+                <StoreTermsEditor storeId={store.id} onChanged={props.onTermsChanged} />
+              </div>
+            )}
+
+            {store && (
+              <div className="rounded-xl border p-4 space-y-2">
+                <div className="text-sm font-semibold">정산 가져오기 프로필</div>
+                <ImportProfilesEditor storeId={store.id} />
+              </div>
+            )}
+
+            {store && (
+              <div className="rounded-xl border p-4 space-y-2">
+                <div className="text-sm font-semibold">수수료 규칙</div>
+                <div className="text-xs text-muted-foreground">
+                  기본 수수료율 {store.commissionRate == null ? "-" : `${store.commissionRate}%`}에 더해 카테고리/상품/구간
+                  요율, 개당 수수료, 입점료를 정산 라인마다 계산해요.
+                </div>
+                <CommissionRulesEditor storeId={store.id} storeFee={store.storeFee} products={props.products ?? []} />
+              </div>
+            )}
+
             <div className="rounded-xl border p-4 space-y-2">
               <div className="text-sm font-semibold">담당자/메모</div>
               <div className="grid gap-2 sm:grid-cols-2">
@@ -329,6 +406,13 @@ export function StoreDetailDialog(props: {
                 <div className="text-sm">{store?.memo ?? "-"}</div>
               </div>
             </div>
+
+            {store && (
+              <div className="rounded-xl border p-4 space-y-2">
+                <div className="text-sm font-semibold">납품 이력</div>
+                <DeliveryHistory storeId={store.id} stores={[store]} warehouses={props.warehouses} limit={20} />
+              </div>
+            )}
           </div>
         ) : (
           // ✅ 편집/추가 모드(폼)
@@ -365,6 +449,11 @@ export function StoreDetailDialog(props: {
                 <AppInput value={commission} onChange={(e) => setCommission(e.target.value)} placeholder="수수료(%)" inputMode="decimal" />
                 <AppInput value={storeFee} onChange={(e) => setStoreFee(e.target.value)} placeholder="입점료(선택)" inputMode="numeric" />
               </div>
+              {!isCreate && (
+                <div className="text-xs text-muted-foreground">
+                  수수료/입점료/정산 주기를 바꾸면 오늘부터 적용되는 조건으로 기록돼요. 지난 정산은 예전 조건 그대로예요.
+                </div>
+              )}
 
               {/* 태그 칩 */}
               <div className="space-y-2">
@@ -443,6 +532,28 @@ export function StoreDetailDialog(props: {
                 placeholder="정산 메모(선택) 예: 배송비 공제, 카드매출 제외"
                 className="min-h-[96px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
               />
+
+              <div className="space-y-1">
+                <AppInput
+                  value={nameAliases}
+                  onChange={(e) => setNameAliases(e.target.value)}
+                  placeholder="정산 파일 속 이름(선택, 콤마로 구분) 예: 더현대 서울, 현대 여의도"
+                />
+                <div className="text-xs text-muted-foreground">
+                  여러 입점처가 한 파일에 있는 통합 정산서에서 입점처 컬럼 값이 이 이름이면 이 입점처로 나눠요.
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <AppInput
+                  value={depositorNames}
+                  onChange={(e) => setDepositorNames(e.target.value)}
+                  placeholder="통장 입금자명(선택, 콤마로 구분) 예: (주)현대백화점, 무신사"
+                />
+                <div className="text-xs text-muted-foreground">
+                  은행 입금 내역을 올리면 입금자명이 이 이름이고 금액이 맞는 정산에 자동으로 연결해요.
+                </div>
+              </div>
             </div>
 
             <div className="rounded-xl border p-4 space-y-3">
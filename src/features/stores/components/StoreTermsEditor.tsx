@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useState } from "react"
+import { Trash2 } from "lucide-react"
+
+import type { StoreTerms } from "@/data/models"
+import { deleteStoreTermsDB, listStoreTermsDB, upsertStoreTermsDB } from "@/data/store.supabase"
+import { isIsoDate } from "@/lib/settlementPeriod"
+import { todayIso } from "@/lib/settlementPayout"
+import { formatStoreTerms, SETTLEMENT_CYCLE_LABEL, termsAt } from "@/lib/storeTerms"
+
+import { AppButton } from "@/components/app/AppButton"
+import { AppBadge } from "@/components/app/AppBadge"
+import { AppInput } from "@/components/app/AppInput"
+import { AppSelect } from "@/components/app/AppSelect"
+import { Skeleton } from "@/components/shared/Skeleton"
+
+import { toast } from "@/lib/toast"
+
+type Draft = {
+  effectiveFrom: string
+  commissionRate: string
+  storeFee: string
+  settlementCycle: NonNullable<StoreTerms["settlementCycle"]> | ""
+  settlementDay: string
+  memo: string
+}
+
+const CYCLE_OPTIONS = Object.entries(SETTLEMENT_CYCLE_LABEL).map(([value, label]) => ({ value, label }))
+
+function toDraft(t: StoreTerms | null): Draft {
+  return {
+    effectiveFrom: todayIso(),
+    commissionRate: t?.commissionRate == null ? "" : String(t.commissionRate),
+    storeFee: t?.storeFee == null ? "" : String(t.storeFee),
+    settlementCycle: t?.settlementCycle ?? "",
+    settlementDay: t?.settlementDay == null ? "" : String(t.settlementDay),
+    memo: "",
+  }
+}
+
+function toNumOrNull(v: string) {
+  const t = (v ?? "").replace(/,/g, "").trim()
+  if (!t) return null
+  const n = Number(t)
+  return Number.isFinite(n) ? Math.max(0, n) : null
+}
+
+/**
+ * 입점처 상세 › 계약 조건 이력
+ * - 수수료율/입점료/정산 주기를 적용 시작일별로 기록 (정산은 기간 시작일에 적용되는 조건으로 계산)
+ * - 지난 날짜부터 적용하는 조건도 추가 가능 → 이미 저장된 정산은 정산 상세에서 다시 계산
+ */
+export function StoreTermsEditor(props: { storeId: string; onChanged?: () => void | Promise<void> }) {
+  const { storeId, onChanged } = props
+
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [terms, setTerms] = useState<StoreTerms[]>([])
+  const [draft, setDraft] = useState<Draft | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setTerms(await listStoreTermsDB({ storeId }))
+    } catch (e) {
+      console.error(e)
+      toast.error(`조건 이력을 불러오지 못했어요: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [storeId])
+
+  useEffect(() => {
+    void load()
+  }, [load])
+
+  const current = termsAt(terms, storeId, todayIso())
+  const patch = (p: Partial<Draft>) => setDraft((d) => (d ? { ...d, ...p } : d))
+
+  const save = async () => {
+    if (!draft) return
+    if (!isIsoDate(draft.effectiveFrom)) {
+      toast.error("적용 시작일을 입력하세요.")
+      return
+    }
+    const rate = toNumOrNull(draft.commissionRate)
+    if (rate != null && rate > 100) {
+      toast.error("수수료율은 0~100 사이로 입력하세요.")
+      return
+    }
+
+    try {
+      setSaving(true)
+      await upsertStoreTermsDB({
+        storeId,
+        effectiveFrom: draft.effectiveFrom,
+        commissionRate: rate,
+        storeFee: toNumOrNull(draft.storeFee),
+        settlementCycle: draft.settlementCycle || null,
+        settlementDay: toNumOrNull(draft.settlementDay),
+        memo: draft.memo,
+      })
+      toast.success(`${draft.effectiveFrom}부터 적용되는 조건을 저장했어요.`)
+      setDraft(null)
+      await load()
+      await onChanged?.()
+    } catch (e) {
+      console.error(e)
+      toast.error(`조건 저장 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async (t: StoreTerms) => {
+    if (terms.length <= 1) {
+      toast.error("조건이 하나뿐이면 삭제할 수 없어요. 입점처 수정에서 바꾸세요.")
+      return
+    }
+    if (!window.confirm(`${t.effectiveFrom}부터 적용되는 조건을 삭제할까요?`)) return
+
+    try {
+      setSaving(true)
+      await deleteStoreTermsDB({ termsId: t.id })
+      toast.success("조건을 삭제했어요.")
+      await load()
+      await onChanged?.()
+    } catch (e) {
+      console.error(e)
+      toast.error(`조건 삭제 실패: ${e instanceof Error ? e.message : String(e)}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) return <Skeleton className="h-16 w-full" />
+
+  return (
+    <div className="space-y-3 text-sm">
+      {terms.length === 0 ? (
+        <div className="text-xs text-muted-foreground">기록된 조건이 없어요. 입점처 정보의 현재 조건으로 계산해요.</div>
+      ) : (
+        <div className="space-y-1">
+          {[...terms].reverse().map((t) => (
+            <div key={t.id} className="flex items-center gap-2 rounded-lg border px-3 py-2">
+              <div className="w-[96px] shrink-0 tabular-nums">{t.effectiveFrom}~</div>
+              <div className="min-w-0 flex-1">
+                <div className="truncate">{formatStoreTerms(t)}</div>
+                {t.memo ? <div className="truncate text-xs text-muted-foreground">{t.memo}</div> : null}
+              </div>
+              {current?.id === t.id ? <AppBadge variant="secondary">적용 중</AppBadge> : null}
+              {t.effectiveFrom > todayIso() ? <AppBadge variant="outline">예정</AppBadge> : null}
+              <AppButton
+                type="button"
+                size="icon-sm"
+                variant="ghost"
+                title="삭제"
+                disabled={saving}
+                onClick={() => void remove(t)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </AppButton>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {draft ? (
+        <div className="space-y-2 rounded-lg border p-3">
+          <div className="grid gap-2 sm:grid-cols-3">
+            <AppInput type="date" value={draft.effectiveFrom} onChange={(e) => patch({ effectiveFrom: e.target.value })} />
+            <AppInput
+              inputMode="decimal"
+              value={draft.commissionRate}
+              onChange={(e) => patch({ commissionRate: e.target.value })}
+              placeholder="수수료(%)"
+            />
+            <AppInput
+              inputMode="numeric"
+              value={draft.storeFee}
+              onChange={(e) => patch({ storeFee: e.target.value })}
+              placeholder="입점료(선택)"
+            />
+            <AppSelect
+              value={draft.settlementCycle}
+              onValueChange={(v) => patch({ settlementCycle: v as Draft["settlementCycle"] })}
+              options={CYCLE_OPTIONS}
+              placeholder="정산 주기(선택)"
+            />
+            <AppInput
+              inputMode="numeric"
+              value={draft.settlementDay}
+              onChange={(e) => patch({ settlementDay: e.target.value })}
+              placeholder="정산일(1~31, 선택)"
+            />
+            <AppInput value={draft.memo} onChange={(e) => patch({ memo: e.target.value })} placeholder="메모(선택)" />
+          </div>
+          <div className="text-xs text-muted-foreground">
+            적용 시작일 이후 기간의 정산부터 이 조건으로 계산해요. 이미 저장된 정산은 정산 상세에서 다시 계산하세요.
+          </div>
+          <div className="flex justify-end gap-2">
+            <AppButton type="button" size="sm" variant="outline" onClick={() => setDraft(null)} disabled={saving}>
+              취소
+            </AppButton>
+            <AppButton type="button" size="sm" onClick={() => void save()} disabled={saving}>
+              {saving ? "저장 중…" : "조건 저장"}
+            </AppButton>
+          </div>
+        </div>
+      ) : (
+        <AppButton type="button" size="sm" variant="outline" onClick={() => setDraft(toDraft(current))}>
+          조건 변경 추가
+        </AppButton>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import { useCallback, useMemo, useState } from "react"
 import type { Product } from "@/data/models"
 import { StoreDetailDialog } from "@/features/stores/components/StoreDetailDialog"
 import { useAppData } from "@/features/core/useAppData"
+import { stockProducts, variantsByParent } from "@/features/products/lib/variants"
 import { toast } from "@/lib/toast"
 
 import { AppBadge } from "@/components/app/AppBadge"
@@ -46,6 +47,11 @@ export default function StoresManager() {
     return [...a.data.products].sort((x, y) => (y.createdAt ?? 0) - (x.createdAt ?? 0))
   }, [a.data.products])
 
+  // 옵션 상품은 대표 제품 아래로 묶어서 표시
+  const variantsByParentId = useMemo(() => variantsByParent(a.data.products), [a.data.products])
+  const stockProductIds = useMemo(() => new Set(stockProducts(a.data.products).map((p) => p.id)), [a.data.products])
+  const [openVariantParents, setOpenVariantParents] = useState<Record<string, boolean>>({})
+
   const [manageStoreId, setManageStoreId] = useState<string>("")
   const [openStoreCats, setOpenStoreCats] = useState<Record<string, boolean>>({})
 
@@ -143,6 +149,9 @@ export default function StoresManager() {
         }}
         store={detailStore}
         busy={a.loading}
+        warehouses={a.data.warehouses}
+        products={a.data.products}
+        onTermsChanged={a.refresh}
         onSave={onSaveStoreDetail}
         onRequestDelete={(id, name) => {
           setDeleteStoreId(id)
@@ -213,7 +222,7 @@ export default function StoresManager() {
             </div>
 
             {(() => {
-              const activeProducts = products.filter((p) => p.active)
+              const activeProducts = products.filter((p) => p.active && !p.parentId)
               const groups = new Map<string, Product[]>()
               for (const p of activeProducts) {
                 const cat = (p.category ?? "미분류").trim() || "미분류"
@@ -229,10 +238,10 @@ export default function StoresManager() {
                     const list = groups.get(cat) ?? []
                     const sorted = [...list].sort((x, y) => x.name.localeCompare(y.name, "ko"))
                     const isOpen = openStoreCats[cat] ?? true
-                    const onCount = sorted.reduce(
-                      (acc, p) => (isEnabledInStore(manageStoreId, p.id) ? acc + 1 : acc),
-                      0
-                    )
+                    const onCount = sorted.reduce((acc, p) => {
+                      const ids = (variantsByParentId.get(p.id) ?? [p]).map((x) => x.id)
+                      return ids.some((id) => isEnabledInStore(manageStoreId, id)) ? acc + 1 : acc
+                    }, 0)
 
                     return (
                       <div key={cat} className="rounded-xl border border-border bg-background overflow-hidden">
@@ -258,6 +267,73 @@ export default function StoresManager() {
                         {isOpen && (
                           <ul className="list-none m-0 p-0">
                             {sorted.map((p) => {
+                              const variants = variantsByParentId.get(p.id)
+                              if (variants?.length) {
+                                const onVariants = variants.filter((v) => isEnabledInStore(manageStoreId, v.id))
+                                const anyOn = onVariants.length > 0
+                                const expanded = openVariantParents[p.id] ?? false
+                                return (
+                                  <li key={p.id} className="border-t border-border">
+                                    <div
+                                      className={`flex items-center justify-between gap-3 px-3 py-2 ${anyOn ? "" : "opacity-50"}`}
+                                    >
+                                      <button
+                                        type="button"
+                                        className="min-w-0 text-left"
+                                        onClick={() =>
+                                          setOpenVariantParents((prev) => ({ ...prev, [p.id]: !expanded }))
+                                        }
+                                      >
+                                        <div className="text-sm font-semibold truncate">
+                                          {expanded ? "▾" : "▸"} {p.name}
+                                        </div>
+                                        <div className="text-xs text-muted-foreground">
+                                          옵션 {onVariants.length}/{variants.length} 취급
+                                        </div>
+                                      </button>
+
+                                      <div className="flex items-center gap-2">
+                                        <AppSwitch
+                                          checked={anyOn}
+                                          onCheckedChange={(v) =>
+                                            a.toggleMany(
+                                              manageStoreId,
+                                              variants.map((x) => x.id),
+                                              Boolean(v)
+                                            )
+                                          }
+                                          disabled={a.loading}
+                                        />
+                                        <span className="text-xs text-muted-foreground">옵션 전체</span>
+                                      </div>
+                                    </div>
+
+                                    {expanded && (
+                                      <ul className="list-none m-0 p-0 bg-muted/20">
+                                        {variants.map((v) => {
+                                          const on = isEnabledInStore(manageStoreId, v.id)
+                                          return (
+                                            <li
+                                              key={v.id}
+                                              className={`flex items-center justify-between gap-3 py-1.5 pl-8 pr-3 ${
+                                                on ? "" : "opacity-50"
+                                              }`}
+                                            >
+                                              <div className="text-sm truncate">{v.name}</div>
+                                              <AppSwitch
+                                                checked={on}
+                                                onCheckedChange={(x) => a.toggleOne(manageStoreId, v.id, Boolean(x))}
+                                                disabled={a.loading}
+                                              />
+                                            </li>
+                                          )
+                                        })}
+                                      </ul>
+                                    )}
+                                  </li>
+                                )
+                              }
+
                               const enabled = isEnabledInStore(manageStoreId, p.id)
                               return (
                                 <li
@@ -376,8 +452,9 @@ export default function StoresManager() {
 
               <TableBody>
                 {filteredStores.map((s) => {
-                  const enabledCount =
-                    a.data.storeProductStates.filter((sp) => sp.storeId === s.id && sp.enabled).length
+                  const enabledCount = a.data.storeProductStates.filter(
+                    (sp) => sp.storeId === s.id && sp.enabled && stockProductIds.has(sp.productId)
+                  ).length
                   const tags = ((s as any).tags ?? []) as string[]
                   const showTags = tags.slice(0, 2)
                   const more = tags.length - showTags.length
@@ -388,7 +465,7 @@ export default function StoresManager() {
                         <div className="flex items-center gap-2 min-w-0">
                           <div className="text-sm font-medium truncate">{s.name}</div>
                           <AppBadge variant="muted" className="shrink-0">
-                            {enabledCount}/{a.data.products.length}
+                            {enabledCount}/{stockProductIds.size}
                           </AppBadge>
                         </div>
                         {s.address ? (
@@ -0,0 +1,254 @@
+// src/lib/csv.ts
+// RFC 4180 CSV 파서 (정산/제품/재고/입점처 가져오기 공용)
+// - 따옴표 안의 구분자/줄바꿈/"" 이스케이프 처리
+// - 청크 단위로 넣을 수 있는 토크나이저 + 헤더 앞 안내문(preamble)/끝 "합계" 행 감지
+
+export const DELIMITER_CANDIDATES = [",", ";", "\t", "|"] as const
+
+export type CsvTokenizer = {
+  /** 텍스트 조각을 넣고, 완성된 레코드만 돌려받음 */
+  push: (chunk: string) => string[][]
+  /** 남은 마지막 레코드까지 마무리 */
+  end: () => string[][]
+}
+
+/**
+ * 스트리밍 토크나이저
+ * - 레코드 구분: CRLF / LF / CR (따옴표 밖에서만)
+ * - 따옴표로 시작한 필드 안에서는 구분자/줄바꿈을 그대로 값으로 취급
+ * - 청크 경계에 걸친 CRLF, "" 도 처리
+ */
+export function createCsvTokenizer(delimiter: string): CsvTokenizer {
+  let field = ""
+  let record: string[] = []
+  let inQuotes = false
+  let quotePending = false // 따옴표 안에서 " 를 만남 → 다음 글자로 "" / 닫힘 판단
+  let crPending = false // 직전 글자가 레코드 끝 CR → 뒤따르는 LF는 무시
+  let started = true // 새 필드의 첫 글자인지 (따옴표 필드 판단)
+
+  const endField = () => {
+    record.push(field)
+    field = ""
+    started = true
+  }
+
+  const endRecord = (out: string[][]) => {
+    endField()
+    out.push(record)
+    record = []
+  }
+
+  const push = (chunk: string) => {
+    const out: string[][] = []
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i]
+
+      if (crPending) {
+        crPending = false
+        if (ch === "\n") continue
+      }
+
+      if (quotePending) {
+        quotePending = false
+        if (ch === '"') {
+          field += '"'
+          continue
+        }
+        inQuotes = false // 닫는 따옴표 → 아래에서 일반 문자로 처리
+      }
+
+      if (inQuotes) {
+        if (ch === '"') quotePending = true
+        else field += ch
+        continue
+      }
+
+      if (ch === '"' && started) {
+        inQuotes = true
+        started = false
+        continue
+      }
+
+      if (ch === delimiter) {
+        endField()
+        continue
+      }
+
+      if (ch === "\n" || ch === "\r") {
+        endRecord(out)
+        crPending = ch === "\r"
+        continue
+      }
+
+      // 닫힌 따옴표 뒤나 필드 중간의 " 는 관대하게 값으로 취급
+      field += ch
+      started = false
+    }
+
+    return out
+  }
+
+  const end = () => {
+    const out: string[][] = []
+    quotePending = false
+    inQuotes = false
+    if (field.length > 0 || record.length > 0) endRecord(out)
+    return out
+  }
+
+  return { push, end }
+}
+
+export function tokenizeCsv(text: string, delimiter: string): string[][] {
+  const t = createCsvTokenizer(delimiter)
+  return [...t.push(text.replace(/^\uFEFF/, "")), ...t.end()]
+}
+
+/**
+ * 레코드 → CSV 텍스트 (모든 셀을 따옴표로 감쌈)
+ * - 엑셀 시트를 CSV와 같은 흐름으로 넘길 때 사용
+ */
+export function stringifyCsv(rows: string[][]) {
+  return rows.map((r) => r.map((v) => `"${String(v).replace(/"/g, '""')}"`).join(",")).join("\n")
+}
+
+export function isBlankRecord(row: string[]) {
+  return row.every((c) => c.trim() === "")
+}
+
+/**
+ * 구분자 자동 감지: 앞부분 몇 레코드 기준 "열 개수 많고 + 일정한" 후보
+ */
+export function detectCsvDelimiter(text: string): string {
+  // 앞부분만 보면 충분 (따옴표 안 줄바꿈이 있어도 토크나이저가 처리)
+  const sampleText = text.replace(/^\uFEFF/, "").slice(0, 16 * 1024)
+
+  let best = ","
+  let bestScore = -Infinity
+
+  for (const d of DELIMITER_CANDIDATES) {
+    const sample = tokenizeCsv(sampleText, d)
+      .filter((r) => !isBlankRecord(r))
+      .slice(0, 8)
+    if (sample.length === 0) continue
+
+    const counts = sample.map((r) => r.length)
+    const maxCols = Math.max(...counts)
+    const minCols = Math.min(...counts)
+
+    // 점수: 열 많을수록 좋고, 일관성 있을수록 좋음
+    const score = maxCols * 10 - (maxCols - minCols)
+    if (score > bestScore) {
+      bestScore = score
+      best = d
+    }
+  }
+
+  return best
+}
+
+const SUMMARY_WORDS = ["합계", "총합계", "총계", "소계", "누계", "total", "subtotal", "grandtotal", "sum"]
+
+function isNumericCell(v: string) {
+  const t = v.replace(/[,₩\s%]/g, "")
+  return t !== "" && Number.isFinite(Number(t))
+}
+
+/** "합계" / "총 계" / "TOTAL" 등이 들어간 요약 행 */
+export function isSummaryRecord(row: string[]) {
+  return row.some((c) => {
+    const t = c.replace(/[\s:()[\]]/g, "").toLowerCase()
+    return SUMMARY_WORDS.includes(t)
+  })
+}
+
+/**
+ * 헤더 행 위치 추정 (앞쪽 안내문/제목/기간 줄 건너뛰기)
+ * - 데이터 행의 대표 열 수(최빈값)만큼 값이 차 있고, 대부분 숫자가 아닌 첫 행
+ */
+export function detectHeaderIndex(records: string[][], maxScan = 20): number {
+  const filledCount = (r: string[]) => r.filter((c) => c.trim() !== "").length
+
+  const freq = new Map<number, number>()
+  for (const r of records.slice(0, 200)) {
+    const n = filledCount(r)
+    if (n > 0) freq.set(n, (freq.get(n) ?? 0) + 1)
+  }
+  let modal = 0
+  let modalFreq = 0
+  for (const [n, f] of freq) {
+    if (f > modalFreq || (f === modalFreq && n > modal)) {
+      modal = n
+      modalFreq = f
+    }
+  }
+  if (modal <= 1) return 0
+
+  const limit = Math.min(maxScan, records.length)
+  for (let i = 0; i < limit; i++) {
+    const cells = records[i].filter((c) => c.trim() !== "")
+    if (cells.length < Math.ceil(modal * 0.8)) continue
+    const textCells = cells.filter((c) => !isNumericCell(c)).length
+    if (textCells >= Math.ceil(cells.length / 2)) return i
+  }
+  return 0
+}
+
+export type CsvParseOptions = {
+  delimiter?: string | null // 비어있으면 자동 감지
+  headerRow?: number // 헤더 앞에 건너뛸 줄 수 (빈 줄 제외하고 셈). 0이면 자동 감지
+  footerRows?: number // 끝에서 버릴 줄 수 (합계/안내 문구 등)
+  detectPreamble?: boolean // 기본 true: headerRow가 0일 때 헤더 앞 안내문 자동 건너뛰기
+  dropSummaryRows?: boolean // 기본 true: 끝쪽 "합계" 행/한 칸짜리 안내 문구 자동 제거
+}
+
+export type CsvParseResult = {
+  headers: string[]
+  rows: string[][]
+  delimiter: string
+  skippedPreamble: number // 헤더 앞에서 건너뛴 줄 수
+  skippedSummary: number // 끝에서 제거한 합계/안내 행 수
+}
+
+/**
+ * CSV 텍스트 → 헤더 + 데이터 행
+ * - 셀 값은 양끝 공백 제거, 빈 레코드는 제외
+ */
+export function parseCsv(text: string, options: CsvParseOptions = {}): CsvParseResult {
+  const delimiter = options.delimiter || detectCsvDelimiter(text)
+  const records = tokenizeCsv(text, delimiter)
+    .map((r) => r.map((c) => c.trim()))
+    .filter((r) => !isBlankRecord(r))
+
+  const footerRows = Math.max(0, Math.floor(options.footerRows ?? 0))
+  const body = footerRows > 0 ? records.slice(0, -footerRows) : records
+
+  const explicitHeader = Math.max(0, Math.floor(options.headerRow ?? 0))
+  const headerIndex =
+    explicitHeader > 0 ? explicitHeader : options.detectPreamble === false ? 0 : detectHeaderIndex(body)
+
+  if (headerIndex >= body.length) {
+    return { headers: [], rows: [], delimiter, skippedPreamble: headerIndex, skippedSummary: 0 }
+  }
+
+  const headers = body[headerIndex]
+  let rows = body.slice(headerIndex + 1)
+
+  // 끝쪽 "합계" 행 + 그 아래 "※ 문의: ..." 같은 한 칸짜리 안내 문구
+  // - 안내 문구는 합계 행 아래에 있을 때만 제거 (값이 하나뿐인 데이터 행 보호)
+  const isFooterNote = (r: string[]) => r.filter((c) => c !== "").length <= 1
+
+  let skippedSummary = 0
+  if (options.dropSummaryRows !== false) {
+    let cut = rows.length
+    for (let i = rows.length - 1; i >= 0; i--) {
+      if (isSummaryRecord(rows[i])) cut = i
+      else if (!isFooterNote(rows[i])) break
+    }
+    skippedSummary = rows.length - cut
+    rows = rows.slice(0, cut)
+  }
+
+  return { headers, rows, delimiter, skippedPreamble: headerIndex, skippedSummary }
+}
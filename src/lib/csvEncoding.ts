@@ -0,0 +1,58 @@
+// src/lib/csvEncoding.ts
+// 업로드 CSV 인코딩 감지: BOM → UTF-8 유효성 검사 → CP949(EUC-KR) fallback
+// - POS/백화점 정산 파일은 대부분 CP949 (엑셀 "CSV(쉼표로 분리)" 저장 기본값)
+
+export type CsvEncoding = "auto" | "utf-8" | "cp949"
+export type DetectedEncoding = "utf-8" | "utf-16le" | "utf-16be" | "cp949"
+
+export const CSV_ENCODING_OPTIONS: Array<{ value: CsvEncoding; label: string }> = [
+  { value: "auto", label: "인코딩 자동" },
+  { value: "utf-8", label: "UTF-8" },
+  { value: "cp949", label: "CP949 (EUC-KR)" },
+]
+
+export const ENCODING_LABEL: Record<DetectedEncoding, string> = {
+  "utf-8": "UTF-8",
+  "utf-16le": "UTF-16",
+  "utf-16be": "UTF-16",
+  cp949: "CP949",
+}
+
+// TextDecoder 라벨: 브라우저의 euc-kr 디코더는 CP949(확장 완성형)까지 처리
+const DECODER_LABEL: Record<DetectedEncoding, string> = {
+  "utf-8": "utf-8",
+  "utf-16le": "utf-16le",
+  "utf-16be": "utf-16be",
+  cp949: "euc-kr",
+}
+
+function isValidUtf8(bytes: Uint8Array) {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function detectEncoding(bytes: Uint8Array): DetectedEncoding {
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8"
+  if (bytes.length >= 2 && bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le"
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be"
+  return isValidUtf8(bytes) ? "utf-8" : "cp949"
+}
+
+export function decodeBytes(bytes: Uint8Array, encoding: CsvEncoding = "auto") {
+  const detected: DetectedEncoding = encoding === "auto" ? detectEncoding(bytes) : encoding
+  // BOM은 TextDecoder가 알아서 제거
+  const text = new TextDecoder(DECODER_LABEL[detected]).decode(bytes)
+  return { text, encoding: detected }
+}
+
+/**
+ * File → 텍스트 (file.text()는 UTF-8 고정이라 CP949 파일이 깨짐)
+ */
+export async function readCsvFile(file: File, encoding: CsvEncoding = "auto") {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  return decodeBytes(bytes, encoding)
+}
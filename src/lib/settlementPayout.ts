@@ -0,0 +1,153 @@
+// src/lib/settlementPayout.ts
+// 정산 입금(지급) 추적
+// - 입금 예정일: 정산 헤더에 직접 지정한 날(payout_due_date) > 정산 기간에 적용되는 입점처 정산 주기/정산일로 계산
+// - 상태: 정산금(net_amount) 대비 입금 기록 합계(paid_amount)
+// - 미수금/지연은 화면(미수금, 대시보드)에서 같은 규칙으로 계산
+
+import type { SettlementV2, Store, StoreTerms } from "@/data/models"
+import { addDays, daysBetween, monthPeriod, periodOf, type SettlementPeriod } from "@/lib/settlementPeriod"
+import { storeTermsOn } from "@/lib/storeTerms"
+
+export type PayoutStatus = "paid" | "partial" | "unpaid"
+
+export const PAYOUT_STATUS_LABEL: Record<PayoutStatus, string> = {
+  paid: "입금 완료",
+  partial: "부분 입금",
+  unpaid: "미입금",
+}
+
+export type PayoutRow = {
+  settlementId: string
+  storeId: string
+  storeName: string
+  period: SettlementPeriod | null
+  netAmount: number
+  paidAmount: number
+  outstanding: number // 남은 금액 (0 이상)
+  dueDate: string | null // null = 예정일 없음(수시 정산 등)
+  dueDateOverridden: boolean
+  lastPaidOn: string | null
+  status: PayoutStatus
+  overdue: boolean
+  overdueDays: number
+}
+
+export type StoreReceivable = {
+  storeId: string
+  storeName: string
+  openCount: number
+  outstanding: number
+  overdueCount: number
+  overdueAmount: number
+  oldestDueDate: string | null
+}
+
+export function todayIso() {
+  const d = new Date()
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`
+}
+
+// 다음 달 N일 (말일보다 크면 말일, 없으면 다음 달 말일)
+function nextMonthDay(periodEnd: string, day: number | null | undefined) {
+  const [y, m] = periodEnd.slice(0, 7).split("-").map(Number)
+  const next = m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, "0")}`
+  const monthEnd = monthPeriod(next).end
+  if (day == null || !Number.isFinite(day) || day < 1) return monthEnd
+  const last = Number(monthEnd.slice(8, 10))
+  return `${next}-${String(Math.min(Math.floor(day), last)).padStart(2, "0")}`
+}
+
+/**
+ * 입점처 정산 조건으로 계산한 입금 예정일
+ * - 월 정산(또는 주기 미설정): 기간 종료 다음 달 정산일 (정산일 없으면 다음 달 말일)
+ * - 주/격주 정산: 기간 종료 후 7일/14일
+ * - 수시 정산: 정산일이 있으면 월 정산과 같게, 없으면 예정일 없음
+ */
+export function expectedPayoutDate(
+  period: SettlementPeriod,
+  store: Pick<Store, "settlementCycle" | "settlementDay"> | null | undefined
+): string | null {
+  const cycle = store?.settlementCycle ?? "monthly"
+  const day = store?.settlementDay ?? null
+
+  if (cycle === "weekly") return addDays(period.end, 7)
+  if (cycle === "biweekly") return addDays(period.end, 14)
+  if (cycle === "ad-hoc" && day == null) return null
+  return nextMonthDay(period.end, day)
+}
+
+export function payoutStatus(netAmount: number, paidAmount: number): PayoutStatus {
+  const net = Math.round(netAmount)
+  const paid = Math.round(paidAmount)
+  if (net <= 0 || paid >= net) return "paid"
+  if (paid > 0) return "partial"
+  return "unpaid"
+}
+
+export function buildPayoutRows(input: {
+  settlements: SettlementV2[]
+  stores: Store[]
+  storeTerms?: StoreTerms[] // 조건 이력 (없으면 입점처 현재 조건)
+  today?: string
+}): PayoutRow[] {
+  const today = input.today ?? todayIso()
+  const storeById = new Map(input.stores.map((s) => [s.id, s]))
+
+  return input.settlements.map((s) => {
+    const store = storeById.get(s.marketplace_id)
+    const period = periodOf(s)
+    const netAmount = Number(s.net_amount ?? 0)
+    const paidAmount = Number(s.paid_amount ?? 0)
+    const status = payoutStatus(netAmount, paidAmount)
+    const dueDate =
+      s.payout_due_date ??
+      (period ? expectedPayoutDate(period, storeTermsOn(store, input.storeTerms ?? [], period.start)) : null)
+    const overdue = status !== "paid" && dueDate != null && dueDate < today
+
+    return {
+      settlementId: s.id,
+      storeId: s.marketplace_id,
+      storeName: store?.name ?? "(삭제된 입점처)",
+      period,
+      netAmount,
+      paidAmount,
+      outstanding: status === "paid" ? 0 : Math.round(netAmount - paidAmount),
+      dueDate,
+      dueDateOverridden: s.payout_due_date != null,
+      lastPaidOn: s.last_paid_on ?? null,
+      status,
+      overdue,
+      overdueDays: overdue && dueDate ? daysBetween(dueDate, today) : 0,
+    }
+  })
+}
+
+/** 입점처별 미수금 (남은 금액이 있는 정산만, 지연 금액 큰 순) */
+export function summarizeReceivables(rows: PayoutRow[]): StoreReceivable[] {
+  const byStore = new Map<string, StoreReceivable>()
+
+  for (const r of rows) {
+    if (r.status === "paid") continue
+    const cur = byStore.get(r.storeId) ?? {
+      storeId: r.storeId,
+      storeName: r.storeName,
+      openCount: 0,
+      outstanding: 0,
+      overdueCount: 0,
+      overdueAmount: 0,
+      oldestDueDate: null,
+    }
+    cur.openCount += 1
+    cur.outstanding += r.outstanding
+    if (r.overdue) {
+      cur.overdueCount += 1
+      cur.overdueAmount += r.outstanding
+    }
+    if (r.dueDate && (!cur.oldestDueDate || r.dueDate < cur.oldestDueDate)) cur.oldestDueDate = r.dueDate
+    byStore.set(r.storeId, cur)
+  }
+
+  return Array.from(byStore.values()).sort(
+    (a, b) => b.overdueAmount - a.overdueAmount || b.outstanding - a.outstanding
+  )
+}
@@ -0,0 +1,132 @@
+// src/lib/settlementPeriod.ts
+// 정산 기간 (settlements_v2.period_start ~ period_end, 양끝 포함)
+// - 월 정산은 1일~말일, 주/격주/수시 정산은 임의 기간
+// - 월별 집계(대시보드/성과/판매 속도)는 기간을 일수 비율로 나눠 월에 배분
+
+export type SettlementPeriod = {
+  start: string // YYYY-MM-DD
+  end: string // YYYY-MM-DD (포함)
+}
+
+const DAY_MS = 86400000
+
+function toUtc(date: string) {
+  const [y, m, d] = date.split("-").map(Number)
+  return Date.UTC(y, m - 1, d)
+}
+
+function fromUtc(t: number) {
+  const d = new Date(t)
+  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, "0")}-${String(d.getUTCDate()).padStart(2, "0")}`
+}
+
+export function isIsoDate(v: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(v)) return false
+  return fromUtc(toUtc(v)) === v
+}
+
+export function monthPeriod(month: string): SettlementPeriod {
+  const [y, m] = month.split("-").map(Number)
+  return { start: fromUtc(Date.UTC(y, m - 1, 1)), end: fromUtc(Date.UTC(y, m, 0)) }
+}
+
+export function isFullMonth(p: SettlementPeriod) {
+  const mp = monthPeriod(p.start.slice(0, 7))
+  return mp.start === p.start && mp.end === p.end
+}
+
+export function periodDays(p: SettlementPeriod) {
+  return Math.round((toUtc(p.end) - toUtc(p.start)) / DAY_MS) + 1
+}
+
+/** YYYY-MM-DD ± n일 */
+export function addDays(date: string, n: number) {
+  return fromUtc(toUtc(date) + n * DAY_MS)
+}
+
+/** b - a (일) */
+export function daysBetween(a: string, b: string) {
+  return Math.round((toUtc(b) - toUtc(a)) / DAY_MS)
+}
+
+export function periodsOverlap(a: SettlementPeriod, b: SettlementPeriod) {
+  return a.start <= b.end && b.start <= a.end
+}
+
+/**
+ * 정산 헤더 → 기간 (예전 행처럼 period_start가 없으면 period_month 한 달)
+ */
+export function periodOf(s: { period_start?: string | null; period_end?: string | null; period_month?: string | null }) {
+  if (s.period_start && s.period_end) return { start: s.period_start.slice(0, 10), end: s.period_end.slice(0, 10) }
+  if (s.period_month && /^\d{4}-\d{2}$/.test(s.period_month)) return monthPeriod(s.period_month)
+  return null
+}
+
+/**
+ * 미리보기/그룹 키: 한 달 전체면 "YYYY-MM", 아니면 "YYYY-MM-DD~YYYY-MM-DD"
+ */
+export function periodKey(p: SettlementPeriod) {
+  return isFullMonth(p) ? p.start.slice(0, 7) : `${p.start}~${p.end}`
+}
+
+export function parsePeriodKey(key: string): SettlementPeriod | null {
+  const t = String(key ?? "").trim()
+  if (/^\d{4}-\d{2}$/.test(t)) {
+    const m = Number(t.slice(5, 7))
+    return m >= 1 && m <= 12 ? monthPeriod(t) : null
+  }
+  const [start, end] = t.split("~")
+  if (!start || !end || !isIsoDate(start) || !isIsoDate(end) || start > end) return null
+  return { start, end }
+}
+
+/**
+ * "2026.09.01 ~ 2026.09.07" / "2026-09-01-2026-09-07" / "20260901~20260907" → 기간 (못 읽으면 null)
+ */
+export function parsePeriodRangeText(v: string): SettlementPeriod | null {
+  const dates = Array.from(String(v ?? "").matchAll(/(\d{4})\s*[-./년]?\s*(\d{1,2})\s*[-./월]?\s*(\d{1,2})\s*일?/g))
+  if (dates.length !== 2) return null
+
+  const [start, end] = dates.map(
+    (d) => `${d[1]}-${String(Number(d[2])).padStart(2, "0")}-${String(Number(d[3])).padStart(2, "0")}`
+  )
+  if (!isIsoDate(start) || !isIsoDate(end) || start > end) return null
+  return { start, end }
+}
+
+/**
+ * 기간 → 월별 배분 (일수 비율)
+ * - 예: 2026-09-28 ~ 2026-10-04 → 2026-09 3/7, 2026-10 4/7
+ */
+export function splitPeriodByMonth(p: SettlementPeriod): Array<{ month: string; days: number; ratio: number }> {
+  const total = periodDays(p)
+  const out: Array<{ month: string; days: number; ratio: number }> = []
+
+  let cursor = p.start
+  while (cursor <= p.end) {
+    const month = cursor.slice(0, 7)
+    const monthEnd = monthPeriod(month).end
+    const end = monthEnd < p.end ? monthEnd : p.end
+    const days = periodDays({ start: cursor, end })
+    out.push({ month, days, ratio: days / total })
+    cursor = fromUtc(toUtc(end) + DAY_MS)
+  }
+
+  return out
+}
+
+/** 기간 중 해당 월에 속하는 비율 (0~1) */
+export function monthShare(p: SettlementPeriod | null, month: string) {
+  if (!p) return 0
+  if (p.end < `${month}-01` || p.start.slice(0, 7) > month) return 0
+  return splitPeriodByMonth(p).find((x) => x.month === month)?.ratio ?? 0
+}
+
+/** "2026.09" 또는 "2026.09.01 ~ 09.07" */
+export function formatPeriod(p: SettlementPeriod | null) {
+  if (!p) return "-"
+  if (isFullMonth(p)) return p.start.slice(0, 7).replace("-", ".")
+  const start = p.start.replace(/-/g, ".")
+  const end = p.end.slice(0, 4) === p.start.slice(0, 4) ? p.end.slice(5).replace(/-/g, ".") : p.end.replace(/-/g, ".")
+  return `${start} ~ ${end}`
+}
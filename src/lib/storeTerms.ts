@@ -0,0 +1,55 @@
+// src/lib/storeTerms.ts
+// 입점처 계약 조건 이력 (store_terms)
+// - 날짜에 적용되는 조건 = 그 날짜 이전(당일 포함) 적용 시작 중 가장 늦은 조건
+//   가장 이른 조건보다 앞선 날짜면 가장 이른 조건 (DB store_terms_at 과 같은 규칙)
+// - 이력이 없는 입점처는 Store 의 현재 조건 그대로
+
+import type { Store, StoreTerms } from "@/data/models"
+
+export type StoreTermsValues = Pick<Store, "commissionRate" | "storeFee" | "settlementCycle" | "settlementDay">
+
+export const SETTLEMENT_CYCLE_LABEL: Record<NonNullable<StoreTerms["settlementCycle"]>, string> = {
+  monthly: "월 1회",
+  weekly: "주 1회",
+  biweekly: "격주",
+  "ad-hoc": "수시",
+}
+
+export function termsAt(terms: StoreTerms[], storeId: string, on: string): StoreTerms | null {
+  let hit: StoreTerms | null = null
+  let earliest: StoreTerms | null = null
+
+  for (const t of terms) {
+    if (t.storeId !== storeId) continue
+    if (!earliest || t.effectiveFrom < earliest.effectiveFrom) earliest = t
+    if (t.effectiveFrom <= on && (!hit || t.effectiveFrom > hit.effectiveFrom)) hit = t
+  }
+  return hit ?? earliest
+}
+
+/** 날짜 기준 입점처 조건 (이력 > 현재 조건) */
+export function storeTermsOn(
+  store: (StoreTermsValues & { id: string }) | null | undefined,
+  terms: StoreTerms[],
+  on: string
+): StoreTermsValues | null {
+  if (!store) return null
+  const t = termsAt(terms, store.id, on)
+  if (!t) return store
+  return {
+    commissionRate: t.commissionRate,
+    storeFee: t.storeFee,
+    settlementCycle: t.settlementCycle,
+    settlementDay: t.settlementDay,
+  }
+}
+
+export function formatStoreTerms(t: StoreTermsValues) {
+  const parts = [
+    t.commissionRate == null ? "수수료 -" : `수수료 ${t.commissionRate}%`,
+    t.storeFee ? `입점료 ${t.storeFee.toLocaleString()}원` : null,
+    t.settlementCycle ? SETTLEMENT_CYCLE_LABEL[t.settlementCycle] : null,
+    t.settlementDay == null ? null : `매월 ${t.settlementDay}일`,
+  ]
+  return parts.filter(Boolean).join(" · ")
+}
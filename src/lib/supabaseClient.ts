@@ -11,8 +11,17 @@ export type Profile = {
   default_target_qty: number;
   low_stock_threshold: number;
   is_invited?: boolean; // ✅ 초대 통과 여부(InviteGate 통과에 필요)
+  // ✅ 목표 재고 규칙 (판매 속도 기반)
+  target_mode?: "fixed" | "velocity";
+  velocity_months?: number;
+  cover_months?: number;
+  target_min_qty?: number | null;
+  target_max_qty?: number | null;
 };
 
+const PROFILE_SELECT =
+  "user_id, default_target_qty, low_stock_threshold, is_invited, target_mode, velocity_months, cover_months, target_min_qty, target_max_qty";
+
 export async function getOrCreateMyProfile() {
   const { data: authData, error: authErr } = await supabase.auth.getUser();
   if (authErr) throw authErr;
@@ -22,7 +31,7 @@ export async function getOrCreateMyProfile() {
   // 1) 먼저 내 profile 조회
   const { data: profile, error: selErr } = await supabase
     .from("profiles")
-    .select("user_id, default_target_qty, low_stock_threshold, is_invited") // ✅ is_invited 포함
+    .select(PROFILE_SELECT) // ✅ is_invited 포함
     .eq("user_id", user.id)
     .maybeSingle();
 
@@ -33,7 +42,7 @@ export async function getOrCreateMyProfile() {
     const { data: created, error: insErr } = await supabase
       .from("profiles")
       .insert({ user_id: user.id })
-      .select("user_id, default_target_qty, low_stock_threshold, is_invited") // ✅ is_invited 포함
+      .select(PROFILE_SELECT) // ✅ is_invited 포함
       .single();
 
     if (insErr) throw insErr;
@@ -55,7 +64,7 @@ export async function updateMyDefaultTargetQty(value: number) {
     .from("profiles")
     .update({ default_target_qty: safe })
     .eq("user_id", user.id)
-    .select("user_id, default_target_qty, low_stock_threshold, is_invited") // ✅ is_invited 포함
+    .select(PROFILE_SELECT) // ✅ is_invited 포함
     .single();
 
   if (error) throw error;
@@ -74,7 +83,37 @@ export async function updateMyLowStockThreshold(value: number) {
     .from("profiles")
     .update({ low_stock_threshold: safe })
     .eq("user_id", user.id)
-    .select("user_id, default_target_qty, low_stock_threshold, is_invited") // ✅ is_invited 포함
+    .select(PROFILE_SELECT) // ✅ is_invited 포함
+    .single();
+
+  if (error) throw error;
+  return data as Profile;
+}
+export async function updateMyTargetSettings(input: {
+  mode: "fixed" | "velocity";
+  velocityMonths: number;
+  coverMonths: number;
+  minQty: number | null;
+  maxQty: number | null;
+}) {
+  const { data: authData, error: authErr } = await supabase.auth.getUser();
+  if (authErr) throw authErr;
+  const user = authData.user;
+  if (!user) throw new Error("No authenticated user");
+
+  const clampQty = (v: number | null) => (v == null ? null : Math.max(0, Math.min(9999, Math.floor(v))));
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .update({
+      target_mode: input.mode,
+      velocity_months: Math.max(1, Math.min(24, Math.floor(input.velocityMonths))),
+      cover_months: Math.max(0.1, Math.min(24, input.coverMonths)),
+      target_min_qty: clampQty(input.minQty),
+      target_max_qty: clampQty(input.maxQty),
+    })
+    .eq("user_id", user.id)
+    .select(PROFILE_SELECT)
     .single();
 
   if (error) throw error;
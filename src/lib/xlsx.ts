@@ -0,0 +1,242 @@
+// src/lib/xlsx.ts
+// 브라우저에서 .xlsx 읽기 (외부 라이브러리 없이: zip 해제 = DecompressionStream, XML = DOMParser)
+// - 시트별 셀 값을 문자열 2차원 배열로 변환 → CSV와 같은 흐름(parseCsv)으로 처리
+// - 병합 셀은 왼쪽 위 셀에만 값이 있음 (제목 행은 preamble 감지로 건너뜀)
+
+import { isBlankRecord } from "@/lib/csv"
+
+export type XlsxSheet = {
+  name: string
+  rows: string[][]
+}
+
+export type XlsxWorkbook = {
+  sheets: XlsxSheet[]
+}
+
+export function isXlsxFileName(name: string) {
+  return name.toLowerCase().endsWith(".xlsx")
+}
+
+/** 값이 있는 첫 시트 (모두 비어 있으면 0) */
+export function firstFilledSheetIndex(book: XlsxWorkbook) {
+  return Math.max(0, book.sheets.findIndex((sh) => sh.rows.some((r) => !isBlankRecord(r))))
+}
+
+/**
+ * 헤더 행 선택지: 빈 줄을 뺀 앞쪽 줄 (값 = 헤더 앞 건너뛸 줄 수, parseCsv의 headerRow와 같음)
+ * - "0"은 자동 감지 자리라 목록에서 뺌
+ */
+export function headerRowChoices(rows: string[][], max = 15) {
+  return [
+    { value: "0", label: "자동 감지" },
+    ...rows
+      .filter((r) => !isBlankRecord(r))
+      .slice(0, max)
+      .map((r, i) => ({
+        value: String(i),
+        label: `${i + 1}번째 줄: ${r.filter((c) => c.trim()).slice(0, 4).join(" | ").slice(0, 60)}`,
+      }))
+      .filter((c) => c.value !== "0"),
+  ]
+}
+
+/* ========================= zip ========================= */
+
+type ZipEntry = {
+  name: string
+  method: number // 0 = stored, 8 = deflate
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+function readZipEntries(buf: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buf)
+
+  // End of central directory: 파일 끝에서 시그니처 탐색 (주석 길이 최대 65535)
+  let eocd = -1
+  for (let i = buf.byteLength - 22; i >= Math.max(0, buf.byteLength - 22 - 65535); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) throw new Error("엑셀 파일 형식이 아니에요. (.xlsx만 지원)")
+
+  const count = view.getUint16(eocd + 10, true)
+  let p = view.getUint32(eocd + 16, true)
+  const decoder = new TextDecoder("utf-8")
+  const entries = new Map<string, ZipEntry>()
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(p, true) !== 0x02014b50) break
+    const method = view.getUint16(p + 10, true)
+    const compressedSize = view.getUint32(p + 20, true)
+    const nameLen = view.getUint16(p + 28, true)
+    const extraLen = view.getUint16(p + 30, true)
+    const commentLen = view.getUint16(p + 32, true)
+    const localHeaderOffset = view.getUint32(p + 42, true)
+    const name = decoder.decode(new Uint8Array(buf, p + 46, nameLen))
+    entries.set(name, { name, method, compressedSize, localHeaderOffset })
+    p += 46 + nameLen + extraLen + commentLen
+  }
+
+  return entries
+}
+
+async function readZipText(buf: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(buf)
+  const h = entry.localHeaderOffset
+  if (view.getUint32(h, true) !== 0x04034b50) throw new Error(`엑셀 파일이 손상됐어요. (${entry.name})`)
+
+  const start = h + 30 + view.getUint16(h + 26, true) + view.getUint16(h + 28, true)
+  const data = new Uint8Array(buf, start, entry.compressedSize)
+
+  if (entry.method === 0) return new TextDecoder("utf-8").decode(data)
+  if (entry.method !== 8) throw new Error(`지원하지 않는 압축 방식이에요. (${entry.method})`)
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"))
+  return await new Response(stream).text()
+}
+
+/* ========================= xml ========================= */
+
+function parseXml(text: string) {
+  return new DOMParser().parseFromString(text, "application/xml")
+}
+
+// 접두사(x:, r: 등)와 무관하게 local name으로 찾기
+function byTag(root: Document | Element, tag: string) {
+  return Array.from(root.getElementsByTagNameNS("*", tag))
+}
+
+function attrByLocalName(el: Element, localName: string) {
+  for (const a of Array.from(el.attributes)) {
+    if (a.localName === localName && a.prefix) return a.value
+  }
+  return el.getAttribute(localName)
+}
+
+function joinPath(base: string, target: string) {
+  if (target.startsWith("/")) return target.slice(1)
+  const parts = base.split("/").slice(0, -1)
+  for (const seg of target.split("/")) {
+    if (seg === "..") parts.pop()
+    else if (seg !== ".") parts.push(seg)
+  }
+  return parts.join("/")
+}
+
+// "AB12" → 27 (0-based 열 번호)
+function columnIndex(ref: string) {
+  let n = 0
+  for (const ch of ref.toUpperCase()) {
+    const code = ch.charCodeAt(0)
+    if (code < 65 || code > 90) break
+    n = n * 26 + (code - 64)
+  }
+  return n - 1
+}
+
+// <si>/<is> 안의 텍스트 (서식이 섞인 <r><t> 조각 포함, 윗주 <rPh>는 제외)
+function richText(el: Element) {
+  return byTag(el, "t")
+    .filter((t) => t.parentElement?.localName !== "rPh")
+    .map((t) => t.textContent ?? "")
+    .join("")
+}
+
+function formatNumber(v: string) {
+  const n = Number(v)
+  if (!Number.isFinite(n)) return v
+  // 부동소수 오차 정리 (예: 0.30000000000000004)
+  return String(Number.isInteger(n) ? n : Number(n.toPrecision(12)))
+}
+
+function readSheetRows(doc: Document, sharedStrings: string[]): string[][] {
+  const rows: string[][] = []
+
+  let nextRow = 0
+  for (const rowEl of byTag(doc, "row")) {
+    const r = rowEl.getAttribute("r")
+    const ri = r ? Number(r) - 1 : nextRow
+    nextRow = ri + 1
+
+    const cells: string[] = []
+    let nextCol = 0
+    for (const c of byTag(rowEl, "c")) {
+      const ref = c.getAttribute("r")
+      const ci = ref ? columnIndex(ref) : nextCol
+      nextCol = ci + 1
+
+      const type = c.getAttribute("t")
+      const v = byTag(c, "v")[0]?.textContent ?? ""
+
+      let value = ""
+      if (type === "s") value = sharedStrings[Number(v)] ?? ""
+      else if (type === "inlineStr") value = byTag(c, "is")[0] ? richText(byTag(c, "is")[0]) : ""
+      else if (type === "b") value = v === "1" ? "TRUE" : v === "0" ? "FALSE" : v
+      else if (type === "str" || type === "e") value = v
+      else value = v === "" ? "" : formatNumber(v)
+
+      cells[ci] = value
+    }
+
+    rows[ri] = Array.from(cells, (x) => x ?? "")
+  }
+
+  // 중간에 비어 있는 행/셀 채우고, 열 개수 맞춤
+  const width = rows.reduce((m, r) => Math.max(m, r?.length ?? 0), 0)
+  return Array.from(rows, (r) => {
+    const row = r ?? []
+    return row.length < width ? [...row, ...Array<string>(width - row.length).fill("")] : row
+  })
+}
+
+/**
+ * .xlsx → 시트 목록 (숨김 시트 포함, 시트 순서 유지)
+ */
+export async function readXlsxFile(file: File): Promise<XlsxWorkbook> {
+  const buf = await file.arrayBuffer()
+  const entries = readZipEntries(buf)
+
+  const text = async (path: string) => {
+    const e = entries.get(path)
+    return e ? await readZipText(buf, e) : null
+  }
+
+  const workbookXml = await text("xl/workbook.xml")
+  if (!workbookXml) throw new Error("엑셀 통합 문서를 찾지 못했어요.")
+
+  // 시트 id → 파일 경로
+  const relsXml = await text("xl/_rels/workbook.xml.rels")
+  const targetById = new Map<string, string>()
+  if (relsXml) {
+    for (const rel of byTag(parseXml(relsXml), "Relationship")) {
+      const id = rel.getAttribute("Id")
+      const target = rel.getAttribute("Target")
+      if (id && target) targetById.set(id, joinPath("xl/workbook.xml", target))
+    }
+  }
+
+  const sharedXml = await text("xl/sharedStrings.xml")
+  const sharedStrings = sharedXml ? byTag(parseXml(sharedXml), "si").map(richText) : []
+
+  const sheets: XlsxSheet[] = []
+  const sheetEls = byTag(parseXml(workbookXml), "sheet")
+  for (let i = 0; i < sheetEls.length; i++) {
+    const el = sheetEls[i]
+    const rid = attrByLocalName(el, "id")
+    const path = (rid && targetById.get(rid)) || `xl/worksheets/sheet${i + 1}.xml`
+    const xml = await text(path)
+    if (!xml) continue
+
+    sheets.push({
+      name: el.getAttribute("name") ?? `Sheet${i + 1}`,
+      rows: readSheetRows(parseXml(xml), sharedStrings),
+    })
+  }
+
+  if (sheets.length === 0) throw new Error("엑셀 파일에 시트가 없어요.")
+  return { sheets }
+}
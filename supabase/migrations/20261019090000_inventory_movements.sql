@@ -0,0 +1,132 @@
+-- =========================================================
+-- 재고 변동 원장 (inventory_movements)
+-- - 모든 재고 변경은 원장에 "증감(qty_delta)"으로만 기록 (append-only)
+-- - inventory.on_hand_qty 는 원장 합계를 트리거로 누적한 캐시
+--   (절대값 덮어쓰기 대신 증감 누적이라 동시 수정 시 업데이트 유실 없음)
+-- - ⚠️ 동작 변경: 판매 차감은 0에서 멈추지 않음 (예전엔 max(0, 현재 - 판매))
+--   → 재고보다 많이 팔린 경우 on_hand_qty 가 음수가 될 수 있음 (실사/조정으로 맞춤)
+--   → 대신 캐시가 항상 원장 합계와 같고, 정산 삭제/교체 시 되돌림도 정확히 대칭
+-- =========================================================
+
+create table if not exists public.inventory_movements (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  store_id text not null,
+  product_id text not null,
+  qty_delta integer not null,
+  reason text not null
+    check (reason in ('delivery', 'sale', 'adjustment', 'return', 'loss')),
+  source_type text, -- 예: 'settlement', 'inventory_page'
+  source_id text, -- 예: settlements_v2.id
+  memo text,
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists inventory_movements_user_store_product_idx
+  on public.inventory_movements (user_id, store_id, product_id, created_at desc);
+
+create index if not exists inventory_movements_source_idx
+  on public.inventory_movements (user_id, source_type, source_id);
+
+alter table public.inventory_movements enable row level security;
+
+-- 원장은 조회/추가만 허용 (수정/삭제 정책 없음 = 불가)
+create policy "inventory_movements_select_own"
+  on public.inventory_movements for select
+  using (user_id = auth.uid());
+
+-- 클라이언트 직접 추가는 수동 조정 사유만 (판매/실사 차이 등 시스템 사유는 security definer RPC 에서만)
+create policy "inventory_movements_insert_own"
+  on public.inventory_movements for insert
+  with check (
+    user_id = auth.uid()
+    and reason in ('delivery', 'return', 'loss', 'adjustment')
+  );
+
+-- ✅ 기존 재고값을 기초 재고(opening balance)로 원장에 이관 (트리거 생성 전에 실행)
+insert into public.inventory_movements
+  (user_id, store_id, product_id, qty_delta, reason, source_type, memo, created_by, created_at)
+select
+  i.user_id,
+  i.store_id,
+  i.product_id,
+  i.on_hand_qty,
+  'adjustment',
+  'migration',
+  '기초 재고 (원장 도입 시점)',
+  i.user_id,
+  coalesce(i.updated_at, now())
+from public.inventory i
+where coalesce(i.on_hand_qty, 0) <> 0;
+
+-- 원장 1건 → inventory 캐시에 증감 누적
+create or replace function public.apply_inventory_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.inventory (user_id, store_id, product_id, on_hand_qty, updated_at)
+  values (new.user_id, new.store_id, new.product_id, new.qty_delta, now())
+  on conflict (user_id, store_id, product_id)
+  do update set
+    on_hand_qty = coalesce(public.inventory.on_hand_qty, 0) + excluded.on_hand_qty,
+    updated_at = now();
+
+  return new;
+end;
+$$;
+
+drop trigger if exists inventory_movements_apply on public.inventory_movements;
+create trigger inventory_movements_apply
+  after insert on public.inventory_movements
+  for each row execute function public.apply_inventory_movement();
+
+-- 재고 화면처럼 "현재 수량을 N으로" 입력하는 경우:
+-- 서버에서 현재값을 잠그고 차이만큼 조정 원장을 남긴다.
+-- (행이 아직 없으면 select ... for update 가 아무것도 잠그지 못하므로 0 행을 먼저 만든 뒤 잠금)
+create or replace function public.set_inventory_on_hand(
+  p_store_id text,
+  p_product_id text,
+  p_on_hand_qty integer,
+  p_reason text default 'adjustment',
+  p_source_type text default null,
+  p_memo text default null
+)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_current integer;
+  v_delta integer;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  insert into public.inventory (user_id, store_id, product_id, on_hand_qty, updated_at)
+  values (v_user_id, p_store_id, p_product_id, 0, now())
+  on conflict (user_id, store_id, product_id) do nothing;
+
+  select coalesce(on_hand_qty, 0) into v_current
+  from public.inventory
+  where user_id = v_user_id and store_id = p_store_id and product_id = p_product_id
+  for update;
+
+  v_delta := greatest(0, p_on_hand_qty) - coalesce(v_current, 0);
+
+  if v_delta <> 0 then
+    insert into public.inventory_movements
+      (user_id, store_id, product_id, qty_delta, reason, source_type, memo)
+    values
+      (v_user_id, p_store_id, p_product_id, v_delta, p_reason, p_source_type, p_memo);
+  end if;
+
+  return coalesce(v_current, 0) + v_delta;
+end;
+$$;
@@ -0,0 +1,124 @@
+-- =========================================================
+-- 보관 장소 (warehouses): 작업실/창고 등 "아직 납품 전" 재고 위치
+-- - 원장(inventory_movements)은 입점처(store_id) 또는 보관 장소(warehouse_id) 중 하나를 가짐
+-- - warehouse_stock.on_hand_qty 는 inventory 와 같은 방식으로 원장 합계를 누적한 캐시
+-- =========================================================
+
+create table if not exists public.warehouses (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  id text not null,
+  name text not null,
+  memo text,
+  is_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  primary key (user_id, id)
+);
+
+alter table public.warehouses enable row level security;
+
+create policy "warehouses_all_own"
+  on public.warehouses for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create table if not exists public.warehouse_stock (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  warehouse_id text not null,
+  product_id text not null,
+  on_hand_qty integer not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, warehouse_id, product_id)
+);
+
+alter table public.warehouse_stock enable row level security;
+
+-- 캐시는 트리거(security definer)만 갱신 → 조회만 허용
+create policy "warehouse_stock_select_own"
+  on public.warehouse_stock for select
+  using (user_id = auth.uid());
+
+-- 원장: 위치 = 입점처 또는 보관 장소
+alter table public.inventory_movements
+  alter column store_id drop not null,
+  add column if not exists warehouse_id text;
+
+alter table public.inventory_movements
+  add constraint inventory_movements_location_check
+  check ((store_id is null) <> (warehouse_id is null));
+
+create index if not exists inventory_movements_user_warehouse_product_idx
+  on public.inventory_movements (user_id, warehouse_id, product_id, created_at desc)
+  where warehouse_id is not null;
+
+create or replace function public.apply_inventory_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.warehouse_id is not null then
+    insert into public.warehouse_stock (user_id, warehouse_id, product_id, on_hand_qty, updated_at)
+    values (new.user_id, new.warehouse_id, new.product_id, new.qty_delta, now())
+    on conflict (user_id, warehouse_id, product_id)
+    do update set
+      on_hand_qty = public.warehouse_stock.on_hand_qty + excluded.on_hand_qty,
+      updated_at = now();
+  else
+    insert into public.inventory (user_id, store_id, product_id, on_hand_qty, updated_at)
+    values (new.user_id, new.store_id, new.product_id, new.qty_delta, now())
+    on conflict (user_id, store_id, product_id)
+    do update set
+      on_hand_qty = coalesce(public.inventory.on_hand_qty, 0) + excluded.on_hand_qty,
+      updated_at = now();
+  end if;
+
+  return new;
+end;
+$$;
+
+-- set_inventory_on_hand 와 동일하지만 보관 장소 대상
+create or replace function public.set_warehouse_on_hand(
+  p_warehouse_id text,
+  p_product_id text,
+  p_on_hand_qty integer,
+  p_reason text default 'adjustment',
+  p_source_type text default null,
+  p_memo text default null
+)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_current integer;
+  v_delta integer;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  -- 첫 입력이 동시에 와도 한 행을 잠그도록 0 행부터 (set_inventory_on_hand 와 같음)
+  insert into public.warehouse_stock (user_id, warehouse_id, product_id, on_hand_qty, updated_at)
+  values (v_user_id, p_warehouse_id, p_product_id, 0, now())
+  on conflict (user_id, warehouse_id, product_id) do nothing;
+
+  select on_hand_qty into v_current
+  from public.warehouse_stock
+  where user_id = v_user_id and warehouse_id = p_warehouse_id and product_id = p_product_id
+  for update;
+
+  v_delta := greatest(0, p_on_hand_qty) - coalesce(v_current, 0);
+
+  if v_delta <> 0 then
+    insert into public.inventory_movements
+      (user_id, warehouse_id, product_id, qty_delta, reason, source_type, memo)
+    values
+      (v_user_id, p_warehouse_id, p_product_id, v_delta, p_reason, p_source_type, p_memo);
+  end if;
+
+  return coalesce(v_current, 0) + v_delta;
+end;
+$$;
@@ -0,0 +1,136 @@
+-- =========================================================
+-- 납품서 (delivery_notes / delivery_note_lines)
+-- - 작업실/창고 → 입점처로 재고 이동 기록
+-- - 라인에는 출력/CSV용으로 제품명·바코드·단가를 확정 시점 값으로 저장
+-- =========================================================
+
+create table if not exists public.delivery_notes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  store_id text not null,
+  warehouse_id text not null,
+  memo text,
+  total_qty integer not null default 0,
+  total_amount numeric not null default 0,
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists delivery_notes_user_store_idx
+  on public.delivery_notes (user_id, store_id, created_at desc);
+
+create table if not exists public.delivery_note_lines (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  delivery_note_id uuid not null references public.delivery_notes (id) on delete cascade,
+  product_id text not null,
+  product_name text not null,
+  barcode text,
+  unit_price numeric,
+  qty integer not null check (qty > 0)
+);
+
+create index if not exists delivery_note_lines_note_idx
+  on public.delivery_note_lines (delivery_note_id);
+
+alter table public.delivery_notes enable row level security;
+alter table public.delivery_note_lines enable row level security;
+
+-- 확정된 납품서는 재고 원장과 묶여 있으므로 조회만 허용 (생성은 RPC)
+create policy "delivery_notes_select_own"
+  on public.delivery_notes for select
+  using (user_id = auth.uid());
+
+create policy "delivery_note_lines_select_own"
+  on public.delivery_note_lines for select
+  using (user_id = auth.uid());
+
+-- 납품 확정: 납품서 + 라인 + 재고 원장(입점처 +, 보관 장소 −)을 한 트랜잭션으로
+-- p_lines: [{ "product_id", "product_name", "barcode", "unit_price", "qty" }]
+create or replace function public.confirm_delivery_note(
+  p_store_id text,
+  p_warehouse_id text,
+  p_lines jsonb,
+  p_memo text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_note_id uuid;
+  v_lines jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (select 1 from public.stores where user_id = v_user_id and id = p_store_id) then
+    raise exception 'store_not_found';
+  end if;
+
+  if not exists (select 1 from public.warehouses where user_id = v_user_id and id = p_warehouse_id) then
+    raise exception 'warehouse_not_found';
+  end if;
+
+  if jsonb_typeof(p_lines) <> 'array' then
+    raise exception 'empty_lines';
+  end if;
+
+  -- 수량이 0 이하인 라인은 빼고, 남는 라인이 없으면 납품서를 만들지 않음
+  select coalesce(jsonb_agg(l), '[]'::jsonb) into v_lines
+  from jsonb_array_elements(v_lines) l;
+
+  if jsonb_array_length(v_lines) = 0 then
+    raise exception 'empty_lines';
+  end if;
+
+  insert into public.delivery_notes (user_id, store_id, warehouse_id, memo, created_by)
+  values (v_user_id, p_store_id, p_warehouse_id, p_memo, v_user_id)
+  returning id into v_note_id;
+
+  insert into public.delivery_note_lines
+    (user_id, delivery_note_id, product_id, product_name, barcode, unit_price, qty)
+  select
+    v_user_id,
+    v_note_id,
+    l->>'product_id',
+    coalesce(l->>'product_name', ''),
+    nullif(l->>'barcode', ''),
+    nullif(l->>'unit_price', '')::numeric,
+    (l->>'qty')::integer
+  from jsonb_array_elements(p_lines) l
+  where coalesce((l->>'qty')::integer, 0) > 0;
+
+  update public.delivery_notes n
+  set
+    total_qty = t.qty,
+    total_amount = t.amount
+  from (
+    select
+      coalesce(sum(qty), 0) as qty,
+      coalesce(sum(qty * coalesce(unit_price, 0)), 0) as amount
+    from public.delivery_note_lines
+    where delivery_note_id = v_note_id
+  ) t
+  where n.id = v_note_id;
+
+  -- 입점처 입고(+)
+  insert into public.inventory_movements
+    (user_id, store_id, product_id, qty_delta, reason, source_type, source_id, created_by)
+  select v_user_id, p_store_id, product_id, qty, 'delivery', 'delivery_note', v_note_id::text, v_user_id
+  from public.delivery_note_lines
+  where delivery_note_id = v_note_id;
+
+  -- 보관 장소 출고(−)
+  insert into public.inventory_movements
+    (user_id, warehouse_id, product_id, qty_delta, reason, source_type, source_id, created_by)
+  select v_user_id, p_warehouse_id, product_id, -qty, 'delivery', 'delivery_note', v_note_id::text, v_user_id
+  from public.delivery_note_lines
+  where delivery_note_id = v_note_id;
+
+  return v_note_id;
+end;
+$$;
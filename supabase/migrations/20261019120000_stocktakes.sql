@@ -0,0 +1,163 @@
+-- =========================================================
+-- 재고 실사 (stocktakes / stocktake_lines)
+-- - 시작 시점의 입점처 재고를 expected_qty 로 고정(freeze)
+-- - 확정(post) 시 counted - expected 만큼 'count_variance' 원장 기록
+--   (실사 중 발생한 판매/납품 원장은 그대로 유지됨)
+-- =========================================================
+
+alter table public.inventory_movements
+  drop constraint if exists inventory_movements_reason_check;
+
+alter table public.inventory_movements
+  add constraint inventory_movements_reason_check
+  check (reason in ('delivery', 'sale', 'adjustment', 'return', 'loss', 'count_variance'));
+
+create table if not exists public.stocktakes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  store_id text not null,
+  status text not null default 'open' check (status in ('open', 'posted', 'cancelled')),
+  memo text,
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  posted_at timestamptz
+);
+
+create index if not exists stocktakes_user_store_idx
+  on public.stocktakes (user_id, store_id, created_at desc);
+
+create table if not exists public.stocktake_lines (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  stocktake_id uuid not null references public.stocktakes (id) on delete cascade,
+  product_id text not null,
+  expected_qty integer not null default 0,
+  counted_qty integer check (counted_qty is null or counted_qty >= 0),
+  unit_price numeric,
+  updated_at timestamptz not null default now(),
+  unique (stocktake_id, product_id)
+);
+
+alter table public.stocktakes enable row level security;
+alter table public.stocktake_lines enable row level security;
+
+create policy "stocktakes_all_own"
+  on public.stocktakes for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- 확정된 실사의 수량은 수정 불가
+create policy "stocktake_lines_select_own"
+  on public.stocktake_lines for select
+  using (user_id = auth.uid());
+
+create policy "stocktake_lines_update_open"
+  on public.stocktake_lines for update
+  using (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.stocktakes t
+      where t.id = stocktake_id and t.status = 'open'
+    )
+  )
+  with check (user_id = auth.uid());
+
+-- 실사 시작: 취급 ON 제품 + 재고가 남아있는 제품을 현재 수량으로 고정
+create or replace function public.start_stocktake(p_store_id text, p_memo text default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_id uuid;
+  v_has_states boolean;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (select 1 from public.stores where user_id = v_user_id and id = p_store_id) then
+    raise exception 'store_not_found';
+  end if;
+
+  insert into public.stocktakes (user_id, store_id, memo, created_by)
+  values (v_user_id, p_store_id, p_memo, v_user_id)
+  returning id into v_id;
+
+  select exists (
+    select 1 from public.store_product_states
+    where user_id = v_user_id and store_id = p_store_id
+  ) into v_has_states;
+
+  insert into public.stocktake_lines (user_id, stocktake_id, product_id, expected_qty, unit_price)
+  select
+    v_user_id,
+    v_id,
+    p.id,
+    coalesce(i.on_hand_qty, 0),
+    p.price
+  from public.products p
+  left join public.inventory i
+    on i.user_id = v_user_id and i.store_id = p_store_id and i.product_id = p.id
+  left join public.store_product_states s
+    on s.user_id = v_user_id and s.store_id = p_store_id and s.product_id = p.id
+  where p.user_id = v_user_id
+    and (not v_has_states or coalesce(s.enabled, false) or coalesce(i.on_hand_qty, 0) <> 0);
+
+  return v_id;
+end;
+$$;
+
+-- 실사 확정: 입력된 라인만 차이(counted - expected)를 원장에 기록
+create or replace function public.post_stocktake(p_stocktake_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_store_id text;
+  v_count integer;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select store_id into v_store_id
+  from public.stocktakes
+  where id = p_stocktake_id and user_id = v_user_id and status = 'open'
+  for update;
+
+  if v_store_id is null then
+    raise exception 'stocktake_not_open';
+  end if;
+
+  insert into public.inventory_movements
+    (user_id, store_id, product_id, qty_delta, reason, source_type, source_id, memo, created_by)
+  select
+    v_user_id,
+    v_store_id,
+    l.product_id,
+    l.counted_qty - l.expected_qty,
+    'count_variance',
+    'stocktake',
+    p_stocktake_id::text,
+    '재고 실사 차이',
+    v_user_id
+  from public.stocktake_lines l
+  where l.stocktake_id = p_stocktake_id
+    and l.counted_qty is not null
+    and l.counted_qty <> l.expected_qty;
+
+  get diagnostics v_count = row_count;
+
+  update public.stocktakes
+  set status = 'posted', posted_at = now()
+  where id = p_stocktake_id;
+
+  return v_count;
+end;
+$$;
@@ -0,0 +1,79 @@
+-- =========================================================
+-- 옵션 상품 (product variants)
+-- - 대표 제품: option_axes = [{ "name": "색상", "values": ["네이비", "베이지"] }, ...]
+-- - 옵션 상품: parent_id = 대표 제품 id, option_values = { "색상": "네이비" }
+-- - 옵션 상품의 price 가 null 이면 대표 제품 가격을 따름
+-- - 재고/정산/제작은 옵션 상품 단위, 리포트는 대표 제품으로 묶어서 집계
+-- =========================================================
+
+alter table public.products
+  add column if not exists parent_id text,
+  add column if not exists option_axes jsonb,
+  add column if not exists option_values jsonb;
+
+-- 옵션 상품 가격 상속을 위해 null 허용
+alter table public.products
+  alter column price drop not null;
+
+create index if not exists products_user_parent_idx
+  on public.products (user_id, parent_id)
+  where parent_id is not null;
+
+-- 실사 시작: 옵션이 있는 대표 제품은 제외(재고는 옵션 단위), 단가는 대표 가격 상속
+create or replace function public.start_stocktake(p_store_id text, p_memo text default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_id uuid;
+  v_has_states boolean;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (select 1 from public.stores where user_id = v_user_id and id = p_store_id) then
+    raise exception 'store_not_found';
+  end if;
+
+  insert into public.stocktakes (user_id, store_id, memo, created_by)
+  values (v_user_id, p_store_id, p_memo, v_user_id)
+  returning id into v_id;
+
+  select exists (
+    select 1 from public.store_product_states
+    where user_id = v_user_id and store_id = p_store_id
+  ) into v_has_states;
+
+  insert into public.stocktake_lines (user_id, stocktake_id, product_id, expected_qty, unit_price)
+  select
+    v_user_id,
+    v_id,
+    p.id,
+    coalesce(i.on_hand_qty, 0),
+    coalesce(p.price, parent.price)
+  from public.products p
+  left join public.products parent
+    on parent.user_id = v_user_id and parent.id = p.parent_id
+  left join public.inventory i
+    on i.user_id = v_user_id and i.store_id = p_store_id and i.product_id = p.id
+  left join public.store_product_states s
+    on s.user_id = v_user_id and s.store_id = p_store_id and s.product_id = p.id
+  where p.user_id = v_user_id
+    and (
+      coalesce(i.on_hand_qty, 0) <> 0
+      or (
+        (not v_has_states or coalesce(s.enabled, false))
+        and not exists (
+          select 1 from public.products c
+          where c.user_id = v_user_id and c.parent_id = p.id
+        )
+      )
+    );
+
+  return v_id;
+end;
+$$;
@@ -0,0 +1,26 @@
+-- =========================================================
+-- 제품 재료 구성 (BOM: bill of materials)
+-- - 카탈로그 제품(products) 1개 = 원부자재 라이브러리(material_library) 항목 × 수량
+-- - 단가는 라이브러리에만 저장 → 단가를 고치면 연결된 모든 제품 원가에 바로 반영
+-- - 옵션 상품에 구성이 없으면 대표 제품 구성을 따름 (앱에서 처리)
+-- =========================================================
+
+create table if not exists public.product_materials (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  product_id text not null,
+  material_id uuid not null references public.material_library (id) on delete cascade,
+  quantity numeric not null default 1 check (quantity > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, product_id, material_id)
+);
+
+alter table public.product_materials enable row level security;
+
+create policy "product_materials_all_own"
+  on public.product_materials for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create index if not exists product_materials_user_material_idx
+  on public.product_materials (user_id, material_id);
@@ -0,0 +1,16 @@
+-- =========================================================
+-- 원부자재 재고 (material_library 확장)
+-- - stock_qty: 현재 보유량 (unit 기준, 예: 원단 12.5m)
+-- - purchase_unit / purchase_unit_qty: 구매 단위 (예: 1롤 = 50m)
+-- - 필요량 = 제작 리스트 제작 수량 × 제품 재료 구성(product_materials)
+-- =========================================================
+
+alter table public.material_library
+  add column if not exists stock_qty numeric not null default 0,
+  add column if not exists unit text,
+  add column if not exists purchase_unit text,
+  add column if not exists purchase_unit_qty numeric;
+
+alter table public.material_library
+  add constraint material_library_purchase_unit_qty_check
+  check (purchase_unit_qty is null or purchase_unit_qty > 0);
@@ -0,0 +1,128 @@
+-- =========================================================
+-- 제작 지시 (production_plans / production_plan_items)
+-- - 제작 리스트에서 고른 제품/수량을 지시로 저장 (models.ts 의 Plan)
+-- - 상태: planned(지시) → in_progress(제작 중) → done(완료) / cancelled
+-- - 완료(complete_production_plan) 시 지정한 작업실/창고에 'production' 원장으로 입고
+-- =========================================================
+
+alter table public.inventory_movements
+  drop constraint if exists inventory_movements_reason_check;
+
+alter table public.inventory_movements
+  add constraint inventory_movements_reason_check
+  check (reason in ('delivery', 'sale', 'adjustment', 'return', 'loss', 'count_variance', 'production'));
+
+create table if not exists public.production_plans (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  store_id text, -- 어느 입점처 부족분에서 나온 지시인지 (전체 기준이면 null)
+  warehouse_id text not null, -- 완료 시 입고될 보관 장소
+  month text not null, -- YYYY-MM
+  due_date date,
+  status text not null default 'planned'
+    check (status in ('planned', 'in_progress', 'done', 'cancelled')),
+  memo text,
+  created_by uuid default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists production_plans_user_status_idx
+  on public.production_plans (user_id, status, due_date);
+
+create table if not exists public.production_plan_items (
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  plan_id uuid not null references public.production_plans (id) on delete cascade,
+  product_id text not null,
+  make_qty integer not null check (make_qty > 0),
+  primary key (plan_id, product_id)
+);
+
+alter table public.production_plans enable row level security;
+alter table public.production_plan_items enable row level security;
+
+-- 완료 처리는 RPC(재고 입고와 한 트랜잭션)로만
+create policy "production_plans_select_own"
+  on public.production_plans for select
+  using (user_id = auth.uid());
+
+create policy "production_plans_insert_own"
+  on public.production_plans for insert
+  with check (user_id = auth.uid() and status in ('planned', 'in_progress'));
+
+create policy "production_plans_update_open"
+  on public.production_plans for update
+  using (user_id = auth.uid() and status in ('planned', 'in_progress'))
+  with check (user_id = auth.uid() and status <> 'done');
+
+-- 완료/취소된 지시의 수량은 수정 불가
+create policy "production_plan_items_select_own"
+  on public.production_plan_items for select
+  using (user_id = auth.uid());
+
+create policy "production_plan_items_write_open"
+  on public.production_plan_items for all
+  using (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.production_plans p
+      where p.id = plan_id and p.status in ('planned', 'in_progress')
+    )
+  )
+  with check (user_id = auth.uid());
+
+-- 제작 완료: 지시 수량만큼 보관 장소 입고(+) 후 done 처리
+create or replace function public.complete_production_plan(p_plan_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_warehouse_id text;
+  v_count integer;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select warehouse_id into v_warehouse_id
+  from public.production_plans
+  where id = p_plan_id and user_id = v_user_id and status in ('planned', 'in_progress')
+  for update;
+
+  if v_warehouse_id is null then
+    raise exception 'plan_not_open';
+  end if;
+
+  if not exists (select 1 from public.warehouses where user_id = v_user_id and id = v_warehouse_id) then
+    raise exception 'warehouse_not_found';
+  end if;
+
+  insert into public.inventory_movements
+    (user_id, warehouse_id, product_id, qty_delta, reason, source_type, source_id, memo, created_by)
+  select
+    v_user_id,
+    v_warehouse_id,
+    i.product_id,
+    i.make_qty,
+    'production',
+    'production_plan',
+    p_plan_id::text,
+    '제작 완료',
+    v_user_id
+  from public.production_plan_items i
+  where i.plan_id = p_plan_id
+    and i.make_qty > 0;
+
+  get diagnostics v_count = row_count;
+
+  update public.production_plans
+  set status = 'done', completed_at = now(), updated_at = now()
+  where id = p_plan_id;
+
+  return v_count;
+end;
+$$;
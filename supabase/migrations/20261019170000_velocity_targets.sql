@@ -0,0 +1,45 @@
+-- =========================================================
+-- 판매 속도 기반 목표 재고
+-- - profiles.target_mode: 'fixed'(기본 목표 고정) / 'velocity'(판매 속도 기반)
+-- - velocity: 최근 velocity_months개월 settlement_lines_v2 판매량의 월평균 × cover_months
+--   → target_min_qty / target_max_qty 로 clamp
+-- - store_product_states.target_qty_override: 입점처×제품 직접 지정 (항상 최우선)
+-- =========================================================
+
+alter table public.profiles
+  add column if not exists target_mode text not null default 'fixed',
+  add column if not exists velocity_months integer not null default 3,
+  add column if not exists cover_months numeric not null default 1,
+  add column if not exists target_min_qty integer,
+  add column if not exists target_max_qty integer;
+
+alter table public.profiles
+  add constraint profiles_target_mode_check
+  check (target_mode in ('fixed', 'velocity'));
+
+alter table public.profiles
+  add constraint profiles_velocity_months_check
+  check (velocity_months between 1 and 24);
+
+alter table public.profiles
+  add constraint profiles_cover_months_check
+  check (cover_months > 0);
+
+alter table public.profiles
+  add constraint profiles_target_clamp_check
+  check (
+    (target_min_qty is null or target_min_qty >= 0)
+    and (target_max_qty is null or target_max_qty >= 0)
+    and (target_min_qty is null or target_max_qty is null or target_min_qty <= target_max_qty)
+  );
+
+alter table public.store_product_states
+  add column if not exists target_qty_override integer;
+
+alter table public.store_product_states
+  add constraint store_product_states_target_qty_override_check
+  check (target_qty_override is null or target_qty_override >= 0);
+
+-- 판매 이력 집계용 (기간 조회)
+create index if not exists settlements_v2_user_period_idx
+  on public.settlements_v2 (user_id, period_month);
@@ -0,0 +1,35 @@
+-- =========================================================
+-- 정산 가져오기 프로필 (settlement_import_profiles)
+-- - 입점처별로 CSV 컬럼 매핑/구분자/헤더 위치/금액 의미/건너뛸 행을 이름 붙여 저장
+-- - is_default 프로필은 업로더에서 입점처를 고르면 자동 적용
+-- =========================================================
+
+create table if not exists public.settlement_import_profiles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  store_id text not null,
+  name text not null,
+  column_mapping jsonb not null default '{}'::jsonb, -- { barcode, sold_qty, amount } → CSV 헤더명
+  delimiter text, -- null = 자동 감지
+  header_row integer not null default 0 check (header_row >= 0), -- 헤더 앞에 건너뛸 줄 수
+  footer_rows integer not null default 0 check (footer_rows >= 0), -- 끝에서 버릴 줄 수 (합계 등)
+  skip_keywords text[] not null default '{}', -- 이 단어가 들어간 행은 건너뜀 (예: 합계, 소계)
+  amount_basis text not null default 'gross' check (amount_basis in ('gross', 'net')),
+  amount_kind text not null default 'line_total' check (amount_kind in ('line_total', 'unit_price')),
+  is_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, store_id, name)
+);
+
+-- 입점처당 기본 프로필은 하나
+create unique index if not exists settlement_import_profiles_default_idx
+  on public.settlement_import_profiles (user_id, store_id)
+  where is_default;
+
+alter table public.settlement_import_profiles enable row level security;
+
+create policy "settlement_import_profiles_all_own"
+  on public.settlement_import_profiles for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
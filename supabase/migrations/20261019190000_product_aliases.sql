@@ -0,0 +1,30 @@
+-- =========================================================
+-- 정산 제품 별칭 (product_aliases)
+-- - 정산 업로드에서 수동으로 고른 제품을 입점처별로 기억
+--   → 다음 달 파일의 같은 바코드/SKU/상품명은 자동 매칭
+-- - alias_key: 정규화한 값 (코드는 공백/하이픈 제거·대문자, 상품명은 기호/공백 제거·소문자)
+-- =========================================================
+
+create table if not exists public.product_aliases (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  store_id text not null,
+  kind text not null check (kind in ('barcode', 'sku', 'name')),
+  alias_key text not null,
+  alias_raw text not null, -- 파일에 적힌 원래 값 (표시용)
+  product_id text not null,
+  hit_count integer not null default 1 check (hit_count >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, store_id, kind, alias_key)
+);
+
+create index if not exists product_aliases_user_store_idx
+  on public.product_aliases (user_id, store_id);
+
+alter table public.product_aliases enable row level security;
+
+create policy "product_aliases_all_own"
+  on public.product_aliases for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
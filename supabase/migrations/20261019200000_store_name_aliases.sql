@@ -0,0 +1,8 @@
+-- =========================================================
+-- 입점처 이름 별칭 (stores.name_aliases)
+-- - 통합 정산서(여러 지점이 한 파일)의 "입점처" 컬럼 값이 앱의 입점처명과 다를 때
+--   (예: "더현대 서울" ↔ "현대백화점 여의도점") 별칭으로 매칭
+-- =========================================================
+
+alter table public.stores
+  add column if not exists name_aliases text[] not null default '{}';
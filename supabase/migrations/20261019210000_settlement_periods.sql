@@ -0,0 +1,81 @@
+-- =========================================================
+-- 정산 기간 (settlements_v2.period_start ~ period_end)
+-- - 주/격주/수시 정산 입점처도 한 달에 여러 건 저장할 수 있도록
+--   (user_id, marketplace_id, period_month) 대신 기간(양끝 포함)으로 구분
+-- - period_month는 시작일이 속한 월 (예전 조회/인덱스 호환)
+-- - 같은 입점처의 기간이 겹치면 저장 거부 (동일 기간은 upsert로 덮어씀)
+-- =========================================================
+
+create extension if not exists btree_gist;
+
+alter table public.settlements_v2
+  add column if not exists period_start date,
+  add column if not exists period_end date;
+
+-- 기존 월 정산: 1일 ~ 말일
+update public.settlements_v2
+set
+  period_start = to_date(period_month || '-01', 'YYYY-MM-DD'),
+  period_end = (to_date(period_month || '-01', 'YYYY-MM-DD') + interval '1 month' - interval '1 day')::date
+where period_start is null or period_end is null;
+
+alter table public.settlements_v2
+  alter column period_start set not null,
+  alter column period_end set not null;
+
+alter table public.settlements_v2
+  add constraint settlements_v2_period_range_check
+  check (period_start <= period_end);
+
+-- 예전 월 단위 유니크 제약: 자동 생성 이름에 기대지 않고 컬럼 구성으로 찾아서 삭제
+-- (제약 없이 unique index 로만 만든 경우도 같이)
+do $$
+declare
+  v_name text;
+begin
+  for v_name in
+    select i.indexrelid::regclass::text
+    from pg_index i
+    where i.indrelid = 'public.settlements_v2'::regclass
+      and i.indisunique
+      and not exists (select 1 from pg_constraint c where c.conindid = i.indexrelid)
+      and (
+        select array_agg(a.attname::text order by a.attname)
+        from unnest(i.indkey::int2[]) k
+        join pg_attribute a on a.attrelid = i.indrelid and a.attnum = k
+      ) = array['marketplace_id', 'period_month', 'user_id']
+  loop
+    execute format('drop index %s', v_name);
+  end loop;
+
+  for v_name in
+    select c.conname
+    from pg_constraint c
+    where c.conrelid = 'public.settlements_v2'::regclass
+      and c.contype = 'u'
+      and (
+        select array_agg(a.attname::text order by a.attname)
+        from unnest(c.conkey) k
+        join pg_attribute a on a.attrelid = c.conrelid and a.attnum = k
+      ) = array['marketplace_id', 'period_month', 'user_id']
+  loop
+    execute format('alter table public.settlements_v2 drop constraint %I', v_name);
+  end loop;
+end;
+$$;
+
+alter table public.settlements_v2
+  add constraint settlements_v2_user_marketplace_period_key
+  unique (user_id, marketplace_id, period_start, period_end);
+
+alter table public.settlements_v2
+  add constraint settlements_v2_period_no_overlap
+  exclude using gist (
+    user_id with =,
+    marketplace_id with =,
+    daterange(period_start, period_end, '[]') with &&
+  );
+
+-- 월별 집계용 (기간 겹침 조회)
+create index if not exists settlements_v2_user_period_range_idx
+  on public.settlements_v2 (user_id, period_start, period_end);
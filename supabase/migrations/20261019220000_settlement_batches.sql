@@ -0,0 +1,186 @@
+-- =========================================================
+-- 정산 업로드 배치 (settlement_batches_v2)
+-- - 같은 입점처/기간에 여러 번 올린 파일(월 중간 부분 정산서)을 배치로 따로 보관
+--   → 추가(merge) / 배치 교체 / 배치 삭제 후 헤더 합계는 남은 라인에서 다시 계산
+-- - 배치 삭제는 remove_settlement_batch RPC 한 번 (재고 되돌림 + 삭제 + 합계 재계산이 한 트랜잭션)
+-- - apply_to_inventory: 이 배치의 판매 수량을 재고에서 차감했는지 (삭제 시 복원 기준)
+-- =========================================================
+
+create table if not exists public.settlement_batches_v2 (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  settlement_id uuid not null references public.settlements_v2 (id) on delete cascade,
+  marketplace_id text not null,
+  source_filename text,
+  rows_count integer not null default 0,
+  qty_total integer not null default 0,
+  gross_amount numeric not null default 0,
+  apply_to_inventory boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists settlement_batches_v2_settlement_idx
+  on public.settlement_batches_v2 (user_id, settlement_id);
+
+alter table public.settlement_batches_v2 enable row level security;
+
+create policy "settlement_batches_v2_all_own"
+  on public.settlement_batches_v2 for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter table public.settlement_lines_v2
+  add column if not exists batch_id uuid references public.settlement_batches_v2 (id) on delete cascade;
+
+create index if not exists settlement_lines_v2_batch_idx
+  on public.settlement_lines_v2 (batch_id);
+
+-- 기존 정산: 정산 1건 = 배치 1개 (업로드 당시 파일명/재고 반영 여부 그대로)
+insert into public.settlement_batches_v2
+  (user_id, settlement_id, marketplace_id, source_filename, rows_count, qty_total, gross_amount, apply_to_inventory, created_at)
+select
+  s.user_id,
+  s.id,
+  s.marketplace_id::text,
+  s.source_filename,
+  coalesce(l.rows_count, 0),
+  coalesce(l.qty_total, 0),
+  coalesce(l.gross_amount, 0),
+  s.apply_to_inventory,
+  s.updated_at
+from public.settlements_v2 s
+left join (
+  select settlement_id, count(*) as rows_count, sum(qty_sold) as qty_total, sum(gross_amount) as gross_amount
+  from public.settlement_lines_v2
+  group by settlement_id
+) l on l.settlement_id = s.id
+where not exists (
+  select 1 from public.settlement_batches_v2 b where b.settlement_id = s.id
+);
+
+update public.settlement_lines_v2 l
+set batch_id = b.id
+from public.settlement_batches_v2 b
+where l.batch_id is null
+  and b.settlement_id = l.settlement_id;
+
+-- ---------------------------------------------------------
+-- 배치 삭제 (remove_settlement_batch)
+-- - (선택) 재고 되돌림 + 라인/배치 삭제 + 헤더 합계 재계산을 한 트랜잭션으로
+-- - 아래 helper 는 RPC 안에서만 사용 → 클라이언트 실행 권한 회수
+-- ---------------------------------------------------------
+
+-- 재고 되돌림: 배치(재고 반영분)의 판매 수량을 상품별로 다시 더함 (+)
+create or replace function public.reverse_settlement_inventory(
+  p_settlement_id uuid,
+  p_batch_ids uuid[],
+  p_memo text
+)
+returns void
+language sql
+set search_path = public
+as $$
+  insert into public.inventory_movements
+    (user_id, store_id, product_id, qty_delta, reason, source_type, source_id, memo, created_by)
+  select s.user_id, s.marketplace_id, l.product_id::text, sum(l.qty_sold)::integer, 'sale', 'settlement',
+    s.id::text, p_memo || ' 판매 수량 복원', s.user_id
+  from public.settlements_v2 s
+  join public.settlement_batches_v2 b on b.settlement_id = s.id
+  join public.settlement_lines_v2 l on l.batch_id = b.id
+  where s.id = p_settlement_id
+    and s.user_id = auth.uid()
+    and b.id = any(p_batch_ids)
+    and b.apply_to_inventory
+    and l.product_id is not null
+  group by s.user_id, s.marketplace_id, s.id, l.product_id::text
+  having sum(l.qty_sold) <> 0;
+$$;
+
+-- 헤더 합계: 남은 배치 라인 기준 (판매액/수수료/정산금/라인 수/재고 반영 여부/최근 파일명)
+create or replace function public.refresh_settlement_totals(p_settlement_id uuid)
+returns public.settlements_v2
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_result public.settlements_v2;
+begin
+  update public.settlements_v2 s
+  set
+    gross_amount = t.gross,
+    commission_amount = round(t.gross * s.commission_rate),
+    net_amount = t.gross - round(t.gross * s.commission_rate),
+    rows_count = t.rows_count,
+    apply_to_inventory = (
+      select coalesce(bool_or(apply_to_inventory), false)
+      from public.settlement_batches_v2
+      where settlement_id = p_settlement_id
+    ),
+    source_filename = (
+      select source_filename
+      from public.settlement_batches_v2
+      where settlement_id = p_settlement_id
+      order by created_at desc
+      limit 1
+    ),
+    updated_at = now()
+  from (
+    select coalesce(sum(gross_amount), 0) as gross, count(*) as rows_count
+    from public.settlement_lines_v2
+    where settlement_id = p_settlement_id
+  ) t
+  where s.id = p_settlement_id
+    and s.user_id = auth.uid()
+  returning s.* into v_result;
+
+  return v_result;
+end;
+$$;
+
+revoke execute on function public.reverse_settlement_inventory(uuid, uuid[], text) from public, anon, authenticated;
+revoke execute on function public.refresh_settlement_totals(uuid) from public, anon, authenticated;
+
+-- 배치 1개 삭제 (마지막 배치면 정산도 삭제하고 null 반환)
+create or replace function public.remove_settlement_batch(
+  p_batch_id uuid,
+  p_restore_inventory boolean default true
+)
+returns public.settlements_v2
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_settlement_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select settlement_id into v_settlement_id
+  from public.settlement_batches_v2
+  where user_id = v_user_id and id = p_batch_id;
+
+  if v_settlement_id is null then
+    raise exception 'batch_not_found';
+  end if;
+
+  perform 1 from public.settlements_v2 where id = v_settlement_id for update;
+
+  if p_restore_inventory then
+    perform public.reverse_settlement_inventory(v_settlement_id, array[p_batch_id], '정산 배치 삭제로');
+  end if;
+
+  delete from public.settlement_lines_v2 where user_id = v_user_id and batch_id = p_batch_id;
+  delete from public.settlement_batches_v2 where user_id = v_user_id and id = p_batch_id;
+
+  if not exists (select 1 from public.settlement_batches_v2 where settlement_id = v_settlement_id) then
+    delete from public.settlement_lines_v2 where user_id = v_user_id and settlement_id = v_settlement_id;
+    delete from public.settlements_v2 where user_id = v_user_id and id = v_settlement_id;
+    return null;
+  end if;
+
+  return public.refresh_settlement_totals(v_settlement_id);
+end;
+$$;
@@ -0,0 +1,291 @@
+-- =========================================================
+-- 정산 적용/삭제 RPC (apply_settlement / delete_settlement)
+-- - 헤더 upsert + 배치 교체/추가 + 라인 저장 + 재고 원장(판매 델타) + 합계 재계산을 한 트랜잭션으로
+--   (중간에 끊겨도 라인 없는 정산 / 반쯤 반영된 재고가 남지 않음)
+-- - p_upload_mode: 'replace_batch'(같은 파일명 배치 교체) / 'merge'(새 배치 추가) / 'replace_all'(배치 전체 교체)
+-- - p_lines: [{ "product_id", "product_name_raw", "product_name_matched", "sku_raw",
+--              "qty_sold", "unit_price", "gross_amount", "match_status" }]
+-- - 재고 델타 = 이번 배치 수량(재고 반영 시) - 교체되는 배치 중 재고 반영분 수량
+-- - 공용 조각(아래 helper)은 RPC 안에서만 사용 → 클라이언트 실행 권한 회수
+-- - 헤더 합계는 refresh_settlement_totals (배치 삭제와 같은 계산)
+-- =========================================================
+
+-- ---------------------------------------------------------
+-- 정산 기간 표기: 월 정산이면 "2026.09", 아니면 "2026.09.01 ~ 2026.09.15"
+-- ---------------------------------------------------------
+create or replace function public.settlement_period_label(p_start date, p_end date)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when to_char(p_start, 'DD') = '01'
+      and p_end = (date_trunc('month', p_start) + interval '1 month - 1 day')::date
+      then to_char(p_start, 'YYYY.MM')
+    else to_char(p_start, 'YYYY.MM.DD') || ' ~ ' || to_char(p_end, 'YYYY.MM.DD')
+  end;
+$$;
+
+-- ---------------------------------------------------------
+-- 재고 원장: 새 라인 수량은 차감(−), 빠지는 배치(재고 반영분) 수량은 되돌림(+)
+-- - 상품별로 상계해서 1건씩 (교체 전후 수량이 같으면 기록 없음)
+-- - p_new_lines: 재고에 반영하지 않으면 '[]'
+-- ---------------------------------------------------------
+create or replace function public.post_settlement_inventory(
+  p_settlement_id uuid,
+  p_old_batch_ids uuid[],
+  p_new_lines jsonb,
+  p_memo text
+)
+returns void
+language sql
+set search_path = public
+as $$
+  insert into public.inventory_movements
+    (user_id, store_id, product_id, qty_delta, reason, source_type, source_id, memo, created_by)
+  select s.user_id, s.marketplace_id, d.product_id, (d.old_qty - d.new_qty)::integer, 'sale', 'settlement',
+    s.id::text, p_memo, s.user_id
+  from public.settlements_v2 s
+  cross join lateral (
+    select product_id, sum(old_qty) as old_qty, sum(new_qty) as new_qty
+    from (
+      select l.product_id::text as product_id, l.qty_sold as old_qty, 0 as new_qty
+      from public.settlement_lines_v2 l
+      join public.settlement_batches_v2 b on b.id = l.batch_id
+      where b.settlement_id = s.id
+        and b.id = any(p_old_batch_ids)
+        and b.apply_to_inventory
+        and l.product_id is not null
+
+      union all
+
+      select nullif(x->>'product_id', ''), 0, coalesce((x->>'qty_sold')::integer, 0)
+      from jsonb_array_elements(p_new_lines) x
+      where nullif(x->>'product_id', '') is not null
+    ) t
+    group by product_id
+  ) d
+  where s.id = p_settlement_id
+    and s.user_id = auth.uid()
+    and d.old_qty <> d.new_qty;
+$$;
+
+-- ---------------------------------------------------------
+-- 배치 라인 저장 + 배치 합계
+-- ---------------------------------------------------------
+create or replace function public.insert_settlement_lines(p_batch_id uuid, p_lines jsonb)
+returns void
+language sql
+set search_path = public
+as $$
+  insert into public.settlement_lines_v2
+    (settlement_id, batch_id, user_id, marketplace_id, product_id, product_name_raw, product_name_matched,
+     sku_raw, qty_sold, unit_price, gross_amount, match_status)
+  select
+    b.settlement_id,
+    b.id,
+    b.user_id,
+    b.marketplace_id,
+    nullif(x->>'product_id', ''),
+    coalesce(nullif(x->>'product_name_raw', ''), '(unknown)'),
+    nullif(x->>'product_name_matched', ''),
+    nullif(x->>'sku_raw', ''),
+    coalesce((x->>'qty_sold')::integer, 0),
+    nullif(x->>'unit_price', '')::numeric,
+    coalesce((x->>'gross_amount')::numeric, 0),
+    coalesce(nullif(x->>'match_status', ''), 'matched')
+  from public.settlement_batches_v2 b
+  cross join jsonb_array_elements(p_lines) x
+  where b.id = p_batch_id
+    and b.user_id = auth.uid();
+
+  update public.settlement_batches_v2 b
+  set
+    rows_count = t.rows_count,
+    qty_total = t.qty_total,
+    gross_amount = t.gross_amount
+  from (
+    select count(*) as rows_count, coalesce(sum(qty_sold), 0) as qty_total, coalesce(sum(gross_amount), 0) as gross_amount
+    from public.settlement_lines_v2
+    where batch_id = p_batch_id
+  ) t
+  where b.id = p_batch_id
+    and b.user_id = auth.uid();
+$$;
+
+revoke execute on function public.post_settlement_inventory(uuid, uuid[], jsonb, text) from public, anon, authenticated;
+revoke execute on function public.insert_settlement_lines(uuid, jsonb) from public, anon, authenticated;
+
+-- ---------------------------------------------------------
+-- 정산 적용
+-- ---------------------------------------------------------
+create or replace function public.apply_settlement(
+  p_marketplace_id text,
+  p_period_start date,
+  p_period_end date,
+  p_commission_rate numeric,
+  p_lines jsonb,
+  p_source_filename text default null,
+  p_upload_mode text default 'replace_batch',
+  p_apply_to_inventory boolean default false,
+  p_currency text default 'KRW'
+)
+returns public.settlements_v2
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_settlement_id uuid;
+  v_existed boolean;
+  v_replaced uuid[];
+  v_batch_id uuid;
+  v_memo text;
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  if not exists (select 1 from public.stores where user_id = v_user_id and id = p_marketplace_id) then
+    raise exception 'store_not_found';
+  end if;
+
+  if p_period_start is null or p_period_end is null or p_period_start > p_period_end then
+    raise exception 'invalid_period';
+  end if;
+
+  if p_upload_mode not in ('replace_batch', 'merge', 'replace_all') then
+    raise exception 'invalid_upload_mode';
+  end if;
+
+  if jsonb_typeof(p_lines) <> 'array' or jsonb_array_length(p_lines) = 0 then
+    raise exception 'empty_lines';
+  end if;
+
+  -- 같은 입점처의 다른 기간과 겹치면 거부 (동일 기간은 아래 upsert 대상)
+  if exists (
+    select 1
+    from public.settlements_v2
+    where user_id = v_user_id
+      and marketplace_id = p_marketplace_id
+      and period_start <= p_period_end
+      and period_end >= p_period_start
+      and not (period_start = p_period_start and period_end = p_period_end)
+  ) then
+    raise exception 'period_overlap';
+  end if;
+
+  select id into v_settlement_id
+  from public.settlements_v2
+  where user_id = v_user_id
+    and marketplace_id = p_marketplace_id
+    and period_start = p_period_start
+    and period_end = p_period_end
+  for update;
+
+  v_existed := v_settlement_id is not null;
+
+  -- 1) 헤더 (합계는 마지막에 라인 기준으로 다시 계산)
+  if v_existed then
+    update public.settlements_v2
+    set
+      commission_rate = p_commission_rate,
+      currency = coalesce(p_currency, 'KRW'),
+      status = 'confirmed',
+      updated_at = now()
+    where id = v_settlement_id;
+  else
+    insert into public.settlements_v2
+      (user_id, marketplace_id, period_month, period_start, period_end, currency,
+       gross_amount, commission_rate, commission_amount, net_amount, rows_count,
+       status, apply_to_inventory, source_filename)
+    values
+      (v_user_id, p_marketplace_id, to_char(p_period_start, 'YYYY-MM'), p_period_start, p_period_end,
+       coalesce(p_currency, 'KRW'), 0, p_commission_rate, 0, 0, 0,
+       'confirmed', p_apply_to_inventory, p_source_filename)
+    returning id into v_settlement_id;
+  end if;
+
+  -- 2) 교체할 배치
+  select coalesce(array_agg(id), '{}') into v_replaced
+  from public.settlement_batches_v2
+  where user_id = v_user_id
+    and settlement_id = v_settlement_id
+    and (
+      p_upload_mode = 'replace_all'
+      or (p_upload_mode = 'replace_batch' and coalesce(source_filename, '') = coalesce(p_source_filename, ''))
+    );
+
+  v_memo := public.settlement_period_label(p_period_start, p_period_end) || ' 정산' || case
+    when cardinality(v_replaced) > 0 then ' (배치 교체)'
+    when v_existed then ' (추가 업로드)'
+    else ''
+  end;
+
+  -- 3) 재고 원장: 판매 증가분은 차감(−), 교체로 줄어든 수량은 되돌림(+)
+  perform public.post_settlement_inventory(
+    v_settlement_id,
+    v_replaced,
+    case when p_apply_to_inventory then p_lines else '[]'::jsonb end,
+    v_memo
+  );
+
+  -- 4) 배치 교체/추가 + 라인
+  delete from public.settlement_lines_v2 where user_id = v_user_id and batch_id = any(v_replaced);
+  delete from public.settlement_batches_v2 where user_id = v_user_id and id = any(v_replaced);
+
+  insert into public.settlement_batches_v2
+    (user_id, settlement_id, marketplace_id, source_filename, apply_to_inventory)
+  values
+    (v_user_id, v_settlement_id, p_marketplace_id, p_source_filename, p_apply_to_inventory)
+  returning id into v_batch_id;
+
+  perform public.insert_settlement_lines(v_batch_id, p_lines);
+
+  -- 5) 헤더 합계: 남은 배치 라인 기준
+  return public.refresh_settlement_totals(v_settlement_id);
+end;
+$$;
+
+-- ---------------------------------------------------------
+-- 정산 삭제: (선택) 재고 되돌림 + 라인/배치/헤더 삭제
+-- ---------------------------------------------------------
+create or replace function public.delete_settlement(
+  p_settlement_id uuid,
+  p_restore_inventory boolean default true
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  perform 1
+  from public.settlements_v2
+  where user_id = v_user_id and id = p_settlement_id
+  for update;
+
+  if not found then
+    raise exception 'settlement_not_found';
+  end if;
+
+  if p_restore_inventory then
+    perform public.reverse_settlement_inventory(
+      p_settlement_id,
+      array(select id from public.settlement_batches_v2 where settlement_id = p_settlement_id),
+      '정산 삭제로'
+    );
+  end if;
+
+  delete from public.settlement_lines_v2 where user_id = v_user_id and settlement_id = p_settlement_id;
+  delete from public.settlement_batches_v2 where user_id = v_user_id and settlement_id = p_settlement_id;
+  delete from public.settlements_v2 where user_id = v_user_id and id = p_settlement_id;
+end;
+$$;
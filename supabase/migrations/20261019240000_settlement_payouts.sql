@@ -0,0 +1,72 @@
+-- =========================================================
+-- 정산 입금(지급) 추적 (settlement_payments)
+-- - 입점처가 정산금을 실제로 보냈는지: 입금 기록(부분 입금 여러 건 가능)
+-- - settlements_v2.paid_amount / last_paid_on: 입금 기록 합계를 트리거로 누적한 캐시
+-- - settlements_v2.payout_due_date: 입금 예정일 직접 지정 (null = 입점처 정산 주기/정산일로 계산)
+-- =========================================================
+
+alter table public.settlements_v2
+  add column if not exists payout_due_date date,
+  add column if not exists paid_amount numeric not null default 0,
+  add column if not exists last_paid_on date;
+
+create table if not exists public.settlement_payments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  settlement_id uuid not null references public.settlements_v2 (id) on delete cascade,
+  marketplace_id text not null,
+  amount numeric not null check (amount <> 0), -- 환급/정정은 음수
+  paid_on date not null,
+  memo text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists settlement_payments_settlement_idx
+  on public.settlement_payments (user_id, settlement_id);
+
+alter table public.settlement_payments enable row level security;
+
+create policy "settlement_payments_all_own"
+  on public.settlement_payments for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- 입금 기록 변경 → 정산 헤더의 입금 합계/최근 입금일 갱신
+-- (다른 정산으로 옮긴 경우 이전 정산도 다시 계산)
+create or replace function public.sync_settlement_paid_amount()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settlement_id uuid;
+begin
+  for v_settlement_id in
+    select distinct x
+    from unnest(array[
+      case when tg_op <> 'INSERT' then old.settlement_id end,
+      case when tg_op <> 'DELETE' then new.settlement_id end
+    ]) x
+    where x is not null
+  loop
+    update public.settlements_v2 s
+    set
+      paid_amount = t.paid,
+      last_paid_on = t.last_paid_on
+    from (
+      select coalesce(sum(amount), 0) as paid, max(paid_on) as last_paid_on
+      from public.settlement_payments
+      where settlement_id = v_settlement_id
+    ) t
+    where s.id = v_settlement_id;
+  end loop;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists settlement_payments_sync on public.settlement_payments;
+create trigger settlement_payments_sync
+  after insert or update or delete on public.settlement_payments
+  for each row execute function public.sync_settlement_paid_amount();
@@ -0,0 +1,90 @@
+-- =========================================================
+-- 은행 입금 내역 대사 (bank_deposits)
+-- - 통장 거래내역 CSV(거래일/입금자/입금액)를 올려 두고 미입금 정산과 연결
+-- - 연결 = settlement_payments 행(bank_deposit_id) → 정산 입금 합계는 기존 트리거가 갱신
+-- - dedupe_key: 같은 파일을 다시 올려도 중복 저장 안 되게 (거래일|입금자|금액|같은 값 순번)
+-- - stores.depositor_names: 통장에 찍히는 입점처 입금자명 (예: "(주)현대백화점", "무신사")
+-- - 한 입금에 연결된 정산 입금 합계는 입금액을 넘을 수 없음 (트리거가 입금 행을 잠그고 검사)
+-- - 정산 삭제(delete_settlement / 마지막 배치 삭제) → 연결 행도 settlement_payments FK cascade 로 삭제
+--   → 입금은 다시 미연결(남은 금액 복구)로 대사 목록에 나타남
+-- - 입금 내역 삭제 → 그 입금으로 만든 정산 입금 기록도 삭제 (bank_deposit_id on delete cascade)
+-- =========================================================
+
+alter table public.stores
+  add column if not exists depositor_names text[] not null default '{}';
+
+create table if not exists public.bank_deposits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  deposited_on date not null,
+  depositor text not null default '',
+  amount numeric not null check (amount > 0),
+  memo text,
+  source_filename text,
+  dedupe_key text not null,
+  ignored boolean not null default false, -- 정산과 무관한 입금 (대사 목록에서 숨김)
+  created_at timestamptz not null default now(),
+  unique (user_id, dedupe_key)
+);
+
+create index if not exists bank_deposits_user_date_idx
+  on public.bank_deposits (user_id, deposited_on desc);
+
+alter table public.bank_deposits enable row level security;
+
+create policy "bank_deposits_all_own"
+  on public.bank_deposits for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter table public.settlement_payments
+  add column if not exists bank_deposit_id uuid references public.bank_deposits (id) on delete cascade;
+
+create index if not exists settlement_payments_bank_deposit_idx
+  on public.settlement_payments (bank_deposit_id);
+
+-- 입금 연결 검사: 입금 행을 잠근 뒤 다른 연결 합계 + 이번 금액 <= 입금액
+-- (오래된 화면/여러 탭에서 동시에 연결해도 초과 연결 X)
+create or replace function public.check_bank_deposit_link()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_deposit_amount numeric;
+  v_linked numeric;
+begin
+  if new.amount <= 0 then
+    raise exception 'deposit_link_amount_invalid';
+  end if;
+
+  select amount into v_deposit_amount
+  from public.bank_deposits
+  where id = new.bank_deposit_id
+    and user_id = new.user_id
+  for update;
+
+  if not found then
+    raise exception 'deposit_not_found';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_linked
+  from public.settlement_payments
+  where bank_deposit_id = new.bank_deposit_id
+    and id <> new.id;
+
+  if v_linked + new.amount > v_deposit_amount then
+    raise exception 'deposit_over_linked';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists settlement_payments_check_deposit on public.settlement_payments;
+create trigger settlement_payments_check_deposit
+  before insert or update of amount, bank_deposit_id on public.settlement_payments
+  for each row
+  when (new.bank_deposit_id is not null)
+  execute function public.check_bank_deposit_link();
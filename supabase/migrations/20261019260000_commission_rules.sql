@@ -0,0 +1,326 @@
+-- =========================================================
+-- 입점처별 수수료 규칙 (commission_rule_sets)
+-- - rules jsonb:
+--   { "category_rates": [{ "category": "가방", "rate": 30 }],        -- 카테고리 요율(%)
+--     "product_rates":  [{ "product_id": "...", "rate": 20 }],       -- 상품 요율(%) (카테고리보다 우선)
+--     "tiers":          [{ "min_gross": 3000000, "rate": 22 }],      -- 기간 매출이 min_gross 이상이면 기본 요율 대신(%)
+--     "item_fee": 500,                                               -- 판매 1개당 고정 수수료(원)
+--     "apply_store_fee": true }                                      -- 월 입점료(stores.store_fee)를 기간 일수 비율로 차감
+-- - 라인 수수료 = 매출 × (상품 > 카테고리 > 구간 > 기본 요율) + 수량 × 개당 수수료
+-- - 헤더 수수료 = 라인 수수료 합 + 입점료 → commission_breakdown 에 내역 저장
+-- - 규칙이 없으면 기본 요율(settlements_v2.commission_rate)만 → 예전 계산과 같음
+-- =========================================================
+
+create table if not exists public.commission_rule_sets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  store_id text not null,
+  rules jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now(),
+  unique (user_id, store_id)
+);
+
+alter table public.commission_rule_sets enable row level security;
+
+create policy "commission_rule_sets_all_own"
+  on public.commission_rule_sets for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter table public.settlement_lines_v2
+  add column if not exists commission_amount numeric not null default 0,
+  add column if not exists commission_rule text;
+
+alter table public.settlements_v2
+  add column if not exists commission_breakdown jsonb;
+
+-- 기존 라인: 헤더 기본 요율로 채움 (헤더 합계는 그대로)
+update public.settlement_lines_v2 l
+set
+  commission_amount = l.gross_amount * s.commission_rate,
+  commission_rule = 'base'
+from public.settlements_v2 s
+where s.id = l.settlement_id
+  and l.commission_rule is null;
+
+-- ---------------------------------------------------------
+-- 수수료 평가 조각 (evaluate_settlement_commission 에서만 사용)
+-- - 이후 마이그레이션은 바뀌는 조각만 교체 (계약 조건 → settlement_terms, 라인 유형 → settlement_commission_lines)
+-- ---------------------------------------------------------
+
+-- 입점처 수수료 규칙 (없으면 {})
+create or replace function public.commission_rules_for(p_store_id text)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce((
+    select rules
+    from public.commission_rule_sets
+    where user_id = auth.uid() and store_id = p_store_id
+  ), '{}'::jsonb);
+$$;
+
+-- 정산에 적용할 기본 요율 / 월 입점료 (terms_from: 적용한 조건의 시작일)
+create or replace function public.settlement_terms(
+  p_header public.settlements_v2,
+  out base_rate numeric,
+  out monthly_store_fee numeric,
+  out terms_from date
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    p_header.commission_rate,
+    coalesce((
+      select store_fee
+      from public.stores
+      where user_id = auth.uid() and id = p_header.marketplace_id
+    ), 0),
+    null::date;
+$$;
+
+-- 수수료 대상 라인 (판매액/구간/내역 집계 기준)
+create or replace function public.settlement_commission_lines(p_settlement_id uuid)
+returns setof public.settlement_lines_v2
+language sql
+stable
+set search_path = public
+as $$
+  select *
+  from public.settlement_lines_v2
+  where user_id = auth.uid() and settlement_id = p_settlement_id;
+$$;
+
+-- 구간 요율: 기간 매출 이상인 구간 중 가장 높은 구간 (없으면 null)
+create or replace function public.commission_tier(p_rules jsonb, p_gross numeric)
+returns jsonb
+language sql
+immutable
+as $$
+  select t
+  from jsonb_array_elements(coalesce(p_rules->'tiers', '[]'::jsonb)) t
+  where (t->>'min_gross')::numeric <= p_gross
+  order by (t->>'min_gross')::numeric desc
+  limit 1;
+$$;
+
+-- 라인 수수료 = 매출 × (상품 > 카테고리 > p_rate(구간/기본)) + 수량 × 개당 수수료
+-- (수수료 대상이 아닌 라인은 0)
+create or replace function public.apply_line_commissions(
+  p_settlement_id uuid,
+  p_rules jsonb,
+  p_rate numeric,
+  p_tier jsonb
+)
+returns void
+language sql
+set search_path = public
+as $$
+  update public.settlement_lines_v2
+  set commission_rule = null, commission_amount = 0
+  where user_id = auth.uid()
+    and settlement_id = p_settlement_id
+    and id not in (select id from public.settlement_commission_lines(p_settlement_id));
+
+  update public.settlement_lines_v2 l
+  set
+    commission_rule = r.rule,
+    commission_amount = l.gross_amount * r.rate + l.qty_sold * coalesce((p_rules->>'item_fee')::numeric, 0)
+  from (
+    select
+      x.id,
+      case
+        when pr.rate is not null then pr.rate / 100
+        when cr.rate is not null then cr.rate / 100
+        else p_rate
+      end as rate,
+      case
+        when pr.rate is not null then 'product'
+        when cr.rate is not null then 'category:' || cr.category
+        when p_tier is not null then 'tier'
+        else 'base'
+      end as rule
+    from public.settlement_commission_lines(p_settlement_id) x
+    left join public.products p on p.user_id = x.user_id and p.id::text = x.product_id::text
+    left join lateral (
+      select (e->>'rate')::numeric as rate
+      from jsonb_array_elements(coalesce(p_rules->'product_rates', '[]'::jsonb)) e
+      where e->>'product_id' = x.product_id::text
+      limit 1
+    ) pr on true
+    left join lateral (
+      select e->>'category' as category, (e->>'rate')::numeric as rate
+      from jsonb_array_elements(coalesce(p_rules->'category_rates', '[]'::jsonb)) e
+      where e->>'category' = p.category
+      limit 1
+    ) cr on true
+  ) r
+  where l.id = r.id;
+$$;
+
+-- 월 입점료: 기간이 걸친 달마다 (겹친 일수 / 그 달 일수)
+create or replace function public.prorated_store_fee(p_monthly_fee numeric, p_start date, p_end date)
+returns numeric
+language sql
+immutable
+as $$
+  select coalesce(sum(
+    coalesce(p_monthly_fee, 0)
+    * (least(p_end, (m + interval '1 month - 1 day')::date) - greatest(p_start, m::date) + 1)::numeric
+    / extract(day from (m + interval '1 month - 1 day'))::numeric
+  ), 0)
+  from generate_series(
+    date_trunc('month', p_start::timestamp),
+    date_trunc('month', p_end::timestamp),
+    interval '1 month'
+  ) m;
+$$;
+
+-- 규칙별 내역 (commission_breakdown.by_rule)
+create or replace function public.commission_by_rule(p_settlement_id uuid)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(jsonb_build_object(
+      'rule', g.rule, 'gross', g.gross, 'qty', g.qty, 'amount', round(g.amount)
+    ) order by g.gross desc), '[]'::jsonb)
+  from (
+    select coalesce(commission_rule, 'base') as rule, sum(gross_amount) as gross, sum(qty_sold) as qty,
+      sum(commission_amount) as amount
+    from public.settlement_commission_lines(p_settlement_id)
+    group by coalesce(commission_rule, 'base')
+  ) g;
+$$;
+
+revoke execute on function public.commission_rules_for(text) from public, anon, authenticated;
+revoke execute on function public.settlement_terms(public.settlements_v2) from public, anon, authenticated;
+revoke execute on function public.settlement_commission_lines(uuid) from public, anon, authenticated;
+revoke execute on function public.apply_line_commissions(uuid, jsonb, numeric, jsonb) from public, anon, authenticated;
+revoke execute on function public.commission_by_rule(uuid) from public, anon, authenticated;
+
+-- ---------------------------------------------------------
+-- 정산 1건 수수료 재계산 (라인 + 헤더 + 내역)
+-- - apply_settlement / remove_settlement_batch 도 합계를 이 함수로 계산 (refresh_settlement_totals)
+-- ---------------------------------------------------------
+create or replace function public.evaluate_settlement_commission(p_settlement_id uuid)
+returns public.settlements_v2
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_header public.settlements_v2;
+  v_terms record;
+  v_rules jsonb;
+  v_gross numeric;
+  v_tier jsonb;
+  v_item_fee numeric;
+  v_store_fee numeric := 0;
+  v_qty numeric;
+  v_line_commission numeric;
+  v_result public.settlements_v2;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_header
+  from public.settlements_v2
+  where user_id = auth.uid() and id = p_settlement_id;
+
+  if not found then
+    raise exception 'settlement_not_found';
+  end if;
+
+  select * into v_terms from public.settlement_terms(v_header);
+  v_rules := public.commission_rules_for(v_header.marketplace_id);
+
+  select coalesce(sum(gross_amount), 0) into v_gross
+  from public.settlement_commission_lines(p_settlement_id);
+
+  v_tier := public.commission_tier(v_rules, v_gross);
+  v_item_fee := coalesce((v_rules->>'item_fee')::numeric, 0);
+
+  -- 1) 라인 수수료
+  perform public.apply_line_commissions(
+    p_settlement_id,
+    v_rules,
+    case when v_tier is not null then (v_tier->>'rate')::numeric / 100 else v_terms.base_rate end,
+    v_tier
+  );
+
+  -- 2) 월 입점료
+  if coalesce((v_rules->>'apply_store_fee')::boolean, false) then
+    v_store_fee := public.prorated_store_fee(v_terms.monthly_store_fee, v_header.period_start, v_header.period_end);
+  end if;
+
+  -- 3) 헤더 합계 + 내역
+  select coalesce(sum(qty_sold), 0), coalesce(sum(commission_amount), 0)
+  into v_qty, v_line_commission
+  from public.settlement_commission_lines(p_settlement_id);
+
+  update public.settlements_v2
+  set
+    commission_rate = v_terms.base_rate,
+    gross_amount = v_gross,
+    commission_amount = round(v_line_commission + v_store_fee),
+    net_amount = v_gross - round(v_line_commission + v_store_fee),
+    commission_breakdown = jsonb_build_object(
+      'base_rate', v_terms.base_rate,
+      'terms_from', v_terms.terms_from,
+      'tier', v_tier,
+      'rate_commission', round(v_line_commission - v_qty * v_item_fee),
+      'item_fee', v_item_fee,
+      'item_fees', round(v_qty * v_item_fee),
+      'store_fee', round(v_store_fee),
+      'by_rule', public.commission_by_rule(p_settlement_id)
+    ),
+    updated_at = now()
+  where id = p_settlement_id
+  returning * into v_result;
+
+  return v_result;
+end;
+$$;
+
+-- ---------------------------------------------------------
+-- 헤더 합계 재계산: 판매액/수수료/정산금은 수수료 평가로 넘김
+-- ---------------------------------------------------------
+create or replace function public.refresh_settlement_totals(p_settlement_id uuid)
+returns public.settlements_v2
+language plpgsql
+set search_path = public
+as $$
+begin
+  update public.settlements_v2 s
+  set
+    rows_count = (
+      select count(*)
+      from public.settlement_lines_v2
+      where settlement_id = p_settlement_id
+    ),
+    apply_to_inventory = (
+      select coalesce(bool_or(apply_to_inventory), false)
+      from public.settlement_batches_v2
+      where settlement_id = p_settlement_id
+    ),
+    source_filename = (
+      select source_filename
+      from public.settlement_batches_v2
+      where settlement_id = p_settlement_id
+      order by created_at desc
+      limit 1
+    ),
+    updated_at = now()
+  where s.id = p_settlement_id
+    and s.user_id = auth.uid();
+
+  return public.evaluate_settlement_commission(p_settlement_id);
+end;
+$$;
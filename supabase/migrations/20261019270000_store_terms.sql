@@ -0,0 +1,178 @@
+-- =========================================================
+-- 입점처 계약 조건 이력 (store_terms)
+-- - 수수료율(%) / 입점료 / 정산 주기 / 정산일을 적용 시작일(effective_from)별로 보관
+-- - 정산 기간에 적용되는 조건 = 기간 시작일 이전(당일 포함) 중 가장 늦은 조건
+--   (가장 이른 조건보다 앞선 기간이면 가장 이른 조건)
+-- - stores 의 조건 컬럼은 "오늘 기준 조건" 사본
+--   · 입점처 수정에서 조건을 바꾸면 오늘부터 적용되는 이력이 추가됨 (과거 정산은 그대로)
+--   · 이력을 추가/수정/삭제하면 stores 컬럼을 오늘 기준 조건으로 맞춤
+-- - 정산 수수료 평가(settlement_terms): 기본 요율/입점료를 정산 기간의 조건으로
+-- - 마켓 설정(marketplace_settings) 요율은 첫 이력으로 이관 → 이후 요율은 조건 이력만 사용
+-- =========================================================
+
+create table if not exists public.store_terms (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  store_id text not null,
+  effective_from date not null,
+  commission_rate numeric,
+  store_fee numeric,
+  settlement_cycle text check (settlement_cycle in ('monthly', 'weekly', 'biweekly', 'ad-hoc')),
+  settlement_day integer check (settlement_day between 1 and 31),
+  memo text,
+  created_at timestamptz not null default now(),
+  unique (user_id, store_id, effective_from)
+);
+
+alter table public.store_terms enable row level security;
+
+create policy "store_terms_all_own"
+  on public.store_terms for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- 기존 입점처: 지금 조건을 등록일부터 적용되는 첫 이력으로
+-- - 요율은 마켓 설정(marketplace_settings, 0.25 형태)이 있으면 그 값 (예전 정산에서 입점처 수수료보다 우선 적용되던 값)
+insert into public.store_terms
+  (user_id, store_id, effective_from, commission_rate, store_fee, settlement_cycle, settlement_day)
+select
+  s.user_id, s.id, s.created_at::date,
+  coalesce(nullif(ms.commission_rate, 0) * 100, s.commission_rate),
+  s.store_fee,
+  case when s.settlement_cycle in ('monthly', 'weekly', 'biweekly', 'ad-hoc') then s.settlement_cycle end,
+  case when s.settlement_day between 1 and 31 then s.settlement_day end
+from public.stores s
+left join public.marketplace_settings ms
+  on ms.user_id = s.user_id and ms.marketplace_id::text = s.id::text
+on conflict (user_id, store_id, effective_from) do nothing;
+
+-- stores 사본도 이관한 요율로 (아래 트리거 생성 전이라 이력은 추가되지 않음)
+update public.stores s
+set commission_rate = ms.commission_rate * 100
+from public.marketplace_settings ms
+where ms.user_id = s.user_id
+  and ms.marketplace_id::text = s.id::text
+  and coalesce(ms.commission_rate, 0) <> 0
+  and s.commission_rate is distinct from ms.commission_rate * 100;
+
+-- ---------------------------------------------------------
+-- 특정 날짜에 적용되는 조건 (없으면 null)
+-- ---------------------------------------------------------
+create or replace function public.store_terms_at(p_store_id text, p_on date)
+returns public.store_terms
+language sql
+stable
+set search_path = public
+as $$
+  select t.*
+  from public.store_terms t
+  where t.user_id = auth.uid()
+    and t.store_id = p_store_id
+  order by (t.effective_from <= p_on) desc,
+    case when t.effective_from <= p_on then t.effective_from end desc,
+    t.effective_from asc
+  limit 1;
+$$;
+
+-- 입점처 조건 수정 → 오늘부터 적용되는 이력 추가 (오늘 기준 조건과 같으면 그대로)
+create or replace function public.record_store_terms()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_today date := (now() at time zone 'Asia/Seoul')::date;
+  v_current public.store_terms;
+begin
+  v_current := public.store_terms_at(new.id, v_today);
+
+  if v_current.id is not null
+    and v_current.commission_rate is not distinct from new.commission_rate
+    and v_current.store_fee is not distinct from new.store_fee
+    and v_current.settlement_cycle is not distinct from new.settlement_cycle
+    and v_current.settlement_day is not distinct from new.settlement_day then
+    return new;
+  end if;
+
+  insert into public.store_terms
+    (user_id, store_id, effective_from, commission_rate, store_fee, settlement_cycle, settlement_day)
+  values
+    (new.user_id, new.id, v_today, new.commission_rate, new.store_fee, new.settlement_cycle, new.settlement_day)
+  on conflict (user_id, store_id, effective_from) do update
+  set
+    commission_rate = excluded.commission_rate,
+    store_fee = excluded.store_fee,
+    settlement_cycle = excluded.settlement_cycle,
+    settlement_day = excluded.settlement_day;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists stores_record_terms on public.stores;
+create trigger stores_record_terms
+  after insert or update of commission_rate, store_fee, settlement_cycle, settlement_day on public.stores
+  for each row execute function public.record_store_terms();
+
+-- 이력 변경 → stores 조건 컬럼을 오늘 기준 조건으로
+create or replace function public.sync_store_current_terms()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_store_id text := coalesce(new.store_id, old.store_id);
+  v_current public.store_terms;
+begin
+  v_current := public.store_terms_at(v_store_id, (now() at time zone 'Asia/Seoul')::date);
+  if v_current.id is null then
+    return null;
+  end if;
+
+  update public.stores s
+  set
+    commission_rate = v_current.commission_rate,
+    store_fee = v_current.store_fee,
+    settlement_cycle = v_current.settlement_cycle,
+    settlement_day = v_current.settlement_day
+  where s.user_id = auth.uid()
+    and s.id = v_store_id
+    and (s.commission_rate, s.store_fee, s.settlement_cycle, s.settlement_day)
+      is distinct from (v_current.commission_rate, v_current.store_fee, v_current.settlement_cycle, v_current.settlement_day);
+
+  return null;
+end;
+$$;
+
+drop trigger if exists store_terms_sync_store on public.store_terms;
+create trigger store_terms_sync_store
+  after insert or update or delete on public.store_terms
+  for each row execute function public.sync_store_current_terms();
+
+-- ---------------------------------------------------------
+-- 정산 수수료 평가 조건: 정산 기간 시작일 기준 계약 조건
+-- (이력이 없으면 업로드 때 요율 / 현재 입점료)
+-- ---------------------------------------------------------
+create or replace function public.settlement_terms(
+  p_header public.settlements_v2,
+  out base_rate numeric,
+  out monthly_store_fee numeric,
+  out terms_from date
+)
+language sql
+stable
+set search_path = public
+as $$
+  select
+    coalesce(t.commission_rate / 100, p_header.commission_rate),
+    case
+      when t.id is not null then coalesce(t.store_fee, 0)
+      else coalesce((
+        select store_fee
+        from public.stores
+        where user_id = auth.uid() and id = p_header.marketplace_id
+      ), 0)
+    end,
+    t.effective_from
+  from public.store_terms_at(p_header.marketplace_id, p_header.period_start) t;
+$$;
@@ -0,0 +1,255 @@
+-- =========================================================
+-- 정산 조정 라인 (settlement_lines_v2.line_kind)
+-- - sale     : 판매 (수량 +, 금액 +)
+-- - return   : 반품/환불 (수량 −, 금액 −) → 재고 반영 시 입점처 재고 +, 원장 사유 'return'
+-- - discount : 프로모션 할인 (금액 −, 상품 없음) → 판매액에서 차감, 수수료도 줄어듦
+-- - shipping : 배송비 차감 (금액 −) ┐ 판매액/수수료와 별개로 정산금에서만 차감
+-- - ad_fee   : 광고비 차감 (금액 −) ┘ → settlements_v2.deduction_amount
+-- - 헤더: gross = 판매+반품+할인, net = gross − 수수료 − 차감
+-- - 바뀌는 조각만 교체: 수수료 대상 라인 / 헤더 합계(evaluate) / 재고 원장·되돌림(판매·반품 사유) / 라인 저장(line_kind)
+-- =========================================================
+
+alter table public.settlement_lines_v2
+  add column if not exists line_kind text not null default 'sale'
+    check (line_kind in ('sale', 'return', 'discount', 'shipping', 'ad_fee'));
+
+alter table public.settlements_v2
+  add column if not exists deduction_amount numeric not null default 0;
+
+-- ---------------------------------------------------------
+-- 수수료 대상: 판매/반품/할인 (배송비/광고비 차감 라인은 수수료 0, 정산금에서만 차감)
+-- ---------------------------------------------------------
+create or replace function public.settlement_commission_lines(p_settlement_id uuid)
+returns setof public.settlement_lines_v2
+language sql
+stable
+set search_path = public
+as $$
+  select *
+  from public.settlement_lines_v2
+  where user_id = auth.uid()
+    and settlement_id = p_settlement_id
+    and line_kind in ('sale', 'return', 'discount');
+$$;
+
+-- ---------------------------------------------------------
+-- 수수료 평가: 헤더에 차감 합계 + 정산금 = 판매액 − 수수료 − 차감
+-- ---------------------------------------------------------
+create or replace function public.evaluate_settlement_commission(p_settlement_id uuid)
+returns public.settlements_v2
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_header public.settlements_v2;
+  v_terms record;
+  v_rules jsonb;
+  v_gross numeric;
+  v_tier jsonb;
+  v_item_fee numeric;
+  v_store_fee numeric := 0;
+  v_qty numeric;
+  v_line_commission numeric;
+  v_shipping numeric;
+  v_ad_fee numeric;
+  v_result public.settlements_v2;
+begin
+  if auth.uid() is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_header
+  from public.settlements_v2
+  where user_id = auth.uid() and id = p_settlement_id;
+
+  if not found then
+    raise exception 'settlement_not_found';
+  end if;
+
+  select * into v_terms from public.settlement_terms(v_header);
+  v_rules := public.commission_rules_for(v_header.marketplace_id);
+
+  select coalesce(sum(gross_amount), 0) into v_gross
+  from public.settlement_commission_lines(p_settlement_id);
+
+  select
+    coalesce(-sum(gross_amount) filter (where line_kind = 'shipping'), 0),
+    coalesce(-sum(gross_amount) filter (where line_kind = 'ad_fee'), 0)
+  into v_shipping, v_ad_fee
+  from public.settlement_lines_v2
+  where user_id = auth.uid() and settlement_id = p_settlement_id;
+
+  v_tier := public.commission_tier(v_rules, v_gross);
+  v_item_fee := coalesce((v_rules->>'item_fee')::numeric, 0);
+
+  -- 1) 라인 수수료 (차감 라인은 0)
+  perform public.apply_line_commissions(
+    p_settlement_id,
+    v_rules,
+    case when v_tier is not null then (v_tier->>'rate')::numeric / 100 else v_terms.base_rate end,
+    v_tier
+  );
+
+  -- 2) 월 입점료
+  if coalesce((v_rules->>'apply_store_fee')::boolean, false) then
+    v_store_fee := public.prorated_store_fee(v_terms.monthly_store_fee, v_header.period_start, v_header.period_end);
+  end if;
+
+  -- 3) 헤더 합계 + 내역
+  select coalesce(sum(qty_sold), 0), coalesce(sum(commission_amount), 0)
+  into v_qty, v_line_commission
+  from public.settlement_commission_lines(p_settlement_id);
+
+  update public.settlements_v2
+  set
+    commission_rate = v_terms.base_rate,
+    gross_amount = v_gross,
+    commission_amount = round(v_line_commission + v_store_fee),
+    deduction_amount = v_shipping + v_ad_fee,
+    net_amount = v_gross - round(v_line_commission + v_store_fee) - (v_shipping + v_ad_fee),
+    commission_breakdown = jsonb_build_object(
+      'base_rate', v_terms.base_rate,
+      'terms_from', v_terms.terms_from,
+      'tier', v_tier,
+      'rate_commission', round(v_line_commission - v_qty * v_item_fee),
+      'item_fee', v_item_fee,
+      'item_fees', round(v_qty * v_item_fee),
+      'store_fee', round(v_store_fee),
+      'deductions', jsonb_build_object('shipping', v_shipping, 'ad_fee', v_ad_fee),
+      'by_rule', public.commission_by_rule(p_settlement_id)
+    ),
+    updated_at = now()
+  where id = p_settlement_id
+  returning * into v_result;
+
+  return v_result;
+end;
+$$;
+
+-- ---------------------------------------------------------
+-- 재고 원장: 판매/반품을 나눠 사유 'sale' / 'return' 으로 (상품 × 사유별 상계)
+-- - 판매 증가분은 차감(−), 반품은 되돌림(+), 교체로 빠진 라인은 역분개
+-- ---------------------------------------------------------
+create or replace function public.post_settlement_inventory(
+  p_settlement_id uuid,
+  p_old_batch_ids uuid[],
+  p_new_lines jsonb,
+  p_memo text
+)
+returns void
+language sql
+set search_path = public
+as $$
+  insert into public.inventory_movements
+    (user_id, store_id, product_id, qty_delta, reason, source_type, source_id, memo, created_by)
+  select s.user_id, s.marketplace_id, d.product_id, (d.old_qty - d.new_qty)::integer, d.reason, 'settlement',
+    s.id::text, p_memo, s.user_id
+  from public.settlements_v2 s
+  cross join lateral (
+    select product_id, reason, sum(old_qty) as old_qty, sum(new_qty) as new_qty
+    from (
+      select l.product_id::text as product_id,
+        case when l.line_kind = 'return' then 'return' else 'sale' end as reason,
+        l.qty_sold as old_qty, 0 as new_qty
+      from public.settlement_lines_v2 l
+      join public.settlement_batches_v2 b on b.id = l.batch_id
+      where b.settlement_id = s.id
+        and b.id = any(p_old_batch_ids)
+        and b.apply_to_inventory
+        and l.product_id is not null
+        and l.line_kind in ('sale', 'return')
+
+      union all
+
+      select nullif(x->>'product_id', ''),
+        case when x->>'line_kind' = 'return' then 'return' else 'sale' end,
+        0, coalesce((x->>'qty_sold')::integer, 0)
+      from jsonb_array_elements(p_new_lines) x
+      where nullif(x->>'product_id', '') is not null
+        and coalesce(nullif(x->>'line_kind', ''), 'sale') in ('sale', 'return')
+    ) t
+    group by product_id, reason
+  ) d
+  where s.id = p_settlement_id
+    and s.user_id = auth.uid()
+    and d.old_qty <> d.new_qty;
+$$;
+
+-- ---------------------------------------------------------
+-- 재고 되돌림(배치/정산 삭제): 판매는 복원(+), 반품은 되돌림(−) — 사유와 메모도 유형별
+-- ---------------------------------------------------------
+create or replace function public.reverse_settlement_inventory(
+  p_settlement_id uuid,
+  p_batch_ids uuid[],
+  p_memo text
+)
+returns void
+language sql
+set search_path = public
+as $$
+  insert into public.inventory_movements
+    (user_id, store_id, product_id, qty_delta, reason, source_type, source_id, memo, created_by)
+  select s.user_id, s.marketplace_id, l.product_id::text, sum(l.qty_sold)::integer, r.reason, 'settlement',
+    s.id::text,
+    p_memo || case when r.reason = 'return' then ' 반품 수량 되돌림' else ' 판매 수량 복원' end,
+    s.user_id
+  from public.settlements_v2 s
+  join public.settlement_batches_v2 b on b.settlement_id = s.id
+  join public.settlement_lines_v2 l on l.batch_id = b.id
+  cross join lateral (
+    select case when l.line_kind = 'return' then 'return' else 'sale' end as reason
+  ) r
+  where s.id = p_settlement_id
+    and s.user_id = auth.uid()
+    and b.id = any(p_batch_ids)
+    and b.apply_to_inventory
+    and l.product_id is not null
+    and l.line_kind in ('sale', 'return')
+  group by s.user_id, s.marketplace_id, s.id, l.product_id::text, r.reason
+  having sum(l.qty_sold) <> 0;
+$$;
+
+-- ---------------------------------------------------------
+-- 배치 라인 저장: 라인 유형 포함
+-- ---------------------------------------------------------
+create or replace function public.insert_settlement_lines(p_batch_id uuid, p_lines jsonb)
+returns void
+language sql
+set search_path = public
+as $$
+  insert into public.settlement_lines_v2
+    (settlement_id, batch_id, user_id, marketplace_id, product_id, product_name_raw, product_name_matched,
+     sku_raw, qty_sold, unit_price, gross_amount, match_status, line_kind)
+  select
+    b.settlement_id,
+    b.id,
+    b.user_id,
+    b.marketplace_id,
+    nullif(x->>'product_id', ''),
+    coalesce(nullif(x->>'product_name_raw', ''), '(unknown)'),
+    nullif(x->>'product_name_matched', ''),
+    nullif(x->>'sku_raw', ''),
+    coalesce((x->>'qty_sold')::integer, 0),
+    nullif(x->>'unit_price', '')::numeric,
+    coalesce((x->>'gross_amount')::numeric, 0),
+    coalesce(nullif(x->>'match_status', ''), 'matched'),
+    coalesce(nullif(x->>'line_kind', ''), 'sale')
+  from public.settlement_batches_v2 b
+  cross join jsonb_array_elements(p_lines) x
+  where b.id = p_batch_id
+    and b.user_id = auth.uid();
+
+  update public.settlement_batches_v2 b
+  set
+    rows_count = t.rows_count,
+    qty_total = t.qty_total,
+    gross_amount = t.gross_amount
+  from (
+    select count(*) as rows_count, coalesce(sum(qty_sold), 0) as qty_total, coalesce(sum(gross_amount), 0) as gross_amount
+    from public.settlement_lines_v2
+    where batch_id = p_batch_id
+  ) t
+  where b.id = p_batch_id
+    and b.user_id = auth.uid();
+$$;